@@ -7,7 +7,8 @@
 // 3. EXECUTION TRACKING: Complete audit trail of AI decisions and actions
 // 4. ERROR HANDLING: Graceful failure management and recovery
 
-import axios from 'axios';
+import { AsyncLocalStorage } from 'async_hooks';
+import axios, { AxiosResponse } from 'axios';
 import { z } from 'zod';
 import { AgentExecutor, createToolCallingAgent } from 'langchain/agents';
 import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
@@ -68,8 +69,124 @@ class ExecutionTracker {
     }
 }
 
-// Create a tracker instance
-const tracker = new ExecutionTracker();
+// One agent query: who asked (tool calls act on their reminders) and the steps taken so far
+interface AgentRun {
+    credentials: Record<string, string>; // Authorization / MCP-Session-ID headers of the caller
+    tracker: ExecutionTracker;
+}
+
+// Tools read the query they run for from here, so overlapping queries never share a caller or steps
+const agentRuns = new AsyncLocalStorage<AgentRun>();
+
+function currentRun(): AgentRun {
+    const run = agentRuns.getStore();
+    if (!run) {
+        throw new Error('Agent tools can only run inside executeAgentQuery');
+    }
+    return run;
+}
+
+function callerHeaders(): Record<string, string> {
+    return { ...currentRun().credentials };
+}
+
+/**
+ * Turns a TIME_CLARIFICATION_NEEDED response (vague or ambiguous time) into an instruction
+ * for the agent to ask the user instead of guessing. Returns undefined for other errors.
+ */
+function clarificationRequest(error: unknown): string | undefined {
+    const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+    if (data?.code !== 'TIME_CLARIFICATION_NEEDED') {
+        return undefined;
+    }
+    const options: { time: string; description: string }[] = data.clarification?.options || [];
+    const choices = options.length > 0
+        ? ` Options (pass the chosen "time" back unchanged): ${options.map(option => `"${option.time}" = ${option.description}`).join('; ')}.`
+        : '';
+    return `CLARIFICATION NEEDED: ${data.error}${choices} Nothing was saved. Ask the user this question and call the tool again once they answer; do not pick a time yourself.`;
+}
+
+/**
+ * Turns a SCHEDULE_CONFLICT response (the event overlaps other reminders) into an instruction
+ * for the agent to offer the free slots instead of double-booking. Returns undefined for other errors.
+ */
+function conflictRequest(error: unknown): string | undefined {
+    const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+    if (data?.code !== 'SCHEDULE_CONFLICT') {
+        return undefined;
+    }
+    const slots: { formattedStart: string }[] = data.freeSlots || [];
+    const choices = slots.length > 0 ? ` Free slots: ${slots.map(slot => slot.formattedStart).join('; ')}.` : '';
+    return `SCHEDULE CONFLICT: ${data.error}${choices} Nothing was saved or sent. Ask the user whether to take one of the free slots or keep the time anyway (then call again with allowConflicts: true).`;
+}
+
+/**
+ * Runs a reminder tool over HTTP while recording the same MCP-style steps
+ * as the hand-written tools below (Agent → MCPClient → MCPServer → service and back).
+ * Client errors from the server (unknown id, bad input) are returned to the agent
+ * verbatim so it can correct itself or explain the problem to the user; a vague time or a
+ * scheduling conflict becomes a question for the user, as for add_reminder.
+ */
+async function executeTrackedTool(
+    toolName: string,
+    input: Record<string, any>,
+    service: string,
+    request: () => Promise<AxiosResponse>,
+    failureMessage: string
+): Promise<string> {
+    const startTime = Date.now();
+    const mcpRequestId = Date.now();
+
+    currentRun().tracker.addStep('tool_call', `Agent selects ${toolName} tool`, 'Agent', 'MCPClient', { 
+        toolName, 
+        parameters: input 
+    });
+    currentRun().tracker.addStep('tool_call', `MCP JSON-RPC Request: tools/call`, 'MCPClient', 'MCPServer', { 
+        request: { jsonrpc: '2.0', id: mcpRequestId, method: 'tools/call', params: { name: toolName, arguments: input } }
+    });
+    currentRun().tracker.addStep('tool_call', `MCP Server routes to tool handler`, 'MCPServer', service, { 
+        toolName,
+        mcpRequestId 
+    });
+
+    try {
+        const response = await request();
+        const duration = Date.now() - startTime;
+        const responseContent = JSON.stringify(response.data);
+
+        currentRun().tracker.addStep('tool_response', response.data?.message || `${toolName} succeeded`, service, 'MCPServer', { 
+            statusCode: response.status,
+            data: response.data 
+        });
+        currentRun().tracker.addStep('tool_response', `MCP JSON-RPC Response`, 'MCPServer', 'MCPClient', { 
+            response: { jsonrpc: '2.0', id: mcpRequestId, result: { content: [{ type: 'text', text: responseContent }] } }
+        });
+        currentRun().tracker.addStep('tool_response', responseContent, 'MCPClient', 'Agent', { 
+            statusCode: response.status,
+            totalDuration: duration 
+        });
+
+        return responseContent;
+    } catch (error) {
+        const duration = Date.now() - startTime;
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        const serverError = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+        const errorMessage = serverError && status && status < 500
+            ? clarificationRequest(error) || conflictRequest(error) || `${serverError}${status === 404 ? '. Use list_reminders to find the correct reminder id.' : ''}`
+            : failureMessage;
+
+        currentRun().tracker.addStep('error', `MCP Error: ${errorMessage}`, 'MCPServer', 'MCPClient', { 
+            error: error instanceof Error ? error.message : 'Unknown error',
+            totalDuration: duration 
+        });
+        currentRun().tracker.addStep('error', errorMessage, 'MCPClient', 'Agent', { 
+            error: error instanceof Error ? error.message : 'Unknown error' 
+        });
+
+        console.error(`Error calling ${toolName}:`, error);
+        return errorMessage;
+    }
+}
 
 // 🔧 MCP TOOL DEFINITIONS
 // Each tool demonstrates MCP best practices:
@@ -78,12 +195,15 @@ const tracker = new ExecutionTracker();
 // - Execution tracking for observability
 // - Proper error handling and propagation
 
+// Alerts before a reminder, phrased as the user says them ("1 hour before", "1 day before by email")
+const alarmsSchema = z.array(z.string().describe('One alert, e.g. "1 hour before", "1 day before by email", "at start", "at 8 AM on Nov 3".'));
+
 const addReminderTool = tool(
-    async (input: { time: string; task: string }) => {
+    async (input: { time: string; task: string; recurrence?: string; recurrenceExceptions?: string[]; tags?: string[]; priority?: 'low' | 'normal' | 'high' | 'urgent'; category?: string; timeZone?: string; locale?: string; workingDaysOnly?: boolean; allDay?: boolean; alarms?: string[] }) => {
         const startTime = Date.now();
         
         // Step 1: Agent decides to call tool
-        tracker.addStep('tool_call', `Agent selects add_reminder tool`, 'Agent', 'MCPClient', { 
+        currentRun().tracker.addStep('tool_call', `Agent selects add_reminder tool`, 'Agent', 'MCPClient', { 
             toolName: 'add_reminder', 
             parameters: input 
         });
@@ -96,22 +216,22 @@ const addReminderTool = tool(
             method: 'tools/call',
             params: { name: 'add_reminder', arguments: input }
         };
-        tracker.addStep('tool_call', `MCP JSON-RPC Request: tools/call`, 'MCPClient', 'MCPServer', { 
+        currentRun().tracker.addStep('tool_call', `MCP JSON-RPC Request: tools/call`, 'MCPClient', 'MCPServer', { 
             request: mcpRequest 
         });
         
         // Step 3: MCP Server processes request
-        tracker.addStep('tool_call', `MCP Server routes to tool handler`, 'MCPServer', 'ReminderService', { 
+        currentRun().tracker.addStep('tool_call', `MCP Server routes to tool handler`, 'MCPServer', 'ReminderService', { 
             toolName: 'add_reminder',
             mcpRequestId 
         });
         
         try {
-            const response = await axios.post(`${serverUrl}/tools/add_reminder`, input);
+            const response = await axios.post(`${serverUrl}/tools/add_reminder`, input, { headers: callerHeaders() });
             const duration = Date.now() - startTime;
             
             // Step 4: Business logic executes
-            tracker.addStep('tool_response', `Reminder stored successfully`, 'ReminderService', 'MCPServer', { 
+            currentRun().tracker.addStep('tool_response', `Reminder stored successfully`, 'ReminderService', 'MCPServer', { 
                 statusCode: response.status,
                 data: response.data 
             });
@@ -122,13 +242,13 @@ const addReminderTool = tool(
                 id: mcpRequestId,
                 result: { content: [{ type: 'text', text: JSON.stringify(response.data) }] }
             };
-            tracker.addStep('tool_response', `MCP JSON-RPC Response`, 'MCPServer', 'MCPClient', { 
+            currentRun().tracker.addStep('tool_response', `MCP JSON-RPC Response`, 'MCPServer', 'MCPClient', { 
                 response: mcpResponse 
             });
             
             // Step 6: MCP Client returns to Agent
             const responseContent = JSON.stringify(response.data);
-            const finalStepId = tracker.addStep('tool_response', responseContent, 'MCPClient', 'Agent', { 
+            const finalStepId = currentRun().tracker.addStep('tool_response', responseContent, 'MCPClient', 'Agent', { 
                 statusCode: response.status,
                 totalDuration: duration 
             });
@@ -137,12 +257,12 @@ const addReminderTool = tool(
         } catch (error) {
             const duration = Date.now() - startTime;
             
-            const errorMessage = 'Failed to add reminder. Please check the server.';
-            tracker.addStep('error', `MCP Error: ${errorMessage}`, 'MCPServer', 'MCPClient', { 
+            const errorMessage = clarificationRequest(error) || 'Failed to add reminder. Please check the server.';
+            currentRun().tracker.addStep('error', `MCP Error: ${errorMessage}`, 'MCPServer', 'MCPClient', { 
                 error: error instanceof Error ? error.message : 'Unknown error',
                 totalDuration: duration 
             });
-            tracker.addStep('error', errorMessage, 'MCPClient', 'Agent', { 
+            currentRun().tracker.addStep('error', errorMessage, 'MCPClient', 'Agent', { 
                 error: error instanceof Error ? error.message : 'Unknown error' 
             });
             
@@ -156,19 +276,34 @@ const addReminderTool = tool(
         schema: z.object({
             time: z.string().describe('The time for the reminder, e.g., "10:00 AM", "tonight at 8pm".'),
             task: z.string().describe('The task or message for the reminder, e.g., "call the doctor", "buy groceries".'),
+            recurrence: z.string().optional().describe('Optional repeat pattern, e.g. "every weekday", "every other Tuesday", "first Monday of each month", "daily for 10 times".'),
+            recurrenceExceptions: z.array(z.string()).optional().describe('Optional dates on which a repeating reminder is skipped, e.g. ["2026-12-25"].'),
+            tags: z.array(z.string()).optional().describe('Optional tags, e.g. ["admin"]. Inline "#admin" in the task also works.'),
+            priority: z.enum(['low', 'normal', 'high', 'urgent']).optional().describe('Optional priority (default: normal). Inline "high priority: ..." in the task also works.'),
+            category: z.string().optional().describe('Optional category, e.g. "work", "health".'),
+            timeZone: z.string().optional().describe('Optional IANA time zone the time is read in, e.g. "America/New_York" (default: your preference, then the server zone).'),
+            locale: z.string().optional().describe('Optional language the time is written in: "en", "es" ("mañana a las 3") or "de" ("morgen um 15 Uhr") (default: your preference, then English).'),
+            workingDaysOnly: z.boolean().optional().describe('Move the reminder (and each later occurrence) to the next working day when it falls on a weekend or holiday.'),
+            allDay: z.boolean().optional().describe('Make a date ("Oct 30") a whole-day reminder, e.g. a birthday. Ranges ("Nov 4-6") and "all day" phrases are all-day anyway.'),
+            alarms: alarmsSchema.optional().describe('Optional alerts before the reminder, e.g. ["1 hour before"] (default: your preference); ["none"] for no alerts.'),
         }),
     }
 );
 
 const listRemindersTool = tool(
-    async () => {
+    async (input: {
+        from?: string; to?: string; dueOn?: string; status?: string; email?: string; search?: string;
+        sortBy?: 'dueAt' | 'createdAt' | 'task'; order?: 'asc' | 'desc'; limit?: number; offset?: number; occurrences?: number;
+        tags?: string; priority?: string; category?: string; groupBy?: 'tag' | 'priority' | 'category';
+        allUsers?: boolean; owner?: string; timeZone?: string;
+    }) => {
         const startTime = Date.now();
-        const stepId = tracker.addStep('tool_call', 'list_reminders()', 'Agent', 'ReminderService');
+        const stepId = currentRun().tracker.addStep('tool_call', `list_reminders(${JSON.stringify(input || {})})`, 'Agent', 'ReminderService');
         
         try {
-            const response = await axios.get(`${serverUrl}/tools/list_reminders`);
+            const response = await axios.get(`${serverUrl}/tools/list_reminders`, { params: input, headers: callerHeaders() });
             const duration = Date.now() - startTime;
-            tracker.updateStepDuration(stepId, duration);
+            currentRun().tracker.updateStepDuration(stepId, duration);
             
             const reminders = response.data;
             let responseContent: string;
@@ -179,15 +314,15 @@ const listRemindersTool = tool(
                 responseContent = JSON.stringify(reminders);
             }
             
-            tracker.addStep('tool_response', responseContent, 'ReminderService', 'Agent', { reminderCount: reminders.length });
+            currentRun().tracker.addStep('tool_response', responseContent, 'ReminderService', 'Agent', { reminderCount: reminders.length });
             
             return responseContent;
         } catch (error) {
             const duration = Date.now() - startTime;
-            tracker.updateStepDuration(stepId, duration);
+            currentRun().tracker.updateStepDuration(stepId, duration);
             
             const errorMessage = 'Failed to list reminders. Please check the server.';
-            tracker.addStep('error', errorMessage, 'ReminderService', 'Agent', { error: error instanceof Error ? error.message : 'Unknown error' });
+            currentRun().tracker.addStep('error', errorMessage, 'ReminderService', 'Agent', { error: error instanceof Error ? error.message : 'Unknown error' });
             
             console.error('Error calling list_reminders:', error);
             return errorMessage;
@@ -196,16 +331,62 @@ const listRemindersTool = tool(
     {
         name: 'list_reminders',
         description: 'Lists all current reminders. Use this to find out what reminders have been set.',
-        schema: z.object({}),
+        schema: z.object({
+            from: z.string().optional().describe('Only reminders due at or after this time (ISO timestamp or expression like "today at 12 AM").'),
+            to: z.string().optional().describe('Only reminders due at or before this time (ISO timestamp or expression).'),
+            dueOn: z.string().optional().describe('Only reminders due on this day, e.g. "tomorrow" or "2026-11-03".'),
+            status: z.string().optional().describe('Comma-separated statuses to include: pending, fired, completed.'),
+            email: z.string().optional().describe('Only reminders sent to this email address.'),
+            search: z.string().optional().describe('Only reminders whose task or time phrase contains this text.'),
+            sortBy: z.enum(['dueAt', 'createdAt', 'task', 'priority']).optional().describe('Sort field (default: dueAt).'),
+            order: z.enum(['asc', 'desc']).optional().describe('Sort order (default: asc).'),
+            limit: z.number().optional().describe('Maximum number of reminders to return.'),
+            offset: z.number().optional().describe('Number of matching reminders to skip (for paging).'),
+            tags: z.string().optional().describe('Comma-separated tags; only reminders carrying all of them, e.g. "admin".'),
+            priority: z.string().optional().describe('Comma-separated priorities to include: low, normal, high, urgent.'),
+            category: z.string().optional().describe('Only reminders in this category.'),
+            groupBy: z.enum(['tag', 'priority', 'category']).optional().describe('Group the results by tag, priority or category.'),
+            occurrences: z.number().optional().describe('Optional: also list the next N occurrences of each repeating reminder.'),
+            allUsers: z.boolean().optional().describe("Admin only: list every user's reminders instead of just your own."),
+            owner: z.string().optional().describe('Admin only: list the reminders of this user id.'),
+            timeZone: z.string().optional().describe('Optional IANA time zone for "from", "to" and "dueOn" (default: your preference, then the server zone).'),
+        }),
     }
 );
 
+const getReminderTool = tool(
+    async (input: { id: string }) => {
+        return executeTrackedTool(
+            'get_reminder',
+            input,
+            'ReminderService',
+            () => axios.get(`${serverUrl}/tools/get_reminder`, { params: input, headers: callerHeaders() }),
+            'Failed to get the reminder. Please check the server.'
+        );
+    },
+    {
+        name: 'get_reminder',
+        description: "Shows one reminder in full. For an emailed invite this includes each attendee's RSVP (accepted, tentative, declined, delegated or no answer yet) and a count of the answers.",
+        schema: z.object({
+            id: z.string().describe('The id of the reminder, as returned by list_reminders.'),
+        }),
+    }
+);
+
+// Invitees of an emailed invite: every address the user names, with display names and roles when given
+type AttendeeInput = { email: string; name?: string; role?: 'required' | 'optional' };
+const attendeesSchema = z.array(z.object({
+    email: z.string().email().describe('Attendee email address.'),
+    name: z.string().optional().describe('Display name, e.g. "Jane Doe", if the user gives one.'),
+    role: z.enum(['required', 'optional']).optional().describe('"optional" for people who may skip it (default: required).'),
+}));
+
 const sendEmailReminderTool = tool(
-    async (input: { time: string; task: string; email: string; senderName?: string; eventDuration?: number; eventLocation?: string }) => {
+    async (input: { time: string; task: string; email?: string; attendees?: AttendeeInput[]; senderName?: string; eventDuration?: number; eventLocation?: string; recurrence?: string; recurrenceExceptions?: string[]; tags?: string[]; priority?: 'low' | 'normal' | 'high' | 'urgent'; category?: string; timeZone?: string; recipientTimeZone?: string; locale?: string; recipientLocale?: string; workingDaysOnly?: boolean; allDay?: boolean; alarms?: string[]; allowConflicts?: boolean }) => {
         const startTime = Date.now();
         
         // Step 1: Agent decides to send email reminder
-        tracker.addStep('tool_call', `Agent selects send_email_reminder tool`, 'Agent', 'MCPClient', { 
+        currentRun().tracker.addStep('tool_call', `Agent selects send_email_reminder tool`, 'Agent', 'MCPClient', { 
             toolName: 'send_email_reminder', 
             parameters: input 
         });
@@ -218,23 +399,23 @@ const sendEmailReminderTool = tool(
             method: 'tools/call',
             params: { name: 'send_email_reminder', arguments: input }
         };
-        tracker.addStep('tool_call', `MCP JSON-RPC Request: tools/call`, 'MCPClient', 'MCPServer', { 
+        currentRun().tracker.addStep('tool_call', `MCP JSON-RPC Request: tools/call`, 'MCPClient', 'MCPServer', { 
             request: mcpRequest 
         });
         
         // Step 3: MCP Server routes to email service
-        tracker.addStep('tool_call', `MCP Server routes to email tool handler`, 'MCPServer', 'EmailService', { 
+        currentRun().tracker.addStep('tool_call', `MCP Server routes to email tool handler`, 'MCPServer', 'EmailService', { 
             toolName: 'send_email_reminder',
             mcpRequestId,
-            emailTarget: input.email 
+            emailTarget: [input.email, ...(input.attendees || []).map(attendee => attendee.email)].filter(Boolean).join(', ')
         });
         
         try {
-            const response = await axios.post(`${serverUrl}/tools/send_email_reminder`, input);
+            const response = await axios.post(`${serverUrl}/tools/send_email_reminder`, input, { headers: callerHeaders() });
             const duration = Date.now() - startTime;
             
             // Step 4: Email service processes and sends email
-            tracker.addStep('tool_response', `Email sent with calendar invite`, 'EmailService', 'MCPServer', { 
+            currentRun().tracker.addStep('tool_response', `Email sent with calendar invite`, 'EmailService', 'MCPServer', { 
                 statusCode: response.status,
                 emailSent: true,
                 calendarIncluded: response.data.calendarIncluded,
@@ -247,13 +428,13 @@ const sendEmailReminderTool = tool(
                 id: mcpRequestId,
                 result: { content: [{ type: 'text', text: JSON.stringify(response.data) }] }
             };
-            tracker.addStep('tool_response', `MCP JSON-RPC Response`, 'MCPServer', 'MCPClient', { 
+            currentRun().tracker.addStep('tool_response', `MCP JSON-RPC Response`, 'MCPServer', 'MCPClient', { 
                 response: mcpResponse 
             });
             
             // Step 6: MCP Client returns to Agent
             const responseContent = JSON.stringify(response.data);
-            tracker.addStep('tool_response', responseContent, 'MCPClient', 'Agent', { 
+            currentRun().tracker.addStep('tool_response', responseContent, 'MCPClient', 'Agent', { 
                 statusCode: response.status,
                 emailSent: true,
                 totalDuration: duration 
@@ -263,13 +444,13 @@ const sendEmailReminderTool = tool(
         } catch (error) {
             const duration = Date.now() - startTime;
             
-            const errorMessage = 'Failed to send email reminder. Please check the email server and configuration.';
-            tracker.addStep('error', `MCP Error: ${errorMessage}`, 'MCPServer', 'MCPClient', { 
+            const errorMessage = clarificationRequest(error) || conflictRequest(error) || 'Failed to send email reminder. Please check the email server and configuration.';
+            currentRun().tracker.addStep('error', `MCP Error: ${errorMessage}`, 'MCPServer', 'MCPClient', { 
                 error: error instanceof Error ? error.message : 'Unknown error',
                 emailSent: false,
                 totalDuration: duration 
             });
-            tracker.addStep('error', errorMessage, 'MCPClient', 'Agent', { 
+            currentRun().tracker.addStep('error', errorMessage, 'MCPClient', 'Agent', { 
                 error: error instanceof Error ? error.message : 'Unknown error',
                 emailSent: false 
             });
@@ -280,19 +461,340 @@ const sendEmailReminderTool = tool(
     },
     {
         name: 'send_email_reminder',
-        description: 'Sends an email reminder with calendar invite to a specified email address. Automatically parses time expressions and creates calendar events.',
+        description: 'Sends an email reminder with calendar invite to one or more people. Put every address from the request in "email" or "attendees"; all of them get the same email and are listed in the invite. Automatically parses time expressions and creates calendar events.',
         schema: z.object({
             time: z.string().describe('The time for the reminder. Can be natural language like "tomorrow at 2 PM", "next week", "in 3 hours", or specific times like "10:00 AM".'),
             task: z.string().describe('The task or message for the reminder, e.g., "call the doctor", "team meeting", "dentist appointment".'),
-            email: z.string().email().describe('The email address to send the reminder to.'),
+            email: z.string().optional().describe('The email address to send the reminder to (several may be comma-separated; all are required attendees).'),
+            attendees: attendeesSchema.optional().describe('Attendees with display names and roles, e.g. [{ email: "jane@example.com", name: "Jane Doe", role: "optional" }]. Use with or instead of "email".'),
             senderName: z.string().optional().describe('Optional name of the sender for personalization.'),
-            eventDuration: z.number().optional().describe('Duration of the event in minutes. If not specified, will be automatically suggested based on the task type.'),
+            eventDuration: z.number().optional().describe('Duration of the event in minutes. Only set it when the user gives one; otherwise it is suggested from the task.'),
             eventLocation: z.string().optional().describe('Location for the calendar event, if mentioned in the request.'),
+            recurrence: z.string().optional().describe('Optional repeat pattern, e.g. "every weekday", "every other Tuesday", "first Monday of each month", "daily for 10 times".'),
+            recurrenceExceptions: z.array(z.string()).optional().describe('Optional dates on which a repeating reminder is skipped, e.g. ["2026-12-25"].'),
+            tags: z.array(z.string()).optional().describe('Optional tags, e.g. ["admin"]. Inline "#admin" in the task also works.'),
+            priority: z.enum(['low', 'normal', 'high', 'urgent']).optional().describe('Optional priority (default: normal). Inline "high priority: ..." in the task also works.'),
+            category: z.string().optional().describe('Optional category, e.g. "work", "health".'),
+            timeZone: z.string().optional().describe('Optional IANA time zone the time is read in, e.g. "America/New_York" (default: your preference, then the server zone).'),
+            recipientTimeZone: z.string().optional().describe('Optional IANA time zone the email shows times in (default: timeZone).'),
+            locale: z.string().optional().describe('Optional language the time is written in: "en", "es" ("mañana a las 3") or "de" ("morgen um 15 Uhr") (default: your preference, then English).'),
+            recipientLocale: z.string().optional().describe('Optional language of the email and calendar invite, e.g. "de" (default: locale).'),
+            workingDaysOnly: z.boolean().optional().describe('Move the event to the next working day when it falls on a weekend or holiday.'),
+            allDay: z.boolean().optional().describe('Send an all-day invite for the date or range of days in the time (no duration, never a conflict).'),
+            alarms: alarmsSchema.optional().describe('Optional calendar alerts, e.g. ["1 day before", "2 hours before by email"] (default: your preference, then 15 and 5 minutes before); ["none"] for no alerts.'),
+            allowConflicts: z.boolean().optional().describe('Send even though the event overlaps other reminders. Only after the user agreed to the overlap.'),
+        }),
+    }
+);
+
+const updateReminderTool = tool(
+    async (input: { id: string; time?: string; task?: string; email?: string; attendees?: AttendeeInput[]; recurrence?: string; recurrenceExceptions?: string[]; tags?: string[]; priority?: 'low' | 'normal' | 'high' | 'urgent'; category?: string; timeZone?: string; locale?: string; workingDaysOnly?: boolean; allDay?: boolean; alarms?: string[] }) => {
+        return executeTrackedTool(
+            'update_reminder',
+            input,
+            'ReminderService',
+            () => axios.post(`${serverUrl}/tools/update_reminder`, input, { headers: callerHeaders() }),
+            'Failed to update reminder. Please check the server.'
+        );
+    },
+    {
+        name: 'update_reminder',
+        description: 'Updates an existing reminder, e.g. to fix a typo or reschedule it. Only the provided fields are changed. If the reminder emailed a calendar invite, its attendees get an updated invite that replaces the original event and removed attendees get a cancellation.',
+        schema: z.object({
+            id: z.string().describe('The id of the reminder to update, as returned by list_reminders.'),
+            time: z.string().optional().describe('The new time for the reminder, e.g., "tomorrow at 3 PM".'),
+            task: z.string().optional().describe('The new task or message for the reminder.'),
+            email: z.string().email().optional().describe('The new primary email address of the reminder (other attendees are kept).'),
+            attendees: attendeesSchema.optional().describe('New attendee list (replaces the existing one); include everyone who should stay invited.'),
+            recurrence: z.string().optional().describe('New repeat pattern, e.g. "every Monday", or "none" to stop repeating.'),
+            recurrenceExceptions: z.array(z.string()).optional().describe('Dates on which the repeating reminder is skipped (replaces the existing list).'),
+            tags: z.array(z.string()).optional().describe('New tags (replaces the existing list).'),
+            priority: z.enum(['low', 'normal', 'high', 'urgent']).optional().describe('New priority.'),
+            category: z.string().optional().describe('New category (empty string clears it).'),
+            timeZone: z.string().optional().describe('New IANA time zone; the time is re-read in this zone.'),
+            locale: z.string().optional().describe('Language the (new) time is written in, e.g. "es" (default: the language the reminder was created in).'),
+            workingDaysOnly: z.boolean().optional().describe('Turn moving the reminder off weekends and holidays on or off; the due time is re-resolved.'),
+            allDay: z.boolean().optional().describe('Make the reminder all-day (true) or timed (false); the time is re-read.'),
+            alarms: alarmsSchema.optional().describe('New alerts replacing the current ones; ["none"] removes them.'),
+        }),
+    }
+);
+
+const deleteReminderTool = tool(
+    async (input: { id: string }) => {
+        return executeTrackedTool(
+            'delete_reminder',
+            input,
+            'ReminderService',
+            () => axios.post(`${serverUrl}/tools/delete_reminder`, input, { headers: callerHeaders() }),
+            'Failed to delete reminder. Please check the server.'
+        );
+    },
+    {
+        name: 'delete_reminder',
+        description: 'Permanently removes a reminder. If it emailed a calendar invite, every attendee gets a cancellation that removes the event.',
+        schema: z.object({
+            id: z.string().describe('The id of the reminder to delete, as returned by list_reminders.'),
+        }),
+    }
+);
+
+const completeReminderTool = tool(
+    async (input: { id: string }) => {
+        return executeTrackedTool(
+            'complete_reminder',
+            input,
+            'ReminderService',
+            () => axios.post(`${serverUrl}/tools/complete_reminder`, input, { headers: callerHeaders() }),
+            'Failed to complete reminder. Please check the server.'
+        );
+    },
+    {
+        name: 'complete_reminder',
+        description: 'Marks a reminder as done so it no longer fires.',
+        schema: z.object({
+            id: z.string().describe('The id of the reminder to complete, as returned by list_reminders.'),
+        }),
+    }
+);
+
+const snoozeReminderTool = tool(
+    async (input: { id: string; duration: string; timeZone?: string; locale?: string }) => {
+        return executeTrackedTool(
+            'snooze_reminder',
+            input,
+            'ReminderService',
+            () => axios.post(`${serverUrl}/tools/snooze_reminder`, input, { headers: callerHeaders() }),
+            'Failed to snooze reminder. Please check the server.'
+        );
+    },
+    {
+        name: 'snooze_reminder',
+        description: 'Pushes a reminder back, e.g. for 10 minutes or until tomorrow morning.',
+        schema: z.object({
+            id: z.string().describe('The id of the reminder to snooze, as returned by list_reminders.'),
+            duration: z.string().describe('How long to snooze, e.g. "10 minutes", "2 hours", "until tomorrow morning".'),
+            timeZone: z.string().optional().describe('Optional IANA time zone for "until tomorrow morning" (default: the zone of the reminder).'),
+            locale: z.string().optional().describe('Optional language of the duration, e.g. "de" for "10 Minuten" (default: the language of the reminder).'),
+        }),
+    }
+);
+
+const importCalendarTool = tool(
+    async (input: { ics: string; includePast?: boolean; timeZone?: string }) => {
+        return executeTrackedTool(
+            'import_calendar',
+            input,
+            'CalendarService',
+            () => axios.post(`${serverUrl}/tools/import_calendar`, input, { headers: callerHeaders() }),
+            'Failed to import calendar. Please check the server.'
+        );
+    },
+    {
+        name: 'import_calendar',
+        description: 'Imports reminders from the contents of an .ics calendar file. Events already imported (same UID) are skipped.',
+        schema: z.object({
+            ics: z.string().describe('The full text of the .ics file (BEGIN:VCALENDAR ... END:VCALENDAR).'),
+            includePast: z.boolean().optional().describe('Also import one-off events that already happened (default: false).'),
+            timeZone: z.string().optional().describe('Optional IANA time zone for floating and all-day events (default: your preference, then the server zone).'),
         }),
     }
 );
 
-const tools = [addReminderTool, listRemindersTool, sendEmailReminderTool];
+const suggestDurationTool = tool(
+    async (input: { task: string; location?: string }) => {
+        return executeTrackedTool(
+            'suggest_duration',
+            input,
+            'DurationService',
+            () => axios.get(`${serverUrl}/tools/suggest_duration`, { params: input, headers: callerHeaders() }),
+            'Failed to suggest a duration. Please check the server.'
+        );
+    },
+    {
+        name: 'suggest_duration',
+        description: "Suggests how long the calendar event for a task should be, from the user's duration rules, durations they chose for similar reminders before, and shared keyword rules.",
+        schema: z.object({
+            task: z.string().describe('The task, e.g. "dentist appointment".'),
+            location: z.string().optional().describe('Optional location, e.g. "Conference Room A".'),
+        }),
+    }
+);
+
+const findFreeSlotTool = tool(
+    async (input: { duration?: number; task?: string; location?: string; from?: string; to?: string; count?: number; timeZone?: string }) => {
+        return executeTrackedTool(
+            'find_free_slot',
+            input,
+            'CalendarService',
+            () => axios.get(`${serverUrl}/tools/find_free_slot`, { params: input, headers: callerHeaders() }),
+            'Failed to find free slots. Please check the server.'
+        );
+    },
+    {
+        name: 'find_free_slot',
+        description: "Proposes the next free windows of a given length within the user's working hours, around their reminders.",
+        schema: z.object({
+            duration: z.number().optional().describe('Length of the slot in minutes, if the user gives one.'),
+            task: z.string().optional().describe('What the slot is for, to suggest its length when no duration is given, e.g. "dentist appointment".'),
+            location: z.string().optional().describe('Optional location, used for the suggested length.'),
+            from: z.string().optional().describe('Search from this time, e.g. "tomorrow at 12 AM" (default: now).'),
+            to: z.string().optional().describe('Search until this time, e.g. "in 7 days" (default: 14 days after from).'),
+            count: z.number().optional().describe('How many slots to propose (default 3).'),
+            timeZone: z.string().optional().describe('Optional IANA time zone of the working hours (default: your preference).'),
+        }),
+    }
+);
+
+const previewReminderTool = tool(
+    async (input: { time: string; task: string; email?: string; attendees?: AttendeeInput[]; eventDuration?: number; eventLocation?: string; recurrence?: string; recurrenceExceptions?: string[]; priority?: 'low' | 'normal' | 'high' | 'urgent'; timeZone?: string; recipientTimeZone?: string; locale?: string; recipientLocale?: string; workingDaysOnly?: boolean; allDay?: boolean; alarms?: string[] }) => {
+        return executeTrackedTool(
+            'preview_reminder',
+            input,
+            'CalendarService',
+            () => axios.post(`${serverUrl}/tools/preview_reminder`, input, { headers: callerHeaders() }),
+            'Failed to preview the reminder. Please check the server.'
+        );
+    },
+    {
+        name: 'preview_reminder',
+        description: 'Dry run of send_email_reminder: shows the resolved start and end, time interpretation, confidence, suggested duration, email subject and calendar invite without saving or sending anything.',
+        schema: z.object({
+            time: z.string().describe('The time for the reminder, e.g. "tomorrow at 2 PM", "every weekday at 9 AM".'),
+            task: z.string().describe('The task or message for the reminder, e.g. "team meeting".'),
+            email: z.string().optional().describe('Optional recipient(s), comma-separated; added to the invite as required attendees.'),
+            attendees: attendeesSchema.optional().describe('Optional attendees with display names and roles, as for send_email_reminder.'),
+            eventDuration: z.number().optional().describe('Optional duration in minutes (default: suggested from the task).'),
+            eventLocation: z.string().optional().describe('Optional location for the calendar event.'),
+            recurrence: z.string().optional().describe('Optional repeat pattern, e.g. "every weekday".'),
+            recurrenceExceptions: z.array(z.string()).optional().describe('Optional dates on which a repeating reminder is skipped, e.g. ["2026-12-25"].'),
+            priority: z.enum(['low', 'normal', 'high', 'urgent']).optional().describe('Optional priority (default: normal).'),
+            timeZone: z.string().optional().describe('Optional IANA time zone the time is read in (default: your preference, then the server zone).'),
+            recipientTimeZone: z.string().optional().describe('Optional IANA time zone the email shows times in (default: timeZone).'),
+            locale: z.string().optional().describe('Optional language the time is written in, e.g. "es" (default: your preference, then English).'),
+            recipientLocale: z.string().optional().describe('Optional language of the email and calendar invite (default: locale).'),
+            workingDaysOnly: z.boolean().optional().describe('Preview with the time moved off weekends and holidays, as send_email_reminder would.'),
+            allDay: z.boolean().optional().describe('Preview an all-day event, as send_email_reminder would send it.'),
+            alarms: alarmsSchema.optional().describe('Optional alerts, as for send_email_reminder.'),
+        }),
+    }
+);
+
+const getPreferencesTool = tool(
+    async () => {
+        return executeTrackedTool(
+            'get_preferences',
+            {},
+            'PreferenceService',
+            () => axios.get(`${serverUrl}/tools/get_preferences`, { headers: callerHeaders() }),
+            'Failed to load preferences. Please check the server.'
+        );
+    },
+    {
+        name: 'get_preferences',
+        description: 'Shows your preferences, such as the time zone and language your reminders are read in, your work week, working hours, default alarms and the holidays that apply.',
+        schema: z.object({}),
+    }
+);
+
+const updatePreferencesTool = tool(
+    async (input: { timeZone?: string; locale?: string; workWeek?: string; workingHours?: string; organizerName?: string; organizerEmail?: string; alarms?: string[] }) => {
+        return executeTrackedTool(
+            'update_preferences',
+            input,
+            'PreferenceService',
+            () => axios.post(`${serverUrl}/tools/update_preferences`, input, { headers: callerHeaders() }),
+            'Failed to update preferences. Please check the server.'
+        );
+    },
+    {
+        name: 'update_preferences',
+        description: 'Changes your preferences, e.g. your time zone, language, work week, working hours, default alarms or the organizer shown on your invites.',
+        schema: z.object({
+            timeZone: z.string().optional().describe('IANA time zone, e.g. "Europe/Berlin" (empty string falls back to the server zone).'),
+            locale: z.string().optional().describe('Language of your time phrases and reminder emails: "en", "es" or "de" (empty string falls back to the default).'),
+            workWeek: z.string().optional().describe('Your working days, e.g. "mon-fri" or "sun-thu" (empty string restores Monday to Friday).'),
+            workingHours: z.string().optional().describe('Your working hours, e.g. "08:30-16:30" (empty string restores 09:00-17:00).'),
+            organizerName: z.string().optional().describe('Organizer name on your calendar invites and sender name of their emails (empty string restores the default).'),
+            organizerEmail: z.string().optional().describe('Organizer address on your invites; replies go there (empty string restores the default).'),
+            alarms: alarmsSchema.optional().describe('Default alerts of your reminders and invites, relative only, e.g. ["1 hour before", "10 minutes before"]; ["none"] for none.'),
+        }),
+    }
+);
+
+const getCalendarFeedTool = tool(
+    async (input: { tags?: string; from?: string; to?: string; status?: string; priority?: string; category?: string }) => {
+        return executeTrackedTool(
+            'get_calendar_feed',
+            input,
+            'CalendarService',
+            () => axios.get(`${serverUrl}/tools/get_calendar_feed`, { params: input, headers: callerHeaders() }),
+            'Failed to get the calendar feed URL. Please check the server.'
+        );
+    },
+    {
+        name: 'get_calendar_feed',
+        description: 'Gives a private URL to subscribe to in a calendar app; it shows your reminders as calendar events and stays up to date.',
+        schema: z.object({
+            tags: z.string().optional().describe('Comma-separated tags; only reminders carrying all of them, e.g. "work".'),
+            from: z.string().optional().describe('Only reminders due at or after this time, re-read on every refresh (e.g. "today at 12 AM").'),
+            to: z.string().optional().describe('Only reminders due at or before this time, e.g. "in 30 days".'),
+            dueOn: z.string().optional().describe('Only reminders due on this day, e.g. "tomorrow" or "2026-11-03".'),
+            status: z.string().optional().describe('Comma-separated statuses to include: pending, fired, completed.'),
+            priority: z.string().optional().describe('Comma-separated priorities to include: low, normal, high, urgent.'),
+            category: z.string().optional().describe('Only reminders in this category.'),
+            search: z.string().optional().describe('Only reminders whose task or time phrase contains this text.'),
+        }),
+    }
+);
+
+const resetCalendarFeedTool = tool(
+    async () => {
+        return executeTrackedTool(
+            'reset_calendar_feed',
+            {},
+            'CalendarService',
+            () => axios.post(`${serverUrl}/tools/reset_calendar_feed`, {}, { headers: callerHeaders() }),
+            'Failed to reset the calendar feed. Please check the server.'
+        );
+    },
+    {
+        name: 'reset_calendar_feed',
+        description: 'Revokes every calendar feed URL you were given (e.g. after one was shared by mistake) and returns a new one; calendar apps must subscribe again.',
+        schema: z.object({}),
+    }
+);
+
+const exportRemindersTool = tool(
+    async (input: { format?: 'md' | 'csv' | 'json' | 'ics' | 'jcal'; from?: string; to?: string; dueOn?: string; status?: string; search?: string; tags?: string; priority?: string; category?: string; timeZone?: string; locale?: string }) => {
+        return executeTrackedTool(
+            'export_reminders',
+            input,
+            'ReminderService',
+            () => axios.get(`${serverUrl}/tools/export_reminders`, { params: input, headers: callerHeaders() }),
+            'Failed to export the reminders. Please check the server.'
+        );
+    },
+    {
+        name: 'export_reminders',
+        description: 'Exports your reminders as a document: a Markdown agenda grouped by day, a CSV table for spreadsheets, JSON, or an iCalendar / jCal calendar to import elsewhere. Takes the list_reminders filters.',
+        schema: z.object({
+            format: z.enum(['md', 'csv', 'json', 'ics', 'jcal']).optional().describe('md (Markdown agenda, the default), csv, json, ics (iCalendar) or jcal (iCalendar as JSON).'),
+            from: z.string().optional().describe('Only reminders due at or after this time; repeating reminders appear in the agenda at each occurrence from here on.'),
+            to: z.string().optional().describe('Only reminders due at or before this time, e.g. "in 7 days".'),
+            dueOn: z.string().optional().describe('Only reminders due on this day, e.g. "tomorrow" or "2026-11-03".'),
+            status: z.string().optional().describe('Comma-separated statuses to include: pending, fired, completed.'),
+            search: z.string().optional().describe('Only reminders whose task or time phrase contains this text.'),
+            tags: z.string().optional().describe('Comma-separated tags; only reminders carrying all of them, e.g. "work".'),
+            priority: z.string().optional().describe('Comma-separated priorities to include: low, normal, high, urgent.'),
+            category: z.string().optional().describe('Only reminders in this category.'),
+            timeZone: z.string().optional().describe('Optional IANA time zone of the times in the export (default: your preference, then the server zone).'),
+            locale: z.string().optional().describe('Optional language of dates and labels in the agenda: "en", "es" or "de" (default: your preference).'),
+        }),
+    }
+);
+
+const tools = [addReminderTool, listRemindersTool, getReminderTool, sendEmailReminderTool, updateReminderTool, deleteReminderTool, completeReminderTool, snoozeReminderTool, importCalendarTool, suggestDurationTool, findFreeSlotTool, previewReminderTool, getPreferencesTool, updatePreferencesTool, getCalendarFeedTool, resetCalendarFeedTool, exportRemindersTool];
 
 // Initialize the LLM
 const llm = new ChatGoogleGenerativeAI({
@@ -311,28 +813,140 @@ const prompt = ChatPromptTemplate.fromMessages([
        - Example: "Add a reminder to call the doctor at 10 AM"
     
     2. send_email_reminder - Use ONLY when email is explicitly mentioned
-       - Required: time, task, email
+       - Required: time, task, and email or attendees
        - Optional: eventDuration (minutes), eventLocation
        - Automatically includes calendar invite (.ics file)
        - Example: "Send me an email reminder to call the doctor at 10 AM to john@example.com"
        - Advanced: "Email reminder for team meeting tomorrow at 2 PM in Conference Room A to team@company.com for 60 minutes"
+       - Several people → one call with all of them in attendees (never one call per address):
+         "Invite Jane Doe <jane@x.com> and bob@x.com to the review Friday at 10, Carol (carol@x.com) optional"
+         → attendees: [{{ email: "jane@x.com", name: "Jane Doe" }}, {{ email: "bob@x.com" }}, {{ email: "carol@x.com", name: "Carol", role: "optional" }}]
+    
+    3. list_reminders - To show current reminders
+       - All parameters optional: dueOn ("tomorrow"), from/to, status, email, search, sortBy, order, limit, offset
+       - Example: "What's due tomorrow?" → list_reminders with dueOn: "tomorrow"
+    
+    4. update_reminder / delete_reminder / complete_reminder - To change, remove or finish a reminder
+       - Required: id (call list_reminders first to find the id of the reminder the user means)
+       - update_reminder also takes the fields to change: time, task, email, attendees
+       - attendees replaces the whole list: to add or drop someone, pass the reminder's attendees with that change
+       - Example: "Move my dentist reminder to Friday at 3 PM" → list_reminders, then update_reminder
+       - Emailed invites follow along: attendees' calendar entries are moved or cancelled (see calendarUpdates in the result)
+    
+    5. snooze_reminder - To push a reminder back without changing its original time phrase
+       - Required: id, duration ("10 minutes", "2 hours", "until tomorrow morning")
+       - Example: "Snooze the gym reminder for an hour" → list_reminders, then snooze_reminder with duration: "1 hour"
+    
+    6. import_calendar - To import events from pasted .ics calendar text
+       - Required: ics (the full calendar text); report back how many were created, skipped and failed
     
-    3. list_reminders - To show all current reminders
-       - No parameters needed
+    7. get_preferences / update_preferences - To show or change the user's settings
+       - Example: "I live in Berlin now" → update_preferences with timeZone: "Europe/Berlin"
+       - Example: "Send my reminders in German" → update_preferences with locale: "de"
+       - Example: "I work Sunday to Thursday, 8 to 4" → update_preferences with workWeek: "sun-thu", workingHours: "08:00-16:00"
+       - Example: "Send my invites as Jane Doe, replies to jane@company.com" → update_preferences with organizerName: "Jane Doe", organizerEmail: "jane@company.com"
+       - Example: "Always alert me 30 minutes ahead" → update_preferences with alarms: ["30 minutes before"]
+    
+    8. suggest_duration - To answer "how long should I block for ...?"
+       - Required: task; optional: location
+    
+    9. preview_reminder - To show what an email reminder would look like before sending it
+       - Same fields as send_email_reminder; nothing is saved or sent
+       - Example: "What would the invite for Friday's standup look like?" → preview_reminder
+       - Use it when the user asks to check or preview first; then send_email_reminder once they confirm
+    
+    10. get_calendar_feed - To see reminders in the user's own calendar app (Google Calendar, Outlook, Apple Calendar)
+       - Example: "Can I see my reminders in Google Calendar?" → get_calendar_feed, then share the URL ("Add calendar from URL")
+       - Example: "Just my #work reminders for the next month" → get_calendar_feed with tags: "work", to: "in 30 days"
+       - The URL is private: tell the user not to share it
+       - If a feed URL leaked ("I shared my calendar link by mistake") → reset_calendar_feed, then share the new URL
+    
+    11. find_free_slot - To find time for something: "When am I free for an hour this week?"
+       - Optional: duration (minutes) or task (its usual length is used), from/to, count
+       - Example: "Find me 45 minutes for the dentist next week" → find_free_slot with duration: 45, from: "next Monday at 12 AM", to: "next Friday at 11:59 PM"
+       - Only proposes slots inside the user's working hours; offer them, then book the one the user picks
+    
+    12. get_reminder - To look at one reminder in full, e.g. who has answered an emailed invite
+       - Required: id (call list_reminders first to find it)
+       - Example: "Has Jane accepted the design review?" → list_reminders with search: "design review", then get_reminder
+       - attendeeStatus gives each attendee's answer: accepted, tentative, declined, delegated or needs-action (no answer yet)
+    
+    13. export_reminders - To hand over reminders as a document: an agenda, a spreadsheet, a calendar file
+       - Optional: format (md, csv, json, ics, jcal) and the list_reminders filters
+       - Example: "Give me my agenda for next week" → export_reminders with from: "next Monday at 12 AM", to: "next Sunday at 11:59 PM"
+       - Example: "Export my #work reminders for Excel" → export_reminders with format: "csv", tags: "work"
+       - Show a Markdown agenda's content as it is; for other formats share the content and its filename
+    
+    🚦 CONFLICTS:
+    - add_reminder still adds an overlapping reminder but lists the overlap in "conflicts": mention it to the user
+    - send_email_reminder refuses an overlapping event with "SCHEDULE CONFLICT" and free slots: offer them;
+      only pass allowConflicts: true when the user wants the original time anyway
+    
+    🌍 TIME ZONES:
+    - Times are read in the user's time zone (see get_preferences), else the server's
+    - "3 PM New York time" → time: "3 PM", timeZone: "America/New_York" (always an IANA name, never "EST")
+    - For an email to someone in another zone, set recipientTimeZone so the email shows their local time
+    
+    🗣️ LANGUAGES:
+    - Spanish and German times are understood as written: pass "mañana a las 3 de la tarde" or "morgen um 15 Uhr"
+      unchanged with locale: "es" / "de" (never translate the time yourself)
+    - Reminder emails and calendar invites are written in recipientLocale, else locale, else the user's preference, else English
+    
+    🏢 BUSINESS DAYS:
+    - Business-day phrases are understood as written: "next business day", "in 3 working days",
+      "2 working days before Nov 20", "end of business day" (uses the user's work week, hours and holidays;
+      without a time they fall at the start of the working hours)
+    - "2 working days before the deadline" needs the deadline's date: ask for it rather than guessing
+    - "...but never on a weekend or holiday" → workingDaysOnly: true (the time moves to the next working day)
+    
+    🌅 ALL-DAY EVENTS:
+    - Birthdays, holidays and other whole-day things take a date and allDay: true, never a made-up time
+      * "remind me on Oct 30 that it's Sam's birthday" → time: "Oct 30", allDay: true, task: "Sam's birthday"
+    - Ranges of days are all-day on their own: "conference Nov 4-6" → time: "Nov 4-6"
+    - All-day reminders notify at 9 AM on the first day and never conflict with timed ones
+    
+    ⏰ ALARMS:
+    - Alerts the user asks for go in "alarms", phrased as they said them (add, send, update and preview all take them)
+      * "alert me an hour before" → alarms: ["1 hour before"]
+      * "remind me the day before and again 2 hours before" → alarms: ["1 day before", "2 hours before"]
+      * "email me a day before" → alarms: ["1 day before by email"]
+      * "also ping me at 8 AM that morning" (for a Nov 3 reminder) → alarms: ["at 8 AM on Nov 3"]
+      * "no alerts" → alarms: ["none"]
+    - Leave alarms unset when the user says nothing about alerts; their default alarms apply
+    
+    🏷️ TAGS, PRIORITY & CATEGORY:
+    - "high priority: renew passport by Friday #admin" → pass the task as written; the server picks up the priority and #admin tag
+    - "Show my #admin reminders" → list_reminders with tags: "admin"
+    - "What's urgent?" → list_reminders with priority: "urgent,high"; "by category" → groupBy: "category"
+    
+    👤 OWNERSHIP:
+    - Every tool only sees and changes the current user's reminders
+    - list_reminders with allUsers: true (or owner: "<user id>") is admin only
+    
+    🔁 RECURRING REMINDERS:
+    - Pass the repeat pattern in "recurrence" and the time of day in "time"
+      * "every weekday at 9 AM standup" → time: "9 AM", recurrence: "every weekday"
+      * "first Monday of each month pay rent" → time: "9 AM", recurrence: "first Monday of each month"
+    - Skipped dates go in "recurrenceExceptions"; recurring email reminders get a repeating calendar event
+    
+    ❓ UNCLEAR TIMES:
+    - add_reminder and send_email_reminder refuse vague or ambiguous times with "CLARIFICATION NEEDED"
+      * "at 7" → 7 AM or 7 PM? "3/4" → March 4 or April 3? "next Friday" → this week's or next week's?
+    - Ask the user the question from the tool (one short question listing the options), then retry with the option they pick
+    - Pass times as the user said them; never resolve an ambiguity yourself
     
     🧠 TIME PARSING INTELLIGENCE:
-    - Can understand natural language: "tomorrow at 2 PM", "next week", "in 3 hours"
-    - Automatically suggests event duration based on task type:
-      * Calls: 15 minutes
-      * Meetings: 60 minutes  
-      * Medical appointments: 45 minutes
-      * Default: 30 minutes
+    - Can understand natural language: "tomorrow at 2 PM", "next Tuesday at 14:30", "in 20 minutes", "Nov 3",
+      "2026-11-03 09:00", "noon", "tonight", "end of month", "the 15th", "in 2 days"
+    - Event durations are suggested from the task when the user gives none (leave eventDuration unset):
+      * The user's own duration rules, then durations they chose for similar reminders before
+      * Otherwise keyword rules: calls 15 minutes, medical appointments 45, meetings 60, default 30
     
     📅 CALENDAR INTEGRATION:
     - All email reminders automatically include calendar invites
-    - Attendee will receive .ics file attachment
-    - Includes reminder alerts (15 min and 5 min before)
-    - Time zone aware and properly formatted
+    - Every attendee receives the .ics file attachment, with required/optional roles and the user's organizer
+    - Includes the reminder's alarms as calendar alerts (default: 15 min and 5 min before); we send the same alerts ourselves
+    - Repeating events keep their local time across daylight saving changes
     
     IMPORTANT: 
     - If user does NOT mention an email address, use add_reminder (local storage)
@@ -348,10 +962,16 @@ const prompt = ChatPromptTemplate.fromMessages([
     new MessagesPlaceholder('agent_scratchpad'),
 ]);
 
-export async function executeAgentQuery(query: string): Promise<{ output: string; steps: ExecutionStep[] }> {
-    // Clear previous execution steps
-    tracker.clear();
-    
+/**
+ * @param credentials - Authorization / MCP-Session-ID headers of the caller; every tool call of
+ *   this query is made with them (see forwardedCredentials in auth.ts)
+ */
+export async function executeAgentQuery(query: string, credentials: Record<string, string> = {}): Promise<{ output: string; steps: ExecutionStep[] }> {
+    const run: AgentRun = { credentials, tracker: new ExecutionTracker() };
+    return agentRuns.run(run, () => runAgentQuery(query, run.tracker));
+}
+
+async function runAgentQuery(query: string, tracker: ExecutionTracker): Promise<{ output: string; steps: ExecutionStep[] }> {
     // Track query start
     tracker.addStep('start', `Processing query: "${query}"`, 'User', 'Agent', { query });
     
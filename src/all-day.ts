@@ -0,0 +1,93 @@
+// all-day.ts
+// 🌅 ALL-DAY AND MULTI-DAY REMINDERS
+//
+// "Sam's birthday on Oct 30" or "conference Nov 4–6" take whole days, not a time of day:
+// - the reminder keeps its first and last day (allDayStart / allDayEnd, YYYY-MM-DD, inclusive)
+//   in its time zone; dueAt is ALL_DAY_REMINDER_HOUR on the first day, when it notifies
+// - invites and the feed write DATE values (DTSTART;VALUE=DATE, DTEND the day after the last day)
+// - list filters match any day of the span; conflict checks skip it (it books no time slot)
+// Days are wall dates, as in working-calendar.ts: the UTC fields of a Date hold the calendar date.
+
+import { Reminder } from './reminder-store';
+import { fromZonedWall, serverTimeZone, toZonedWall } from './timezone';
+
+export interface DaySpan {
+    firstDay: string; // YYYY-MM-DD
+    lastDay: string;  // YYYY-MM-DD, the same as firstDay for a single day
+}
+
+// All-day reminders notify, and their alarms count from, this hour of the first day
+export const ALL_DAY_REMINDER_HOUR = 9;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * YYYY-MM-DD of a wall date
+ */
+export function dayKey(day: Date): string {
+    return day.toISOString().slice(0, 10);
+}
+
+/**
+ * Wall date of a YYYY-MM-DD key, moved by `offset` days
+ */
+export function keyDay(key: string, offset = 0): Date {
+    return new Date(Date.parse(`${key}T00:00:00Z`) + offset * DAY_MS);
+}
+
+/**
+ * Number of days in the span (1 for a single day)
+ */
+export function spanLength(span: DaySpan): number {
+    return Math.round((keyDay(span.lastDay).getTime() - keyDay(span.firstDay).getTime()) / DAY_MS) + 1;
+}
+
+/**
+ * The span of `days` days starting on the day of `instant` in the zone
+ */
+export function spanStartingAt(instant: Date, days: number, timeZone: string): DaySpan {
+    const firstDay = dayKey(toZonedWall(instant, timeZone));
+    return { firstDay, lastDay: dayKey(keyDay(firstDay, Math.max(days, 1) - 1)) };
+}
+
+/**
+ * When an all-day reminder starting on `firstDay` is due
+ */
+export function allDayDueAt(firstDay: string, timeZone: string): Date {
+    return fromZonedWall(new Date(keyDay(firstDay).getTime() + ALL_DAY_REMINDER_HOUR * 60 * 60 * 1000), timeZone);
+}
+
+/**
+ * The days a reminder takes, or null for a timed one. A repeating reminder takes as many
+ * days from each occurrence (`occurrence`; without it, the series' first days).
+ */
+export function reminderDays(reminder: Pick<Reminder, 'allDayStart' | 'allDayEnd' | 'recurrence' | 'timeZone'>, occurrence?: Date): DaySpan | null {
+    if (!reminder.allDayStart) {
+        return null;
+    }
+    const span = { firstDay: reminder.allDayStart, lastDay: reminder.allDayEnd || reminder.allDayStart };
+    if (!reminder.recurrence || !occurrence) {
+        return span;
+    }
+    return spanStartingAt(occurrence, spanLength(span), reminder.timeZone || serverTimeZone());
+}
+
+/**
+ * The instants a span covers in the zone: midnight of the first day to midnight after the last
+ */
+export function spanBounds(span: DaySpan, timeZone: string): { start: Date; end: Date } {
+    return {
+        start: fromZonedWall(keyDay(span.firstDay), timeZone),
+        end: fromZonedWall(keyDay(span.lastDay, 1), timeZone)
+    };
+}
+
+/**
+ * "Friday, October 30, 2026" or "Wednesday, November 4 – Friday, November 6, 2026", in the given language
+ */
+export function describeDaySpan(span: DaySpan, dateLocale = 'en-US'): string {
+    const format = new Intl.DateTimeFormat(dateLocale, { dateStyle: 'full', timeZone: 'UTC' });
+    return span.firstDay === span.lastDay
+        ? format.format(keyDay(span.firstDay))
+        : format.formatRange(keyDay(span.firstDay), keyDay(span.lastDay));
+}
@@ -0,0 +1,152 @@
+// attendees.ts
+// 👥 INVITE ATTENDEES AND ORGANIZER
+//
+// Who an emailed calendar invite goes to:
+// - attendees: required or optional participants with optional display names, passed as
+//   "jane@example.com", "Jane Doe <jane@example.com>" or { email, name, role }
+// - organizer: per user (user-preferences.ts), else the assistant's own name and EMAIL_USER
+// One email is sent to all attendees; its invite lists every one of them with their role.
+
+import { Reminder } from './reminder-store';
+
+export type AttendeeRole = 'required' | 'optional';
+
+export interface InviteAttendee {
+    email: string;
+    name?: string;
+    role: AttendeeRole;
+}
+
+export interface InviteOrganizer {
+    name?: string;
+    email?: string;
+}
+
+/**
+ * Raised for malformed addresses or attendee lists (mapped to HTTP 400)
+ */
+export class AttendeeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AttendeeError';
+    }
+}
+
+const EMAIL_PATTERN = /^[^\s@<>(),;:"]+@[^\s@<>(),;:"]+\.[^\s@<>(),;:"]+$/;
+const NAMED_ADDRESS = /^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/;
+const MAX_ATTENDEES = 100;
+
+export function isValidEmail(email: string): boolean {
+    return EMAIL_PATTERN.test(email);
+}
+
+function parseRole(value: unknown, fallback: AttendeeRole): AttendeeRole {
+    if (value === undefined || value === null || value === '') {
+        return fallback;
+    }
+    const role = String(value).trim().toLowerCase();
+    if (role === 'required' || role === 'req-participant' || role === 'chair') return 'required';
+    if (role === 'optional' || role === 'opt-participant') return 'optional';
+    throw new AttendeeError(`Invalid attendee role '${value}'. Use "required" or "optional"`);
+}
+
+/**
+ * One attendee from "jane@example.com", "Jane Doe <jane@example.com>" or { email, name?, role? }
+ */
+export function parseAttendee(value: unknown, defaultRole: AttendeeRole = 'required'): InviteAttendee {
+    let email: string;
+    let name: string | undefined;
+    let role = defaultRole;
+
+    if (typeof value === 'string') {
+        const named = value.match(NAMED_ADDRESS);
+        email = (named ? named[2] : value).trim();
+        name = named?.[1].trim() || undefined;
+    } else if (value && typeof value === 'object' && 'email' in value && typeof value.email === 'string') {
+        const entry: Record<string, unknown> = { ...value };
+        email = value.email.trim();
+        name = typeof entry.name === 'string' && entry.name.trim() ? entry.name.trim() : undefined;
+        role = parseRole(entry.role, defaultRole);
+    } else {
+        throw new AttendeeError('Each attendee must be an email address or an object with an "email"');
+    }
+
+    if (!isValidEmail(email)) {
+        throw new AttendeeError(`Invalid attendee email '${email}'`);
+    }
+    return { email, ...(name ? { name } : {}), role };
+}
+
+/**
+ * The attendee list of an invite: the `email` field (one address or a comma-separated list,
+ * all required) followed by `attendees`. Repeated addresses are kept once, first mention wins.
+ */
+export function normalizeAttendees(email?: unknown, attendees?: unknown): InviteAttendee[] {
+    const split = (list: string) => list.split(/[,;](?![^<]*>)/).map(part => part.trim()).filter(Boolean);
+    const entries: unknown[] = [
+        ...(typeof email === 'string' ? split(email) : []),
+        ...(Array.isArray(attendees) ? attendees : typeof attendees === 'string' ? split(attendees) : [])
+    ];
+    if (attendees !== undefined && attendees !== null && !Array.isArray(attendees) && typeof attendees !== 'string') {
+        throw new AttendeeError('attendees must be a list of email addresses or { email, name, role } objects');
+    }
+
+    const seen = new Set<string>();
+    const result: InviteAttendee[] = [];
+    for (const entry of entries) {
+        const attendee = parseAttendee(entry);
+        const key = attendee.email.toLowerCase();
+        if (!seen.has(key)) {
+            seen.add(key);
+            result.push(attendee);
+        }
+    }
+    if (result.length > MAX_ATTENDEES) {
+        throw new AttendeeError(`At most ${MAX_ATTENDEES} attendees per invite`);
+    }
+    return result;
+}
+
+/**
+ * Validate an organizer ({ name?, email? }); absent or empty means the assistant's defaults
+ */
+export function parseOrganizer(value: unknown): InviteOrganizer | undefined {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (typeof value !== 'object' || Array.isArray(value)) {
+        throw new AttendeeError('organizer must be an object with a "name" and/or "email"');
+    }
+    const { name, email } = value as { name?: unknown; email?: unknown };
+    const organizer: InviteOrganizer = {};
+    if (typeof name === 'string' && name.trim()) {
+        if (/[\r\n"<>]/.test(name)) {
+            throw new AttendeeError('The organizer name must not contain quotes, angle brackets or line breaks');
+        }
+        organizer.name = name.trim();
+    }
+    if (typeof email === 'string' && email.trim()) {
+        if (!isValidEmail(email.trim())) {
+            throw new AttendeeError(`Invalid organizer email '${email}'`);
+        }
+        organizer.email = email.trim();
+    }
+    return organizer.name || organizer.email ? organizer : undefined;
+}
+
+/**
+ * Everyone a reminder's invite went to (reminders from before attendee lists only have `email`)
+ */
+export function inviteRecipients(reminder: Pick<Reminder, 'email' | 'attendees'>): InviteAttendee[] {
+    if (reminder.attendees && reminder.attendees.length > 0) {
+        return reminder.attendees;
+    }
+    return reminder.email ? [{ email: reminder.email, role: 'required' }] : [];
+}
+
+/**
+ * Comparable form of an attendee list, to tell whether an invite's recipients changed
+ */
+export function attendeesKey(attendees: InviteAttendee[]): string {
+    return attendees.map(attendee => `${attendee.email.toLowerCase()}:${attendee.role}:${attendee.name || ''}`).sort().join(',');
+}
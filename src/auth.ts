@@ -0,0 +1,177 @@
+// auth.ts
+// 🔐 CALLER IDENTITY
+//
+// Reminders belong to a user. Every request to the tool server is mapped to a
+// ReminderIdentity before any tool runs:
+// 1. Authorization: Bearer <token> → the user configured for that API token
+// 2. MCP-Session-ID of an initialized session → the identity that opened it at /mcp/initialize.
+//    Session IDs are issued by the server (never chosen by the client) and expire after
+//    MCP_SESSION_IDLE_MINUTES (default 60) without use; an unknown or expired one is rejected.
+// 3. Otherwise the shared anonymous "local" user (rejected when REMINDER_REQUIRE_AUTH=true)
+//
+// API tokens come from REMINDER_API_TOKENS as comma-separated `token:userId[:admin]`
+// entries. Admins may pass `allUsers` to list_reminders and act on anyone's reminders.
+
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+
+export const ANONYMOUS_USER_ID = 'local';
+
+const DEFAULT_SESSION_IDLE_MINUTES = 60;
+
+export interface ReminderIdentity {
+    userId: string;
+    isAdmin: boolean;
+    source: 'token' | 'session' | 'anonymous';
+}
+
+interface ApiTokenEntry {
+    userId: string;
+    isAdmin: boolean;
+}
+
+interface McpSession {
+    identity: ReminderIdentity;
+    expiresAt: number; // pushed back on every use
+}
+
+function parseApiTokens(value: string | undefined): Map<string, ApiTokenEntry> {
+    const tokens = new Map<string, ApiTokenEntry>();
+    for (const entry of (value || '').split(',')) {
+        const [token, userId, role] = entry.trim().split(':');
+        if (token && userId) {
+            tokens.set(token, { userId, isAdmin: role === 'admin' });
+        }
+    }
+    return tokens;
+}
+
+/**
+ * Raised when a request carries credentials that are missing or wrong (HTTP 401)
+ */
+export class AuthenticationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AuthenticationError';
+    }
+}
+
+export class IdentityResolver {
+    private tokens: Map<string, ApiTokenEntry>;
+    private sessions = new Map<string, McpSession>();
+
+    constructor(
+        apiTokens: string | undefined = process.env.REMINDER_API_TOKENS,
+        private requireAuth = process.env.REMINDER_REQUIRE_AUTH === 'true',
+        private sessionIdleMs = (Number(process.env.MCP_SESSION_IDLE_MINUTES) || DEFAULT_SESSION_IDLE_MINUTES) * 60_000
+    ) {
+        this.tokens = parseApiTokens(apiTokens);
+        if (this.tokens.size === 0) {
+            console.log('🔓 No REMINDER_API_TOKENS configured: all callers share the anonymous reminder list');
+        }
+    }
+
+    /**
+     * Work out who is calling. Throws AuthenticationError for bad or missing credentials.
+     */
+    resolve(req: Request): ReminderIdentity {
+        const authorization = req.headers.authorization;
+        if (authorization) {
+            const match = authorization.match(/^Bearer\s+(.+)$/i);
+            const entry = match ? this.tokens.get(match[1].trim()) : undefined;
+            if (!entry) {
+                throw new AuthenticationError('Invalid API token');
+            }
+            return { userId: entry.userId, isAdmin: entry.isAdmin, source: 'token' };
+        }
+
+        const sessionId = req.headers['mcp-session-id'] as string | undefined;
+        if (sessionId) {
+            const session = this.sessions.get(sessionId);
+            if (!session || session.expiresAt <= Date.now()) {
+                this.sessions.delete(sessionId);
+                throw new AuthenticationError('Unknown or expired MCP session: call /mcp/initialize again');
+            }
+            session.expiresAt = Date.now() + this.sessionIdleMs;
+            return { ...session.identity, source: 'session' };
+        }
+
+        if (this.requireAuth) {
+            throw new AuthenticationError('Authentication required: send an API token as "Authorization: Bearer <token>"');
+        }
+        return { userId: ANONYMOUS_USER_ID, isAdmin: false, source: 'anonymous' };
+    }
+
+    /**
+     * Open an MCP session for an identity and return its new, random ID; later calls only need
+     * MCP-Session-ID. Expired sessions are dropped on the way.
+     */
+    openSession(identity: ReminderIdentity): string {
+        const now = Date.now();
+        for (const [id, session] of this.sessions) {
+            if (session.expiresAt <= now) {
+                this.sessions.delete(id);
+            }
+        }
+
+        let sessionId: string;
+        do {
+            sessionId = `mcp_${crypto.randomBytes(24).toString('base64url')}`;
+        } while (this.sessions.has(sessionId));
+        this.sessions.set(sessionId, { identity: { ...identity, source: 'session' }, expiresAt: now + this.sessionIdleMs });
+        return sessionId;
+    }
+
+    /**
+     * Whether a session is open and not expired
+     */
+    hasSession(sessionId: string): boolean {
+        const session = this.sessions.get(sessionId);
+        return !!session && session.expiresAt > Date.now();
+    }
+
+    /**
+     * Express middleware: attaches the caller identity to res.locals.identity
+     */
+    middleware() {
+        return (req: Request, res: Response, next: NextFunction) => {
+            try {
+                res.locals.identity = this.resolve(req);
+                next();
+            } catch (error) {
+                if (error instanceof AuthenticationError) {
+                    return res.status(401).json({ error: error.message, code: 'UNAUTHORIZED' });
+                }
+                next(error);
+            }
+        };
+    }
+}
+
+/**
+ * The credentials of a request (API token, MCP session), to make the tool calls it leads to as the same caller
+ */
+export function forwardedCredentials(req: Request): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (req.headers.authorization) {
+        headers['Authorization'] = req.headers.authorization;
+    }
+    if (req.headers['mcp-session-id']) {
+        headers['MCP-Session-ID'] = String(req.headers['mcp-session-id']);
+    }
+    return headers;
+}
+
+/**
+ * Identity attached by IdentityResolver.middleware()
+ */
+export function callerIdentity(res: Response): ReminderIdentity {
+    return res.locals.identity;
+}
+
+/**
+ * Whether the caller may see and change this reminder
+ */
+export function canAccessReminder(identity: ReminderIdentity, reminder: { ownerId?: string }): boolean {
+    return identity.isAdmin || (reminder.ownerId || ANONYMOUS_USER_ID) === identity.userId;
+}
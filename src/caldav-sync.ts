@@ -0,0 +1,607 @@
+// caldav-sync.ts
+// 🗓️ CALDAV SYNC
+//
+// Keeps one CalDAV calendar collection (e.g. a local Radicale) in step with one user's reminders:
+// - push: reminders become calendar resources, rendered like the calendar feed (calendar-feed.ts):
+//   a VEVENT for events (an emailed invite or a known duration), a VTODO for plain reminders
+// - pull: every CALDAV_SYNC_INTERVAL_SECONDS the collection's ctag is checked; when it moved, the
+//   resources' etags show what changed, and new or changed items are read like an .ics import
+// - conflicts (both sides changed since the last sync) go to the newer change, the remote
+//   LAST-MODIFIED against the reminder's updatedAt; on a tie, or without LAST-MODIFIED, the server wins
+// - a reminder deleted here is deleted there; one deleted (or cancelled) there is deleted here,
+//   unless it changed here since the last sync, in which case it is pushed again
+//
+// Each reminder remembers its resource (caldavHref), the etag last seen (caldavEtag) and a hash of
+// the content both sides held after the last sync (caldavHash): a different hash is a local change.
+// Remote edits only update the reminder; they do not re-send invites it emailed.
+
+import crypto from 'crypto';
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { Reminder, ReminderRepository } from './reminder-store';
+import { reminderFeedEvent } from './calendar-feed';
+import { generateCalendarInvite, reminderCalendarUid } from './calendar-utils';
+import { calendarItemToReminder } from './calendar-import';
+import { IcsComponent, IcsParseError, findComponents, getProperty, getText, parseIcs, parseIcsDate } from './ics-parser';
+import { formatRRule } from './recurrence';
+import { alarmsKey } from './reminder-alarms';
+import { ANONYMOUS_USER_ID } from './auth';
+import { serverTimeZone } from './timezone';
+
+const DEFAULT_SYNC_INTERVAL_SECONDS = 300;
+const MIN_SYNC_INTERVAL_SECONDS = 5;
+const REQUEST_TIMEOUT_MS = 30_000;
+
+export interface CalDavConfig {
+    collectionUrl: string; // calendar collection, ending in '/'
+    username?: string;
+    password?: string;
+    ownerId: string; // user whose reminders live in the collection
+    intervalMs: number;
+}
+
+export interface CalDavSyncReport {
+    pushed: number; // resources created or updated on the server
+    pulled: number; // reminders created or updated from the server
+    deletedHere: number;
+    deletedThere: number;
+    conflicts: number; // items changed on both sides (see the header for who wins)
+}
+
+/**
+ * Raised when the CalDAV server answers with an unexpected status
+ */
+export class CalDavError extends Error {
+    constructor(message: string, public status?: number) {
+        super(message);
+        this.name = 'CalDavError';
+    }
+}
+
+/**
+ * CalDAV settings from the environment, or null when CALDAV_URL is not set
+ */
+export function caldavConfigFromEnv(env: NodeJS.ProcessEnv = process.env): CalDavConfig | null {
+    if (!env.CALDAV_URL) {
+        return null;
+    }
+    const seconds = parseInt(env.CALDAV_SYNC_INTERVAL_SECONDS || '') || DEFAULT_SYNC_INTERVAL_SECONDS;
+    return {
+        collectionUrl: env.CALDAV_URL.replace(/\/?$/, '/'),
+        username: env.CALDAV_USERNAME || undefined,
+        password: env.CALDAV_PASSWORD || undefined,
+        ownerId: env.CALDAV_OWNER || ANONYMOUS_USER_ID,
+        intervalMs: Math.max(seconds, MIN_SYNC_INTERVAL_SECONDS) * 1000
+    };
+}
+
+// --- WebDAV requests ---
+
+const PROPFIND_CTAG = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:" xmlns:cs="http://calendarserver.org/ns/"><d:prop><cs:getctag/><d:sync-token/></d:prop></d:propfind>`;
+
+const PROPFIND_ETAGS = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:"><d:prop><d:getetag/><d:resourcetype/></d:prop></d:propfind>`;
+
+interface DavResponse {
+    href: string; // decoded path
+    props: Record<string, string>; // local name → text of the properties reported with status 200
+}
+
+const decodeXml = (text: string) => text
+    .replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+
+/**
+ * The <response> entries of a WebDAV multistatus body (namespace prefixes vary by server)
+ */
+function parseMultistatus(xml: string, baseUrl: string): DavResponse[] {
+    const element = (name: string) => new RegExp(`<(?:[\\w-]+:)?${name}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`, 'g');
+    const responses: DavResponse[] = [];
+    for (const [, body] of xml.matchAll(element('response'))) {
+        const href = body.match(new RegExp(element('href').source))?.[1];
+        if (!href) {
+            continue;
+        }
+        const props: Record<string, string> = {};
+        for (const [, propstat] of body.matchAll(element('propstat'))) {
+            if (!/\s200\s/.test(propstat.match(new RegExp(element('status').source))?.[1] || ' 200 ')) {
+                continue;
+            }
+            const prop = propstat.match(new RegExp(element('prop').source))?.[1] || '';
+            for (const [, name, value] of prop.matchAll(/<(?:[\w-]+:)?([\w-]+)\b[^>]*?(?:\/>|>([\s\S]*?)<\/(?:[\w-]+:)?\1>)/g)) {
+                props[name] = decodeXml((value || '').trim());
+            }
+        }
+        responses.push({ href: decodeURIComponent(new URL(decodeXml(href.trim()), baseUrl).pathname), props });
+    }
+    return responses;
+}
+
+/**
+ * The few WebDAV/CalDAV requests sync needs. Resources are addressed by path (caldavHref).
+ */
+export class CalDavClient {
+    private http: AxiosInstance;
+
+    constructor(private config: CalDavConfig) {
+        this.http = axios.create({
+            timeout: REQUEST_TIMEOUT_MS,
+            validateStatus: () => true, // statuses are checked per request
+            ...(config.username ? { auth: { username: config.username, password: config.password || '' } } : {})
+        });
+    }
+
+    /**
+     * Path of the resource a reminder is created at
+     */
+    hrefFor(reminderId: string): string {
+        return decodeURIComponent(new URL(`${encodeURIComponent(reminderId)}.ics`, this.config.collectionUrl).pathname);
+    }
+
+    /**
+     * Version of the whole collection (getctag, else sync-token); undefined when the server has neither
+     */
+    async collectionTag(): Promise<string | undefined> {
+        const response = await this.request('PROPFIND', this.config.collectionUrl, PROPFIND_CTAG, { Depth: '0' });
+        this.expect(response, [207], 'read the calendar');
+        const [collection] = parseMultistatus(String(response.data), this.config.collectionUrl);
+        return collection?.props.getctag || collection?.props['sync-token'] || undefined;
+    }
+
+    /**
+     * ETag of every calendar resource in the collection, by path
+     */
+    async etags(): Promise<Map<string, string>> {
+        const response = await this.request('PROPFIND', this.config.collectionUrl, PROPFIND_ETAGS, { Depth: '1' });
+        this.expect(response, [207], 'list the calendar');
+        const collectionPath = decodeURIComponent(new URL(this.config.collectionUrl).pathname);
+        const etags = new Map<string, string>();
+        for (const entry of parseMultistatus(String(response.data), this.config.collectionUrl)) {
+            if (entry.href !== collectionPath && entry.props.getetag && !/collection/.test(entry.props.resourcetype || '')) {
+                etags.set(entry.href, entry.props.getetag);
+            }
+        }
+        return etags;
+    }
+
+    async get(href: string): Promise<{ body: string; etag?: string } | null> {
+        const response = await this.request('GET', this.url(href));
+        if (response.status === 404) {
+            return null;
+        }
+        this.expect(response, [200], `read ${href}`);
+        return { body: String(response.data), etag: response.headers.etag };
+    }
+
+    /**
+     * Create (`etag` null) or replace (`etag` of the version we know) a resource.
+     * Returns null when the resource changed on the server in the meantime (412).
+     */
+    async put(href: string, body: string, etag: string | null): Promise<{ etag?: string } | null> {
+        const response = await this.request('PUT', this.url(href), body, {
+            'Content-Type': 'text/calendar; charset=utf-8',
+            ...(etag === null ? { 'If-None-Match': '*' } : { 'If-Match': etag })
+        });
+        if (response.status === 412) {
+            return null;
+        }
+        this.expect(response, [200, 201, 204], `write ${href}`);
+        return { etag: response.headers.etag || await this.etagOf(href) };
+    }
+
+    /**
+     * Delete a resource; one that is already gone counts as deleted
+     */
+    async delete(href: string): Promise<void> {
+        const response = await this.request('DELETE', this.url(href));
+        this.expect(response, [200, 204, 404], `delete ${href}`);
+    }
+
+    private async etagOf(href: string): Promise<string | undefined> {
+        const response = await this.request('PROPFIND', this.url(href), PROPFIND_ETAGS, { Depth: '0' });
+        return response.status === 207 ? parseMultistatus(String(response.data), this.config.collectionUrl)[0]?.props.getetag : undefined;
+    }
+
+    private url(href: string): string {
+        return new URL(href.split('/').map(encodeURIComponent).join('/'), this.config.collectionUrl).toString();
+    }
+
+    private request(method: string, url: string, data?: string, headers: Record<string, string> = {}): Promise<AxiosResponse> {
+        return this.http.request({
+            method,
+            url,
+            data,
+            headers: data && !headers['Content-Type'] ? { 'Content-Type': 'application/xml; charset=utf-8', ...headers } : headers,
+            responseType: 'text',
+            transformResponse: value => value
+        });
+    }
+
+    private expect(response: AxiosResponse, statuses: number[], action: string) {
+        if (!statuses.includes(response.status)) {
+            throw new CalDavError(`Could not ${action}: HTTP ${response.status}`, response.status);
+        }
+    }
+}
+
+// --- Reminders as calendar resources ---
+
+/**
+ * The calendar object resource of a reminder: its feed event, or a VTODO for plain reminders
+ */
+export async function renderCalDavResource(reminder: Reminder): Promise<string> {
+    const { content } = await generateCalendarInvite({ ...reminderFeedEvent(reminder), method: 'PUBLISH' });
+    // Resources on a CalDAV server must not carry an iTIP METHOD
+    const lines = content.replace(/\r\n[ \t]/g, '').split('\r\n').filter(line => line && !line.startsWith('METHOD:'));
+    if (reminder.calendarSequence !== undefined || reminder.durationMinutes !== undefined) {
+        return lines.join('\r\n') + '\r\n';
+    }
+
+    // A plain reminder is a to-do, due when the reminder is (DTSTART stays for RRULE and relative alarms)
+    const completed = reminder.status === 'completed';
+    return lines.flatMap(line => {
+        if (line === 'BEGIN:VEVENT' || line === 'END:VEVENT') return [line.replace('VEVENT', 'VTODO')];
+        if (/^(?:DTEND|TRANSP|X-MICROSOFT-CDO-BUSYSTATUS)[:;]/.test(line)) return [];
+        if (/^DTSTART[:;]/.test(line)) return [line, line.replace(/^DTSTART/, 'DUE')];
+        if (line.startsWith('STATUS:')) {
+            return completed
+                ? ['STATUS:COMPLETED', `COMPLETED:${icsUtc(new Date(reminder.completedAt || reminder.updatedAt || reminder.createdAt))}`]
+                : ['STATUS:NEEDS-ACTION'];
+        }
+        return [line];
+    }).join('\r\n') + '\r\n';
+}
+
+const icsUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}Z$/, 'Z');
+
+/**
+ * Hash of a rendered resource, without the stamps that change on every render or bookkeeping update
+ */
+function contentHash(content: string): string {
+    const stable = content.split('\r\n').filter(line => !/^(?:DTSTAMP|LAST-MODIFIED):/.test(line)).join('\n');
+    return crypto.createHash('sha256').update(stable).digest('base64url');
+}
+
+const categoryTag = (category: string) => category.replace(/\s+/g, '-').replace(/[^\p{L}\p{N}_-]/gu, '');
+
+/**
+ * The calendar item (master VEVENT or VTODO) of a resource
+ */
+function resourceItem(body: string): IcsComponent | undefined {
+    const roots = parseIcs(body);
+    return [...findComponents(roots, 'VEVENT'), ...findComponents(roots, 'VTODO')].find(item => !getProperty(item, 'RECURRENCE-ID'));
+}
+
+/**
+ * Two-way sync of one user's reminders with a CalDAV collection
+ */
+export class CalDavSync {
+    private timer: NodeJS.Timeout | null = null;
+    private running: Promise<CalDavSyncReport | undefined> | null = null;
+    private rerun = false;
+    private lastCollectionTag?: string;
+    private deletedHrefs = new Set<string>(); // reminders deleted here whose resources are still on the server
+    private ignoredEtags = new Map<string, string>(); // server items that make no reminder (past, cancelled, unreadable)
+
+    /**
+     * @param onChange - Called after sync changed reminders here (e.g. to re-arm the scheduler)
+     * @param timeZoneFor - Zone floating and all-day times of the owner are read in
+     */
+    constructor(
+        private repository: ReminderRepository,
+        private client: CalDavClient,
+        private config: CalDavConfig,
+        private onChange?: () => Promise<void>,
+        private timeZoneFor?: (ownerId: string) => Promise<string>
+    ) {}
+
+    start() {
+        console.log(`🗓️  CalDAV sync of ${this.config.ownerId}'s reminders with ${this.config.collectionUrl} every ${this.config.intervalMs / 1000}s`);
+        this.timer = setInterval(() => this.requestSync(), this.config.intervalMs);
+        this.requestSync();
+    }
+
+    stop() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Sync soon, e.g. after a tool changed reminders. Calls during a sync run it once more afterwards.
+     */
+    requestSync() {
+        if (this.running) {
+            this.rerun = true;
+            return;
+        }
+        this.running = this.sync()
+            .catch(error => {
+                console.error('❌ CalDAV sync failed:', error instanceof Error ? error.message : error);
+                return undefined;
+            })
+            .finally(() => {
+                this.running = null;
+                if (this.rerun) {
+                    this.rerun = false;
+                    this.requestSync();
+                }
+            });
+    }
+
+    /**
+     * Remove the resource of a reminder that was deleted here
+     */
+    reminderDeleted(reminder: Reminder) {
+        if ((reminder.ownerId || ANONYMOUS_USER_ID) === this.config.ownerId && reminder.caldavHref) {
+            this.deletedHrefs.add(reminder.caldavHref);
+            this.requestSync();
+        }
+    }
+
+    /**
+     * One full sync: local deletions, then remote changes (when the collection moved), then local changes
+     */
+    async sync(): Promise<CalDavSyncReport> {
+        const report: CalDavSyncReport = { pushed: 0, pulled: 0, deletedHere: 0, deletedThere: 0, conflicts: 0 };
+
+        // A deletion here wins over edits there
+        for (const href of [...this.deletedHrefs]) {
+            await this.client.delete(href);
+            this.deletedHrefs.delete(href);
+            report.deletedThere++;
+        }
+
+        const collectionTag = await this.client.collectionTag();
+        if (collectionTag === undefined || collectionTag !== this.lastCollectionTag || report.deletedThere > 0) {
+            await this.pull(report);
+        }
+        await this.push(report);
+
+        // Our own writes move the tag too; the next sync compares etags once and finds nothing new
+        this.lastCollectionTag = report.pushed > 0 || report.deletedThere > 0 ? undefined : collectionTag;
+
+        if (report.pulled > 0 || report.deletedHere > 0) {
+            await this.onChange?.();
+        }
+        if (Object.values(report).some(count => count > 0)) {
+            console.log(`🗓️  CalDAV sync: ${JSON.stringify(report)}`);
+        }
+        return report;
+    }
+
+    private async ownReminders(): Promise<Reminder[]> {
+        return (await this.repository.list()).filter(reminder => (reminder.ownerId || ANONYMOUS_USER_ID) === this.config.ownerId);
+    }
+
+    private async pull(report: CalDavSyncReport) {
+        const remote = await this.client.etags();
+        const reminders = await this.ownReminders();
+        const byHref = new Map(reminders.filter(reminder => reminder.caldavHref).map(reminder => [reminder.caldavHref!, reminder]));
+
+        for (const [href, etag] of remote) {
+            if (this.deletedHrefs.has(href)) {
+                continue;
+            }
+            const reminder = byHref.get(href);
+            if (!reminder) {
+                if (this.ignoredEtags.get(href) !== etag) {
+                    await this.pullNew(href, etag, reminders, report);
+                }
+                continue;
+            }
+            if (etag === reminder.caldavEtag) {
+                continue;
+            }
+
+            const resource = await this.client.get(href);
+            if (!resource) {
+                continue; // deleted while we looked; the next sync sees it gone
+            }
+            const localChanged = contentHash(await renderCalDavResource(reminder)) !== reminder.caldavHash;
+            if (localChanged) {
+                report.conflicts++;
+                if (!this.serverWins(reminder, resource.body)) {
+                    // Keep ours: the push below overwrites the server copy it has now seen
+                    await this.repository.update(reminder.id, { caldavEtag: etag });
+                    continue;
+                }
+            }
+            await this.applyRemote(reminder, href, etag, resource.body, report);
+        }
+
+        // Gone from the server: delete here, unless changed here since the last sync (then pushed again)
+        for (const reminder of reminders.filter(reminder => reminder.caldavHref && !remote.has(reminder.caldavHref))) {
+            if (contentHash(await renderCalDavResource(reminder)) !== reminder.caldavHash) {
+                report.conflicts++;
+                await this.repository.update(reminder.id, { caldavHref: undefined, caldavEtag: undefined, caldavHash: undefined });
+            } else {
+                await this.repository.remove(reminder.id);
+                report.deletedHere++;
+            }
+        }
+    }
+
+    /**
+     * The newer side wins a conflict; the server on a tie or when its item has no LAST-MODIFIED
+     */
+    private serverWins(reminder: Reminder, body: string): boolean {
+        try {
+            const item = resourceItem(body);
+            const stamp = item && getProperty(item, 'LAST-MODIFIED');
+            if (!stamp) {
+                return true;
+            }
+            const remoteTime = parseIcsDate(stamp).date.getTime();
+            const localTime = new Date(reminder.updatedAt || reminder.createdAt).getTime();
+            return !(localTime > remoteTime);
+        } catch {
+            return true;
+        }
+    }
+
+    private async pullNew(href: string, etag: string, reminders: Reminder[], report: CalDavSyncReport) {
+        const resource = await this.client.get(href);
+        if (!resource) {
+            return;
+        }
+
+        // A reminder whose resource we lost track of (or that was imported from this calendar) is linked, not duplicated
+        let item: IcsComponent | undefined;
+        try {
+            item = resourceItem(resource.body);
+        } catch (error) {
+            if (!(error instanceof IcsParseError)) throw error;
+        }
+        const uid = item && getText(item, 'UID')?.trim();
+        const linked = uid ? reminders.find(reminder => !reminder.caldavHref && (reminder.calendarUid || reminderCalendarUid(reminder.id)) === uid) : undefined;
+        if (linked) {
+            await this.applyRemote(linked, href, etag, resource.body, report);
+            return;
+        }
+
+        const created = item ? await this.readItem(item, this.config.ownerId) : undefined;
+        if (!created) {
+            this.ignoredEtags.set(href, etag);
+            return;
+        }
+        const reminder: Reminder = {
+            ...created,
+            id: `caldav_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            caldavHref: href,
+            caldavEtag: etag
+        };
+        reminder.caldavHash = contentHash(await renderCalDavResource(reminder));
+        await this.repository.add(reminder);
+        report.pulled++;
+    }
+
+    /**
+     * Take the server's version of a synced reminder. Fields the resource does not carry (priority,
+     * recipients, ...) stay as they are; the time phrase and delivery state only change with the schedule.
+     */
+    private async applyRemote(reminder: Reminder, href: string, etag: string, body: string, report: CalDavSyncReport) {
+        const item = (() => {
+            try {
+                return resourceItem(body);
+            } catch {
+                return undefined;
+            }
+        })();
+        const remote = item ? await this.readItem(item, reminder.ownerId, reminder.timeZone, true) : undefined;
+        if (!remote) {
+            if (item && getText(item, 'STATUS')?.toUpperCase() === 'CANCELLED') {
+                await this.repository.remove(reminder.id);
+                report.deletedHere++;
+            } else {
+                console.warn(`⚠️  CalDAV item ${href} could not be read; keeping reminder ${reminder.id} as it is`);
+                await this.repository.update(reminder.id, { caldavHref: href, caldavEtag: etag });
+            }
+            return;
+        }
+
+        const shown = reminderFeedEvent(reminder);
+        const changes: Partial<Reminder> = { caldavHref: href, caldavEtag: etag, task: remote.task };
+        // The placeholder shown for "no location" is not a location
+        const location = remote.location === shown.locale?.messages.noLocation ? undefined : remote.location;
+        if (location !== reminder.location) {
+            changes.location = location;
+        }
+        if (remote.durationMinutes !== undefined && remote.durationMinutes !== (reminder.durationMinutes ?? 30)) {
+            changes.durationMinutes = remote.durationMinutes;
+            changes.durationSource = 'calendar';
+        }
+        if (alarmsKey(remote.alarms || []) !== alarmsKey(shown.alarms)) {
+            changes.alarms = remote.alarms || [];
+        }
+
+        // CATEGORIES carry the category and the tags
+        const category = reminder.category && (remote.tags || []).includes(categoryTag(reminder.category)) ? reminder.category : undefined;
+        changes.category = category;
+        changes.tags = (remote.tags || []).filter(tag => !category || tag !== categoryTag(category));
+
+        const recurrenceKey = (value: Reminder) => value.recurrence ? `${formatRRule(value.recurrence)}|${(value.recurrence.exceptions || []).join(',')}` : '';
+        // All-day events carry only their days, so a snoozed all-day reminder has not moved
+        const daysKey = (value: Reminder) => `${value.allDayStart || ''}|${value.allDayEnd || ''}`;
+        const moved = recurrenceKey(remote) !== recurrenceKey(reminder)
+            || daysKey(remote) !== daysKey(reminder)
+            || (!remote.allDayStart && (remote.recurrence ? remote.seriesStartAt !== (reminder.seriesStartAt || reminder.dueAt) : remote.dueAt !== reminder.dueAt));
+        if (moved) {
+            Object.assign(changes, {
+                time: remote.time,
+                dueAt: remote.dueAt,
+                timeZone: remote.timeZone,
+                timeInterpretation: remote.timeInterpretation,
+                timeConfidence: remote.timeConfidence,
+                recurrence: remote.recurrence,
+                seriesStartAt: remote.seriesStartAt,
+                allDayStart: remote.allDayStart,
+                allDayEnd: remote.allDayEnd,
+                status: reminder.status === 'completed' ? 'completed' : 'pending',
+                deliveryAttempts: 0,
+                lastDeliveryError: undefined,
+                nextDeliveryAttemptAt: undefined,
+                firedAlarms: undefined
+            });
+        }
+
+        // To-dos carry completion both ways
+        if (item!.name === 'VTODO') {
+            if (remote.status === 'completed' && reminder.status !== 'completed') {
+                changes.status = 'completed';
+                changes.completedAt = remote.completedAt;
+            } else if (remote.status !== 'completed' && reminder.status === 'completed') {
+                changes.status = 'pending';
+                changes.completedAt = undefined;
+            }
+        }
+
+        const updated = await this.repository.update(reminder.id, changes);
+        if (updated) {
+            await this.repository.update(reminder.id, { caldavHash: contentHash(await renderCalDavResource(updated)) });
+            report.pulled++;
+        }
+    }
+
+    private async readItem(item: IcsComponent, ownerId: string, timeZone?: string, includePast = false): Promise<Reminder | undefined> {
+        try {
+            const zone = timeZone || (this.timeZoneFor ? await this.timeZoneFor(ownerId) : serverTimeZone());
+            const result = calendarItemToReminder(item, { ownerId, timeZone: zone, includePast });
+            return 'skip' in result ? undefined : result.reminder;
+        } catch (error) {
+            console.warn(`⚠️  Skipped CalDAV item ${getText(item, 'UID') || ''}: ${error instanceof Error ? error.message : error}`);
+            return undefined;
+        }
+    }
+
+    private async push(report: CalDavSyncReport) {
+        for (const reminder of await this.ownReminders()) {
+            const content = await renderCalDavResource(reminder);
+            const hash = contentHash(content);
+            if (reminder.caldavHref && hash === reminder.caldavHash) {
+                continue;
+            }
+
+            const href = reminder.caldavHref || this.client.hrefFor(reminder.id);
+            const written = await this.client.put(href, content, reminder.caldavHref ? reminder.caldavEtag || '*' : null);
+            if (!written) {
+                continue; // changed on the server meanwhile; the next sync settles it
+            }
+            await this.repository.update(reminder.id, { caldavHref: href, caldavEtag: written.etag, caldavHash: hash });
+            report.pushed++;
+        }
+    }
+}
+
+/**
+ * The CalDAV sync configured by CALDAV_URL (and CALDAV_USERNAME, CALDAV_PASSWORD, CALDAV_OWNER,
+ * CALDAV_SYNC_INTERVAL_SECONDS), or null when CalDAV is not configured
+ */
+export function createCalDavSync(
+    repository: ReminderRepository,
+    onChange?: () => Promise<void>,
+    timeZoneFor?: (ownerId: string) => Promise<string>
+): CalDavSync | null {
+    const config = caldavConfigFromEnv();
+    return config ? new CalDavSync(repository, new CalDavClient(config), config, onChange, timeZoneFor) : null;
+}
@@ -0,0 +1,84 @@
+// calendar-feed.ts
+// 📡 SUBSCRIBABLE CALENDAR FEED
+//
+// GET /calendar/feed.ics renders a user's reminders as one VCALENDAR that calendar apps
+// subscribe to, instead of importing one .ics attachment per email:
+// - each reminder is one VEVENT with a stable UID (the UID of its invite, else one derived from its id)
+// - repeating reminders keep their RRULE and skipped dates; the alarm plan becomes VALARMs
+// - all-day reminders are all-day events over their days (see all-day.ts)
+// - attendees of a sent invite show their RSVP as PARTSTAT (see rsvp-replies.ts)
+// - the list_reminders filters narrow the feed (tags, from/to, status, ...)
+// - an ETag over the rendered feed and a Last-Modified from the reminders' last changes
+//   let clients poll with If-None-Match / If-Modified-Since
+
+import crypto from 'crypto';
+import { CalendarEventData, generateCalendarFeed, reminderCalendarUid } from './calendar-utils';
+import { Reminder, ReminderAlarm } from './reminder-store';
+import { DEFAULT_ALARMS } from './reminder-alarms';
+import { exceptionInstants, formatRRule } from './recurrence';
+import { inviteRecipients } from './attendees';
+import { resolveLocale } from './locales';
+import { reminderDays } from './all-day';
+import { attendeeStatuses } from './rsvp-replies';
+
+export interface CalendarFeed {
+    content: string;
+    etag: string; // quoted, ready for the ETag header
+    lastModified?: Date; // latest change among the reminders in the feed (absent for an empty feed)
+}
+
+// Local reminders without an alarm plan only notify when due (see reminder-scheduler.ts)
+const DUE_ONLY: ReminderAlarm[] = [{ minutesBefore: 0 }];
+
+/**
+ * The calendar event of a reminder, as its invite would render it
+ */
+export function reminderFeedEvent(reminder: Reminder): CalendarEventData {
+    const locale = resolveLocale(reminder.recipientLocale, reminder.locale);
+    // A repeating reminder is one event from its first occurrence; a one-off sits at its (possibly snoozed) due time
+    const start = new Date(reminder.recurrence ? reminder.seriesStartAt || reminder.dueAt : reminder.dueAt);
+    const invited = reminder.calendarSequence !== undefined;
+    const days = reminderDays(reminder);
+
+    return {
+        title: reminder.task,
+        description: locale.messages.eventDescription(reminder.task),
+        startDateTime: reminder.time,
+        startDate: start,
+        duration: reminder.durationMinutes,
+        ...(days ? { days } : {}),
+        location: reminder.location,
+        attendees: invited ? attendeeStatuses(reminder) : inviteRecipients(reminder),
+        organizer: reminder.organizer,
+        alarms: reminder.alarms ?? (invited ? DEFAULT_ALARMS : DUE_ONLY),
+        recurrenceRule: reminder.recurrence ? formatRRule(reminder.recurrence) : undefined,
+        exclusionDates: reminder.recurrence ? exceptionInstants(reminder.recurrence, start, reminder.timeZone) : undefined,
+        timeZone: reminder.timeZone,
+        locale,
+        uid: reminder.calendarUid || reminderCalendarUid(reminder.id),
+        sequence: reminder.calendarSequence,
+        categories: [...(reminder.category ? [reminder.category] : []), ...(reminder.tags || [])],
+        lastModified: lastChange(reminder)
+    };
+}
+
+function lastChange(reminder: Reminder): Date {
+    return new Date(reminder.updatedAt || reminder.createdAt);
+}
+
+/**
+ * Render reminders as a feed, with the validators for conditional requests
+ */
+export async function renderCalendarFeed(reminders: Reminder[], calendarName: string): Promise<CalendarFeed> {
+    const content = await generateCalendarFeed(reminders.map(reminderFeedEvent), calendarName);
+
+    // DTSTAMP is the render time, so it is left out of the ETag
+    const digest = crypto.createHash('sha256').update(content.replace(/^DTSTAMP:[^\r\n]*\r\n/gm, '')).digest('base64url');
+    const changes = reminders.map(reminder => lastChange(reminder).getTime()).filter(time => !isNaN(time));
+
+    return {
+        content,
+        etag: `"${digest}"`,
+        ...(changes.length > 0 ? { lastModified: new Date(Math.max(...changes)) } : {})
+    };
+}
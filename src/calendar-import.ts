@@ -0,0 +1,324 @@
+// calendar-import.ts
+// 📆 CALENDAR IMPORT
+//
+// Turns the VEVENTs of an exported .ics calendar into reminders:
+// - DTSTART (UTC, floating, TZID or all-day) becomes dueAt; floating and all-day
+//   times are read in the importing user's time zone
+// - all-day events keep their days (DTEND or DURATION for multi-day ones) as all-day reminders
+// - RRULE / EXDATE become a recurrence rule with exception dates
+// - VALARM triggers and actions become reminder alarms
+// - CATEGORIES and PRIORITY become tags and priority
+// Events are de-duplicated by UID, so importing the same file twice is harmless.
+// CalDAV sync reads remote VEVENTs and VTODOs (DUE, COMPLETED) with the same mapping.
+
+import crypto from 'crypto';
+import { AlarmAction, Reminder, ReminderAlarm, ReminderPriority } from './reminder-store';
+import { alarmKey } from './reminder-alarms';
+import { RecurrenceRule, nextOccurrence, parseRRule, toLocalDateKey } from './recurrence';
+import { formatInZone, serverTimeZone } from './timezone';
+import { ALL_DAY_REMINDER_HOUR, DaySpan, allDayDueAt, spanLength, spanStartingAt } from './all-day';
+import {
+    IcsComponent,
+    findComponents,
+    getProperties,
+    getProperty,
+    getText,
+    parseIcs,
+    parseIcsDate,
+    parseIcsDuration
+} from './ics-parser';
+
+// RRULE parts the recurrence engine understands (WKST is ignored: weeks start on Monday)
+const SUPPORTED_RRULE_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'COUNT', 'UNTIL', 'WKST'];
+const MAX_IMPORT_EVENTS = 1000;
+
+export interface CalendarImportOptions {
+    ownerId: string;
+    includePast?: boolean; // import one-off events that already happened (they fire immediately)
+    timeZone?: string; // zone for floating and all-day times; defaults to the server zone
+    now?: Date;
+}
+
+export interface CalendarImportReport {
+    created: { uid: string; id: string; task: string; dueAt: string; warnings?: string[] }[];
+    skipped: { uid: string; summary: string; reason: string }[];
+    failed: { uid?: string; summary?: string; reason: string }[];
+}
+
+/**
+ * Parse an .ics document and build the reminders to create.
+ * `existing` are the owner's current reminders, used for UID de-duplication.
+ * Throws IcsParseError when the document itself is not valid iCalendar.
+ */
+export function importCalendar(
+    icsText: string,
+    existing: Reminder[],
+    options: CalendarImportOptions
+): { reminders: Reminder[]; report: CalendarImportReport } {
+    const now = options.now || new Date();
+    const timeZone = options.timeZone || serverTimeZone();
+    const events = findComponents(parseIcs(icsText), 'VEVENT');
+    const report: CalendarImportReport = { created: [], skipped: [], failed: [] };
+    const reminders: Reminder[] = [];
+
+    const knownUids = new Map<string, string>();
+    for (const reminder of existing) {
+        if (reminder.calendarUid && reminder.ownerId === options.ownerId) {
+            knownUids.set(reminder.calendarUid, reminder.id);
+        }
+    }
+
+    for (const event of events.slice(0, MAX_IMPORT_EVENTS)) {
+        const summary = getText(event, 'SUMMARY')?.trim() || '(untitled event)';
+        const uid = getText(event, 'UID')?.trim() || generatedUid(event, summary);
+
+        try {
+            if (getProperty(event, 'RECURRENCE-ID')) {
+                report.skipped.push({ uid, summary, reason: 'Modified occurrence of a recurring event (only the series is imported)' });
+                continue;
+            }
+            if (getText(event, 'STATUS')?.toUpperCase() === 'CANCELLED') {
+                report.skipped.push({ uid, summary, reason: 'Event is cancelled' });
+                continue;
+            }
+            if (knownUids.has(uid)) {
+                report.skipped.push({ uid, summary, reason: `Already imported as ${knownUids.get(uid)}` });
+                continue;
+            }
+
+            const result = eventToReminder(event, uid, summary, options.ownerId, now, !!options.includePast, timeZone);
+            if ('skip' in result) {
+                report.skipped.push({ uid, summary, reason: result.skip });
+                continue;
+            }
+
+            reminders.push(result.reminder);
+            knownUids.set(uid, result.reminder.id);
+            report.created.push({
+                uid,
+                id: result.reminder.id,
+                task: result.reminder.task,
+                dueAt: result.reminder.dueAt,
+                ...(result.warnings.length > 0 ? { warnings: result.warnings } : {})
+            });
+        } catch (error) {
+            report.failed.push({ uid, summary, reason: error instanceof Error ? error.message : 'Unknown error' });
+        }
+    }
+
+    if (events.length > MAX_IMPORT_EVENTS) {
+        report.failed.push({ reason: `Only the first ${MAX_IMPORT_EVENTS} of ${events.length} events were processed` });
+    }
+    return { reminders, report };
+}
+
+/**
+ * Reminder for one VEVENT or VTODO of a calendar (as importCalendar builds them), for CalDAV sync.
+ * Throws when the item cannot be read; returns `skip` for items that make no reminder.
+ */
+export function calendarItemToReminder(
+    item: IcsComponent,
+    options: CalendarImportOptions
+): { reminder: Reminder; warnings: string[] } | { skip: string } {
+    const summary = getText(item, 'SUMMARY')?.trim() || '(untitled event)';
+    const uid = getText(item, 'UID')?.trim() || generatedUid(item, summary);
+    if (getText(item, 'STATUS')?.toUpperCase() === 'CANCELLED') {
+        return { skip: 'Event is cancelled' };
+    }
+    return eventToReminder(item, uid, summary, options.ownerId, options.now || new Date(), !!options.includePast, options.timeZone || serverTimeZone());
+}
+
+function eventToReminder(
+    event: IcsComponent,
+    uid: string,
+    summary: string,
+    ownerId: string,
+    now: Date,
+    includePast: boolean,
+    timeZone: string
+): { reminder: Reminder; warnings: string[] } | { skip: string } {
+    const warnings: string[] = [];
+    // A to-do is due at DUE (a to-do without one at its DTSTART)
+    const startProperty = (event.name === 'VTODO' ? getProperty(event, 'DUE') : undefined) || getProperty(event, 'DTSTART');
+    if (!startProperty) {
+        throw new Error(event.name === 'VTODO' ? 'To-do has no DUE or DTSTART' : 'Event has no DTSTART');
+    }
+    const completed = event.name === 'VTODO' && getText(event, 'STATUS')?.toUpperCase() === 'COMPLETED';
+    const completedProperty = getProperty(event, 'COMPLETED');
+    const start = parseIcsDate(startProperty, timeZone);
+    if (start.warning) warnings.push(start.warning);
+
+    // All-day events remind at 9 AM on their first day, like recurring reminders without a time
+    const days = start.dateOnly ? eventDays(event, start.date, timeZone) : undefined;
+    const startAt = days ? allDayDueAt(days.firstDay, timeZone) : new Date(start.date);
+
+    const durationMinutes = eventDuration(event, start.date, start.dateOnly, timeZone);
+    const recurrence = eventRecurrence(event, timeZone);
+
+    let dueAt: Date;
+    if (recurrence) {
+        const next = nextOccurrence(recurrence, startAt, new Date(now.getTime() - 1), timeZone);
+        if (!next) {
+            return { skip: 'Recurring event has no upcoming occurrences' };
+        }
+        dueAt = next;
+    } else {
+        if (startAt < now && !includePast && !completed) {
+            return { skip: 'Event is in the past' };
+        }
+        dueAt = startAt;
+    }
+
+    const { tags, tagWarning } = eventTags(event);
+    if (tagWarning) warnings.push(tagWarning);
+    const priority = eventPriority(event);
+    const alarms = eventAlarms(event, startAt, days ? spanLength(days) * 24 * 60 : durationMinutes, warnings, timeZone, days ? ALL_DAY_REMINDER_HOUR * 60 : 0);
+    const location = getText(event, 'LOCATION')?.trim();
+
+    const reminder: Reminder = {
+        id: `import_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        ownerId,
+        time: days ? allDayTime(days, startAt, timeZone) : `on ${formatInZone(startAt, timeZone, { dateStyle: 'medium', timeStyle: 'short' })}`,
+        task: summary,
+        createdAt: now.toISOString(),
+        dueAt: dueAt.toISOString(),
+        timeZone,
+        timeConfidence: 'high',
+        timeInterpretation: days ? 'Imported all-day calendar event (reminder at 9 AM)' : 'Imported from calendar',
+        status: completed ? 'completed' : 'pending',
+        ...(completed ? { completedAt: (completedProperty ? parseIcsDate(completedProperty, timeZone).date : now).toISOString() } : {}),
+        calendarUid: uid,
+        ...(recurrence ? { recurrence, seriesStartAt: startAt.toISOString() } : {}),
+        ...(days ? { allDayStart: days.firstDay, allDayEnd: days.lastDay } : {}),
+        ...(tags.length > 0 ? { tags } : {}),
+        ...(priority ? { priority } : {}),
+        ...(location ? { location } : {}),
+        ...(durationMinutes !== undefined ? { durationMinutes, durationSource: 'calendar' as const } : {}),
+        ...(alarms.length > 0 ? { alarms } : {})
+    };
+    return { reminder, warnings };
+}
+
+/**
+ * Days of an all-day event: from DTSTART up to the day before DTEND (or for DURATION), at least one
+ */
+function eventDays(event: IcsComponent, start: Date, timeZone: string): DaySpan {
+    const end = getProperty(event, 'DTEND');
+    const duration = getProperty(event, 'DURATION');
+    const endDate = end
+        ? parseIcsDate(end, timeZone).date
+        : duration ? new Date(start.getTime() + parseIcsDuration(duration.value) * 60_000) : start;
+    // Days around a DST change are 23 or 25 hours long
+    return spanStartingAt(start, Math.round((endDate.getTime() - start.getTime()) / (24 * 60 * 60_000)), timeZone);
+}
+
+/**
+ * "all day on Oct 30, 2026" or "all day from Nov 4, 2026 to Nov 6, 2026"
+ */
+function allDayTime(days: DaySpan, startAt: Date, timeZone: string): string {
+    const format = (date: Date) => formatInZone(date, timeZone, { dateStyle: 'medium' });
+    return days.firstDay === days.lastDay
+        ? `all day on ${format(startAt)}`
+        : `all day from ${format(startAt)} to ${format(allDayDueAt(days.lastDay, timeZone))}`;
+}
+
+function eventDuration(event: IcsComponent, start: Date, dateOnly: boolean, timeZone: string): number | undefined {
+    if (dateOnly) {
+        return undefined;
+    }
+    const end = getProperty(event, 'DTEND');
+    if (end) {
+        const minutes = Math.round((parseIcsDate(end, timeZone).date.getTime() - start.getTime()) / 60_000);
+        return minutes > 0 ? minutes : undefined;
+    }
+    const duration = getProperty(event, 'DURATION');
+    return duration ? parseIcsDuration(duration.value) : undefined;
+}
+
+function eventRecurrence(event: IcsComponent, timeZone: string): RecurrenceRule | undefined {
+    const rrule = getProperty(event, 'RRULE');
+    if (!rrule) {
+        return undefined;
+    }
+
+    const unsupported = rrule.value.split(';')
+        .map(part => part.split('=')[0].trim().toUpperCase())
+        .filter(key => key && !SUPPORTED_RRULE_PARTS.includes(key));
+    if (unsupported.length > 0) {
+        throw new Error(`Unsupported RRULE part(s): ${unsupported.join(', ')}`);
+    }
+
+    const rule = parseRRule(rrule.value);
+    const exceptions = getProperties(event, 'EXDATE').flatMap(property =>
+        property.value.split(',').map(value => toLocalDateKey(parseIcsDate({ ...property, value }, timeZone).date, timeZone))
+    );
+    if (exceptions.length > 0) {
+        rule.exceptions = Array.from(new Set(exceptions)).sort();
+    }
+    return rule;
+}
+
+function eventAlarms(
+    event: IcsComponent,
+    start: Date,
+    durationMinutes: number | undefined,
+    warnings: string[],
+    timeZone: string,
+    startShift = 0 // minutes from DTSTART to `start` (all-day events count their alarms from midnight)
+): ReminderAlarm[] {
+    const alarms: ReminderAlarm[] = [];
+    for (const alarm of event.components.filter(component => component.name === 'VALARM')) {
+        const trigger = getProperty(alarm, 'TRIGGER');
+        if (!trigger) {
+            continue;
+        }
+        const action = getProperty(alarm, 'ACTION')?.value.toLowerCase();
+        const actionField = action === 'email' || action === 'audio' ? { action: action as AlarmAction } : {};
+        try {
+            if (trigger.params.VALUE === 'DATE-TIME') {
+                alarms.push({ minutesBefore: Math.round((start.getTime() - parseIcsDate(trigger, timeZone).date.getTime()) / 60_000), ...actionField });
+            } else {
+                const offset = parseIcsDuration(trigger.value) + (trigger.params.RELATED === 'END' ? durationMinutes || 0 : 0);
+                alarms.push({ minutesBefore: startShift - offset, ...actionField });
+            }
+        } catch {
+            warnings.push(`Ignored alarm with unreadable trigger '${trigger.value}'`);
+        }
+    }
+    // Calendars often repeat the same alarm; keep one of each
+    return Array.from(new Map(alarms.map(alarm => [alarmKey(alarm), alarm])).values())
+        .sort((a, b) => b.minutesBefore! - a.minutesBefore!);
+}
+
+function eventTags(event: IcsComponent): { tags: string[]; tagWarning?: string } {
+    const names = getProperties(event, 'CATEGORIES').flatMap(property => property.value.split(','));
+    const tags = names
+        .map(name => name.replace(/\\([,;\\])/g, '$1').trim().toLowerCase().replace(/\s+/g, '-').replace(/[^\p{L}\p{N}_-]/gu, ''))
+        .filter(Boolean);
+    const dropped = names.length - tags.length;
+    return {
+        tags: Array.from(new Set(tags)),
+        ...(dropped > 0 ? { tagWarning: `Ignored ${dropped} empty or invalid categor${dropped === 1 ? 'y' : 'ies'}` } : {})
+    };
+}
+
+/**
+ * ICS PRIORITY is 1 (highest) to 9 (lowest); 0 means undefined
+ */
+function eventPriority(event: IcsComponent): ReminderPriority | undefined {
+    const value = parseInt(getText(event, 'PRIORITY') || '0');
+    if (!value) return undefined;
+    if (value === 1) return 'urgent';
+    if (value <= 4) return 'high';
+    if (value === 5) return 'normal';
+    return 'low';
+}
+
+/**
+ * Stable stand-in UID for events that lack one, so re-imports still de-duplicate
+ */
+function generatedUid(event: IcsComponent, summary: string): string {
+    const start = getProperty(event, 'DTSTART')?.value || '';
+    const hash = crypto.createHash('sha1').update(`${summary}\n${start}`).digest('hex').slice(0, 16);
+    return `generated-${hash}@reminder-import`;
+}
@@ -1,10 +1,19 @@
 // calendar-utils.ts
 // 📅 CALENDAR INTEGRATION UTILITY
 //
-// This module handles ICS (calendar invite) file generation for email reminders.
+// This module handles ICS (calendar invite) file generation for email reminders,
+// and combines those events into the subscribable calendar feed (see calendar-feed.ts).
 // Demonstrates how MCP tools can create rich, multi-format outputs.
 
-import { createEvent, EventAttributes } from 'ics';
+import { createEvent, EventAttributes, ParticipationStatus } from 'ics';
+import { buildVTimezone, formatInZone, fromZonedWall, serverTimeZone, toZonedWall } from './timezone';
+import { LocalePack, en, translateTimePhrase } from './locales';
+import { DEFAULT_WORKING_CALENDAR, WorkingCalendar, addWorkingDays, isWorkingDay, nextWorkingDay } from './working-calendar';
+import { InviteAttendee, InviteOrganizer } from './attendees';
+import { ReminderAlarm } from './reminder-store';
+import { DEFAULT_ALARMS } from './reminder-alarms';
+import { ALL_DAY_REMINDER_HOUR, DaySpan, dayKey, keyDay, spanLength } from './all-day';
+import { AttendeeResponse } from './rsvp-replies';
 
 export interface CalendarEventData {
     title: string;
@@ -12,174 +21,1045 @@ export interface CalendarEventData {
     startDateTime: string; // ISO string or relative time like "tomorrow at 2 PM"
     duration?: number; // in minutes, defaults to 30
     location?: string;
-    attendeeEmail?: string;
+    attendeeEmail?: string; // single required attendee (ignored when `attendees` is given)
+    attendees?: (InviteAttendee & { response?: AttendeeResponse })[]; // required/optional attendees with display names and, in the feed, their RSVP
+    organizer?: InviteOrganizer; // defaults to the assistant's name and EMAIL_USER
+    alarms?: ReminderAlarm[]; // VALARMs of the event (default: 15 and 5 minutes before; empty for none)
+    startDate?: Date; // Already-resolved start instant; takes precedence over startDateTime
+    recurrenceRule?: string; // RRULE value, e.g. "FREQ=WEEKLY;BYDAY=MO,WE"
+    exclusionDates?: Date[]; // Skipped occurrences of a recurring event
+    timeZone?: string; // IANA zone; recurring events are written with TZID times in this zone
+    locale?: LocalePack; // language of the location/organizer/attendee defaults (English when absent)
+    uid?: string; // stable UID so later updates and cancellations replace this event (generated when absent)
+    sequence?: number; // revision of the event; must grow with every update or cancellation (default 0)
+    method?: 'REQUEST' | 'CANCEL' | 'PUBLISH'; // iTIP method: a new/updated invitation, a cancellation or a feed entry (default REQUEST)
+    categories?: string[]; // CATEGORIES of the event, e.g. the reminder's category and tags
+    days?: DaySpan; // whole days the event takes; written as DATE values instead of startDate and duration
+    lastModified?: Date; // LAST-MODIFIED of the event
 }
 
-export interface ParsedDateTime {
-    year: number;
-    month: number;
-    day: number;
-    hour: number;
-    minute: number;
+/**
+ * Stable iCalendar UID for the event of a reminder, e.g. "email_reminder_123@example.com"
+ */
+export function reminderCalendarUid(reminderId: string): string {
+    let host = 'localhost';
+    try {
+        host = new URL(process.env.PUBLIC_BASE_URL || 'http://localhost').hostname || host;
+    } catch {
+        // keep localhost
+    }
+    return `${reminderId}@${host}`;
+}
+
+// --- Time expression grammar ---
+//
+// A time phrase is read as a sequence of clauses, each matched by one grammar rule:
+//   date:    today, tomorrow, (next) tuesday, nov 3(rd) (2026), 11/3, 2026-11-03, the 15th, end of month
+//   clock:   2:30 pm, 14:30, at 9, noon, midnight
+//   part:    morning, afternoon, evening, tonight (also sets am/pm: "8 tonight" → 20:00)
+//   offset:  in 20 minutes, in 2 hours and 30 minutes, 3 days from now, in a week
+//   business: next business day, in 3 working days, 2 working days before nov 20, end of business day
+//   days:    all day, nov 4-6, nov 30 to dec 2, 4th-6th of nov, 2026-11-04 to 2026-11-06 (whole days, see all-day.ts)
+// Rules consume their text; whatever is left over is reported as unparsed. A rule whose numbers
+// are out of range ("13 pm", "feb 30") rejects its match and leaves the words unparsed.
+// Other languages are first rewritten into this grammar by their locale pack (see locales/).
+
+const WEEKDAY_ALIASES: Record<string, number> = {
+    sunday: 0, sun: 0,
+    monday: 1, mon: 1,
+    tuesday: 2, tue: 2, tues: 2,
+    wednesday: 3, wed: 3,
+    thursday: 4, thu: 4, thur: 4, thurs: 4,
+    friday: 5, fri: 5,
+    saturday: 6, sat: 6
+};
+const MONTH_ALIASES: Record<string, number> = {
+    january: 0, jan: 0,
+    february: 1, feb: 1,
+    march: 2, mar: 2,
+    april: 3, apr: 3,
+    may: 4,
+    june: 5, jun: 5,
+    july: 6, jul: 6,
+    august: 7, aug: 7,
+    september: 8, sept: 8, sep: 8,
+    october: 9, oct: 9,
+    november: 10, nov: 10,
+    december: 11, dec: 11
+};
+const NUMBER_WORDS: Record<string, number> = {
+    a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8,
+    nine: 9, ten: 10, eleven: 11, twelve: 12, fifteen: 15, twenty: 20, thirty: 30, forty: 40, 'forty-five': 45
+};
+const UNIT_ALIASES: Record<string, 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year'> = {
+    minute: 'minute', minutes: 'minute', min: 'minute', mins: 'minute', m: 'minute',
+    hour: 'hour', hours: 'hour', hr: 'hour', hrs: 'hour', h: 'hour',
+    day: 'day', days: 'day', d: 'day',
+    week: 'week', weeks: 'week', wk: 'week', wks: 'week', w: 'week',
+    month: 'month', months: 'month',
+    year: 'year', years: 'year', yr: 'year', yrs: 'year'
+};
+// Hour assumed for a part of the day; `pm` marks parts that turn "8" into 20:00
+const PARTS_OF_DAY: Record<string, { hour: number; pm: boolean }> = {
+    morning: { hour: 9, pm: false },
+    noon: { hour: 12, pm: false },
+    midday: { hour: 12, pm: false },
+    lunchtime: { hour: 12, pm: false },
+    lunch: { hour: 12, pm: false },
+    afternoon: { hour: 14, pm: true },
+    evening: { hour: 18, pm: true },
+    tonight: { hour: 20, pm: true },
+    night: { hour: 20, pm: true },
+    midnight: { hour: 0, pm: false }
+};
+const DEFAULT_HOUR = 9; // dates without a time ("tomorrow", "next Tuesday"); business days start at the working hours
+
+const pattern = (words: Record<string, unknown>) => Object.keys(words).sort((a, b) => b.length - a.length).join('|');
+const WEEKDAY_PATTERN = pattern(WEEKDAY_ALIASES);
+const MONTH_PATTERN = pattern(MONTH_ALIASES);
+// Digits may touch the unit ("1h30m"); number words need a space ("an hour", not "and")
+const AMOUNT_PATTERN = `(?<![\\d.])\\d+(?:\\.\\d+)?\\s*|(?<![a-z])(?:half an?|${pattern(NUMBER_WORDS)})\\s+`;
+const UNIT_PATTERN = `(?:${pattern(UNIT_ALIASES)})(?![a-z])`;
+const DURATION_PATTERN = `(?:${AMOUNT_PATTERN})${UNIT_PATTERN}(?: and a half)?`;
+const DURATION_LIST_PATTERN = `${DURATION_PATTERN}(?:\\s*(?:,|and)?\\s*${DURATION_PATTERN})*`;
+const MERIDIEM_PATTERN = '(a\\.?m\\.?|p\\.?m\\.?)(?![a-z])';
+const WORKING_DAYS_PATTERN = '(?:business|working|work)\\s*days?\\b';
+const RANGE_PATTERN = '\\s*(?:-|–|—|\\bto\\b|\\bthrough\\b|\\bthru\\b|\\buntil\\b|\\btill\\b)\\s*';
+const ORDINAL_PATTERN = '(?:st|nd|rd|th)?';
+
+interface TimeExpressionState {
+    wallNow: Date;
+    day?: Date;                                      // wall date (time ignored) the phrase points at
+    dayRolls?: 'week' | 'year' | 'month';            // move forward by this when the result lies in the past
+    clock?: { hour: number; minute: number; meridiem: boolean };
+    partOfDay?: string;
+    keepClock?: boolean;                             // "today" / "in 2 days": keep the current time of day
+    elapsedMs: number;                               // "in 20 minutes"
+    rules: string[];
+    ambiguity?: TimeAmbiguity;                       // first clause found to have more than one reading
+    dateOrder?: 'mdy' | 'dmy';                       // set by a locale pack; unset means US order, possibly meant otherwise
+    calendar: WorkingCalendar;                       // work week, working hours and holidays
+    workingDayOffset?: number;                       // "in 3 working days": working days to move the date by
+    workingDayAnchor?: string;                       // "2 working days before": the offset counts from a date named elsewhere
+    workingDayOnly?: boolean;                        // "end of business day": move off weekends and holidays
+    allDay?: boolean;                                // "all day", "nov 4-6": whole days rather than a time
+    lastDay?: Date;                                  // last wall date of a range of days ("nov 4-6" → nov 6)
+}
+
+interface TimeAmbiguity {
+    reason: string;                                  // e.g. '"at 7" could be morning or evening'
+    start: number;                                   // position of the ambiguous words in the phrase
+    end: number;
+    chosen: string;                                  // unambiguous wording of the reading that was applied
+    others: { words: string; adjust: (state: TimeExpressionState) => void }[];
+}
+
+interface TimeGrammarRule {
+    name: string;
+    pattern: RegExp;
+    apply: (match: RegExpMatchArray, state: TimeExpressionState) => void | false; // false: not a valid date or time
+}
+
+const wallDate = (year: number, month: number, day: number) => new Date(Date.UTC(year, month, day));
+const today = (state: TimeExpressionState) =>
+    wallDate(state.wallNow.getUTCFullYear(), state.wallNow.getUTCMonth(), state.wallNow.getUTCDate());
+const addDays = (date: Date, days: number) => wallDate(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days);
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+const isCalendarDate = (year: number, month: number, day: number) => month >= 0 && month <= 11 && day >= 1 && day <= daysInMonth(year, month);
+const isClockTime = (hour: number, minute: number) => hour >= 0 && hour <= 23 && minute >= 0 && minute <= 59;
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const workingClock = (minutes: number) => ({ hour: Math.floor(minutes / 60), minute: minutes % 60, meridiem: true });
+const monthDayWords = (date: Date) => `${MONTH_NAMES[date.getUTCMonth()]} ${date.getUTCDate()} ${date.getUTCFullYear()}`;
+
+function addMonths(date: Date, months: number): Date {
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + months;
+    // Jan 31 + 1 month → Feb 28/29, not Mar 3
+    const day = Math.min(date.getUTCDate(), daysInMonth(year, month));
+    return new Date(Date.UTC(year, month, day, date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds()));
+}
+
+function amountValue(amount: string): number {
+    if (amount.startsWith('half')) return 0.5;
+    return NUMBER_WORDS[amount] ?? parseFloat(amount);
+}
+
+function toHour24(hour: number, meridiem: string): number {
+    const pm = meridiem.startsWith('p');
+    if (pm && hour !== 12) return hour + 12;
+    if (!pm && hour === 12) return 0;
+    return hour;
 }
 
 /**
- * Parse natural language time expressions into specific datetime
- * This function demonstrates how AI can interpret human time expressions
+ * Remember that a clause can be read more than one way (only the first such clause is kept)
  */
-export function parseTimeExpression(timeStr: string): Date {
-    const now = new Date();
-    const timeStrLower = timeStr.toLowerCase().trim();
-    
-    // Handle "tomorrow" expressions
-    if (timeStrLower.includes('tomorrow')) {
-        const tomorrow = new Date(now);
-        tomorrow.setDate(now.getDate() + 1);
-        
-        // Extract time if specified (e.g., "tomorrow at 2 PM")
-        const timeMatch = timeStrLower.match(/(\d{1,2})(?::(\d{2}))?\s*(am|pm)/);
-        if (timeMatch) {
-            let hour = parseInt(timeMatch[1]);
-            const minute = parseInt(timeMatch[2] || '0');
-            const ampm = timeMatch[3];
-            
-            if (ampm === 'pm' && hour !== 12) hour += 12;
-            if (ampm === 'am' && hour === 12) hour = 0;
-            
-            tomorrow.setHours(hour, minute, 0, 0);
+function noteAmbiguity(state: TimeExpressionState, start: number, end: number, ambiguity: Omit<TimeAmbiguity, 'start' | 'end'>) {
+    if (!state.ambiguity) {
+        state.ambiguity = { ...ambiguity, start, end };
+    }
+}
+
+/**
+ * Add "2 hours and 30 minutes" to the state: clock units as elapsed time, calendar units on the wall date
+ */
+function applyDurations(list: string, state: TimeExpressionState) {
+    const durationPattern = new RegExp(`(${AMOUNT_PATTERN})(${UNIT_PATTERN})( and a half)?`, 'g');
+    for (const match of list.matchAll(durationPattern)) {
+        const amount = amountValue(match[1].trim()) + (match[3] ? 0.5 : 0);
+        const unit = UNIT_ALIASES[match[2]];
+        if (unit === 'minute' || unit === 'hour') {
+            state.elapsedMs += amount * (unit === 'hour' ? 60 : 1) * 60_000;
+        } else if (unit === 'day' || unit === 'week') {
+            // Fractions of days ("1.5 days") are elapsed time; whole days move the calendar date
+            const days = amount * (unit === 'week' ? 7 : 1);
+            state.day = addDays(state.day || today(state), Math.floor(days));
+            state.elapsedMs += (days - Math.floor(days)) * 24 * 60 * 60_000;
+            state.keepClock = true;
         } else {
-            // Default to 9 AM if no specific time
-            tomorrow.setHours(9, 0, 0, 0);
+            state.day = addMonths(state.day || today(state), Math.round(amount) * (unit === 'year' ? 12 : 1));
+            state.keepClock = true;
         }
-        return tomorrow;
     }
-    
-    // Handle "today" expressions
-    if (timeStrLower.includes('today')) {
-        const today = new Date(now);
-        
-        const timeMatch = timeStrLower.match(/(\d{1,2})(?::(\d{2}))?\s*(am|pm)/);
-        if (timeMatch) {
-            let hour = parseInt(timeMatch[1]);
-            const minute = parseInt(timeMatch[2] || '0');
-            const ampm = timeMatch[3];
-            
-            if (ampm === 'pm' && hour !== 12) hour += 12;
-            if (ampm === 'am' && hour === 12) hour = 0;
-            
-            today.setHours(hour, minute, 0, 0);
-        }
-        return today;
-    }
-    
-    // Handle "next week" expressions
-    if (timeStrLower.includes('next week')) {
-        const nextWeek = new Date(now);
-        nextWeek.setDate(now.getDate() + 7);
-        nextWeek.setHours(9, 0, 0, 0); // Default to 9 AM
-        return nextWeek;
-    }
-    
-    // Handle "in X hours" expressions
-    const hoursMatch = timeStrLower.match(/in (\d+) hours?/);
-    if (hoursMatch) {
-        const hours = parseInt(hoursMatch[1]);
-        const futureTime = new Date(now);
-        futureTime.setHours(now.getHours() + hours);
-        return futureTime;
-    }
-    
-    // Handle specific times today (e.g., "10 AM", "2:30 PM")
-    const timeMatch = timeStrLower.match(/(\d{1,2})(?::(\d{2}))?\s*(am|pm)/);
-    if (timeMatch) {
-        const today = new Date(now);
-        let hour = parseInt(timeMatch[1]);
-        const minute = parseInt(timeMatch[2] || '0');
-        const ampm = timeMatch[3];
-        
-        if (ampm === 'pm' && hour !== 12) hour += 12;
-        if (ampm === 'am' && hour === 12) hour = 0;
-        
-        today.setHours(hour, minute, 0, 0);
-        
-        // If the time has already passed today, schedule for tomorrow
-        if (today <= now) {
-            today.setDate(now.getDate() + 1);
+}
+
+/**
+ * Grammar rules in matching order: longer, more specific phrases come first
+ */
+const TIME_GRAMMAR: TimeGrammarRule[] = [
+    {
+        name: 'all-day',
+        pattern: /\b(?:all[ -]day|(?:the )?(?:whole|entire|full) day)\b/,
+        apply: (_match, state) => {
+            state.allDay = true;
         }
-        
-        return today;
+    },
+    {
+        name: 'date-range',
+        // "2026-11-04 to 2026-11-06", "nov 4-6", "nov 30 - dec 2, 2026", "4th to 6th of nov"; "nov 4 to 6 pm" is a time range
+        pattern: new RegExp(
+            `\\b(\\d{4})-(\\d{2})-(\\d{2})${RANGE_PATTERN}(\\d{4})-(\\d{2})-(\\d{2})\\b` +
+            `|\\b(${MONTH_PATTERN})\\.?\\s+(\\d{1,2})${ORDINAL_PATTERN}${RANGE_PATTERN}(?:(${MONTH_PATTERN})\\.?\\s+)?(\\d{1,2})${ORDINAL_PATTERN}(?:,?\\s+(\\d{4}))?\\b(?!\\s*(?:[:.h]\\d|[ap]\\.?m\\b|o'?clock))` +
+            `|\\b(\\d{1,2})${ORDINAL_PATTERN}${RANGE_PATTERN}(\\d{1,2})${ORDINAL_PATTERN}(?:\\s+of)?\\s+(${MONTH_PATTERN})\\.?(?:,?\\s+(\\d{4}))?\\b`
+        ),
+        apply: (match, state) => {
+            const year = match[1] || match[11] || match[15];
+            const thisYear = state.wallNow.getUTCFullYear();
+            // "nov 30-31" names no day 31 (wallDate alone would make it dec 1)
+            const day = (y: number, m: number, d: number) => isCalendarDate(y, m, d) ? wallDate(y, m, d) : undefined;
+            let first: Date | undefined;
+            let last: Date | undefined;
+            if (match[1]) {
+                first = day(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+                last = day(parseInt(match[4]), parseInt(match[5]) - 1, parseInt(match[6]));
+            } else if (match[7]) {
+                const month = MONTH_ALIASES[match[7]];
+                first = day(year ? parseInt(year) : thisYear, month, parseInt(match[8]));
+                last = day(year ? parseInt(year) : thisYear, match[9] ? MONTH_ALIASES[match[9]] : month, parseInt(match[10]));
+            } else {
+                const month = MONTH_ALIASES[match[14]];
+                first = day(year ? parseInt(year) : thisYear, month, parseInt(match[12]));
+                last = day(year ? parseInt(year) : thisYear, month, parseInt(match[13]));
+            }
+            if (!first || !last) {
+                return false;
+            }
+            // "dec 30 - jan 2" runs into the next year; a year given at the end belongs to the last day
+            if (last < first && !match[1]) {
+                if (year) {
+                    first = addMonths(first, -12);
+                } else {
+                    last = addMonths(last, 12);
+                }
+            }
+            state.day = first;
+            state.lastDay = last;
+            state.allDay = true;
+            if (!year) state.dayRolls = 'year';
+        }
+    },
+    {
+        name: 'iso-date',
+        pattern: /\b(\d{4})-(\d{2})-(\d{2})(?:(?:t|\s+)(\d{1,2}):(\d{2})(?::\d{2})?)?\b/,
+        apply: (match, state) => {
+            const [year, month, day] = [parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3])];
+            if (!isCalendarDate(year, month, day) || (match[4] && !isClockTime(parseInt(match[4]), parseInt(match[5])))) {
+                return false;
+            }
+            state.day = wallDate(year, month, day);
+            if (match[4]) {
+                state.clock = { hour: parseInt(match[4]), minute: parseInt(match[5]), meridiem: true };
+            }
+        }
+    },
+    {
+        name: 'working-days',
+        pattern: new RegExp(
+            `\\b(?:in|within|after)\\s+(${AMOUNT_PATTERN})${WORKING_DAYS_PATTERN}` +
+            `|\\b(${AMOUNT_PATTERN})${WORKING_DAYS_PATTERN}\\s+(from now|from today|later|before|after|from)\\b`
+        ),
+        apply: (match, state) => {
+            const days = Math.max(1, Math.round(amountValue((match[1] || match[2]).trim())));
+            state.workingDayOffset = match[3] === 'before' ? -days : days;
+            // "in 3 working days" counts from today; "2 working days before nov 20" from that date.
+            // Either way the day starts at the working hours, like "next business day".
+            if (!match[3] || /now|today|later/.test(match[3])) {
+                state.day = state.day || today(state);
+            } else {
+                state.workingDayAnchor = match[0].trim();
+            }
+        }
+    },
+    {
+        name: 'next-working-day',
+        pattern: /\b(?:the )?next (?:business|working|work) ?day\b/,
+        apply: (_match, state) => {
+            state.day = state.day || today(state);
+            state.workingDayOffset = 1;
+        }
+    },
+    {
+        name: 'business-hours',
+        pattern: /\b(?:by )?(?:the )?(end|close|start|beginning|open) of (?:the )?(?:business|work|working)(?: ?day)?\b|\b(cob|eob|sob)\b/,
+        apply: (match, state) => {
+            const opening = /^(start|beginning|open|sob)/.test(match[1] || match[2]);
+            const { start, end } = state.calendar.workHours;
+            state.clock = state.clock || workingClock(opening ? start : end);
+            state.workingDayOnly = true;
+        }
+    },
+    {
+        name: 'offset',
+        pattern: new RegExp(`\\b(?:in|within|after)\\s+(${DURATION_LIST_PATTERN})\\b|\\b(${DURATION_LIST_PATTERN})\\s+(?:from now|from today|later)\\b`),
+        apply: (match, state) => applyDurations(match[1] || match[2], state)
+    },
+    {
+        name: 'relative-day',
+        pattern: /\b(?:the )?day after tomorrow\b|\btomorrow\b|\btmrw?\b|\btoday\b|\btonight\b/,
+        apply: (match, state) => {
+            const word = match[0];
+            if (word.includes('after')) {
+                state.day = addDays(today(state), 2);
+            } else if (word.startsWith('tm') || word === 'tomorrow') {
+                state.day = addDays(today(state), 1);
+            } else {
+                state.day = today(state);
+                if (word === 'tonight') {
+                    state.partOfDay = state.partOfDay || 'tonight';
+                } else {
+                    state.keepClock = true;
+                }
+            }
+        }
+    },
+    {
+        name: 'end-of-period',
+        pattern: /\b(?:by )?(?:the )?end of (?:the )?(day|week|month|year)\b|\beod\b|\beow\b|\beom\b/,
+        apply: (match, state) => {
+            const period = match[1] || { eod: 'day', eow: 'week', eom: 'month' }[match[0]]!;
+            const base = today(state);
+            if (period === 'day') {
+                state.day = base;
+                state.clock = state.clock || workingClock(state.calendar.workHours.end);
+            } else if (period === 'week') {
+                state.day = addDays(base, (5 - base.getUTCDay() + 7) % 7); // this week's Friday
+            } else if (period === 'month') {
+                state.day = wallDate(base.getUTCFullYear(), base.getUTCMonth(), daysInMonth(base.getUTCFullYear(), base.getUTCMonth()));
+            } else {
+                state.day = wallDate(base.getUTCFullYear(), 11, 31);
+            }
+        }
+    },
+    {
+        name: 'next-period',
+        pattern: /\b(next|this) (week|month|year|weekend)\b|\b(?:on )?(?:the )?weekend\b/,
+        apply: (match, state) => {
+            const base = today(state);
+            const period = match[2] || 'weekend';
+            if (period === 'weekend') {
+                const saturday = addDays(base, (6 - base.getUTCDay() + 7) % 7);
+                state.day = match[1] === 'next' ? addDays(saturday, 7) : saturday;
+            } else if (match[1] === 'this') {
+                state.day = base;
+            } else if (period === 'week') {
+                // A week from a Saturday is a Saturday: take the start of next week instead, and skip holidays
+                const weekLater = addDays(base, 7);
+                state.day = state.calendar.workDays.includes(weekLater.getUTCDay())
+                    ? nextWorkingDay(weekLater, state.calendar)
+                    : nextWorkingDay(addDays(base, 7 - (base.getUTCDay() + 6) % 7), state.calendar);
+            } else {
+                state.day = addMonths(base, period === 'year' ? 12 : 1);
+            }
+        }
+    },
+    {
+        name: 'month-day',
+        pattern: new RegExp(
+            `\\b(${MONTH_PATTERN})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b` +
+            `|\\b(\\d{1,2})(?:st|nd|rd|th)?(?:\\s+of)?\\s+(${MONTH_PATTERN})\\.?(?:,?\\s+(\\d{4}))?\\b`
+        ),
+        apply: (match, state) => {
+            const month = MONTH_ALIASES[match[1] || match[5]];
+            const day = parseInt(match[2] || match[4]);
+            const year = match[3] || match[6];
+            const yearNumber = year ? parseInt(year) : state.wallNow.getUTCFullYear();
+            if (!isCalendarDate(yearNumber, month, day)) {
+                return false;
+            }
+            state.day = wallDate(yearNumber, month, day);
+            if (!year) state.dayRolls = 'year';
+        }
+    },
+    {
+        name: 'numeric-date',
+        // month/day(/year), or day/month(/year) for locales that say so
+        pattern: /\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?\b/,
+        apply: (match, state) => {
+            const year = match[3] ? (match[3].length === 2 ? 2000 + parseInt(match[3]) : parseInt(match[3])) : state.wallNow.getUTCFullYear();
+            const [first, second] = state.dateOrder === 'dmy' ? [parseInt(match[2]), parseInt(match[1])] : [parseInt(match[1]), parseInt(match[2])];
+            if (!isCalendarDate(year, first - 1, second)) {
+                return false;
+            }
+            state.day = wallDate(year, first - 1, second);
+            if (!match[3]) state.dayRolls = 'year';
+            // 3/11 is March 11 in the US but 3 November almost everywhere else
+            if (!state.dateOrder && first !== second && first <= 12 && second <= 12) {
+                const yearWords = match[3] ? ` ${year}` : '';
+                noteAmbiguity(state, match.index!, match.index! + match[0].length, {
+                    reason: `"${match[0]}" could be month/day or day/month`,
+                    chosen: `${MONTH_NAMES[first - 1]} ${second}${yearWords}`,
+                    others: [{
+                        words: `${MONTH_NAMES[second - 1]} ${first}${yearWords}`,
+                        adjust: variant => { variant.day = wallDate(year, second - 1, first); }
+                    }]
+                });
+            }
+        }
+    },
+    {
+        name: 'weekday',
+        pattern: new RegExp(`\\b(?:(next|this|coming|on)\\s+)?(${WEEKDAY_PATTERN})\\b`),
+        apply: (match, state) => {
+            const base = today(state);
+            const ahead = (WEEKDAY_ALIASES[match[2]] - base.getUTCDay() + 7) % 7;
+            // "next Tuesday" never means today; a plain "Tuesday" does while the time is still ahead
+            state.day = addDays(base, match[1] === 'next' && ahead === 0 ? 7 : ahead);
+            if (match[1] !== 'next') state.dayRolls = 'week';
+            // Said on a Monday, "next Friday" is this week's Friday to some people and next week's to others
+            if (match[1] === 'next' && ahead > 0) {
+                const weekLater = addDays(state.day, 7);
+                noteAmbiguity(state, match.index!, match.index! + match[0].length, {
+                    reason: `"${match[0]}" could be this coming ${match[2]} or the one a week later`,
+                    chosen: monthDayWords(state.day),
+                    others: [{ words: monthDayWords(weekLater), adjust: variant => { variant.day = weekLater; } }]
+                });
+            }
+        }
+    },
+    {
+        name: 'ordinal-day',
+        pattern: /\b(?:on )?the (\d{1,2})(?:st|nd|rd|th)\b(?: of (?:the|this) month)?/,
+        apply: (match, state) => {
+            const base = today(state);
+            const dayOfMonth = parseInt(match[1]);
+            // The next month that has this day, starting with the current one
+            for (let offset = 0; offset < 12; offset++) {
+                const year = base.getUTCFullYear();
+                const month = base.getUTCMonth() + offset;
+                if (dayOfMonth <= daysInMonth(year, month) && (offset > 0 || dayOfMonth >= base.getUTCDate())) {
+                    state.day = wallDate(year, month, dayOfMonth);
+                    state.dayRolls = 'month';
+                    return;
+                }
+            }
+        }
+    },
+    {
+        name: 'clock-12h',
+        pattern: new RegExp(`\\b(\\d{1,2})(?::(\\d{2}))?\\s*${MERIDIEM_PATTERN}`),
+        apply: (match, state) => {
+            const hour = parseInt(match[1]);
+            const minute = parseInt(match[2] || '0');
+            if (hour > 12 || !isClockTime(hour, minute)) {
+                return false; // "13 pm", "9:75 am"
+            }
+            state.clock = { hour: toHour24(hour, match[3]), minute, meridiem: true };
+        }
+    },
+    {
+        name: 'clock-24h',
+        pattern: /\b([01]?\d|2[0-3])[:h]([0-5]\d)\b/,
+        apply: (match, state) => {
+            const hour = parseInt(match[1]);
+            // "14:30" and "08:30" are unambiguous; "8:30" may still be turned into 20:30 by "tonight"
+            state.clock = { hour, minute: parseInt(match[2]), meridiem: hour === 0 || hour > 12 || match[1].startsWith('0') };
+        }
+    },
+    {
+        name: 'clock-hour',
+        pattern: /\b(?:at|around|by)\s+([01]?\d|2[0-3])(?:\s*o'?clock)?\b(?![:/.]\d)|\b(\d{1,2})\s*o'?clock\b/,
+        apply: (match, state) => {
+            const hour = parseInt(match[1] || match[2]);
+            if (!isClockTime(hour, 0)) {
+                return false; // "25 o'clock"
+            }
+            state.clock = { hour, minute: 0, meridiem: hour === 0 || hour > 12 };
+        }
+    },
+    {
+        name: 'part-of-day',
+        pattern: new RegExp(`\\b(?:(?:this|in the|at)\\s+)?(${pattern(PARTS_OF_DAY)})\\b`),
+        apply: (match, state) => {
+            state.partOfDay = match[1];
+        }
+    }
+];
+
+// Words that carry no meaning once the grammar has matched ("at", "on", punctuation)
+const FILLER_WORDS = /\b(?:at|on|by|around|about|the|of|and|from|for|in|next|this|o'?clock)\b|[,.;!?]/g;
+// Left-over words that still say when ("yesterday", "25:00", "13pm"): a phrase with these unread is not understood
+const TIME_WORDS = new RegExp(
+    `\\d|${MERIDIEM_PATTERN}|\\b(?:${WEEKDAY_PATTERN}|${MONTH_PATTERN}|${pattern(PARTS_OF_DAY)}|${pattern(UNIT_ALIASES)}|` +
+    `yesterday|tomorrow|today|tonight|ago|last|past|previous|before|after|since|until|till|earlier|later|deadline|weekend)\\b`
+);
+// A resolved time this far before now has already gone by ("today" keeps the current time, to the second)
+const PAST_TOLERANCE_MS = 60_000;
+
+export interface TimeReading {
+    date: Date;
+    phrase: string;         // unambiguous wording of this reading, e.g. "tomorrow at 7 pm"
+}
+
+export interface TimeExpressionMatch {
+    date: Date;
+    rules: string[];        // grammar rules that matched, e.g. ['weekday', 'clock-12h']
+    hasDate: boolean;       // the phrase named a day
+    hasClock: boolean;      // the phrase named a time of day (or a part of the day)
+    partOfDay?: string;
+    allDay?: DaySpan;       // the whole days an all-day phrase ("all day tomorrow", "nov 4-6") takes
+    span?: { start: number; end: number; text: string }; // part of the input (of `translation`, when set) the rules understood
+    translation?: string;   // English phrasing a locale pack rewrote the input into
+    unparsed: string;       // words no rule understood
+    missingAnchor?: string; // "2 working days before" with no date named to count from
+    ambiguity?: { reason: string; phrase: string };      // why `date` is only one reading, and its unambiguous wording
+    alternatives: TimeReading[];                         // the other readings of an ambiguous phrase
+}
+
+/**
+ * Run the time grammar over a phrase. Returns null when no rule matched at all.
+ *
+ * @param now - Reference instant for relative expressions
+ * @param timeZone - IANA zone whose wall clock the phrase refers to
+ * @param locale - Language of the phrase (English when absent)
+ * @param calendar - Working days, hours and holidays for business-day phrases
+ */
+export function matchTimeExpression(
+    timeStr: string,
+    now: Date = new Date(),
+    timeZone: string = serverTimeZone(),
+    locale?: LocalePack,
+    calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR
+): TimeExpressionMatch | null {
+    if (!locale?.parser) {
+        return runTimeGrammar(timeStr, now, timeZone, calendar);
+    }
+    const translation = translateTimePhrase(timeStr, locale);
+    const match = runTimeGrammar(translation, now, timeZone, calendar, locale.parser.dateOrder);
+    return match && { ...match, translation };
+}
+
+function runTimeGrammar(timeStr: string, now: Date, timeZone: string, calendar: WorkingCalendar, dateOrder?: 'mdy' | 'dmy'): TimeExpressionMatch | null {
+    // Full ISO timestamps with an offset are already instants
+    const trimmed = timeStr.trim();
+    if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})$/i.test(trimmed)) {
+        const start = timeStr.indexOf(trimmed);
+        return {
+            date: new Date(trimmed),
+            rules: ['iso-instant'],
+            hasDate: true,
+            hasClock: true,
+            span: { start, end: start + trimmed.length, text: trimmed },
+            unparsed: '',
+            alternatives: []
+        };
+    }
+
+    const state: TimeExpressionState = { wallNow: toZonedWall(now, timeZone), elapsedMs: 0, rules: [], calendar, ...(dateOrder ? { dateOrder } : {}) };
+    const { text: phrase, offsets } = normalizePhrase(timeStr);
+    const spans: { rule: string; start: number; end: number }[] = [];
+    let remaining = phrase;
+
+    // Matched clauses are blanked out in place so positions keep pointing into the phrase
+    const consume = (rule: string, match: RegExpMatchArray) => {
+        const start = match.index!;
+        const end = start + match[0].length;
+        spans.push({ rule, start, end });
+        remaining = remaining.slice(0, start) + ' '.repeat(end - start) + remaining.slice(end);
+    };
+
+    for (const rule of TIME_GRAMMAR) {
+        const match = remaining.match(rule.pattern);
+        if (match && rule.apply(match, state) !== false) {
+            state.rules.push(rule.name);
+            consume(rule.name, match);
+        }
+    }
+    if (state.rules.length === 0) {
+        return null;
+    }
+    // "2 working days before the deadline": no date to count from, so today is only a guess
+    const missingAnchor = state.workingDayAnchor && !state.day ? state.workingDayAnchor : undefined;
+    if (missingAnchor) {
+        state.day = today(state);
+    }
+
+    const part = state.partOfDay ? PARTS_OF_DAY[state.partOfDay] : undefined;
+    // A bare number next to a part of the day is its hour: "8 tonight", "tomorrow morning at 7"
+    const bareHour = remaining.match(/\b(1[0-2]|0?[1-9])\b/);
+    if (part && !state.clock && bareHour) {
+        state.clock = { hour: parseInt(bareHour[1]), minute: 0, meridiem: false };
+        state.rules.push('clock-hour');
+        consume('clock-hour', bareHour);
+    }
+    if (state.clock && part?.pm && !state.clock.meridiem && state.clock.hour < 12) {
+        state.clock.hour += 12; // "8 tonight", "7 in the evening"
+    }
+
+    // "at 7" with nothing to say whether it is morning or evening
+    const clockSpan = spans.find(span => span.rule.startsWith('clock'));
+    if (state.clock && clockSpan && !state.clock.meridiem && !part && state.clock.hour >= 1 && state.clock.hour <= 11) {
+        const { hour, minute } = state.clock;
+        const words = phrase.slice(clockSpan.start, clockSpan.end);
+        const prefix = words.match(/^(?:at|around|by)\s+/)?.[0] || '';
+        const clockWords = (meridiem: string) => `${prefix}${hour}${minute ? `:${String(minute).padStart(2, '0')}` : ''} ${meridiem}`;
+        noteAmbiguity(state, clockSpan.start, clockSpan.end, {
+            reason: `"${words.trim()}" could be morning or evening`,
+            chosen: clockWords('am'),
+            others: [{ words: clockWords('pm'), adjust: variant => { variant.clock = { hour: hour + 12, minute, meridiem: true }; } }]
+        });
+    }
+
+    const understood = spans.length > 0 ? {
+        start: offsets[Math.min(...spans.map(span => span.start))],
+        end: offsets[Math.max(...spans.map(span => span.end)) - 1] + 1
+    } : undefined;
+    const ambiguity = state.ambiguity;
+    const reword = (words: string) => `${phrase.slice(0, ambiguity!.start)}${words}${phrase.slice(ambiguity!.end)}`.replace(/\s+/g, ' ').trim();
+
+    return {
+        date: resolveWallTime(state, now, timeZone),
+        rules: state.rules,
+        hasDate: state.day !== undefined,
+        hasClock: !!(state.clock || part),
+        ...(state.partOfDay ? { partOfDay: state.partOfDay } : {}),
+        ...(state.allDay ? { allDay: resolveDays(state) } : {}),
+        ...(understood ? { span: { ...understood, text: timeStr.slice(understood.start, understood.end) } } : {}),
+        unparsed: leftover(remaining),
+        ...(missingAnchor ? { missingAnchor } : {}),
+        ...(ambiguity ? { ambiguity: { reason: ambiguity.reason, phrase: reword(ambiguity.chosen) } } : {}),
+        alternatives: (ambiguity?.others || []).map(other => {
+            const variant: TimeExpressionState = { ...state };
+            other.adjust(variant);
+            return { date: resolveWallTime(variant, now, timeZone), phrase: reword(other.words) };
+        })
+    };
+}
+
+/**
+ * Lowercase the phrase and collapse whitespace, padded with a space on each side.
+ * offsets[i] is the position in the original text of character i.
+ */
+function normalizePhrase(text: string): { text: string; offsets: number[] } {
+    let normalized = ' ';
+    const offsets = [0];
+    for (let index = 0; index < text.length; index++) {
+        const char = text[index];
+        if (/\s/.test(char)) {
+            if (!normalized.endsWith(' ')) {
+                normalized += ' ';
+                offsets.push(index);
+            }
+        } else {
+            const lower = char.toLowerCase();
+            normalized += lower.length === 1 ? lower : char;
+            offsets.push(index);
+        }
+    }
+    if (!normalized.endsWith(' ')) {
+        normalized += ' ';
+        offsets.push(text.length);
+    }
+    return { text: normalized, offsets };
+}
+
+/**
+ * The days an all-day phrase takes. A range that is over means next year's (or week's, ...);
+ * one still running keeps its days.
+ */
+function resolveDays(state: TimeExpressionState): DaySpan {
+    let first = state.day || today(state);
+    let last = state.lastDay && state.lastDay > first ? state.lastDay : first;
+    if (last < today(state) && state.dayRolls) {
+        const roll = (day: Date) => state.dayRolls === 'week' ? addDays(day, 7) : addMonths(day, state.dayRolls === 'year' ? 12 : 1);
+        first = roll(first);
+        last = roll(last);
+    }
+    // "all day next business day": business-day phrases move a single day
+    if (first.getTime() === last.getTime() && (state.workingDayOffset !== undefined || state.workingDayOnly)) {
+        first = state.workingDayOffset !== undefined
+            ? addWorkingDays(first, state.workingDayOffset, state.calendar)
+            : isWorkingDay(first, state.calendar) ? first : nextWorkingDay(first, state.calendar);
+        last = first;
+    }
+    return { firstDay: dayKey(first), lastDay: dayKey(last) };
+}
+
+/**
+ * Turn the matched clauses into an instant (for all-day phrases, when the reminder notifies)
+ */
+function resolveWallTime(state: TimeExpressionState, now: Date, timeZone: string): Date {
+    if (state.allDay) {
+        const wall = keyDay(resolveDays(state).firstDay);
+        wall.setUTCHours(ALL_DAY_REMINDER_HOUR, 0, 0, 0);
+        return fromZonedWall(wall, timeZone);
+    }
+    const hasDate = state.day !== undefined;
+    const part = state.partOfDay ? PARTS_OF_DAY[state.partOfDay] : undefined;
+    const clock = state.clock || (part ? { hour: part.hour, minute: 0 } : undefined);
+    const businessDay = state.workingDayOffset !== undefined;
+
+    if (!hasDate && !clock) {
+        return new Date(now.getTime() + state.elapsedMs);
+    }
+
+    const wall = new Date(state.day || today(state));
+    if (clock) {
+        wall.setUTCHours(clock.hour, clock.minute, 0, 0);
+    } else if (state.keepClock) {
+        wall.setUTCHours(state.wallNow.getUTCHours(), state.wallNow.getUTCMinutes(), state.wallNow.getUTCSeconds(), 0);
+    } else if (businessDay) {
+        const start = workingClock(state.calendar.workHours.start);
+        wall.setUTCHours(start.hour, start.minute, 0, 0);
+    } else {
+        wall.setUTCHours(DEFAULT_HOUR, 0, 0, 0);
+    }
+
+    // A time that already passed today means tomorrow; "Tuesday"/"Nov 3"/"the 15th" roll to the next one
+    if (wall <= state.wallNow && !state.keepClock) {
+        if (!hasDate) {
+            wall.setUTCDate(wall.getUTCDate() + 1);
+        } else if (state.dayRolls === 'week') {
+            wall.setUTCDate(wall.getUTCDate() + 7);
+        } else if (state.dayRolls === 'month' || state.dayRolls === 'year') {
+            const rolled = addMonths(wall, state.dayRolls === 'year' ? 12 : 1);
+            wall.setTime(rolled.getTime());
+        }
+    }
+
+    // Business days are counted from the named date (or today), keeping the time of day
+    if (businessDay || state.workingDayOnly) {
+        const day = wallDate(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate());
+        const workingDay = businessDay
+            ? addWorkingDays(day, state.workingDayOffset!, state.calendar)
+            : isWorkingDay(day, state.calendar) ? day : nextWorkingDay(day, state.calendar);
+        wall.setUTCFullYear(workingDay.getUTCFullYear(), workingDay.getUTCMonth(), workingDay.getUTCDate());
     }
-    
-    // Default: 1 hour from now
-    const defaultTime = new Date(now);
-    defaultTime.setHours(now.getHours() + 1);
-    return defaultTime;
+
+    return new Date(fromZonedWall(wall, timeZone).getTime() + state.elapsedMs);
+}
+
+function leftover(remaining: string): string {
+    return remaining.replace(FILLER_WORDS, ' ').replace(/\s+/g, ' ').trim();
+}
+
+export type TimeConfidence = 'high' | 'medium' | 'low';
+
+export interface TimeParseResult extends TimeExpressionMatch {
+    confidence: TimeConfidence;
+    interpretation: string;
+    past?: boolean;         // the phrase names a time (or days) that has already gone by
 }
 
 /**
- * Convert JavaScript Date to ICS-compatible date array
+ * Parse a time phrase into a structured result: the resolved instant, the part of the
+ * phrase that was understood, other readings when it is ambiguous, and how confident
+ * the parser is. Phrases nothing could be made of resolve to one hour from now with low confidence.
+ *
+ * @param now - Reference instant for relative expressions
+ * @param timeZone - IANA zone whose wall clock the phrase refers to
+ * @param locale - Language of the phrase (English when absent)
+ * @param calendar - Working days, hours and holidays for business-day phrases
  */
-function dateToIcsArray(date: Date): ParsedDateTime {
+export function resolveTimeExpression(
+    timeStr: string,
+    now: Date = new Date(),
+    timeZone: string = serverTimeZone(),
+    locale?: LocalePack,
+    calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR
+): TimeParseResult {
+    const match = matchTimeExpression(timeStr, now, timeZone, locale, calendar);
+    if (!match) {
+        return {
+            date: new Date(now.getTime() + 60 * 60 * 1000),
+            rules: [],
+            hasDate: false,
+            hasClock: false,
+            unparsed: timeStr.trim(),
+            alternatives: [],
+            confidence: 'low',
+            interpretation: 'Vague time reference (defaulting to 1 hour from now)'
+        };
+    }
+
+    let confidence: TimeConfidence;
+    let interpretation: string;
+    if (match.allDay) {
+        const days = spanLength(match.allDay);
+        confidence = 'high';
+        interpretation = days > 1 ? `All-day, ${days} days` : 'All-day date';
+    } else if (match.hasClock && !match.partOfDay) {
+        confidence = 'high';
+        interpretation = 'Specific time detected';
+    } else if (!match.hasDate && !match.hasClock) {
+        confidence = 'high';
+        interpretation = 'Relative offset from now';
+    } else if (match.rules.includes('relative-day') && !match.partOfDay) {
+        confidence = 'high';
+        interpretation = 'Relative day with time';
+    } else if (match.partOfDay) {
+        const hour = new Intl.DateTimeFormat('en-US', { hour: 'numeric', timeZone }).format(match.date);
+        confidence = 'medium';
+        interpretation = `General ${match.partOfDay} timeframe (assuming ${hour})`;
+    } else if (match.rules.includes('working-days') || match.rules.includes('next-working-day')) {
+        const hour = new Intl.DateTimeFormat('en-US', { hour: 'numeric', minute: '2-digit', timeZone }).format(match.date);
+        confidence = 'high';
+        interpretation = `Business-day offset (at ${hour})`;
+    } else {
+        const hour = new Intl.DateTimeFormat('en-US', { hour: 'numeric', minute: '2-digit', timeZone }).format(match.date);
+        confidence = 'medium';
+        interpretation = `Date without a time (assuming ${hour})`;
+    }
+
+    // An ambiguous phrase is at best a good guess
+    if (match.ambiguity) {
+        confidence = confidence === 'high' ? 'medium' : confidence;
+        interpretation += ` (ambiguous: ${match.ambiguity.reason})`;
+    }
+    // Words the grammar skipped lower the confidence one step; skipped words about the time
+    // ("yesterday at 3pm", "tomorrow at 25:00") mean the result is not what was asked for
+    if (match.unparsed) {
+        confidence = confidence === 'high' && !TIME_WORDS.test(match.unparsed) ? 'medium' : 'low';
+        interpretation += ` (ignored: "${match.unparsed}")`;
+    }
+    if (match.missingAnchor) {
+        confidence = 'low';
+        interpretation += ` (no date to count "${match.missingAnchor}" from)`;
+    }
+    // "today at 8 AM" in the afternoon, "2026-01-05", "oct 1-3" after the 3rd
+    const past = match.allDay
+        ? match.allDay.lastDay < dayKey(toZonedWall(now, timeZone))
+        : match.date.getTime() < now.getTime() - PAST_TOLERANCE_MS;
+    if (past) {
+        confidence = 'low';
+        interpretation += ' (already past)';
+    }
+
+    return { ...match, confidence, interpretation, ...(past ? { past } : {}) };
+}
+
+/**
+ * Parse natural language time expressions into specific datetime
+ * This function demonstrates how AI can interpret human time expressions
+ * (see the grammar above for what is understood)
+ *
+ * @param now - Reference instant for relative expressions ("in 2 hours"), defaults to the current time
+ * @param timeZone - IANA zone whose wall clock "9 AM" and "tomorrow" refer to (defaults to the server zone)
+ * @param locale - Language of the phrase (English when absent)
+ * @param calendar - Working days, hours and holidays for business-day phrases
+ */
+export function parseTimeExpression(
+    timeStr: string,
+    now: Date = new Date(),
+    timeZone: string = serverTimeZone(),
+    locale?: LocalePack,
+    calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR
+): Date {
+    return resolveTimeExpression(timeStr, now, timeZone, locale, calendar).date;
+}
+
+export interface TimeClarification {
+    time: string;                                   // the phrase as given
+    reason: 'unrecognized' | 'partially-understood' | 'ambiguous' | 'past' | 'missing-date';
+    question: string;                               // ready to put to the user
+    options: { time: string; description: string }[]; // unambiguous phrases to call the tool again with
+}
+
+/**
+ * Raised when a time phrase is too vague or ambiguous to act on (mapped to HTTP 422
+ * with code TIME_CLARIFICATION_NEEDED). Carries the question to ask the user.
+ */
+export class TimeClarificationError extends Error {
+    constructor(public clarification: TimeClarification) {
+        super(clarification.question);
+        this.name = 'TimeClarificationError';
+    }
+}
+
+/**
+ * What to ask the user before acting on a parse result: null when the time is clear enough,
+ * otherwise a question for low-confidence, ambiguous or past times
+ */
+export function clarifyTimeExpression(timeStr: string, result: TimeParseResult, timeZone: string = serverTimeZone()): TimeClarification | null {
+    const describe = (date: Date) => formatInZone(date, timeZone);
+
+    if (result.ambiguity) {
+        const options = [
+            { time: result.ambiguity.phrase, description: describe(result.date) },
+            ...result.alternatives.map(reading => ({ time: reading.phrase, description: describe(reading.date) }))
+        ];
+        return {
+            time: timeStr,
+            reason: 'ambiguous',
+            question: `${capitalize(result.ambiguity.reason)}. Did you mean ${options.map(option => option.description).join(' or ')}?`,
+            options
+        };
+    }
+
+    if (result.confidence !== 'low') {
+        return null;
+    }
+    if (result.missingAnchor) {
+        return {
+            time: timeStr,
+            reason: 'missing-date',
+            question: `${capitalize(result.missingAnchor)} which date? (e.g. "${result.missingAnchor} nov 20")`,
+            options: []
+        };
+    }
+    if (result.past && !result.unparsed) {
+        return {
+            time: timeStr,
+            reason: 'past',
+            question: `"${timeStr}" is ${describe(result.date)}, which has already passed. When should this happen instead?`,
+            options: []
+        };
+    }
+    if (!result.span) {
+        return {
+            time: timeStr,
+            reason: 'unrecognized',
+            question: `"${timeStr}" is not a time I understand. When should this happen? (e.g. "tomorrow at 3 PM", "in 2 hours", "2026-11-03 09:00")`,
+            options: []
+        };
+    }
     return {
-        year: date.getFullYear(),
-        month: date.getMonth() + 1, // ICS months are 1-based
-        day: date.getDate(),
-        hour: date.getHours(),
-        minute: date.getMinutes()
+        time: timeStr,
+        reason: 'partially-understood',
+        question: `I understood "${result.span.text}" as ${describe(result.date)} but not "${result.unparsed}". Is ${describe(result.date)} right?`,
+        options: [{ time: result.span.text, description: describe(result.date) }]
     };
 }
 
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
 /**
  * Generate ICS calendar file content for an event
  */
 export async function generateCalendarInvite(eventData: CalendarEventData): Promise<{ content: string; filename: string }> {
     try {
-        // Parse the start time
-        const startDate = parseTimeExpression(eventData.startDateTime);
-        const endDate = new Date(startDate);
-        endDate.setMinutes(startDate.getMinutes() + (eventData.duration || 30));
-        
-        // Convert to ICS format
-        const startDateTime = dateToIcsArray(startDate);
-        const endDateTime = dateToIcsArray(endDate);
+        // Parse the start time (unless the caller already resolved it)
+        const timeZone = eventData.timeZone || serverTimeZone();
+        const startDate = eventData.startDate || parseTimeExpression(eventData.startDateTime, new Date(), timeZone, eventData.locale);
+        const messages = (eventData.locale || en).messages;
+        const endDate = new Date(startDate.getTime() + (eventData.duration || 30) * 60 * 1000);
         
+        // Instants are written as UTC (DTSTART:...Z) so every client shows the same moment.
+        // UID and SEQUENCE let calendar clients apply later updates and cancellations to this event.
+        const method = eventData.method || 'REQUEST';
+        const attendees: (InviteAttendee & { response?: AttendeeResponse })[] = eventData.attendees && eventData.attendees.length > 0
+            ? eventData.attendees
+            : eventData.attendeeEmail ? [{ email: eventData.attendeeEmail, role: 'required' }] : [];
+        // All-day events are dates (DTSTART;VALUE=DATE) ending the day after their last day;
+        // their alarms count from midnight, so the reminder's 9 AM offsets are moved by that much
+        const days = eventData.days;
+        const icsDate = (key: string, offset = 0): [number, number, number] => {
+            const day = keyDay(key, offset);
+            return [day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate()];
+        };
+        const triggerMinutes = (alarm: ReminderAlarm) => (alarm.minutesBefore || 0) - (days ? ALL_DAY_REMINDER_HOUR * 60 : 0);
         const event: EventAttributes = {
-            start: [startDateTime.year, startDateTime.month, startDateTime.day, startDateTime.hour, startDateTime.minute],
-            end: [endDateTime.year, endDateTime.month, endDateTime.day, endDateTime.hour, endDateTime.minute],
+            ...(eventData.uid ? { uid: eventData.uid } : {}),
+            sequence: eventData.sequence || 0,
+            method,
+            ...(days ? {
+                start: icsDate(days.firstDay),
+                end: icsDate(days.lastDay, 1)
+            } : {
+                start: startDate.getTime(),
+                startInputType: 'utc',
+                startOutputType: 'utc',
+                end: endDate.getTime(),
+                endInputType: 'utc',
+                endOutputType: 'utc'
+            }),
             title: eventData.title,
             description: eventData.description,
-            location: eventData.location || 'Not specified',
+            location: eventData.location || messages.noLocation,
             url: 'https://example.com/reminder-system',
-            status: 'CONFIRMED',
-            busyStatus: 'BUSY',
-            organizer: { name: 'AI Reminder Assistant', email: process.env.EMAIL_USER || 'assistant@example.com' },
-            attendees: eventData.attendeeEmail ? [
-                { name: 'Attendee', email: eventData.attendeeEmail, rsvp: true, partstat: 'NEEDS-ACTION', role: 'REQ-PARTICIPANT' }
-            ] : [],
-            alarms: [
-                {
-                    action: 'display',
-                    description: eventData.title,
-                    trigger: { minutes: 15, before: true } // 15 minutes before
-                },
-                {
-                    action: 'display', 
-                    description: eventData.title,
-                    trigger: { minutes: 5, before: true } // 5 minutes before
-                }
-            ]
+            status: method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED',
+            busyStatus: days ? 'FREE' : 'BUSY',
+            ...(eventData.categories && eventData.categories.length > 0 ? { categories: eventData.categories } : {}),
+            ...(eventData.lastModified ? { lastModified: eventData.lastModified.getTime() } : {}),
+            organizer: {
+                name: eventData.organizer?.name || messages.organizerName,
+                email: eventData.organizer?.email || process.env.EMAIL_USER || 'assistant@example.com'
+            },
+            attendees: attendees.map(attendee => ({
+                name: attendee.name || messages.attendeeName,
+                email: attendee.email,
+                rsvp: !attendee.response || attendee.response === 'needs-action',
+                partstat: (attendee.response || 'needs-action').toUpperCase() as ParticipationStatus,
+                role: attendee.role === 'optional' ? 'OPT-PARTICIPANT' : 'REQ-PARTICIPANT'
+            })),
+            // Fixed-time alarms trigger at a UTC instant; the others relative to each start
+            alarms: (eventData.alarms || DEFAULT_ALARMS).map(alarm => ({
+                action: alarm.action || 'display',
+                description: eventData.title,
+                ...(alarm.action === 'email' ? { summary: eventData.title } : {}),
+                trigger: alarm.at !== undefined
+                    ? new Date(alarm.at).getTime()
+                    : { minutes: Math.abs(triggerMinutes(alarm)), before: triggerMinutes(alarm) > 0 }
+            }))
         };
         
+        // Recurring events carry an RRULE plus any skipped occurrences (dates, for all-day events)
+        if (eventData.recurrenceRule) {
+            event.recurrenceRule = days ? eventData.recurrenceRule.replace(/UNTIL=(\d{8})T\d{6}Z/, 'UNTIL=$1') : eventData.recurrenceRule;
+            if (eventData.exclusionDates && eventData.exclusionDates.length > 0) {
+                event.exclusionDates = eventData.exclusionDates.map(date =>
+                    days ? dayKey(toZonedWall(date, timeZone)).replace(/-/g, '') : date.getTime());
+            }
+        }
+        
         const { error, value } = createEvent(event);
         
         if (error) {
             throw new Error(`Failed to create calendar event: ${error.message}`);
         }
         
+        // A UTC start would make clients repeat the event at a fixed UTC hour, drifting
+        // by an hour across DST changes; recurring events keep their wall-clock time instead.
+        // Dates need no zone: an all-day event takes the same days wherever it is shown.
+        const ics = value || '';
+        const content = withAlarmDetails(
+            days ? ics.replace(/^EXDATE:/m, 'EXDATE;VALUE=DATE:') : eventData.recurrenceRule ? withZonedTimes(ics, timeZone, startDate) : ics,
+            attendees.length > 0 ? attendees.map(attendee => attendee.email) : [event.organizer!.email!]
+        );
+        
         const filename = `reminder-${eventData.title.replace(/[^a-zA-Z0-9]/g, '-').toLowerCase()}-${Date.now()}.ics`;
         
         return {
-            content: value || '',
+            content,
             filename: filename
         };
         
@@ -190,61 +1070,128 @@ export async function generateCalendarInvite(eventData: CalendarEventData): Prom
 }
 
 /**
- * Enhanced time parsing that extracts structured information for the LLM
+ * One subscribable VCALENDAR (METHOD:PUBLISH) holding all these events, rendered like
+ * invites; each VTIMEZONE is written once however many events use its zone
  */
-export function analyzeTimeExpression(timeStr: string): {
-    parsedDate: Date;
-    confidence: 'high' | 'medium' | 'low';
-    interpretation: string;
-    suggestedDuration: number;
-} {
-    const parsedDate = parseTimeExpression(timeStr);
-    let confidence: 'high' | 'medium' | 'low' = 'medium';
-    let interpretation = '';
-    let suggestedDuration = 30; // default 30 minutes
-    
-    const timeStrLower = timeStr.toLowerCase();
-    
-    // High confidence patterns
-    if (timeStrLower.match(/(\d{1,2})(?::(\d{2}))?\s*(am|pm)/)) {
-        confidence = 'high';
-        interpretation = 'Specific time detected';
-    } else if (timeStrLower.includes('tomorrow') || timeStrLower.includes('today')) {
-        confidence = 'high';
-        interpretation = 'Relative day with time';
-    }
-    
-    // Medium confidence patterns
-    else if (timeStrLower.includes('morning')) {
-        confidence = 'medium';
-        interpretation = 'General morning timeframe (assuming 9 AM)';
-    } else if (timeStrLower.includes('afternoon')) {
-        confidence = 'medium';
-        interpretation = 'General afternoon timeframe (assuming 2 PM)';
-    } else if (timeStrLower.includes('evening')) {
-        confidence = 'medium';
-        interpretation = 'General evening timeframe (assuming 6 PM)';
+export async function generateCalendarFeed(events: CalendarEventData[], calendarName: string): Promise<string> {
+    const timeZones = new Map<string, string[]>();
+    const eventLines: string[] = [];
+
+    for (const eventData of events) {
+        const { content } = await generateCalendarInvite({ ...eventData, method: 'PUBLISH' });
+        let block: string[] | null = null;
+        for (const line of content.replace(/\r\n[ \t]/g, '').split('\r\n')) {
+            if (line === 'BEGIN:VTIMEZONE' || line === 'BEGIN:VEVENT') {
+                block = [];
+            }
+            block?.push(line);
+            if (block && line === 'END:VTIMEZONE') {
+                const tzid = block.find(entry => entry.startsWith('TZID:')) || '';
+                if (!timeZones.has(tzid)) {
+                    timeZones.set(tzid, block);
+                }
+                block = null;
+            } else if (block && line === 'END:VEVENT') {
+                eventLines.push(...block);
+                block = null;
+            }
+        }
     }
-    
-    // Low confidence (fallback)
-    else {
-        confidence = 'low';
-        interpretation = 'Vague time reference (defaulting to 1 hour from now)';
-    }
-    
-    // Suggest duration based on task type
-    if (timeStrLower.includes('call')) {
-        suggestedDuration = 15; // Phone calls are usually shorter
-    } else if (timeStrLower.includes('meeting') || timeStrLower.includes('appointment')) {
-        suggestedDuration = 60; // Meetings are usually longer
-    } else if (timeStrLower.includes('doctor') || timeStrLower.includes('dentist')) {
-        suggestedDuration = 45; // Medical appointments
-    }
-    
-    return {
-        parsedDate,
-        confidence,
-        interpretation,
-        suggestedDuration
+
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'CALSCALE:GREGORIAN',
+        'PRODID:-//AI Reminder Assistant//Calendar Feed//EN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${calendarName.replace(/[\\;,]/g, match => `\\${match}`).replace(/[\r\n]+/g, ' ')}`,
+        'REFRESH-INTERVAL;VALUE=DURATION:PT15M',
+        'X-PUBLISHED-TTL:PT15M',
+        ...[...timeZones.values()].flat(),
+        ...eventLines,
+        'END:VCALENDAR'
+    ];
+    return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Rewrite the UTC DTSTART/DTEND/EXDATE values of an event as TZID wall-clock times
+ * and add the matching VTIMEZONE definition
+ */
+function withZonedTimes(ics: string, timeZone: string, startDate: Date): string {
+    const toWall = (utcValue: string) => {
+        const match = utcValue.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+        if (!match) {
+            return utcValue;
+        }
+        const [, year, month, day, hour, minute, second] = match.map(Number);
+        const wall = toZonedWall(new Date(Date.UTC(year, month - 1, day, hour, minute, second)), timeZone);
+        return wall.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}Z$/, '');
     };
+
+    const lines = ics.replace(/\r\n[ \t]/g, '').split('\r\n').map(line => {
+        const match = line.match(/^(DTSTART|DTEND|EXDATE):(.+)$/);
+        if (!match || !match[2].endsWith('Z')) {
+            return line;
+        }
+        return `${match[1]};TZID=${timeZone}:${match[2].split(',').map(toWall).join(',')}`;
+    });
+
+    const eventIndex = lines.indexOf('BEGIN:VEVENT');
+    lines.splice(eventIndex, 0, ...buildVTimezone(timeZone, toZonedWall(startDate, timeZone).getUTCFullYear()).split('\r\n'));
+    return lines.map(foldIcsLine).join('\r\n');
+}
+
+/**
+ * Complete the VALARMs the ics package leaves unfinished: an alarm at the start gets an
+ * explicit zero trigger, and email alarms name who they are mailed to (ATTENDEE is required there)
+ */
+function withAlarmDetails(ics: string, recipients: string[]): string {
+    if (!/^TRIGGER:-?PT$|^ACTION:EMAIL$/m.test(ics)) {
+        return ics;
+    }
+    const lines = ics.replace(/\r\n[ \t]/g, '').split('\r\n').flatMap(line => {
+        if (/^TRIGGER:-?PT$/.test(line)) {
+            return ['TRIGGER:PT0M'];
+        }
+        if (line === 'ACTION:EMAIL') {
+            return [line, ...recipients.map(email => `ATTENDEE:mailto:${email}`)];
+        }
+        return [line];
+    });
+    return lines.map(foldIcsLine).join('\r\n');
+}
+
+/**
+ * Fold a content line at 75 octets as RFC 5545 requires
+ */
+function foldIcsLine(line: string): string {
+    const chunks: string[] = [];
+    let current = '';
+    for (const char of line) {
+        const limit = chunks.length === 0 ? 75 : 74; // continuation lines start with a space
+        if (Buffer.byteLength(current + char) > limit) {
+            chunks.push(current);
+            current = '';
+        }
+        current += char;
+    }
+    chunks.push(current);
+    return chunks.join('\r\n ');
+}
+
+/**
+ * Enhanced time parsing that extracts structured information for the LLM
+ * (the parse result of resolveTimeExpression, with the instant as `parsedDate`).
+ * Event durations are suggested from the task instead (see duration-suggestions.ts).
+ */
+export function analyzeTimeExpression(
+    timeStr: string,
+    timeZone: string = serverTimeZone(),
+    now: Date = new Date(),
+    locale?: LocalePack,
+    calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR
+): TimeParseResult & { parsedDate: Date } {
+    const result = resolveTimeExpression(timeStr, now, timeZone, locale, calendar);
+    return { ...result, parsedDate: result.date };
 }
@@ -0,0 +1,266 @@
+// duration-suggestions.ts
+// ⏱️ EVENT DURATION SUGGESTIONS
+//
+// How long should the calendar event for "team meeting with Sam" be? The answer
+// comes from the task (and location), not the time phrase, in this order:
+// 1. a duration the caller set explicitly
+// 2. the user's own rules (per-user section of the rules file)
+// 3. durations the user set explicitly on similar reminders before
+// 4. the shared rules (keywords or /regex/ → minutes)
+// 5. 30 minutes
+//
+// Rules live in a JSON file (REMINDER_DURATION_RULES_PATH, default data/duration-rules.json)
+// that is re-read whenever it changes; see duration-rules.example.json. Without a file
+// the built-in rules below apply.
+
+import fs from 'fs';
+import path from 'path';
+import { Reminder } from './reminder-store';
+
+export interface DurationRule {
+    match: string | string[]; // keywords/phrases matched as whole words, or "/regex/flags"
+    minutes: number;
+}
+
+export interface DurationRuleSet {
+    rules: DurationRule[];
+    users?: Record<string, DurationRule[]>; // per-user rules, checked before the shared ones
+}
+
+export interface DurationSuggestion {
+    minutes: number;
+    source: 'explicit' | 'user-rule' | 'history' | 'rule' | 'default';
+    reason: string;
+    basedOn?: string[]; // ids of the reminders a learned duration came from
+}
+
+/**
+ * Raised for invalid rules or durations (mapped to HTTP 400)
+ */
+export class DurationRuleError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DurationRuleError';
+    }
+}
+
+export const DEFAULT_DURATION_MINUTES = 30;
+
+/**
+ * Built-in rules, first match wins
+ */
+export const DEFAULT_DURATION_RULES: DurationRule[] = [
+    { match: ['call', 'phone', 'ring'], minutes: 15 },
+    { match: ['standup', 'stand-up', 'check-in', 'quick sync'], minutes: 15 },
+    { match: ['doctor', 'dentist', 'physio', 'therapy', 'checkup', 'check-up'], minutes: 45 },
+    { match: ['meeting', 'appointment', 'interview', 'review'], minutes: 60 },
+    { match: ['lunch', 'dinner', 'breakfast', 'coffee'], minutes: 60 },
+    { match: ['gym', 'workout', 'run', 'yoga'], minutes: 60 },
+    { match: ['workshop', 'training', 'class'], minutes: 120 },
+    { match: ['flight', 'movie', 'concert'], minutes: 180 }
+];
+
+const MAX_DURATION_MINUTES = 14 * 24 * 60;
+
+// Words that say nothing about how long a task takes
+const STOP_WORDS = new Set(['the', 'a', 'an', 'and', 'or', 'to', 'with', 'for', 'of', 'on', 'in', 'at', 'my', 'our', 'about', 'from', 'by']);
+
+/**
+ * Validate a raw rules file ({ "rules": [...], "users": { "userId": [...] } })
+ */
+export function parseDurationRules(raw: unknown): DurationRuleSet {
+    if (!isRecord(raw) || !Array.isArray(raw.rules)) {
+        throw new DurationRuleError('Expected an object with a "rules" array');
+    }
+
+    const parseList = (list: unknown, where: string): DurationRule[] => {
+        if (!Array.isArray(list)) {
+            throw new DurationRuleError(`${where} must be an array`);
+        }
+        return list.map((rule: unknown, index) => {
+            const label = `${where}[${index}]`;
+            const fields = isRecord(rule) ? rule : {};
+            const keywords: unknown[] = Array.isArray(fields.match) ? fields.match : [fields.match];
+            if (keywords.length === 0 || !keywords.every(isKeyword)) {
+                throw new DurationRuleError(`${label}.match must be a non-empty string or list of strings`);
+            }
+            const minutes = normalizeDuration(fields.minutes, `${label}.minutes`);
+            for (const keyword of keywords) {
+                keywordPattern(keyword, label); // reject broken regexes up front
+            }
+            return { match: Array.isArray(fields.match) ? keywords : keywords[0], minutes };
+        });
+    };
+
+    const users = raw.users;
+    if (users !== undefined && !isRecord(users)) {
+        throw new DurationRuleError('"users" must map user ids to rule lists');
+    }
+    return {
+        rules: parseList(raw.rules, 'rules'),
+        ...(users ? { users: Object.fromEntries(Object.entries(users).map(([userId, list]) => [userId, parseList(list, `users.${userId}`)])) } : {})
+    };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+const isKeyword = (value: unknown): value is string => typeof value === 'string' && !!value.trim();
+
+/**
+ * Check a duration in minutes given by a caller or a rule
+ */
+export function normalizeDuration(value: unknown, label = 'Duration'): number {
+    const minutes = typeof value === 'string' ? Number(value) : value;
+    if (typeof minutes !== 'number' || !Number.isFinite(minutes) || minutes <= 0 || minutes > MAX_DURATION_MINUTES) {
+        throw new DurationRuleError(`${label} must be a number of minutes between 1 and ${MAX_DURATION_MINUTES}`);
+    }
+    return Math.round(minutes);
+}
+
+function keywordPattern(keyword: string, label: string): RegExp {
+    const regex = keyword.match(/^\/(.+)\/([a-z]*)$/);
+    try {
+        if (regex) {
+            return new RegExp(regex[1], regex[2].includes('i') ? regex[2] : `${regex[2]}i`);
+        }
+    } catch {
+        throw new DurationRuleError(`${label}: invalid regular expression ${keyword}`);
+    }
+    const words = keyword.trim().split(/\s+/).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(`(?<![\\p{L}\\p{N}])${words.join('\\s+')}(?![\\p{L}\\p{N}])`, 'iu');
+}
+
+function matchRule(rules: DurationRule[], text: string): { rule: DurationRule; keyword: string } | undefined {
+    for (const rule of rules) {
+        const keywords = Array.isArray(rule.match) ? rule.match : [rule.match];
+        const keyword = keywords.find(candidate => keywordPattern(candidate, 'rule').test(text));
+        if (keyword) {
+            return { rule, keyword };
+        }
+    }
+    return undefined;
+}
+
+function describeKeyword(keyword: string): string {
+    return keyword.startsWith('/') ? `matching ${keyword}` : `mentioning "${keyword}"`;
+}
+
+function taskWords(task: string): Set<string> {
+    const words = task.toLowerCase().replace(/#[\p{L}\p{N}_-]+/gu, ' ').match(/[\p{L}\p{N}]+/gu) || [];
+    return new Set(words.filter(word => word.length > 1 && !STOP_WORDS.has(word)));
+}
+
+/**
+ * Duration the user chose for the most similar earlier reminders (word overlap of the tasks)
+ */
+function learnedDuration(task: string, history: Reminder[]): { minutes: number; basedOn: Reminder[] } | undefined {
+    const words = taskWords(task);
+    if (words.size === 0) {
+        return undefined;
+    }
+
+    const scored = history
+        .filter(reminder => reminder.durationSource === 'explicit' && reminder.durationMinutes)
+        .map(reminder => {
+            const other = taskWords(reminder.task);
+            const shared = [...words].filter(word => other.has(word)).length;
+            return { reminder, similarity: shared / (words.size + other.size - shared) };
+        })
+        .filter(entry => entry.similarity >= 0.5);
+    if (scored.length === 0) {
+        return undefined;
+    }
+
+    // The closest matches, most recent first; their median duration wins
+    const best = Math.max(...scored.map(entry => entry.similarity));
+    const closest = scored
+        .filter(entry => entry.similarity === best)
+        .map(entry => entry.reminder)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .slice(0, 5);
+    const minutes = closest.map(reminder => reminder.durationMinutes!).sort((a, b) => a - b);
+    return { minutes: minutes[Math.floor((minutes.length - 1) / 2)], basedOn: closest };
+}
+
+/**
+ * Suggest how long the event for a task should last.
+ *
+ * @param input - task text, optional location, and a duration the caller set explicitly (wins when present)
+ * @param context - the rule set, the caller's user id and their earlier reminders to learn from
+ */
+export function suggestDuration(
+    input: { task: string; location?: string; duration?: number },
+    context: { rules: DurationRuleSet; userId?: string; history?: Reminder[] }
+): DurationSuggestion {
+    if (input.duration !== undefined) {
+        return { minutes: normalizeDuration(input.duration), source: 'explicit', reason: 'Set explicitly' };
+    }
+
+    const text = [input.task, input.location].filter(Boolean).join(' ');
+    const userRules = context.userId ? context.rules.users?.[context.userId] : undefined;
+    const userMatch = userRules ? matchRule(userRules, text) : undefined;
+    if (userMatch) {
+        return { minutes: userMatch.rule.minutes, source: 'user-rule', reason: `Your rule for tasks ${describeKeyword(userMatch.keyword)}` };
+    }
+
+    const history = (context.history || []).filter(reminder => !context.userId || reminder.ownerId === context.userId);
+    const learned = learnedDuration(input.task, history);
+    if (learned) {
+        return {
+            minutes: learned.minutes,
+            source: 'history',
+            reason: `You chose ${learned.minutes} minutes for "${learned.basedOn[0].task}" before`,
+            basedOn: learned.basedOn.map(reminder => reminder.id)
+        };
+    }
+
+    const sharedMatch = matchRule(context.rules.rules, text);
+    if (sharedMatch) {
+        return { minutes: sharedMatch.rule.minutes, source: 'rule', reason: `Tasks ${describeKeyword(sharedMatch.keyword)} usually take ${sharedMatch.rule.minutes} minutes` };
+    }
+    return { minutes: DEFAULT_DURATION_MINUTES, source: 'default', reason: 'Default duration' };
+}
+
+/**
+ * Reads the rules file, re-reading it when it changes on disk.
+ * A missing file means the built-in rules.
+ */
+export class DurationRulesFile {
+    private filePath: string;
+    private cached: { mtimeMs: number; rules: DurationRuleSet } | null = null;
+
+    constructor(filePath: string) {
+        this.filePath = path.resolve(filePath);
+    }
+
+    async load(): Promise<DurationRuleSet> {
+        let stat: fs.Stats;
+        try {
+            stat = await fs.promises.stat(this.filePath);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return { rules: DEFAULT_DURATION_RULES };
+            }
+            throw error;
+        }
+
+        if (this.cached && this.cached.mtimeMs === stat.mtimeMs) {
+            return this.cached.rules;
+        }
+
+        let rules: DurationRuleSet;
+        try {
+            rules = parseDurationRules(JSON.parse(await fs.promises.readFile(this.filePath, 'utf8')));
+        } catch (error) {
+            throw new Error(`Failed to load duration rules ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+        this.cached = { mtimeMs: stat.mtimeMs, rules };
+        return rules;
+    }
+}
+
+/**
+ * Rules file from REMINDER_DURATION_RULES_PATH (default data/duration-rules.json)
+ */
+export function createDurationRulesFile(): DurationRulesFile {
+    return new DurationRulesFile(process.env.REMINDER_DURATION_RULES_PATH || path.join('data', 'duration-rules.json'));
+}
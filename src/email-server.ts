@@ -18,11 +18,21 @@ import nodemailer from 'nodemailer';
 import cors from 'cors';
 import bodyParser from 'body-parser';
 import { generateCalendarInvite, analyzeTimeExpression } from './calendar-utils';
+import { formatInZone, isValidTimeZone, serverTimeZone } from './timezone';
+import { createDurationRulesFile, suggestDuration } from './duration-suggestions';
+import { LocaleError, reminderEmailSubject, resolveLocale } from './locales';
+import { AttendeeError, InviteAttendee, InviteOrganizer, normalizeAttendees, parseOrganizer } from './attendees';
+import { AlarmError, parseAlarms } from './reminder-alarms';
+import { ReminderAlarm } from './reminder-store';
+import { DaySpan, describeDaySpan } from './all-day';
 import 'dotenv/config';
 
 const app = express();
 const port = 3002;
 
+// Shared duration rules, for callers that do not pass an eventDuration
+const durationRules = createDurationRulesFile();
+
 // Middleware
 app.use(cors());
 app.use(bodyParser.json());
@@ -47,15 +57,101 @@ interface SendEmailRequest {
 }
 
 interface ReminderEmailRequest {
-    to: string;
+    to?: string | string[]; // one address, a comma-separated list or an array; at least one of to/attendees
+    attendees?: (string | InviteAttendee)[]; // invitees with roles and display names, all sent the same email
+    organizer?: InviteOrganizer; // shown as sender name and invite organizer; replies go to its email
     reminderText: string;
     reminderTime: string;
     senderName?: string;
     includeCalendarInvite?: boolean; // New field for calendar integration
     eventDuration?: number; // Duration in minutes
+    eventDurationReason?: string; // Why this duration, e.g. "Tasks mentioning "call" usually take 15 minutes"
     eventLocation?: string; // Event location
+    reminderStartAt?: string; // ISO instant already resolved by the MCP server
+    allDayStart?: string; // first and last day (YYYY-MM-DD) of an all-day event; it then has no duration
+    allDayEnd?: string;
+    recurrenceRule?: string; // RRULE value for repeating reminders
+    recurrenceDescription?: string; // Human-readable recurrence, e.g. "every week on MO"
+    recurrenceExceptions?: string[]; // ISO instants of skipped occurrences
+    actionLinks?: { action: string; label: string; url: string }[]; // Signed snooze/done links from the MCP server
+    priority?: 'low' | 'normal' | 'high' | 'urgent';
+    tags?: string[];
+    category?: string;
+    timeZone?: string; // IANA zone the reminder was scheduled in (TZID of recurring invites)
+    recipientTimeZone?: string; // IANA zone times are shown in; defaults to timeZone
+    locale?: string; // Language of the email and invite text, e.g. "de"; REMINDER_DEFAULT_LOCALE / English when absent
+    calendarUid?: string; // UID of the invite, kept so later updates and cancellations replace it
+    calendarSequence?: number; // SEQUENCE of the invite (0 for the first one)
+    alarms?: ReminderAlarm[]; // VALARMs of the invite (default: 15 and 5 minutes before; empty for none)
+}
+
+// A changed or cancelled event that was already sent with /send-reminder (same UID, higher SEQUENCE)
+interface CalendarUpdateRequest {
+    to?: string | string[];
+    attendees?: (string | InviteAttendee)[];
+    organizer?: InviteOrganizer;
+    method: 'REQUEST' | 'CANCEL';
+    calendarUid: string;
+    calendarSequence: number;
+    reminderText: string;
+    reminderStartAt: string;
+    allDayStart?: string;
+    allDayEnd?: string;
+    eventDuration?: number;
+    eventLocation?: string;
+    recurrenceRule?: string;
+    recurrenceDescription?: string;
+    recurrenceExceptions?: string[];
+    timeZone?: string;
+    recipientTimeZone?: string;
+    locale?: string;
+    alarms?: ReminderAlarm[];
+}
+
+/**
+ * The days of an all-day event, when the request names them
+ */
+function requestedDays(allDayStart?: string, allDayEnd?: string): DaySpan | undefined {
+    return allDayStart ? { firstDay: allDayStart, lastDay: allDayEnd || allDayStart } : undefined;
+}
+
+// Everyone a reminder or invite email goes to (`to` followed by `attendees`), and its organizer
+function resolveParticipants(to: unknown, attendees: unknown, organizer: unknown): { attendees: InviteAttendee[]; organizer?: InviteOrganizer } {
+    return {
+        attendees: normalizeAttendees(Array.isArray(to) ? to.join(', ') : to, attendees),
+        organizer: parseOrganizer(organizer)
+    };
 }
 
+// One email to all attendees, sent in the organizer's name; replies go to the organizer when one is set
+function mailEnvelope(participants: { attendees: InviteAttendee[]; organizer?: InviteOrganizer }, defaultName: string) {
+    return {
+        from: `"${participants.organizer?.name || defaultName}" <${process.env.EMAIL_USER}>`,
+        to: participants.attendees.map(attendee => ({ name: attendee.name || '', address: attendee.email })),
+        ...(participants.organizer?.email ? { replyTo: participants.organizer.email } : {})
+    };
+}
+
+/**
+ * Text made safe to place in the HTML body (and attribute values) of an email
+ */
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+// Header colours and mail priority for each reminder priority (subject prefixes come from the locale pack)
+const PRIORITY_STYLES: Record<string, { gradient: string; accent: string; mailPriority: 'high' | 'normal' | 'low' }> = {
+    urgent: { gradient: 'linear-gradient(135deg, #e53e3e 0%, #9b2c2c 100%)', accent: '#e53e3e', mailPriority: 'high' },
+    high: { gradient: 'linear-gradient(135deg, #ed8936 0%, #c05621 100%)', accent: '#ed8936', mailPriority: 'high' },
+    normal: { gradient: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)', accent: '#667eea', mailPriority: 'normal' },
+    low: { gradient: 'linear-gradient(135deg, #a0aec0 0%, #718096 100%)', accent: '#a0aec0', mailPriority: 'low' }
+};
+
 // Health check endpoint
 app.get('/health', (req: Request, res: Response) => {
     res.json({ status: 'Email server is running', timestamp: new Date().toISOString() });
@@ -104,28 +200,96 @@ app.post('/send-reminder', async (req: Request, res: Response) => {
     try {
         const { 
             to, 
+            attendees,
+            organizer,
             reminderText, 
             reminderTime, 
             senderName,
             includeCalendarInvite = true, // Default to true for calendar invites
             eventDuration,
-            eventLocation 
+            eventDurationReason,
+            eventLocation,
+            reminderStartAt,
+            allDayStart,
+            allDayEnd,
+            recurrenceRule,
+            recurrenceDescription,
+            recurrenceExceptions,
+            actionLinks = [],
+            priority = 'normal',
+            tags = [],
+            category,
+            timeZone,
+            recipientTimeZone,
+            locale,
+            calendarUid,
+            calendarSequence,
+            alarms
         }: ReminderEmailRequest = req.body;
 
-        if (!to || !reminderText || !reminderTime) {
+        if ((!to && !attendees) || !reminderText || !reminderTime) {
             return res.status(400).json({ 
-                error: "Missing required fields: 'to', 'reminderText', 'reminderTime'" 
+                error: "Missing required fields: 'to' (or 'attendees'), 'reminderText', 'reminderTime'" 
             });
         }
 
+        let localePack;
+        let participants;
+        let alarmPlan;
+        try {
+            localePack = resolveLocale(locale);
+            participants = resolveParticipants(to, attendees, organizer);
+            alarmPlan = alarms === undefined ? undefined : parseAlarms(alarms);
+        } catch (error) {
+            if (error instanceof LocaleError || error instanceof AttendeeError || error instanceof AlarmError) {
+                return res.status(400).json({ error: error.message });
+            }
+            throw error;
+        }
+        if (participants.attendees.length === 0) {
+            return res.status(400).json({ error: "At least one recipient is required in 'to' or 'attendees'" });
+        }
+        const recipients = participants.attendees.map(attendee => attendee.email).join(', ');
+        const messages = localePack.messages;
+
         const transporter = createTransporter();
         
-        const subject = `🔔 Reminder: ${reminderText}`;
-        const senderInfo = senderName ? ` from ${senderName}` : '';
+        const priorityStyle = PRIORITY_STYLES[priority] || PRIORITY_STYLES.normal;
+        const subjectPrefix = messages.subjectPrefix[priority] || messages.subjectPrefix.normal;
+        const subject = reminderEmailSubject(localePack, reminderText, priority);
+        const labelParts = [
+            ...(priority !== 'normal' ? [`${messages.priority}: ${messages.priorityNames[priority] || priority}`] : []),
+            ...(category ? [`${messages.category}: ${category}`] : []),
+            ...(tags.length > 0 ? [`${messages.tags}: ${tags.map(tag => `#${tag}`).join(' ')}`] : [])
+        ];
+        const labelInfo = labelParts.length > 0
+            ? `<p style="font-size: 14px; color: #718096; margin: 10px 0 0 0;">${escapeHtml(labelParts.join(' · '))}</p>`
+            : '';
+        
+        // Times are shown on the recipient's clock, not the server's
+        const eventTimeZone = timeZone && isValidTimeZone(timeZone) ? timeZone : serverTimeZone();
+        const displayTimeZone = recipientTimeZone && isValidTimeZone(recipientTimeZone) ? recipientTimeZone : eventTimeZone;
         
         // Analyze the time expression for better calendar integration
-        const timeAnalysis = analyzeTimeExpression(reminderTime);
-        const formattedDateTime = timeAnalysis.parsedDate.toLocaleString();
+        const timeAnalysis = analyzeTimeExpression(reminderTime, eventTimeZone, new Date(), localePack);
+        const startDate = reminderStartAt ? new Date(reminderStartAt) : timeAnalysis.parsedDate;
+        // All-day events are shown as their days, the same on every clock
+        const days = requestedDays(allDayStart, allDayEnd) || timeAnalysis.allDay;
+        const formattedDateTime = days
+            ? `${describeDaySpan(days, localePack.dateLocale)} (${messages.allDay})`
+            : formatInZone(startDate, displayTimeZone, undefined, localePack.dateLocale);
+        const duration = eventDuration
+            ? { minutes: eventDuration, reason: eventDurationReason || 'Set explicitly' }
+            : suggestDuration({ task: reminderText, location: eventLocation }, { rules: await durationRules.load() });
+        const durationInfo = days ? messages.allDay : `${messages.duration(duration.minutes)} (${duration.reason})`;
+        const sentAt = formatInZone(new Date(), displayTimeZone, undefined, localePack.dateLocale);
+        const repeatInfo = recurrenceDescription ? `<br><strong>${messages.repeats}:</strong> ${escapeHtml(recurrenceDescription)}` : '';
+        
+        const actionsInfo = actionLinks.length > 0 ? `
+                    <div style="text-align: center; margin: 20px 0;">
+                        ${actionLinks.map(link => `<a href="${escapeHtml(link.url)}" style="display: inline-block; margin: 4px; padding: 10px 16px; border-radius: 6px; text-decoration: none; color: white; background: ${link.action === 'done' ? '#48bb78' : '#667eea'};">${escapeHtml(link.label)}</a>`).join('\n                        ')}
+                    </div>
+        ` : '';
         
         let calendarInfo = '';
         let attachments: any[] = [];
@@ -135,11 +299,21 @@ app.post('/send-reminder', async (req: Request, res: Response) => {
             try {
                 const calendarData = await generateCalendarInvite({
                     title: reminderText,
-                    description: `Reminder: ${reminderText}\n\nScheduled via AI Assistant`,
+                    description: messages.eventDescription(reminderText),
                     startDateTime: reminderTime,
-                    duration: eventDuration || timeAnalysis.suggestedDuration,
+                    startDate,
+                    duration: duration.minutes,
+                    ...(days ? { days } : {}),
                     location: eventLocation,
-                    attendeeEmail: to
+                    attendees: participants.attendees,
+                    organizer: participants.organizer,
+                    recurrenceRule,
+                    exclusionDates: recurrenceExceptions?.map(date => new Date(date)),
+                    timeZone: eventTimeZone,
+                    locale: localePack,
+                    uid: calendarUid,
+                    sequence: calendarSequence,
+                    alarms: alarmPlan
                 });
                 
                 attachments.push({
@@ -150,12 +324,12 @@ app.post('/send-reminder', async (req: Request, res: Response) => {
                 
                 calendarInfo = `
                     <div style="background: white; padding: 20px; border-radius: 8px; border-left: 4px solid #9f7aea; margin: 20px 0;">
-                        <h3 style="color: #9f7aea; margin: 0 0 10px 0;">📅 Calendar Event:</h3>
+                        <h3 style="color: #9f7aea; margin: 0 0 10px 0;">${messages.calendarHeading}</h3>
                         <p style="font-size: 16px; color: #333; margin: 0;">
-                            A calendar invite has been attached to this email.<br>
-                            <strong>Time Interpretation:</strong> ${timeAnalysis.interpretation}<br>
-                            <strong>Suggested Duration:</strong> ${timeAnalysis.suggestedDuration} minutes<br>
-                            <strong>Confidence:</strong> ${timeAnalysis.confidence}
+                            ${messages.calendarAttached}<br>
+                            <strong>${messages.interpretation}:</strong> ${escapeHtml(timeAnalysis.interpretation)}<br>
+                            <strong>${messages.durationLabel}:</strong> ${escapeHtml(durationInfo)}<br>
+                            <strong>${messages.confidence}:</strong> ${messages.confidenceLevels[timeAnalysis.confidence]}
                         </p>
                     </div>
                 `;
@@ -163,9 +337,9 @@ app.post('/send-reminder', async (req: Request, res: Response) => {
                 console.error('Failed to generate calendar invite:', calendarError);
                 calendarInfo = `
                     <div style="background: #fed7d7; padding: 20px; border-radius: 8px; border-left: 4px solid #e53e3e; margin: 20px 0;">
-                        <h3 style="color: #e53e3e; margin: 0 0 10px 0;">⚠️ Calendar Note:</h3>
+                        <h3 style="color: #e53e3e; margin: 0 0 10px 0;">${messages.calendarNoteHeading}</h3>
                         <p style="font-size: 16px; color: #333; margin: 0;">
-                            Could not generate calendar invite. Please add this event manually to your calendar.
+                            ${messages.calendarFailed}
                         </p>
                     </div>
                 `;
@@ -174,58 +348,63 @@ app.post('/send-reminder', async (req: Request, res: Response) => {
         
         const htmlContent = `
             <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-                <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 20px; border-radius: 10px 10px 0 0; text-align: center;">
-                    <h1 style="color: white; margin: 0; font-size: 24px;">🔔 Reminder Alert</h1>
+                <div style="background: ${priorityStyle.gradient}; padding: 20px; border-radius: 10px 10px 0 0; text-align: center;">
+                    <h1 style="color: white; margin: 0; font-size: 24px;">${priority === 'urgent' || priority === 'high' ? subjectPrefix : messages.alertTitle}</h1>
                 </div>
                 
                 <div style="background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
-                    <h2 style="color: #333; margin-bottom: 20px;">You have a reminder${senderInfo}:</h2>
+                    <h2 style="color: #333; margin-bottom: 20px;">${messages.intro(senderName && escapeHtml(senderName))}</h2>
                     
-                    <div style="background: white; padding: 20px; border-radius: 8px; border-left: 4px solid #667eea; margin: 20px 0;">
-                        <h3 style="color: #667eea; margin: 0 0 10px 0;">Reminder:</h3>
-                        <p style="font-size: 18px; color: #333; margin: 0;">${reminderText}</p>
+                    <div style="background: white; padding: 20px; border-radius: 8px; border-left: 4px solid ${priorityStyle.accent}; margin: 20px 0;">
+                        <h3 style="color: ${priorityStyle.accent}; margin: 0 0 10px 0;">${messages.reminderHeading}</h3>
+                        <p style="font-size: 18px; color: #333; margin: 0;">${escapeHtml(reminderText)}</p>
+                        ${labelInfo}
                     </div>
                     
                     <div style="background: white; padding: 20px; border-radius: 8px; border-left: 4px solid #48bb78; margin: 20px 0;">
-                        <h3 style="color: #48bb78; margin: 0 0 10px 0;">Scheduled Time:</h3>
+                        <h3 style="color: #48bb78; margin: 0 0 10px 0;">${messages.scheduledTime}:</h3>
                         <p style="font-size: 16px; color: #333; margin: 0;">
-                            <strong>Original:</strong> ${reminderTime}<br>
-                            <strong>Parsed:</strong> ${formattedDateTime}
+                            <strong>${messages.original}:</strong> ${escapeHtml(reminderTime)}<br>
+                            <strong>${messages.parsed}:</strong> ${formattedDateTime}${repeatInfo}
                         </p>
                     </div>
                     
+                    ${actionsInfo}
+                    
                     ${calendarInfo}
                     
                     <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e2e8f0; font-size: 14px; color: #718096; text-align: center;">
-                        <p>This reminder was sent by your AI Assistant</p>
-                        <p>Sent at: ${new Date().toLocaleString()}</p>
+                        <p>${messages.footer}</p>
+                        <p>${messages.sentAt}: ${sentAt}</p>
                     </div>
                 </div>
             </div>
         `;
 
         const textContent = `
-🔔 REMINDER ALERT
+${messages.alertTitle.toUpperCase()}
 
-You have a reminder${senderInfo}:
-${reminderText}
+${messages.intro(senderName)}
+${reminderText}${labelParts.length > 0 ? `\n${labelParts.join(' · ')}` : ''}
 
-Scheduled Time: ${reminderTime}
-Parsed Time: ${formattedDateTime}
+${messages.scheduledTime}: ${reminderTime}
+${messages.parsedTime}: ${formattedDateTime}${recurrenceDescription ? `\n${messages.repeats}: ${recurrenceDescription}` : ''}
 
-${includeCalendarInvite ? '📅 Calendar invite attached to this email.' : ''}
+${actionLinks.map(link => `${link.label}: ${link.url}`).join('\n')}
+
+${includeCalendarInvite ? messages.calendarAttachedText : ''}
 
 ---
-This reminder was sent by your AI Assistant
-Sent at: ${new Date().toLocaleString()}
+${messages.footer}
+${messages.sentAt}: ${sentAt}
         `;
 
         const mailOptions: any = {
-            from: `"AI Reminder Assistant" <${process.env.EMAIL_USER}>`,
-            to,
+            ...mailEnvelope(participants, messages.organizerName),
             subject,
             text: textContent,
-            html: htmlContent
+            html: htmlContent,
+            priority: priorityStyle.mailPriority
         };
 
         // Add attachments if we have any
@@ -233,9 +412,9 @@ Sent at: ${new Date().toLocaleString()}
             mailOptions.attachments = attachments;
         }
 
-        console.log(`Sending reminder email to: ${to}, Reminder: ${reminderText} at ${reminderTime} (parsed: ${formattedDateTime})`);
+        console.log(`Sending reminder email to: ${recipients}, Reminder: ${reminderText} at ${reminderTime} (parsed: ${formattedDateTime})`);
         if (includeCalendarInvite) {
-            console.log(`📅 Including calendar invite with ${timeAnalysis.suggestedDuration}min duration`);
+            console.log(`📅 Including calendar invite ${days ? `for ${days.firstDay}–${days.lastDay} (all day)` : `with ${duration.minutes}min duration`}`);
         }
         
         const info = await transporter.sendMail(mailOptions);
@@ -243,13 +422,17 @@ Sent at: ${new Date().toLocaleString()}
         res.json({ 
             success: true, 
             messageId: info.messageId,
-            message: `Reminder email sent successfully to ${to}${includeCalendarInvite ? ' with calendar invite' : ''}`,
+            message: `Reminder email sent successfully to ${recipients}${includeCalendarInvite ? ' with calendar invite' : ''}`,
             reminder: {
                 text: reminderText,
                 time: reminderTime,
                 parsedTime: formattedDateTime,
-                recipient: to,
+                recipient: recipients,
+                attendees: participants.attendees,
                 calendarAttached: includeCalendarInvite,
+                recurrence: recurrenceRule,
+                priority,
+                locale: localePack.code,
                 timeAnalysis: timeAnalysis
             }
         });
@@ -262,6 +445,146 @@ Sent at: ${new Date().toLocaleString()}
     }
 });
 
+// Send an updated or cancelled calendar invite for an event sent earlier
+app.post('/send-calendar-update', async (req: Request, res: Response) => {
+    try {
+        const {
+            to,
+            attendees,
+            organizer,
+            method,
+            calendarUid,
+            calendarSequence,
+            reminderText,
+            reminderStartAt,
+            allDayStart,
+            allDayEnd,
+            eventDuration,
+            eventLocation,
+            recurrenceRule,
+            recurrenceDescription,
+            recurrenceExceptions,
+            timeZone,
+            recipientTimeZone,
+            locale,
+            alarms
+        }: CalendarUpdateRequest = req.body;
+
+        if ((!to && !attendees) || !calendarUid || !reminderText || !reminderStartAt || (method !== 'REQUEST' && method !== 'CANCEL') || !Number.isInteger(calendarSequence)) {
+            return res.status(400).json({
+                error: "Missing required fields: 'to' (or 'attendees'), 'method' (REQUEST or CANCEL), 'calendarUid', 'calendarSequence', 'reminderText', 'reminderStartAt'"
+            });
+        }
+
+        let localePack;
+        let participants;
+        let alarmPlan;
+        try {
+            localePack = resolveLocale(locale);
+            participants = resolveParticipants(to, attendees, organizer);
+            alarmPlan = alarms === undefined ? undefined : parseAlarms(alarms);
+        } catch (error) {
+            if (error instanceof LocaleError || error instanceof AttendeeError || error instanceof AlarmError) {
+                return res.status(400).json({ error: error.message });
+            }
+            throw error;
+        }
+        if (participants.attendees.length === 0) {
+            return res.status(400).json({ error: "At least one recipient is required in 'to' or 'attendees'" });
+        }
+        const recipients = participants.attendees.map(attendee => attendee.email).join(', ');
+        const messages = localePack.messages;
+
+        const eventTimeZone = timeZone && isValidTimeZone(timeZone) ? timeZone : serverTimeZone();
+        const displayTimeZone = recipientTimeZone && isValidTimeZone(recipientTimeZone) ? recipientTimeZone : eventTimeZone;
+        const startDate = new Date(reminderStartAt);
+        const days = requestedDays(allDayStart, allDayEnd);
+        const formattedDateTime = days
+            ? `${describeDaySpan(days, localePack.dateLocale)} (${messages.allDay})`
+            : formatInZone(startDate, displayTimeZone, undefined, localePack.dateLocale);
+        const cancelled = method === 'CANCEL';
+
+        // Calendar clients match the invite to the original event by UID and apply it because SEQUENCE grew
+        const calendarData = await generateCalendarInvite({
+            title: reminderText,
+            description: messages.eventDescription(reminderText),
+            startDateTime: reminderStartAt,
+            startDate,
+            duration: eventDuration,
+            ...(days ? { days } : {}),
+            location: eventLocation,
+            attendees: participants.attendees,
+            organizer: participants.organizer,
+            recurrenceRule,
+            exclusionDates: recurrenceExceptions?.map(date => new Date(date)),
+            timeZone: eventTimeZone,
+            locale: localePack,
+            uid: calendarUid,
+            sequence: calendarSequence,
+            method,
+            alarms: alarmPlan
+        });
+
+        const subject = cancelled ? messages.cancelledSubject(reminderText) : messages.updatedSubject(reminderText);
+        const notice = cancelled ? messages.eventCancelled : messages.eventUpdated;
+        const repeatInfo = recurrenceDescription ? `<br><strong>${messages.repeats}:</strong> ${escapeHtml(recurrenceDescription)}` : '';
+        const accent = cancelled ? '#e53e3e' : '#9f7aea';
+
+        const htmlContent = `
+            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+                <div style="background: white; padding: 20px; border-radius: 8px; border-left: 4px solid ${accent}; margin: 20px 0;">
+                    <h3 style="color: ${accent}; margin: 0 0 10px 0;">${escapeHtml(subject)}</h3>
+                    <p style="font-size: 16px; color: #333; margin: 0;">
+                        ${notice}<br>
+                        <strong>${messages.scheduledTime}:</strong> ${cancelled ? `<s>${formattedDateTime}</s>` : formattedDateTime}${repeatInfo}
+                    </p>
+                </div>
+                <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e2e8f0; font-size: 14px; color: #718096; text-align: center;">
+                    <p>${messages.footer}</p>
+                </div>
+            </div>
+        `;
+
+        const textContent = `
+${subject}
+
+${notice}
+${messages.scheduledTime}: ${formattedDateTime}${recurrenceDescription ? `\n${messages.repeats}: ${recurrenceDescription}` : ''}
+
+---
+${messages.footer}
+        `;
+
+        console.log(`Sending calendar ${cancelled ? 'cancellation' : 'update'} to: ${recipients}, Event: ${reminderText} (UID ${calendarUid}, SEQUENCE ${calendarSequence})`);
+        const info = await createTransporter().sendMail({
+            ...mailEnvelope(participants, messages.organizerName),
+            subject,
+            text: textContent,
+            html: htmlContent,
+            attachments: [{
+                filename: calendarData.filename,
+                content: calendarData.content,
+                contentType: `text/calendar; charset=utf-8; method=${method}`
+            }]
+        });
+
+        res.json({
+            success: true,
+            messageId: info.messageId,
+            message: `Calendar ${cancelled ? 'cancellation' : 'update'} sent to ${recipients}`,
+            method,
+            calendarUid,
+            calendarSequence
+        });
+    } catch (error) {
+        console.error('Error sending calendar update:', error);
+        res.status(500).json({
+            error: 'Failed to send calendar update',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
 // Test email configuration
 app.post('/test-config', async (req: Request, res: Response) => {
     try {
@@ -0,0 +1,200 @@
+// ics-parser.ts
+// 📥 ICS (iCalendar) PARSER
+//
+// calendar-utils.ts writes ICS through the `ics` package; this module reads it.
+// It understands the parts of RFC 5545 the reminder system needs:
+// - line unfolding, property parameters and value unescaping
+// - nested components (VCALENDAR → VEVENT → VALARM)
+// - DATE / DATE-TIME values (UTC, floating or with a TZID) and DURATION values
+
+import { isValidTimeZone, serverTimeZone, zonedTimeToInstant } from './timezone';
+
+export interface IcsProperty {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+}
+
+export interface IcsComponent {
+    name: string;
+    properties: IcsProperty[];
+    components: IcsComponent[];
+}
+
+export interface IcsDateValue {
+    date: Date;
+    dateOnly: boolean; // VALUE=DATE (all-day)
+    warning?: string; // e.g. an unknown TZID that was read in the default zone
+}
+
+/**
+ * Raised when the text is not an iCalendar document at all
+ */
+export class IcsParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'IcsParseError';
+    }
+}
+
+/**
+ * Parse an iCalendar document into its component tree (the VCALENDAR components)
+ */
+export function parseIcs(text: string): IcsComponent[] {
+    // Unfold: a line starting with a space or tab continues the previous one
+    const lines = text.replace(/\r\n|\r/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+    const roots: IcsComponent[] = [];
+    const stack: IcsComponent[] = [];
+
+    lines.forEach((line, index) => {
+        if (!line.trim()) {
+            return;
+        }
+        const property = parseContentLine(line);
+        if (!property) {
+            throw new IcsParseError(`Malformed line ${index + 1}: ${line.slice(0, 60)}`);
+        }
+
+        if (property.name === 'BEGIN') {
+            const component: IcsComponent = { name: property.value.toUpperCase(), properties: [], components: [] };
+            (stack.length > 0 ? stack[stack.length - 1].components : roots).push(component);
+            stack.push(component);
+        } else if (property.name === 'END') {
+            const open = stack.pop();
+            if (!open || open.name !== property.value.toUpperCase()) {
+                throw new IcsParseError(`Unexpected END:${property.value} on line ${index + 1}`);
+            }
+        } else if (stack.length > 0) {
+            stack[stack.length - 1].properties.push(property);
+        }
+    });
+
+    if (stack.length > 0) {
+        throw new IcsParseError(`Missing END:${stack[stack.length - 1].name}`);
+    }
+    if (!roots.some(component => component.name === 'VCALENDAR')) {
+        throw new IcsParseError('Not an iCalendar file: no BEGIN:VCALENDAR found');
+    }
+    return roots;
+}
+
+/**
+ * All components with this name anywhere below the given roots
+ */
+export function findComponents(roots: IcsComponent[], name: string): IcsComponent[] {
+    const found: IcsComponent[] = [];
+    for (const component of roots) {
+        if (component.name === name) {
+            found.push(component);
+        }
+        found.push(...findComponents(component.components, name));
+    }
+    return found;
+}
+
+export function getProperty(component: IcsComponent, name: string): IcsProperty | undefined {
+    return component.properties.find(property => property.name === name);
+}
+
+export function getProperties(component: IcsComponent, name: string): IcsProperty[] {
+    return component.properties.filter(property => property.name === name);
+}
+
+/**
+ * Text value with RFC 5545 escapes (\n, \, \; \\) undone
+ */
+export function getText(component: IcsComponent, name: string): string | undefined {
+    const property = getProperty(component, name);
+    return property ? unescapeText(property.value) : undefined;
+}
+
+/**
+ * Parse a DATE or DATE-TIME property, honouring VALUE=DATE and TZID.
+ * Floating times and dates (midnight) are read in `defaultTimeZone`.
+ */
+export function parseIcsDate(property: IcsProperty, defaultTimeZone: string = serverTimeZone()): IcsDateValue {
+    const match = property.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+    if (!match) {
+        throw new IcsParseError(`Invalid ${property.name} value: ${property.value}`);
+    }
+    const [, year, month, day, hour, minute, second, utc] = match;
+    const wall = {
+        year: parseInt(year),
+        month: parseInt(month),
+        day: parseInt(day),
+        hour: parseInt(hour || '0'),
+        minute: parseInt(minute || '0'),
+        second: parseInt(second || '0')
+    };
+
+    if (!hour || property.params.VALUE === 'DATE') {
+        return { date: zonedTimeToInstant({ ...wall, hour: 0, minute: 0, second: 0 }, defaultTimeZone), dateOnly: true };
+    }
+    if (utc) {
+        return { date: new Date(Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second)), dateOnly: false };
+    }
+
+    const defaultDate = zonedTimeToInstant(wall, defaultTimeZone);
+    const tzid = property.params.TZID;
+    if (!tzid) {
+        return { date: defaultDate, dateOnly: false }; // floating time
+    }
+    if (!isValidTimeZone(tzid)) {
+        return { date: defaultDate, dateOnly: false, warning: `Unknown time zone '${tzid}', read as ${defaultTimeZone}` };
+    }
+    return { date: zonedTimeToInstant(wall, tzid), dateOnly: false };
+}
+
+/**
+ * Parse an ICS DURATION ("PT15M", "-P1DT2H", "P1W") into signed minutes
+ */
+export function parseIcsDuration(value: string): number {
+    const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+    if (!match || value.trim().replace(/^[+-]/, '') === 'P') {
+        throw new IcsParseError(`Invalid duration: ${value}`);
+    }
+    const [, sign, weeks, days, hours, minutes, seconds] = match;
+    const total = (parseInt(weeks || '0') * 7 * 24 * 60)
+        + (parseInt(days || '0') * 24 * 60)
+        + (parseInt(hours || '0') * 60)
+        + parseInt(minutes || '0')
+        + Math.round(parseInt(seconds || '0') / 60);
+    return sign === '-' ? -total : total;
+}
+
+function parseContentLine(line: string): IcsProperty | null {
+    // NAME;PARAM=value;PARAM="quoted:value":VALUE — the first colon outside quotes ends the name part
+    let inQuotes = false;
+    let colon = -1;
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') inQuotes = !inQuotes;
+        if (line[i] === ':' && !inQuotes) {
+            colon = i;
+            break;
+        }
+    }
+    if (colon <= 0) {
+        return null;
+    }
+
+    const [name, ...rawParams] = line.slice(0, colon).match(/(?:[^;"]+|"[^"]*")+/g) || [];
+    if (!name) {
+        return null;
+    }
+    const params: Record<string, string> = {};
+    for (const param of rawParams) {
+        const eq = param.indexOf('=');
+        if (eq > 0) {
+            params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+        }
+    }
+    return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * A TEXT value with RFC 5545 escapes undone
+ */
+export function unescapeText(value: string): string {
+    return value.replace(/\\([nN,;\\])/g, (_match, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
@@ -0,0 +1,151 @@
+// locales/de.ts
+// 🇩🇪 DEUTSCH
+//
+// "morgen um 15 Uhr" → "tomorrow at 15:00", "halb 4" → "3:30", "3.11." → "3/11"
+// "N Uhr" is read as 24-hour time unless a part of the day follows ("7 Uhr abends").
+// "in 3 Werktagen", "nächster Werktag", "2 Werktage vor dem 20.11." count business days.
+// "ganztägig", "vom 4. bis 6. November" → "all day", "4-6 nov" (all-day reminders).
+
+import { LocalePack, wordPattern } from './locale-pack';
+
+const NUMBERS: Record<string, string> = {
+    'ein': '1', 'eine': '1', 'einer': '1', 'einem': '1', 'einen': '1', 'eins': '1', 'zwei': '2', 'drei': '3', 'vier': '4',
+    'fünf': '5', 'fuenf': '5', 'sechs': '6', 'sieben': '7', 'acht': '8', 'neun': '9', 'zehn': '10', 'elf': '11',
+    'zwölf': '12', 'zwoelf': '12', 'fünfzehn': '15', 'fuenfzehn': '15', 'zwanzig': '20', 'dreißig': '30', 'dreissig': '30'
+};
+
+const WEEKDAYS: Record<string, string> = {
+    'montag': 'monday', 'dienstag': 'tuesday', 'mittwoch': 'wednesday', 'donnerstag': 'thursday', 'freitag': 'friday',
+    'samstag': 'saturday', 'sonnabend': 'saturday', 'sonntag': 'sunday'
+};
+
+const MONTHS: Record<string, string> = {
+    'januar': 'jan', 'jänner': 'jan', 'februar': 'feb', 'märz': 'mar', 'maerz': 'mar', 'april': 'apr', 'mai': 'may',
+    'juni': 'jun', 'juli': 'jul', 'august': 'aug', 'september': 'sep', 'oktober': 'oct', 'november': 'nov', 'dezember': 'dec'
+};
+
+const UNITS: Record<string, string> = {
+    'minute': 'minutes', 'minuten': 'minutes', 'stunde': 'hours', 'stunden': 'hours', 'tag': 'days', 'tage': 'days', 'tagen': 'days',
+    'woche': 'weeks', 'wochen': 'weeks', 'monat': 'months', 'monate': 'months', 'monaten': 'months', 'jahr': 'years', 'jahre': 'years', 'jahren': 'years'
+};
+
+const PARTS_OF_DAY = 'morgens|vormittags|früh|frueh|mittags|nachmittags|abends|nachts';
+
+const alternatives = (words: Record<string, string>) => Object.keys(words).sort((a, b) => b.length - a.length).join('|');
+const translate = (words: Record<string, string>) => (match: string) => words[match] ?? match;
+const pad = (value: string) => value.padStart(2, '0');
+const hourBefore = (hour: string) => String(parseInt(hour) === 1 ? 12 : parseInt(hour) - 1);
+
+export const de: LocalePack = {
+    code: 'de',
+    name: 'Deutsch',
+    dateLocale: 'de-DE',
+    parser: {
+        dateOrder: 'dmy',
+        rewrites: [
+            [wordPattern('(?:einer |eine )?halben? stunde'), 'half an hour'],
+            [wordPattern(alternatives(NUMBERS)), translate(NUMBERS)],
+            [wordPattern('halb (\\d{1,2})'), (_match, hour) => `${hourBefore(hour)}:30`],
+            [wordPattern('viertel nach (\\d{1,2})'), (_match, hour) => `${hour}:15`],
+            [wordPattern('viertel vor (\\d{1,2})|dreiviertel (\\d{1,2})'), (_match, hour, otherHour) => `${hourBefore(hour || otherHour)}:45`],
+            // "15 Uhr", "15.30 Uhr": 24-hour time, kept open to am/pm when a part of the day follows
+            [wordPattern(`(\\d{1,2})(?:[:.](\\d{2}))? uhr(?: (\\d{2}))?(?= (?:${PARTS_OF_DAY}))`), (_match, hour, minutes, spoken) => `${hour}:${minutes || spoken || '00'}`],
+            [wordPattern('(\\d{1,2})(?:[:.](\\d{2}))? uhr(?: (\\d{2}))?'), (_match, hour, minutes, spoken) => `${pad(hour)}:${minutes || spoken || '00'}`],
+            [wordPattern('ganztägig|ganztaegig|(?:den )?ganzen tag'), 'all day'],
+            [wordPattern('(?:am )?(?:nächsten|naechsten|nächster|naechster|kommenden) (?:werktag|arbeitstag)'), 'next business day'],
+            [wordPattern('(\\d+) (?:werktage|werktagen|arbeitstage|arbeitstagen|werktag|arbeitstag)(?: (vor|nach))?'), (_match, days, relation) => `${days} business days${relation ? (relation === 'vor' ? ' before' : ' after') : ''}`],
+            [wordPattern('(?:bei |zum )?(?:geschäftsschluss|geschaeftsschluss|dienstschluss)'), 'close of business'],
+            [wordPattern('(?:bei |zum )?(?:geschäftsbeginn|geschaeftsbeginn|dienstbeginn|arbeitsbeginn)'), 'start of business'],
+            [wordPattern('übermorgen|uebermorgen'), 'day after tomorrow'],
+            [wordPattern('heute (?:morgen|früh|frueh|vormittag)'), 'this morning'],
+            [wordPattern('heute nachmittag'), 'this afternoon'],
+            [wordPattern('heute (?:abend|nacht)'), 'tonight'],
+            [wordPattern('morgen (?:früh|frueh)'), 'tomorrow morning'],
+            [wordPattern('mitternacht'), 'midnight'],
+            [wordPattern('morgens|vormittags|früh|frueh'), 'in the morning'],
+            [wordPattern('nachmittags'), 'in the afternoon'],
+            [wordPattern('abends'), 'in the evening'],
+            [wordPattern('nachts'), 'at night'],
+            [wordPattern('mittags|mittag'), 'noon'],
+            [wordPattern('vormittag'), 'morning'],
+            [wordPattern('nachmittag'), 'afternoon'],
+            [wordPattern('abend'), 'evening'],
+            [wordPattern('nacht'), 'night'],
+            [wordPattern('morgen'), 'tomorrow'],
+            [wordPattern('heute'), 'today'],
+            [wordPattern('(?:am )?ende des tages|(?:zum )?feierabend'), 'end of day'],
+            [wordPattern('(?:am )?ende der woche'), 'end of week'],
+            [wordPattern('(?:am )?ende des monats|(?:zum )?monatsende'), 'end of month'],
+            [wordPattern('(?:am )?ende des jahres|(?:zum )?jahresende'), 'end of year'],
+            [wordPattern('(?:am )?(?:nächsten|naechsten|kommenden) wochenende'), 'next weekend'],
+            [wordPattern('(?:am |dieses )?wochenende'), 'weekend'],
+            [wordPattern('(?:nächste|naechste|kommende|nächster|naechster|kommender) woche'), 'next week'],
+            [wordPattern('(?:nächsten|naechsten|kommenden) monat'), 'next month'],
+            [wordPattern('(?:nächstes|naechstes|kommendes) jahr'), 'next year'],
+            [wordPattern('diese woche'), 'this week'],
+            [wordPattern('diesen monat'), 'this month'],
+            [wordPattern(alternatives(WEEKDAYS)), translate(WEEKDAYS)],
+            [wordPattern('(?:am )?(?:nächsten|naechsten|nächster|naechster|nächste|naechste|kommenden)'), 'next'],
+            [wordPattern('(?:am )?(?:diesen|dieser|dieses|diese)'), 'this'],
+            [wordPattern(`(?:vom )?(\\d{1,2})\\.? ?(?:-|–|bis(?: zum)?) ?(\\d{1,2})\\.? (${alternatives(MONTHS)})(?: (\\d{4}))?`), (_match, first, last, month, year) => `${first}-${last} ${MONTHS[month]}${year ? ` ${year}` : ''}`],
+            [wordPattern(`(\\d{1,2})\\.? (${alternatives(MONTHS)})(?: (\\d{4}))?`), (_match, day, month, year) => `${day} ${MONTHS[month]}${year ? ` ${year}` : ''}`],
+            [wordPattern(alternatives(MONTHS)), translate(MONTHS)],
+            [/(?<![\p{L}\p{N}])(\d{1,2})\.(\d{1,2})\.(\d{4}|\d{2})?(?![\p{L}\p{N}])/gu, (_match, day, month, year) => `${day}/${month}${year ? `/${year}` : ''}`],
+            [/(?<![\p{L}\p{N}])(?:(?:am|den|zum) )?(\d{1,2})\.(?![\p{L}\p{N}])/gu, (_match, day) => `the ${day}th`],
+            [wordPattern('ab jetzt|von jetzt an'), 'from now'],
+            [wordPattern(alternatives(UNITS)), translate(UNITS)],
+            [wordPattern('um|gegen'), 'at'],
+            [wordPattern('bis|spätestens|spaetestens'), 'by'],
+            // "am" after a number is the English meridiem of a clarification option ("tomorrow at 3 am")
+            [/(?<![\p{L}\p{N}])(?<!\d )(?:am|den|der|die|das|dem|im|zum|zur|ab|so)(?![\p{L}\p{N}])/gu, ' ']
+        ]
+    },
+    messages: {
+        subjectPrefix: {
+            urgent: '🚨 DRINGENDE Erinnerung',
+            high: '❗ Wichtige Erinnerung',
+            normal: '🔔 Erinnerung',
+            low: '🔔 Erinnerung'
+        },
+        alertTitle: '🔔 Erinnerung',
+        intro: senderName => `Du hast eine Erinnerung${senderName ? ` von ${senderName}` : ''}:`,
+        reminderHeading: 'Erinnerung:',
+        priority: 'Priorität',
+        priorityNames: { low: 'niedrig', normal: 'normal', high: 'hoch', urgent: 'dringend' },
+        category: 'Kategorie',
+        tags: 'Schlagwörter',
+        scheduledTime: 'Geplante Zeit',
+        original: 'Eingabe',
+        parsed: 'Erkannt',
+        parsedTime: 'Erkannte Zeit',
+        repeats: 'Wiederholung',
+        calendarHeading: '📅 Kalendertermin:',
+        calendarAttached: 'Eine Kalendereinladung ist an diese E-Mail angehängt.',
+        calendarAttachedText: '📅 Kalendereinladung im Anhang.',
+        interpretation: 'Zeitinterpretation',
+        durationLabel: 'Dauer',
+        duration: minutes => `${minutes} Minuten`,
+        allDay: 'Ganztägig',
+        confidence: 'Sicherheit',
+        confidenceLevels: { high: 'hoch', medium: 'mittel', low: 'niedrig' },
+        calendarNoteHeading: '⚠️ Hinweis zum Kalender:',
+        calendarFailed: 'Die Kalendereinladung konnte nicht erstellt werden. Bitte trage den Termin manuell in deinen Kalender ein.',
+        footer: 'Diese Erinnerung wurde von deinem KI-Assistenten gesendet',
+        sentAt: 'Gesendet am',
+        snoozeLabels: {
+            '10 minutes': '10 Minuten später',
+            '1 hour': '1 Stunde später',
+            'until tomorrow morning': 'Morgen früh erinnern'
+        },
+        done: 'Als erledigt markieren',
+        eventDescription: task => `Erinnerung: ${task}\n\nGeplant mit dem KI-Assistenten`,
+        noLocation: 'Nicht angegeben',
+        organizerName: 'KI-Erinnerungsassistent',
+        attendeeName: 'Teilnehmer',
+        updatedSubject: task => `📅 Geändert: ${task}`,
+        cancelledSubject: task => `❌ Abgesagt: ${task}`,
+        eventUpdated: 'Dieser Termin hat sich geändert. Dein Kalender aktualisiert den bestehenden Eintrag.',
+        eventCancelled: 'Dieser Termin wurde abgesagt und wird aus deinem Kalender entfernt.',
+        reminderCount: count => count === 1 ? '1 Erinnerung' : `${count} Erinnerungen`
+    }
+};
@@ -0,0 +1,60 @@
+// locales/en.ts
+// 🇬🇧 ENGLISH
+//
+// The time grammar in calendar-utils.ts is English, so this pack needs no parser rewrites.
+
+import { LocalePack } from './locale-pack';
+
+export const en: LocalePack = {
+    code: 'en',
+    name: 'English',
+    dateLocale: 'en-US',
+    messages: {
+        subjectPrefix: {
+            urgent: '🚨 URGENT Reminder',
+            high: '❗ High Priority Reminder',
+            normal: '🔔 Reminder',
+            low: '🔔 Reminder'
+        },
+        alertTitle: '🔔 Reminder Alert',
+        intro: senderName => `You have a reminder${senderName ? ` from ${senderName}` : ''}:`,
+        reminderHeading: 'Reminder:',
+        priority: 'Priority',
+        priorityNames: { low: 'low', normal: 'normal', high: 'high', urgent: 'urgent' },
+        category: 'Category',
+        tags: 'Tags',
+        scheduledTime: 'Scheduled Time',
+        original: 'Original',
+        parsed: 'Parsed',
+        parsedTime: 'Parsed Time',
+        repeats: 'Repeats',
+        calendarHeading: '📅 Calendar Event:',
+        calendarAttached: 'A calendar invite has been attached to this email.',
+        calendarAttachedText: '📅 Calendar invite attached to this email.',
+        interpretation: 'Time Interpretation',
+        durationLabel: 'Duration',
+        duration: minutes => `${minutes} minutes`,
+        allDay: 'All day',
+        confidence: 'Confidence',
+        confidenceLevels: { high: 'high', medium: 'medium', low: 'low' },
+        calendarNoteHeading: '⚠️ Calendar Note:',
+        calendarFailed: 'Could not generate calendar invite. Please add this event manually to your calendar.',
+        footer: 'This reminder was sent by your AI Assistant',
+        sentAt: 'Sent at',
+        snoozeLabels: {
+            '10 minutes': 'Snooze 10 minutes',
+            '1 hour': 'Snooze 1 hour',
+            'until tomorrow morning': 'Snooze Tomorrow morning'
+        },
+        done: 'Mark as done',
+        eventDescription: task => `Reminder: ${task}\n\nScheduled via AI Assistant`,
+        noLocation: 'Not specified',
+        organizerName: 'AI Reminder Assistant',
+        attendeeName: 'Attendee',
+        updatedSubject: task => `📅 Updated: ${task}`,
+        cancelledSubject: task => `❌ Cancelled: ${task}`,
+        eventUpdated: 'This event has changed. Your calendar will update the existing entry.',
+        eventCancelled: 'This event has been cancelled and will be removed from your calendar.',
+        reminderCount: count => count === 1 ? '1 reminder' : `${count} reminders`
+    }
+};
@@ -0,0 +1,139 @@
+// locales/es.ts
+// 🇪🇸 ESPAÑOL
+//
+// "mañana a las 3 y media de la tarde" → "tomorrow at 3:30 in the afternoon"
+// "en 3 días hábiles", "el próximo día hábil", "2 días hábiles antes del 20 de noviembre" count business days.
+// "todo el día", "del 4 al 6 de noviembre" → "all day", "4-6 nov" (all-day reminders).
+
+import { LocalePack, wordPattern } from './locale-pack';
+
+const NUMBERS: Record<string, string> = {
+    'un': '1', 'una': '1', 'uno': '1', 'dos': '2', 'tres': '3', 'cuatro': '4', 'cinco': '5', 'seis': '6',
+    'siete': '7', 'ocho': '8', 'nueve': '9', 'diez': '10', 'once': '11', 'doce': '12', 'quince': '15',
+    'veinte': '20', 'treinta': '30', 'cuarenta y cinco': '45'
+};
+
+const WEEKDAYS: Record<string, string> = {
+    'lunes': 'monday', 'martes': 'tuesday', 'miércoles': 'wednesday', 'miercoles': 'wednesday', 'jueves': 'thursday',
+    'viernes': 'friday', 'sábado': 'saturday', 'sabado': 'saturday', 'domingo': 'sunday'
+};
+
+const MONTHS: Record<string, string> = {
+    'enero': 'jan', 'febrero': 'feb', 'marzo': 'mar', 'abril': 'apr', 'mayo': 'may', 'junio': 'jun', 'julio': 'jul',
+    'agosto': 'aug', 'septiembre': 'sep', 'setiembre': 'sep', 'octubre': 'oct', 'noviembre': 'nov', 'diciembre': 'dec'
+};
+
+const UNITS: Record<string, string> = {
+    'minuto': 'minutes', 'minutos': 'minutes', 'hora': 'hours', 'horas': 'hours', 'día': 'days', 'días': 'days', 'dia': 'days', 'dias': 'days',
+    'semana': 'weeks', 'semanas': 'weeks', 'mes': 'months', 'meses': 'months', 'año': 'years', 'años': 'years'
+};
+
+const alternatives = (words: Record<string, string>) => Object.keys(words).sort((a, b) => b.length - a.length).join('|');
+const translate = (words: Record<string, string>) => (match: string) => words[match] ?? match;
+
+export const es: LocalePack = {
+    code: 'es',
+    name: 'Español',
+    dateLocale: 'es-ES',
+    parser: {
+        dateOrder: 'dmy',
+        rewrites: [
+            [wordPattern(alternatives(NUMBERS)), translate(NUMBERS)],
+            [wordPattern('media hora'), 'half an hour'],
+            [wordPattern('(\\d{1,2}) y media'), (_match, hour) => `${hour}:30`],
+            [wordPattern('(\\d{1,2}) y cuarto'), (_match, hour) => `${hour}:15`],
+            [wordPattern('(\\d{1,2}) menos cuarto'), (_match, hour) => `${parseInt(hour) === 1 ? 12 : parseInt(hour) - 1}:45`],
+            [wordPattern('en punto'), "o'clock"],
+            [wordPattern('todo el (?:día|dia)|(?:el )?(?:día|dia) entero'), 'all day'],
+            [wordPattern('(?:el )?(?:próximo|proximo|siguiente) (?:día|dia) (?:hábil|habil|laborable)'), 'next business day'],
+            [wordPattern('(\\d+) (?:días|dias|día|dia) (?:hábiles|habiles|hábil|habil|laborables|laborable)(?: (antes|después|despues) del?)?'), (_match, days, relation) => `${days} business days${relation ? (relation === 'antes' ? ' before' : ' after') : ''}`],
+            [wordPattern('(?:al )?(?:cierre|final) de la jornada(?: laboral)?'), 'close of business'],
+            [wordPattern('(?:al )?(?:inicio|comienzo) de la jornada(?: laboral)?'), 'start of business'],
+            [wordPattern('pasado mañana|pasado manana'), 'day after tomorrow'],
+            [wordPattern('esta mañana|esta manana'), 'this morning'],
+            [wordPattern('esta tarde'), 'this afternoon'],
+            [wordPattern('esta noche'), 'tonight'],
+            [wordPattern('(?:por|de) la mañana|(?:por|de) la manana|de madrugada'), 'in the morning'],
+            [wordPattern('(?:por|de) la tarde'), 'in the afternoon'],
+            [wordPattern('(?:por|de) la noche'), 'at night'],
+            [wordPattern('mañana|manana'), 'tomorrow'],
+            [wordPattern('hoy'), 'today'],
+            [wordPattern('mediodía|mediodia'), 'noon'],
+            [wordPattern('medianoche'), 'midnight'],
+            [wordPattern('(?:este|el) fin de semana'), 'weekend'],
+            [wordPattern('el próximo fin de semana|el proximo fin de semana'), 'next weekend'],
+            [wordPattern('(?:a )?fin(?:al)? del? día|(?:a )?fin(?:al)? del? dia'), 'end of day'],
+            [wordPattern('(?:a )?fin(?:al)? de(?: la)? semana'), 'end of week'],
+            [wordPattern('(?:a )?fin(?:al)? de(?:l)? mes'), 'end of month'],
+            [wordPattern('(?:a )?fin(?:al)? de(?:l)? año'), 'end of year'],
+            [wordPattern('(?:la )?(?:próxima|proxima) semana|(?:la )?semana (?:que viene|próxima|proxima)'), 'next week'],
+            [wordPattern('(?:el )?(?:próximo|proximo) mes|(?:el )?mes (?:que viene|próximo|proximo)'), 'next month'],
+            [wordPattern('(?:el )?(?:próximo|proximo) año|(?:el )?año (?:que viene|próximo|proximo)'), 'next year'],
+            [wordPattern('esta semana'), 'this week'],
+            [wordPattern('este mes'), 'this month'],
+            [wordPattern(alternatives(WEEKDAYS)), translate(WEEKDAYS)],
+            [wordPattern('(monday|tuesday|wednesday|thursday|friday|saturday|sunday) que viene'), (_match, day) => `next ${day}`],
+            [wordPattern('(?:el |la )?(?:próximo|proximo|próxima|proxima)'), 'next'],
+            [wordPattern('este|esta'), 'this'],
+            [wordPattern(`(?:del? )?(\\d{1,2}) (?:al?|-|–) (\\d{1,2}) de (${alternatives(MONTHS)})(?: de (\\d{4}))?`), (_match, first, last, month, year) => `${first}-${last} ${MONTHS[month]}${year ? ` ${year}` : ''}`],
+            [wordPattern(`(\\d{1,2}) de (${alternatives(MONTHS)})(?: de (\\d{4}))?`), (_match, day, month, year) => `${day} ${MONTHS[month]}${year ? ` ${year}` : ''}`],
+            [wordPattern(alternatives(MONTHS)), translate(MONTHS)],
+            [wordPattern('(?:el )?día (\\d{1,2})|(?:el )?dia (\\d{1,2})'), (_match, day, plainDay) => `the ${day || plainDay}th`],
+            [wordPattern('a partir de ahora|desde ahora|de ahora'), 'from now'],
+            [wordPattern('dentro de|en'), 'in'],
+            [wordPattern(alternatives(UNITS)), translate(UNITS)],
+            [wordPattern('a las|a la|sobre las|hacia las'), 'at'],
+            [wordPattern('para el|para las|antes del?'), 'by'],
+            [wordPattern('hasta'), 'until'],
+            [wordPattern('el|la|los|las|de|del|a|al|y'), ' ']
+        ]
+    },
+    messages: {
+        subjectPrefix: {
+            urgent: '🚨 Recordatorio URGENTE',
+            high: '❗ Recordatorio de alta prioridad',
+            normal: '🔔 Recordatorio',
+            low: '🔔 Recordatorio'
+        },
+        alertTitle: '🔔 Aviso de recordatorio',
+        intro: senderName => `Tienes un recordatorio${senderName ? ` de ${senderName}` : ''}:`,
+        reminderHeading: 'Recordatorio:',
+        priority: 'Prioridad',
+        priorityNames: { low: 'baja', normal: 'normal', high: 'alta', urgent: 'urgente' },
+        category: 'Categoría',
+        tags: 'Etiquetas',
+        scheduledTime: 'Hora programada',
+        original: 'Original',
+        parsed: 'Interpretada',
+        parsedTime: 'Hora interpretada',
+        repeats: 'Se repite',
+        calendarHeading: '📅 Evento de calendario:',
+        calendarAttached: 'Se ha adjuntado una invitación de calendario a este correo.',
+        calendarAttachedText: '📅 Invitación de calendario adjunta a este correo.',
+        interpretation: 'Interpretación de la hora',
+        durationLabel: 'Duración',
+        duration: minutes => `${minutes} minutos`,
+        allDay: 'Todo el día',
+        confidence: 'Confianza',
+        confidenceLevels: { high: 'alta', medium: 'media', low: 'baja' },
+        calendarNoteHeading: '⚠️ Nota sobre el calendario:',
+        calendarFailed: 'No se pudo generar la invitación de calendario. Añade este evento a tu calendario manualmente.',
+        footer: 'Este recordatorio lo envió tu asistente de IA',
+        sentAt: 'Enviado el',
+        snoozeLabels: {
+            '10 minutes': 'Posponer 10 minutos',
+            '1 hour': 'Posponer 1 hora',
+            'until tomorrow morning': 'Posponer hasta mañana por la mañana'
+        },
+        done: 'Marcar como hecho',
+        eventDescription: task => `Recordatorio: ${task}\n\nProgramado con el asistente de IA`,
+        noLocation: 'Sin especificar',
+        organizerName: 'Asistente de recordatorios IA',
+        attendeeName: 'Participante',
+        updatedSubject: task => `📅 Actualizado: ${task}`,
+        cancelledSubject: task => `❌ Cancelado: ${task}`,
+        eventUpdated: 'Este evento ha cambiado. Tu calendario actualizará la entrada existente.',
+        eventCancelled: 'Este evento se ha cancelado y se eliminará de tu calendario.',
+        reminderCount: count => count === 1 ? '1 recordatorio' : `${count} recordatorios`
+    }
+};
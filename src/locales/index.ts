@@ -0,0 +1,105 @@
+// locales/index.ts
+// 🌍 LOCALE REGISTRY
+//
+// Picks the locale pack for a request: the first candidate whose language has a
+// pack wins ("de-AT" → de), then REMINDER_DEFAULT_LOCALE, then English.
+// Register a new language with registerLocalePack().
+
+import { LocalePack, ReminderPriorityName } from './locale-pack';
+import { en } from './en';
+import { es } from './es';
+import { de } from './de';
+
+export * from './locale-pack';
+export { en, es, de };
+
+const packs = new Map<string, LocalePack>();
+
+/**
+ * Raised for malformed locale tags (mapped to HTTP 400)
+ */
+export class LocaleError extends Error {
+    constructor(locale: string) {
+        super(`Invalid locale: ${locale}. Use a language tag like "en", "es" or "de-DE"`);
+        this.name = 'LocaleError';
+    }
+}
+
+export function registerLocalePack(pack: LocalePack): void {
+    packs.set(pack.code.toLowerCase(), pack);
+}
+
+[en, es, de].forEach(registerLocalePack);
+
+export function supportedLocales(): string[] {
+    return [...packs.keys()];
+}
+
+/**
+ * Pack for a language tag, or undefined when the language has none
+ */
+export function getLocalePack(locale: string): LocalePack | undefined {
+    let canonical: string;
+    try {
+        [canonical] = Intl.getCanonicalLocales(locale.replace(/_/g, '-'));
+    } catch {
+        throw new LocaleError(locale);
+    }
+    return packs.get(canonical.split('-')[0].toLowerCase());
+}
+
+/**
+ * Throw LocaleError unless the tag is well-formed; unsupported languages are allowed (they fall back)
+ */
+export function validateLocale(locale: string): string {
+    getLocalePack(locale);
+    return locale;
+}
+
+export function defaultLocalePack(): LocalePack {
+    const configured = process.env.REMINDER_DEFAULT_LOCALE;
+    try {
+        return (configured && getLocalePack(configured)) || en;
+    } catch {
+        return en;
+    }
+}
+
+/**
+ * First candidate with a pack; malformed candidates throw LocaleError
+ */
+export function resolveLocale(...candidates: (string | undefined | null)[]): LocalePack {
+    for (const candidate of candidates) {
+        if (!candidate) {
+            continue;
+        }
+        const pack = getLocalePack(candidate);
+        if (pack) {
+            return pack;
+        }
+    }
+    return defaultLocalePack();
+}
+
+/**
+ * Rewrite a time phrase into the English phrasing the time grammar reads
+ */
+export function translateTimePhrase(text: string, pack: LocalePack): string {
+    if (!pack.parser) {
+        return text;
+    }
+    let phrase = text.toLowerCase().normalize('NFC');
+    for (const [pattern, replacement] of pack.parser.rewrites) {
+        phrase = typeof replacement === 'string'
+            ? phrase.replace(pattern, replacement)
+            : phrase.replace(pattern, (...args) => replacement(...(args.slice(0, -2) as [string, ...string[]])));
+    }
+    return phrase.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Subject line of a reminder email, e.g. "🔔 Erinnerung: Zahnarzt"
+ */
+export function reminderEmailSubject(pack: LocalePack, task: string, priority: ReminderPriorityName = 'normal'): string {
+    return `${pack.messages.subjectPrefix[priority] || pack.messages.subjectPrefix.normal}: ${task}`;
+}
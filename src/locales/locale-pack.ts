@@ -0,0 +1,72 @@
+// locales/locale-pack.ts
+// 🗣️ LOCALE PACK FORMAT
+//
+// A locale pack teaches the server one language:
+// - parser: rewrites that turn "mañana a las 3" into the English phrase the time
+//   grammar understands ("tomorrow at 3"), plus the order of numeric dates (11/3)
+// - messages: the text of reminder emails and calendar invites
+// Packs are registered in locales/index.ts.
+
+export type ReminderPriorityName = 'low' | 'normal' | 'high' | 'urgent';
+
+export type PhraseRewrite = [RegExp, string | ((match: string, ...groups: string[]) => string)];
+
+export interface LocaleParser {
+    dateOrder: 'mdy' | 'dmy';   // how "3/11" is read
+    rewrites: PhraseRewrite[];  // applied in order to the lowercased phrase
+}
+
+export interface LocaleMessages {
+    subjectPrefix: Record<ReminderPriorityName, string>;
+    alertTitle: string;
+    intro: (senderName?: string) => string;
+    reminderHeading: string;
+    priority: string;
+    priorityNames: Record<ReminderPriorityName, string>;
+    category: string;
+    tags: string;
+    scheduledTime: string;
+    original: string;
+    parsed: string;
+    parsedTime: string;
+    repeats: string;
+    calendarHeading: string;
+    calendarAttached: string;
+    calendarAttachedText: string;
+    interpretation: string;
+    durationLabel: string;
+    duration: (minutes: number) => string;
+    allDay: string;                             // shown instead of a time and duration for all-day events
+    confidence: string;
+    confidenceLevels: Record<'high' | 'medium' | 'low', string>;
+    calendarNoteHeading: string;
+    calendarFailed: string;
+    footer: string;
+    sentAt: string;
+    snoozeLabels: Record<string, string>; // keyed by EMAIL_SNOOZE_OPTIONS snooze value
+    done: string;
+    eventDescription: (task: string) => string;
+    noLocation: string;
+    organizerName: string;
+    attendeeName: string;
+    updatedSubject: (task: string) => string;   // email carrying a changed invite (METHOD:REQUEST, higher SEQUENCE)
+    cancelledSubject: (task: string) => string; // email carrying a cancellation (METHOD:CANCEL)
+    eventUpdated: string;
+    eventCancelled: string;
+    reminderCount: (count: number) => string;   // header of an exported agenda, e.g. "4 reminders"
+}
+
+export interface LocalePack {
+    code: string;         // primary language subtag, e.g. 'de'
+    name: string;         // e.g. 'Deutsch'
+    dateLocale: string;   // Intl locale for formatted dates, e.g. 'de-DE'
+    parser?: LocaleParser; // absent: phrases are read as English
+    messages: LocaleMessages;
+}
+
+/**
+ * Case-insensitive pattern for whole words, also around non-ASCII letters ("mañana", "übermorgen")
+ */
+export function wordPattern(source: string): RegExp {
+    return new RegExp(`(?<![\\p{L}\\p{N}])(?:${source})(?![\\p{L}\\p{N}])`, 'giu');
+}
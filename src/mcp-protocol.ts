@@ -22,6 +22,31 @@ export interface MCPResponse {
     };
 }
 
+/**
+ * JSON-RPC / MCP error codes used by this server
+ */
+export const MCP_ERROR_CODES = {
+    METHOD_NOT_FOUND: -32601,
+    INVALID_PARAMS: -32602,
+    INTERNAL_ERROR: -32603,
+    UNAUTHORIZED: -32001,
+    RESOURCE_NOT_FOUND: -32002,
+    FORBIDDEN: -32003,
+    CLARIFICATION_NEEDED: -32004, // the input is too vague to act on; error.data carries the question to ask
+    SCHEDULE_CONFLICT: -32005 // the time overlaps other reminders; error.data carries them and free slots
+} as const;
+
+/**
+ * Error raised by a tool implementation that should reach the client
+ * as a structured MCP error instead of a generic internal error
+ */
+export class MCPToolError extends Error {
+    constructor(public code: number, message: string, public data?: any) {
+        super(message);
+        this.name = 'MCPToolError';
+    }
+}
+
 export interface MCPTool {
     name: string;
     description: string;
@@ -48,12 +73,16 @@ export interface MCPCapabilities {
  */
 export class MCPClient {
     private serverUrl: string;
-    private sessionId: string;
+    private sessionId?: string; // issued by the server at initialize
     private capabilities: MCPCapabilities | null = null;
+    private authToken?: string;
 
-    constructor(serverUrl: string) {
+    /**
+     * @param authToken - Optional API token; the server then scopes reminders to that user
+     */
+    constructor(serverUrl: string, authToken?: string) {
         this.serverUrl = serverUrl;
-        this.sessionId = `mcp_session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        this.authToken = authToken;
     }
 
     /**
@@ -163,8 +192,9 @@ export class MCPClient {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
-                'MCP-Session-ID': this.sessionId,
-                'MCP-Protocol-Version': '2024-11-05'
+                ...(this.sessionId ? { 'MCP-Session-ID': this.sessionId } : {}),
+                'MCP-Protocol-Version': '2024-11-05',
+                ...(this.authToken ? { 'Authorization': `Bearer ${this.authToken}` } : {})
             },
             body: JSON.stringify(request)
         });
@@ -172,6 +202,8 @@ export class MCPClient {
         if (!response.ok) {
             throw new Error(`MCP request failed: ${response.status} ${response.statusText}`);
         }
+        // The server hands out the session ID when the connection is initialized
+        this.sessionId = response.headers.get('MCP-Session-ID') || this.sessionId;
 
         const mcpResponse: MCPResponse = await response.json();
         
@@ -195,6 +227,9 @@ export class MCPClient {
     }
 }
 
+// An invite attendee as the reminder tools accept it: an address or { email, name, role }
+type InviteeInput = string | { email: string; name?: string; role?: 'required' | 'optional' };
+
 /**
  * MCP Tool Wrapper - Shows how to wrap existing tools for MCP
  * This demonstrates the adapter pattern for MCP integration
@@ -205,11 +240,12 @@ export function createMCPToolWrapper(mcpClient: MCPClient) {
             return await mcpClient.callTool('add_reminder', { time, task });
         },
 
-        async sendEmailReminder(time: string, task: string, email: string, eventDuration?: number, eventLocation?: string) {
+        async sendEmailReminder(time: string, task: string, email: string, eventDuration?: number, eventLocation?: string, attendees?: InviteeInput[]) {
             return await mcpClient.callTool('send_email_reminder', {
                 time,
                 task,
                 email,
+                attendees,
                 eventDuration,
                 eventLocation
             });
@@ -217,6 +253,62 @@ export function createMCPToolWrapper(mcpClient: MCPClient) {
 
         async listReminders() {
             return await mcpClient.callTool('list_reminders', {});
+        },
+
+        async getReminder(id: string) {
+            return await mcpClient.callTool('get_reminder', { id });
+        },
+
+        async exportReminders(format: 'md' | 'csv' | 'json' | 'ics' | 'jcal' = 'md', filters: { from?: string; to?: string; tags?: string; status?: string } = {}) {
+            return await mcpClient.callTool('export_reminders', { format, ...filters });
+        },
+
+        async updateReminder(id: string, changes: { time?: string; task?: string; email?: string; attendees?: InviteeInput[] }) {
+            return await mcpClient.callTool('update_reminder', { id, ...changes });
+        },
+
+        async deleteReminder(id: string) {
+            return await mcpClient.callTool('delete_reminder', { id });
+        },
+
+        async completeReminder(id: string) {
+            return await mcpClient.callTool('complete_reminder', { id });
+        },
+
+        async snoozeReminder(id: string, duration: string) {
+            return await mcpClient.callTool('snooze_reminder', { id, duration });
+        },
+
+        async importCalendar(ics: string, includePast?: boolean) {
+            return await mcpClient.callTool('import_calendar', { ics, includePast });
+        },
+
+        async suggestDuration(task: string, location?: string) {
+            return await mcpClient.callTool('suggest_duration', { task, location });
+        },
+
+        async previewReminder(time: string, task: string, email?: string, eventDuration?: number, eventLocation?: string) {
+            return await mcpClient.callTool('preview_reminder', { time, task, email, eventDuration, eventLocation });
+        },
+
+        async getPreferences() {
+            return await mcpClient.callTool('get_preferences', {});
+        },
+
+        async updatePreferences(changes: { timeZone?: string; locale?: string; workWeek?: string; workingHours?: string; organizerName?: string; organizerEmail?: string; alarms?: string[] }) {
+            return await mcpClient.callTool('update_preferences', changes);
+        },
+
+        async getCalendarFeed(filters: { tags?: string; from?: string; to?: string; dueOn?: string; status?: string; priority?: string; category?: string; search?: string } = {}) {
+            return await mcpClient.callTool('get_calendar_feed', filters);
+        },
+
+        async resetCalendarFeed() {
+            return await mcpClient.callTool('reset_calendar_feed', {});
+        },
+
+        async findFreeSlot(options: { duration?: number; task?: string; location?: string; from?: string; to?: string; count?: number; timeZone?: string }) {
+            return await mcpClient.callTool('find_free_slot', options);
         }
     };
 }
@@ -5,7 +5,31 @@
 // It demonstrates how tools should be exposed via MCP vs simple HTTP
 
 import express, { Request, Response } from 'express';
-import { MCPRequest, MCPResponse, MCPCapabilities, MCPTool } from './mcp-protocol';
+import { MCPRequest, MCPResponse, MCPCapabilities, MCPTool, MCPToolError, MCP_ERROR_CODES } from './mcp-protocol';
+import { AuthenticationError, IdentityResolver, forwardedCredentials } from './auth';
+
+// Invitees of send_email_reminder, update_reminder and preview_reminder
+const ATTENDEES_SCHEMA = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            email: { type: 'string', format: 'email', description: 'Attendee email address.' },
+            name: { type: 'string', description: 'Optional display name, e.g. "Jane Doe".' },
+            role: { type: 'string', enum: ['required', 'optional'], description: 'Whether attendance is required (default) or optional.' }
+        },
+        required: ['email']
+    }
+};
+
+// Alarm plans of add_reminder, send_email_reminder, update_reminder, preview_reminder and the preferences
+const ALARMS_SCHEMA = {
+    type: 'array',
+    items: {
+        type: 'string',
+        description: 'One alert, e.g. "1 day before", "2 hours before by email", "at start", "10 minutes before with sound" or "at 8 AM on Nov 3".'
+    }
+};
 
 /**
  * MCP Protocol Handler for the server side
@@ -15,9 +39,11 @@ export class MCPServerProtocol {
     private app: express.Application;
     private tools: MCPTool[] = [];
     private activeSessions = new Map<string, any>();
+    private identityResolver: IdentityResolver;
 
-    constructor(app: express.Application) {
+    constructor(app: express.Application, identityResolver: IdentityResolver) {
         this.app = app;
+        this.identityResolver = identityResolver;
         this.setupMCPEndpoints();
         this.registerTools();
     }
@@ -30,7 +56,7 @@ export class MCPServerProtocol {
         this.tools = [
             {
                 name: 'add_reminder',
-                description: 'Adds a new reminder for a specific task at a given time. Use this to add a new reminder.',
+                description: 'Adds a new reminder for a specific task at a given time. Use this to add a new reminder. Vague or ambiguous times fail with a CLARIFICATION_NEEDED error whose data holds a question for the user.',
                 inputSchema: {
                     type: 'object',
                     properties: {
@@ -41,6 +67,49 @@ export class MCPServerProtocol {
                         task: {
                             type: 'string',
                             description: 'The task or message for the reminder, e.g., "call the doctor", "buy groceries".'
+                        },
+                        recurrence: {
+                            type: 'string',
+                            description: 'Optional repeat pattern, e.g. "every weekday", "every other Tuesday", "first Monday of each month", "daily for 10 times", or an RRULE like "FREQ=WEEKLY;BYDAY=MO".'
+                        },
+                        recurrenceExceptions: {
+                            type: 'array',
+                            items: { type: 'string' },
+                            description: 'Optional dates on which a repeating reminder is skipped, e.g. ["2026-12-25"].'
+                        },
+                        tags: {
+                            type: 'array',
+                            items: { type: 'string' },
+                            description: 'Optional tags, e.g. ["admin"]. Inline "#admin" in the task also works.'
+                        },
+                        priority: {
+                            type: 'string',
+                            enum: ['low', 'normal', 'high', 'urgent'],
+                            description: 'Optional priority (default: normal). Inline "high priority: ..." in the task also works.'
+                        },
+                        category: {
+                            type: 'string',
+                            description: 'Optional category, e.g. "work", "health".'
+                        },
+                        timeZone: {
+                            type: 'string',
+                            description: 'Optional IANA time zone the time is read in, e.g. "America/New_York" (default: your preference, then the server zone).'
+                        },
+                        locale: {
+                            type: 'string',
+                            description: 'Optional language the time is written in: "en", "es" ("mañana a las 3") or "de" ("morgen um 15 Uhr") (default: your preference, then English).'
+                        },
+                        workingDaysOnly: {
+                            type: 'boolean',
+                            description: 'Move the reminder (and each later occurrence) to the next working day when it falls on a weekend or holiday.'
+                        },
+                        allDay: {
+                            type: 'boolean',
+                            description: 'Make a date ("Oct 30") a whole-day reminder, e.g. a birthday. Ranges ("Nov 4-6") and "all day" phrases are all-day anyway; they notify at 9 AM on the first day.'
+                        },
+                        alarms: {
+                            ...ALARMS_SCHEMA,
+                            description: 'Optional alerts before the reminder (default: your preference, none otherwise); ["none"] for no alerts.'
                         }
                     },
                     required: ['time', 'task']
@@ -48,7 +117,7 @@ export class MCPServerProtocol {
             },
             {
                 name: 'send_email_reminder',
-                description: 'Sends an email reminder with calendar invite to a specified email address. Automatically parses time expressions and creates calendar events.',
+                description: 'Sends an email reminder with calendar invite to one or more people. Put every address from the request in "email" or "attendees"; all of them get the same email and are listed in the invite. Automatically parses time expressions and creates calendar events. Vague or ambiguous times fail with a CLARIFICATION_NEEDED error whose data holds a question for the user; times overlapping other reminders fail with a SCHEDULE_CONFLICT error whose data lists them and free slots.',
                 inputSchema: {
                     type: 'object',
                     properties: {
@@ -62,29 +131,621 @@ export class MCPServerProtocol {
                         },
                         email: {
                             type: 'string',
-                            format: 'email',
-                            description: 'The email address to send the reminder to.'
+                            description: 'The email address to send the reminder to (several may be comma-separated; all are required attendees).'
+                        },
+                        attendees: {
+                            ...ATTENDEES_SCHEMA,
+                            description: 'Attendees with display names and roles, e.g. [{ "email": "jane@example.com", "name": "Jane Doe", "role": "optional" }]. Use with or instead of "email".'
                         },
                         eventDuration: {
                             type: 'number',
-                            description: 'Duration of the event in minutes. If not specified, will be automatically suggested based on the task type.'
+                            description: 'Duration of the event in minutes. If not specified, it is suggested from the task (see suggest_duration).'
                         },
                         eventLocation: {
                             type: 'string',
                             description: 'Location for the calendar event, if mentioned in the request.'
+                        },
+                        recurrence: {
+                            type: 'string',
+                            description: 'Optional repeat pattern, e.g. "every weekday", "every other Tuesday", "first Monday of each month", "daily for 10 times", or an RRULE like "FREQ=WEEKLY;BYDAY=MO".'
+                        },
+                        recurrenceExceptions: {
+                            type: 'array',
+                            items: { type: 'string' },
+                            description: 'Optional dates on which a repeating reminder is skipped, e.g. ["2026-12-25"].'
+                        },
+                        tags: {
+                            type: 'array',
+                            items: { type: 'string' },
+                            description: 'Optional tags, e.g. ["admin"]. Inline "#admin" in the task also works.'
+                        },
+                        priority: {
+                            type: 'string',
+                            enum: ['low', 'normal', 'high', 'urgent'],
+                            description: 'Optional priority (default: normal). Inline "high priority: ..." in the task also works.'
+                        },
+                        category: {
+                            type: 'string',
+                            description: 'Optional category, e.g. "work", "health".'
+                        },
+                        timeZone: {
+                            type: 'string',
+                            description: 'Optional IANA time zone the time is read in, e.g. "America/New_York" (default: your preference, then the server zone).'
+                        },
+                        recipientTimeZone: {
+                            type: 'string',
+                            description: 'Optional IANA time zone the email shows times in (default: timeZone).'
+                        },
+                        locale: {
+                            type: 'string',
+                            description: 'Optional language the time is written in: "en", "es" ("mañana a las 3") or "de" ("morgen um 15 Uhr") (default: your preference, then English).'
+                        },
+                        recipientLocale: {
+                            type: 'string',
+                            description: 'Optional language of the email and calendar invite, e.g. "de" (default: locale).'
+                        },
+                        workingDaysOnly: {
+                            type: 'boolean',
+                            description: 'Move the event to the next working day when it falls on a weekend or holiday.'
+                        },
+                        allDay: {
+                            type: 'boolean',
+                            description: 'Send an all-day invite for the date or range of days in the time (no duration, never a conflict).'
+                        },
+                        alarms: {
+                            ...ALARMS_SCHEMA,
+                            description: 'Optional calendar alerts, also sent by us (default: your preference, then 15 and 5 minutes before); ["none"] for no alerts.'
+                        },
+                        allowConflicts: {
+                            type: 'boolean',
+                            description: 'Send even though the event overlaps other reminders (only once the user has agreed to the overlap).'
                         }
                     },
-                    required: ['time', 'task', 'email']
+                    required: ['time', 'task']
                 }
             },
             {
                 name: 'list_reminders',
                 description: 'Lists all current reminders. Use this to find out what reminders have been set.',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        from: {
+                            type: 'string',
+                            description: 'Only reminders due at or after this time (ISO timestamp or expression like "today at 12 AM").'
+                        },
+                        to: {
+                            type: 'string',
+                            description: 'Only reminders due at or before this time (ISO timestamp or expression).'
+                        },
+                        dueOn: {
+                            type: 'string',
+                            description: 'Only reminders due on this day, e.g. "tomorrow" or "2026-11-03".'
+                        },
+                        status: {
+                            type: 'string',
+                            description: 'Comma-separated statuses to include: pending, fired, completed.'
+                        },
+                        email: {
+                            type: 'string',
+                            description: 'Only reminders sent to this email address.'
+                        },
+                        search: {
+                            type: 'string',
+                            description: 'Only reminders whose task or time phrase contains this text.'
+                        },
+                        sortBy: {
+                            type: 'string',
+                            enum: ['dueAt', 'createdAt', 'task', 'priority'],
+                            description: 'Sort field (default: dueAt).'
+                        },
+                        order: {
+                            type: 'string',
+                            enum: ['asc', 'desc'],
+                            description: 'Sort order (default: asc).'
+                        },
+                        limit: {
+                            type: 'number',
+                            description: 'Maximum number of reminders to return.'
+                        },
+                        offset: {
+                            type: 'number',
+                            description: 'Number of matching reminders to skip (for paging).'
+                        },
+                        tags: {
+                            type: 'string',
+                            description: 'Comma-separated tags; only reminders carrying all of them, e.g. "admin".'
+                        },
+                        priority: {
+                            type: 'string',
+                            description: 'Comma-separated priorities to include: low, normal, high, urgent.'
+                        },
+                        category: {
+                            type: 'string',
+                            description: 'Only reminders in this category.'
+                        },
+                        groupBy: {
+                            type: 'string',
+                            enum: ['tag', 'priority', 'category'],
+                            description: 'Group the results by tag, priority or category.'
+                        },
+                        occurrences: {
+                            type: 'number',
+                            description: 'Optional: also list the next N occurrences of each repeating reminder.'
+                        },
+                        allUsers: {
+                            type: 'boolean',
+                            description: "Admin only: list every user's reminders instead of just your own."
+                        },
+                        owner: {
+                            type: 'string',
+                            description: 'Admin only: list the reminders of this user id.'
+                        },
+                        timeZone: {
+                            type: 'string',
+                            description: 'Optional IANA time zone for "from", "to" and "dueOn" (default: your preference, then the server zone).'
+                        }
+                    },
+                    required: []
+                }
+            },
+            {
+                name: 'get_reminder',
+                description: "Shows one reminder in full. For an emailed invite this includes each attendee's RSVP (accepted, tentative, declined, delegated or no answer yet) and a count of the answers.",
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        id: {
+                            type: 'string',
+                            description: 'The id of the reminder, as returned by list_reminders.'
+                        }
+                    },
+                    required: ['id']
+                }
+            },
+            {
+                name: 'update_reminder',
+                description: 'Updates an existing reminder, e.g. to fix a typo or reschedule it. Only the provided fields are changed. If the reminder emailed a calendar invite, its attendees get an updated invite that replaces the original event and removed attendees get a cancellation.',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        id: {
+                            type: 'string',
+                            description: 'The id of the reminder to update, as returned by list_reminders.'
+                        },
+                        time: {
+                            type: 'string',
+                            description: 'The new time for the reminder, e.g., "tomorrow at 3 PM". Rescheduling re-arms a fired reminder.'
+                        },
+                        task: {
+                            type: 'string',
+                            description: 'The new task or message for the reminder.'
+                        },
+                        email: {
+                            type: 'string',
+                            format: 'email',
+                            description: 'The new primary email address of the reminder (other attendees are kept).'
+                        },
+                        attendees: {
+                            ...ATTENDEES_SCHEMA,
+                            description: 'New attendee list (replaces the existing one), e.g. [{ "email": "jane@example.com", "role": "optional" }].'
+                        },
+                        recurrence: {
+                            type: 'string',
+                            description: 'New repeat pattern, e.g. "every Monday", or "none" to stop repeating.'
+                        },
+                        recurrenceExceptions: {
+                            type: 'array',
+                            items: { type: 'string' },
+                            description: 'Dates on which the repeating reminder is skipped (replaces the existing list).'
+                        },
+                        tags: {
+                            type: 'array',
+                            items: { type: 'string' },
+                            description: 'New tags (replaces the existing list).'
+                        },
+                        priority: {
+                            type: 'string',
+                            enum: ['low', 'normal', 'high', 'urgent'],
+                            description: 'New priority.'
+                        },
+                        category: {
+                            type: 'string',
+                            description: 'New category (empty string clears it).'
+                        },
+                        timeZone: {
+                            type: 'string',
+                            description: 'New IANA time zone; the time is re-read in this zone.'
+                        },
+                        locale: {
+                            type: 'string',
+                            description: 'Language the (new) time is written in, e.g. "es" (default: the language the reminder was created in).'
+                        },
+                        workingDaysOnly: {
+                            type: 'boolean',
+                            description: 'Turn moving the reminder off weekends and holidays on or off; the due time is re-resolved.'
+                        },
+                        allDay: {
+                            type: 'boolean',
+                            description: 'Make the reminder all-day (true) or timed (false); the time is re-read. Without it, a new time is all-day only when it says so.'
+                        },
+                        alarms: {
+                            ...ALARMS_SCHEMA,
+                            description: 'New alerts replacing the current ones; ["none"] removes them.'
+                        }
+                    },
+                    required: ['id']
+                }
+            },
+            {
+                name: 'delete_reminder',
+                description: 'Permanently removes a reminder. If it emailed a calendar invite, every attendee gets a cancellation that removes the event.',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        id: {
+                            type: 'string',
+                            description: 'The id of the reminder to delete, as returned by list_reminders.'
+                        }
+                    },
+                    required: ['id']
+                }
+            },
+            {
+                name: 'complete_reminder',
+                description: 'Marks a reminder as done so it no longer fires.',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        id: {
+                            type: 'string',
+                            description: 'The id of the reminder to complete, as returned by list_reminders.'
+                        }
+                    },
+                    required: ['id']
+                }
+            },
+            {
+                name: 'snooze_reminder',
+                description: 'Pushes a reminder back, e.g. for 10 minutes or until tomorrow morning. The snooze is recorded in the reminder history.',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        id: {
+                            type: 'string',
+                            description: 'The id of the reminder to snooze, as returned by list_reminders.'
+                        },
+                        duration: {
+                            type: 'string',
+                            description: 'How long to snooze, e.g. "10 minutes", "2 hours", "until tomorrow morning".'
+                        },
+                        timeZone: {
+                            type: 'string',
+                            description: 'Optional IANA time zone for "until tomorrow morning" (default: the zone of the reminder).'
+                        },
+                        locale: {
+                            type: 'string',
+                            description: 'Optional language of the duration, e.g. "de" for "10 Minuten" (default: the language of the reminder).'
+                        }
+                    },
+                    required: ['id', 'duration']
+                }
+            },
+            {
+                name: 'import_calendar',
+                description: 'Imports reminders from the contents of an .ics calendar file. Events already imported (same UID) are skipped.',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        ics: {
+                            type: 'string',
+                            description: 'The full text of the .ics file (BEGIN:VCALENDAR ... END:VCALENDAR).'
+                        },
+                        includePast: {
+                            type: 'boolean',
+                            description: 'Also import one-off events that already happened (default: false).'
+                        },
+                        timeZone: {
+                            type: 'string',
+                            description: 'Optional IANA time zone for floating and all-day events (default: your preference, then the server zone).'
+                        }
+                    },
+                    required: ['ics']
+                }
+            },
+            {
+                name: 'suggest_duration',
+                description: 'Suggests how long the calendar event for a task should be, from your own duration rules, durations you chose for similar reminders before, and the shared keyword rules.',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        task: {
+                            type: 'string',
+                            description: 'The task, e.g. "dentist appointment" or "call with the landlord"'
+                        },
+                        location: {
+                            type: 'string',
+                            description: 'Optional location, e.g. "Conference Room A"'
+                        }
+                    },
+                    required: ['task']
+                }
+            },
+            {
+                name: 'find_free_slot',
+                description: 'Proposes the next free windows of a given length within your working hours, around your reminders (each taken to last its event duration or the duration suggested for it).',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        duration: {
+                            type: 'number',
+                            description: 'Length of the slot in minutes'
+                        },
+                        task: {
+                            type: 'string',
+                            description: 'What the slot is for, to suggest its length when no duration is given, e.g. "dentist appointment"'
+                        },
+                        location: {
+                            type: 'string',
+                            description: 'Optional location, used for the suggested length'
+                        },
+                        from: {
+                            type: 'string',
+                            description: 'Search from this time, e.g. "tomorrow at 12 AM" (default: now)'
+                        },
+                        to: {
+                            type: 'string',
+                            description: 'Search until this time, e.g. "in 7 days" (default: 14 days after from)'
+                        },
+                        count: {
+                            type: 'number',
+                            description: 'How many slots to propose (default 3, at most 20)'
+                        },
+                        timeZone: {
+                            type: 'string',
+                            description: 'IANA time zone of the working hours (default: your preference)'
+                        }
+                    },
+                    required: []
+                }
+            },
+            {
+                name: 'preview_reminder',
+                description: 'Dry run of send_email_reminder: shows the resolved start and end, time interpretation, confidence, suggested duration, email subject and the calendar invite (ICS) without saving or sending anything. Times that send_email_reminder would refuse come back with a "clarification".',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        time: {
+                            type: 'string',
+                            description: 'The time for the reminder, e.g. "tomorrow at 2 PM", "every weekday at 9 AM".'
+                        },
+                        task: {
+                            type: 'string',
+                            description: 'The task or message for the reminder, e.g. "team meeting".'
+                        },
+                        email: {
+                            type: 'string',
+                            description: 'Optional recipient(s), comma-separated; added to the invite as required attendees.'
+                        },
+                        attendees: {
+                            ...ATTENDEES_SCHEMA,
+                            description: 'Optional attendees with display names and roles, as for send_email_reminder.'
+                        },
+                        eventDuration: {
+                            type: 'number',
+                            description: 'Optional duration in minutes (default: suggested from the task).'
+                        },
+                        eventLocation: {
+                            type: 'string',
+                            description: 'Optional location for the calendar event.'
+                        },
+                        recurrence: {
+                            type: 'string',
+                            description: 'Optional repeat pattern, e.g. "every weekday".'
+                        },
+                        recurrenceExceptions: {
+                            type: 'array',
+                            items: { type: 'string' },
+                            description: 'Optional dates on which a repeating reminder is skipped, e.g. ["2026-12-25"].'
+                        },
+                        tags: {
+                            type: 'array',
+                            items: { type: 'string' },
+                            description: 'Optional tags, e.g. ["admin"]. Inline "#admin" in the task also works.'
+                        },
+                        priority: {
+                            type: 'string',
+                            enum: ['low', 'normal', 'high', 'urgent'],
+                            description: 'Optional priority (default: normal).'
+                        },
+                        category: {
+                            type: 'string',
+                            description: 'Optional category, e.g. "work", "health".'
+                        },
+                        timeZone: {
+                            type: 'string',
+                            description: 'Optional IANA time zone the time is read in (default: your preference, then the server zone).'
+                        },
+                        recipientTimeZone: {
+                            type: 'string',
+                            description: 'Optional IANA time zone the email shows times in (default: timeZone).'
+                        },
+                        locale: {
+                            type: 'string',
+                            description: 'Optional language the time is written in, e.g. "es" (default: your preference, then English).'
+                        },
+                        recipientLocale: {
+                            type: 'string',
+                            description: 'Optional language of the email and calendar invite (default: locale).'
+                        },
+                        workingDaysOnly: {
+                            type: 'boolean',
+                            description: 'Preview with the time moved off weekends and holidays, as send_email_reminder would.'
+                        },
+                        allDay: {
+                            type: 'boolean',
+                            description: 'Preview an all-day event, as send_email_reminder would send it.'
+                        },
+                        alarms: {
+                            ...ALARMS_SCHEMA,
+                            description: 'Optional alerts, as for send_email_reminder.'
+                        }
+                    },
+                    required: ['time', 'task']
+                }
+            },
+            {
+                name: 'get_preferences',
+                description: 'Shows your preferences, such as the time zone and language your reminders are read in, your work week, working hours, default alarms and the holidays that apply.',
+                inputSchema: {
+                    type: 'object',
+                    properties: {},
+                    required: []
+                }
+            },
+            {
+                name: 'update_preferences',
+                description: 'Changes your preferences, e.g. your time zone, language, work week, working hours, default alarms or the organizer shown on your invites.',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        timeZone: {
+                            type: 'string',
+                            description: 'IANA time zone, e.g. "Europe/Berlin" (empty string falls back to the server zone).'
+                        },
+                        locale: {
+                            type: 'string',
+                            description: 'Language of your time phrases and reminder emails: "en", "es" or "de" (empty string falls back to the default).'
+                        },
+                        workWeek: {
+                            type: 'string',
+                            description: 'Your working days, e.g. "mon-fri" or "sun-thu" (empty string restores Monday to Friday).'
+                        },
+                        workingHours: {
+                            type: 'string',
+                            description: 'Your working hours, e.g. "08:30-16:30" (empty string restores 09:00-17:00).'
+                        },
+                        organizerName: {
+                            type: 'string',
+                            description: 'Organizer name on your calendar invites and sender name of their emails, e.g. "Jane Doe" (empty string restores the default).'
+                        },
+                        organizerEmail: {
+                            type: 'string',
+                            description: 'Organizer address on your invites; replies go there (empty string restores the default).'
+                        },
+                        alarms: {
+                            ...ALARMS_SCHEMA,
+                            description: 'Default alerts of your reminders and invites, relative only, e.g. ["1 hour before", "10 minutes before"]; ["none"] for none.'
+                        }
+                    },
+                    required: []
+                }
+            },
+            {
+                name: 'get_calendar_feed',
+                description: 'Gives a private URL to subscribe to in a calendar app; it shows your reminders as calendar events and stays up to date.',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        tags: {
+                            type: 'string',
+                            description: 'Comma-separated tags; only reminders carrying all of them, e.g. "work".'
+                        },
+                        from: {
+                            type: 'string',
+                            description: 'Only reminders due at or after this time, re-read on every refresh (e.g. "today at 12 AM").'
+                        },
+                        to: {
+                            type: 'string',
+                            description: 'Only reminders due at or before this time, e.g. "in 30 days".'
+                        },
+                        dueOn: {
+                            type: 'string',
+                            description: 'Only reminders due on this day, e.g. "tomorrow" or "2026-11-03".'
+                        },
+                        status: {
+                            type: 'string',
+                            description: 'Comma-separated statuses to include: pending, fired, completed.'
+                        },
+                        priority: {
+                            type: 'string',
+                            description: 'Comma-separated priorities to include: low, normal, high, urgent.'
+                        },
+                        category: {
+                            type: 'string',
+                            description: 'Only reminders in this category.'
+                        },
+                        search: {
+                            type: 'string',
+                            description: 'Only reminders whose task or time phrase contains this text.'
+                        }
+                    },
+                    required: []
+                }
+            },
+            {
+                name: 'reset_calendar_feed',
+                description: 'Revokes every calendar feed URL you were given (e.g. after one was shared by mistake) and returns a new one; calendar apps must subscribe again.',
                 inputSchema: {
                     type: 'object',
                     properties: {},
                     required: []
                 }
+            },
+            {
+                name: 'export_reminders',
+                description: 'Exports your reminders as a document: a Markdown agenda grouped by day, a CSV table for spreadsheets, JSON, or an iCalendar / jCal calendar to import elsewhere. Takes the list_reminders filters.',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        format: {
+                            type: 'string',
+                            enum: ['md', 'csv', 'json', 'ics', 'jcal'],
+                            description: 'md (Markdown agenda, the default), csv, json, ics (iCalendar) or jcal (iCalendar as JSON).'
+                        },
+                        from: {
+                            type: 'string',
+                            description: 'Only reminders due at or after this time; repeating reminders appear in the agenda at each occurrence from here on.'
+                        },
+                        to: {
+                            type: 'string',
+                            description: 'Only reminders due at or before this time, e.g. "in 7 days".'
+                        },
+                        dueOn: {
+                            type: 'string',
+                            description: 'Only reminders due on this day, e.g. "tomorrow" or "2026-11-03".'
+                        },
+                        status: {
+                            type: 'string',
+                            description: 'Comma-separated statuses to include: pending, fired, completed.'
+                        },
+                        search: {
+                            type: 'string',
+                            description: 'Only reminders whose task or time phrase contains this text.'
+                        },
+                        tags: {
+                            type: 'string',
+                            description: 'Comma-separated tags; only reminders carrying all of them, e.g. "work".'
+                        },
+                        priority: {
+                            type: 'string',
+                            description: 'Comma-separated priorities to include: low, normal, high, urgent.'
+                        },
+                        category: {
+                            type: 'string',
+                            description: 'Only reminders in this category.'
+                        },
+                        timeZone: {
+                            type: 'string',
+                            description: 'Optional IANA time zone of the times in the export (default: your preference, then the server zone).'
+                        },
+                        locale: {
+                            type: 'string',
+                            description: 'Optional language of dates and labels in the agenda: "en", "es" or "de" (default: your preference).'
+                        }
+                    },
+                    required: []
+                }
             }
         ];
 
@@ -101,11 +762,28 @@ export class MCPServerProtocol {
             console.log('🔌 MCP client connecting...');
             
             const mcpRequest = req.body as MCPRequest;
-            const sessionId = req.headers['mcp-session-id'] as string;
+
+            // The session runs as whoever opened it, so later calls only need MCP-Session-ID
+            let identity;
+            try {
+                identity = this.identityResolver.resolve(req);
+            } catch (error) {
+                if (error instanceof AuthenticationError) {
+                    return res.status(401).json({
+                        jsonrpc: '2.0',
+                        id: mcpRequest.id,
+                        error: { code: MCP_ERROR_CODES.UNAUTHORIZED, message: error.message }
+                    });
+                }
+                throw error;
+            }
+            // The server issues the ID: a client cannot pick (or take over) someone else's session
+            const sessionId = this.identityResolver.openSession(identity);
             
             // Store session info
             this.activeSessions.set(sessionId, {
                 clientInfo: mcpRequest.params?.clientInfo,
+                userId: identity.userId,
                 connectedAt: new Date().toISOString()
             });
 
@@ -125,9 +803,10 @@ export class MCPServerProtocol {
                 result: capabilities
             };
 
-            console.log(`✅ MCP session ${sessionId} initialized`);
+            console.log(`✅ MCP session initialized for '${identity.userId}'`);
             console.log(`📋 Exposed ${this.tools.length} tools to client`);
             
+            res.setHeader('MCP-Session-ID', sessionId);
             res.json(response);
         });
 
@@ -156,21 +835,66 @@ export class MCPServerProtocol {
             console.log(`🔧 MCP tool call: ${name}`);
             console.log(`📝 MCP parameters:`, JSON.stringify(args, null, 2));
 
+            // Tools run as the MCP caller: forward its credentials to the HTTP endpoints
+            const headers = this.callerHeaders(req);
+
             try {
                 // Route to appropriate tool implementation
                 let result;
                 switch (name) {
                     case 'add_reminder':
-                        result = await this.executeAddReminder(args);
+                        result = await this.executeAddReminder(args, headers);
                         break;
                     case 'send_email_reminder':
-                        result = await this.executeSendEmailReminder(args);
+                        result = await this.executeSendEmailReminder(args, headers);
                         break;
                     case 'list_reminders':
-                        result = await this.executeListReminders(args);
+                        result = await this.executeListReminders(args, headers);
+                        break;
+                    case 'get_reminder':
+                        result = await this.callToolEndpoint('/tools/get_reminder', args, headers, 'get');
+                        break;
+                    case 'update_reminder':
+                        result = await this.callToolEndpoint('/tools/update_reminder', args, headers);
+                        break;
+                    case 'delete_reminder':
+                        result = await this.callToolEndpoint('/tools/delete_reminder', args, headers);
+                        break;
+                    case 'complete_reminder':
+                        result = await this.callToolEndpoint('/tools/complete_reminder', args, headers);
+                        break;
+                    case 'snooze_reminder':
+                        result = await this.callToolEndpoint('/tools/snooze_reminder', args, headers);
+                        break;
+                    case 'import_calendar':
+                        result = await this.callToolEndpoint('/tools/import_calendar', args, headers);
+                        break;
+                    case 'suggest_duration':
+                        result = await this.callToolEndpoint('/tools/suggest_duration', args, headers, 'get');
+                        break;
+                    case 'find_free_slot':
+                        result = await this.callToolEndpoint('/tools/find_free_slot', args, headers, 'get');
+                        break;
+                    case 'preview_reminder':
+                        result = await this.callToolEndpoint('/tools/preview_reminder', args, headers);
+                        break;
+                    case 'get_preferences':
+                        result = await this.callToolEndpoint('/tools/get_preferences', args, headers, 'get');
+                        break;
+                    case 'update_preferences':
+                        result = await this.callToolEndpoint('/tools/update_preferences', args, headers);
+                        break;
+                    case 'get_calendar_feed':
+                        result = await this.callToolEndpoint('/tools/get_calendar_feed', args, headers, 'get');
+                        break;
+                    case 'reset_calendar_feed':
+                        result = await this.callToolEndpoint('/tools/reset_calendar_feed', args, headers);
+                        break;
+                    case 'export_reminders':
+                        result = await this.callToolEndpoint('/tools/export_reminders', args, headers, 'get');
                         break;
                     default:
-                        throw new Error(`Unknown tool: ${name}`);
+                        throw new MCPToolError(MCP_ERROR_CODES.METHOD_NOT_FOUND, `Unknown tool: ${name}`);
                 }
 
                 const response: MCPResponse = {
@@ -192,11 +916,25 @@ export class MCPServerProtocol {
             } catch (error) {
                 console.error(`❌ MCP tool ${name} failed:`, error);
                 
+                // Known tool errors (not found, invalid params) are regular JSON-RPC errors
+                if (error instanceof MCPToolError) {
+                    const response: MCPResponse = {
+                        jsonrpc: '2.0',
+                        id: mcpRequest.id,
+                        error: {
+                            code: error.code,
+                            message: error.message,
+                            data: error.data
+                        }
+                    };
+                    return res.json(response);
+                }
+
                 const response: MCPResponse = {
                     jsonrpc: '2.0',
                     id: mcpRequest.id,
                     error: {
-                        code: -32603,
+                        code: MCP_ERROR_CODES.INTERNAL_ERROR,
                         message: error instanceof Error ? error.message : 'Tool execution failed'
                     }
                 };
@@ -205,9 +943,17 @@ export class MCPServerProtocol {
             }
         });
 
-        // MCP Session info endpoint
+        // MCP Session info endpoint (admin only: session ids act as credentials)
         this.app.get('/mcp/sessions', (req: Request, res: Response) => {
-            const sessions = Array.from(this.activeSessions.entries()).map(([id, info]) => ({
+            try {
+                if (!this.identityResolver.resolve(req).isAdmin) {
+                    return res.status(403).json({ error: 'Only admins can list MCP sessions.' });
+                }
+            } catch (error) {
+                return res.status(401).json({ error: error instanceof Error ? error.message : 'Unauthorized' });
+            }
+
+            const sessions = Array.from(this.liveSessions().entries()).map(([id, info]) => ({
                 sessionId: id,
                 ...info
             }));
@@ -223,22 +969,74 @@ export class MCPServerProtocol {
      * Tool implementations - these delegate to existing HTTP endpoints
      * This shows how MCP can wrap existing APIs
      */
-    private async executeAddReminder(args: any) {
-        const axios = require('axios');
-        const response = await axios.post('http://localhost:3000/tools/add_reminder', args);
-        return response.data;
+    private async executeAddReminder(args: any, headers: Record<string, string>) {
+        return this.callToolEndpoint('/tools/add_reminder', args, headers);
     }
 
-    private async executeSendEmailReminder(args: any) {
-        const axios = require('axios');
-        const response = await axios.post('http://localhost:3000/tools/send_email_reminder', args);
-        return response.data;
+    private async executeSendEmailReminder(args: any, headers: Record<string, string>) {
+        return this.callToolEndpoint('/tools/send_email_reminder', args, headers);
+    }
+
+    private async executeListReminders(args: any, headers: Record<string, string>) {
+        return this.callToolEndpoint('/tools/list_reminders', args, headers, 'get');
     }
 
-    private async executeListReminders(args: any) {
+    /**
+     * Credentials that identify the MCP caller (see auth.ts)
+     */
+    private callerHeaders(req: Request): Record<string, string> {
+        return forwardedCredentials(req);
+    }
+
+    /**
+     * Call an HTTP tool endpoint and translate HTTP failures into MCP errors.
+     * GET endpoints receive the tool arguments as query parameters.
+     */
+    private async callToolEndpoint(path: string, args: any, headers: Record<string, string>, method: 'get' | 'post' = 'post') {
         const axios = require('axios');
-        const response = await axios.get('http://localhost:3000/tools/list_reminders');
-        return response.data;
+        try {
+            const url = `http://localhost:3000${path}`;
+            const response = method === 'get'
+                ? await axios.get(url, { params: args, headers })
+                : await axios.post(url, args, { headers });
+            return response.data;
+        } catch (error: any) {
+            const status = error.response?.status;
+            const data = error.response?.data;
+            const message = data?.error || error.message;
+
+            if (status === 404) {
+                throw new MCPToolError(MCP_ERROR_CODES.RESOURCE_NOT_FOUND, message, data);
+            }
+            if (status === 400) {
+                throw new MCPToolError(MCP_ERROR_CODES.INVALID_PARAMS, message, data);
+            }
+            if (status === 401) {
+                throw new MCPToolError(MCP_ERROR_CODES.UNAUTHORIZED, message, data);
+            }
+            if (status === 403) {
+                throw new MCPToolError(MCP_ERROR_CODES.FORBIDDEN, message, data);
+            }
+            if (status === 422) {
+                throw new MCPToolError(MCP_ERROR_CODES.CLARIFICATION_NEEDED, message, data);
+            }
+            if (status === 409) {
+                throw new MCPToolError(MCP_ERROR_CODES.SCHEDULE_CONFLICT, message, data);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Sessions that have not expired; expired ones are forgotten
+     */
+    private liveSessions(): Map<string, any> {
+        for (const id of this.activeSessions.keys()) {
+            if (!this.identityResolver.hasSession(id)) {
+                this.activeSessions.delete(id);
+            }
+        }
+        return this.activeSessions;
     }
 
     /**
@@ -247,7 +1045,7 @@ export class MCPServerProtocol {
     getServerStats() {
         return {
             toolsRegistered: this.tools.length,
-            activeSessions: this.activeSessions.size,
+            activeSessions: this.liveSessions().size,
             protocolVersion: '2024-11-05'
         };
     }
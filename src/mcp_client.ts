@@ -27,7 +27,7 @@ const serverUrl = 'http://localhost:3000';
 async function initializeMCPClient(): Promise<MCPClient> {
     console.log('🚀 Starting MCP Client with proper protocol...\n');
     
-    const mcpClient = new MCPClient(serverUrl);
+    const mcpClient = new MCPClient(serverUrl, process.env.REMINDER_API_TOKEN);
     
     try {
         // Step 1: MCP Protocol Initialization
@@ -24,6 +24,11 @@ import 'dotenv/config';
 
 const serverUrl = 'http://localhost:3000';
 
+// Optional API token: the server then scopes reminders to that user
+if (process.env.REMINDER_API_TOKEN) {
+    axios.defaults.headers.common['Authorization'] = `Bearer ${process.env.REMINDER_API_TOKEN}`;
+}
+
 // --- SIMPLE HTTP TOOLS (No MCP Protocol) ---
 // These make direct HTTP calls without any protocol negotiation
 
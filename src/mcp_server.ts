@@ -19,16 +19,71 @@ import cors from 'cors';
 import axios from 'axios';
 import { executeAgentQuery } from './agent-executor';
 import { MCPServerProtocol } from './mcp-server-protocol';
+import { Reminder, ReminderAlarm, createReminderRepository } from './reminder-store';
+import { ReminderScheduler, createReminderNotifier } from './reminder-scheduler';
+import { RecurrenceRule, describeRecurrence, exceptionInstants, formatRRule, resolveReminderSchedule } from './recurrence';
+import { TimeClarification, TimeClarificationError, analyzeTimeExpression, clarifyTimeExpression, generateCalendarInvite, matchTimeExpression, reminderCalendarUid } from './calendar-utils';
+import { ReminderQuery, ReminderQueryError, occurrencesInWindow, parseReminderQuery, queryReminders } from './reminder-query';
+import { SnoozeError, resolveSnoozeUntil, snoozeChanges } from './reminder-snooze';
+import { buildCalendarFeedUrl, buildReminderActionLinks, loadLinkSecret, verifyCalendarFeedToken, verifyReminderActionLink } from './reminder-links';
+import { AuthenticationError, IdentityResolver, callerIdentity, canAccessReminder, forwardedCredentials } from './auth';
+import { renderCalendarFeed } from './calendar-feed';
+import { importCalendar } from './calendar-import';
+import { IcsParseError } from './ics-parser';
+import { GROUP_FIELDS, ReminderGroupField, ReminderLabelError, groupReminders, normalizeCategory, normalizePriority, normalizeTags, resolveLabels } from './reminder-labels';
+import { PreferenceError, UserPreferences, createUserPreferencesRepository, parsePreferenceChanges } from './user-preferences';
+import { TimeZoneError, formatInZone, resolveTimeZone, serverTimeZone } from './timezone';
+import { LocaleError, LocalePack, reminderEmailSubject, resolveLocale } from './locales';
+import { DurationRuleError, DurationSuggestion, createDurationRulesFile, normalizeDuration, suggestDuration } from './duration-suggestions';
+import { AlarmError, DEFAULT_ALARMS, alarmsKey, describeAlarm, parseAlarms, validateAlarmPlan } from './reminder-alarms';
+import { AttendeeError, InviteAttendee, InviteOrganizer, attendeesKey, inviteRecipients, normalizeAttendees } from './attendees';
+import { WORK_DAY_CODES, WorkingCalendar, WorkingCalendarError, buildWorkingCalendar, createHolidayFile, formatWorkingHours, rollToWorkingDay } from './working-calendar';
+import { createCalDavSync } from './caldav-sync';
+import { describeDaySpan, reminderDays, spanBounds, spanLength, spanStartingAt } from './all-day';
+import { RsvpError, attendeeStatuses, keptResponses, readRsvpReplies, recordRsvpReplies, summarizeResponses } from './rsvp-replies';
+import { createRsvpMailboxPoller } from './rsvp-mailbox';
+import { ExportError, ReminderExport, exportReminders, parseExportFormat } from './reminder-export';
+import { BusyInterval, DEFAULT_FREE_SLOT_SEARCH_DAYS, MAX_FREE_SLOTS, MAX_FREE_SLOT_SEARCH_DAYS, ScheduleConflict, busyIntervals, describeConflicts, findConflicts, findFreeSlots, plannedOccurrences } from './schedule-conflicts';
+import 'dotenv/config';
 
-// A mock database for reminders
-interface Reminder {
-    id: string;
-    time: string;
-    task: string;
-    email?: string;
-    createdAt: string;
+// Persistent reminder storage (see reminder-store.ts)
+const reminderRepository = createReminderRepository();
+
+// Background scheduler that fires reminders when they come due
+const reminderScheduler = new ReminderScheduler(reminderRepository, createReminderNotifier(), reminder => workingCalendarFor(reminder.ownerId));
+
+// Secret of the signed email links and feed URLs; throws in production when it is not configured
+loadLinkSecret();
+
+// Maps API tokens and MCP sessions to reminder owners (see auth.ts)
+const identityResolver = new IdentityResolver();
+
+// Per-user settings such as the time zone (see user-preferences.ts)
+const preferencesRepository = createUserPreferencesRepository();
+
+// Keyword → minutes rules for calendar event durations (see duration-suggestions.ts)
+const durationRules = createDurationRulesFile();
+
+// Shared public holidays for business-day scheduling (see working-calendar.ts)
+const holidayFile = createHolidayFile();
+
+// Two-way sync with a CalDAV calendar, when CALDAV_URL is set (see caldav-sync.ts)
+const caldavSync = createCalDavSync(
+    reminderRepository,
+    () => reminderScheduler.refresh(),
+    async userId => resolveTimeZone((await preferencesRepository.get(userId)).timeZone)
+);
+
+// RSVP replies from the organizer's mailbox, when RSVP_MAILDIR is set (see rsvp-mailbox.ts)
+const rsvpMailbox = createRsvpMailboxPoller(reminderRepository, remindersChanged);
+
+/**
+ * After reminders changed: re-arm the scheduler and let the CalDAV calendar catch up
+ */
+async function remindersChanged() {
+    await reminderScheduler.refresh();
+    caldavSync?.requestSync();
 }
-const remindersDb: Reminder[] = [];
 
 const emailServerUrl = `http://localhost:${process.env.EMAIL_SERVER_PORT || 3002}`;
 
@@ -38,105 +93,1634 @@ const port = 3000;
 
 // Middleware
 app.use(cors());
-app.use(bodyParser.json());
+app.use(bodyParser.json({ limit: '5mb' })); // calendar imports can be large
 app.use(express.static('frontend/dist'));
+app.use(['/tools', '/agent'], identityResolver.middleware());
 
 // 🔌 Initialize MCP Protocol Support
 // This adds proper MCP endpoints alongside the simple HTTP API
-const mcpProtocol = new MCPServerProtocol(app);
+const mcpProtocol = new MCPServerProtocol(app, identityResolver);
 console.log('🔌 MCP Protocol endpoints initialized');
 console.log('📋 Available via both HTTP API and MCP protocol');
 
 // --- Define the server tools (API endpoints) ---
 
 /**
- * Returns a list of all current reminders.
+ * Time zone for this call: the requested one, then the caller's preference, then the server default.
+ * Throws TimeZoneError for unknown zone names.
+ */
+async function callerTimeZone(res: Response, ...requested: (string | undefined)[]): Promise<string> {
+    const preferences = await preferencesRepository.get(callerIdentity(res).userId);
+    return resolveTimeZone(...requested, preferences.timeZone);
+}
+
+/**
+ * Language for this call: the requested one, then the caller's preference, then
+ * REMINDER_DEFAULT_LOCALE and English. Throws LocaleError for malformed language tags.
+ */
+async function callerLocale(res: Response, ...requested: (string | undefined)[]): Promise<LocalePack> {
+    const preferences = await preferencesRepository.get(callerIdentity(res).userId);
+    return resolveLocale(...requested, preferences.locale);
+}
+
+/**
+ * Working days and hours of a user (their preferences, else Monday–Friday 9–17) plus the shared holidays
+ */
+async function workingCalendarFor(userId: string): Promise<WorkingCalendar> {
+    const preferences = await preferencesRepository.get(userId);
+    return buildWorkingCalendar(preferences, await holidayFile.load());
+}
+
+async function callerWorkingCalendar(res: Response): Promise<WorkingCalendar> {
+    return workingCalendarFor(callerIdentity(res).userId);
+}
+
+/**
+ * Organizer of the caller's invites, when they configured one (else the email server's defaults apply)
+ */
+async function callerOrganizer(res: Response): Promise<InviteOrganizer | undefined> {
+    const preferences = await preferencesRepository.get(callerIdentity(res).userId);
+    if (!preferences.organizerName && !preferences.organizerEmail) {
+        return undefined;
+    }
+    return {
+        ...(preferences.organizerName ? { name: preferences.organizerName } : {}),
+        ...(preferences.organizerEmail ? { email: preferences.organizerEmail } : {})
+    };
+}
+
+interface ScheduleContext {
+    locale: LocalePack;           // language the time is written in
+    calendar: WorkingCalendar;    // for "next business day" and `workingDaysOnly`
+    workingDaysOnly?: boolean;    // move a due time on a weekend or holiday to the next working day
+    allDay?: boolean;             // read a plain date as that whole day ("Oct 30" as "Oct 30 all day")
+}
+
+/**
+ * Resolve the due instant (and recurrence, if any) for a reminder's time expression,
+ * read in the given language. Throws when the recurrence cannot be understood, or when an
+ * all-day time also names a time of day. With `requireClearTime`, a vague or ambiguous time
+ * throws TimeClarificationError instead of being guessed.
+ */
+function scheduleFor(
+    time: string,
+    recurrence: string | undefined,
+    recurrenceExceptions: string[] | undefined,
+    timeZone: string,
+    { locale, calendar, workingDaysOnly, allDay }: ScheduleContext,
+    requireClearTime = false
+): Pick<Reminder, 'dueAt' | 'timeZone' | 'locale' | 'timeConfidence' | 'timeInterpretation' | 'workingDaysOnly' | 'recurrence' | 'seriesStartAt' | 'allDayStart' | 'allDayEnd'> {
+    const now = new Date();
+    const phrase = allDay && !matchTimeExpression(time, now, timeZone, locale, calendar)?.allDay ? `${time} all day` : time;
+    const schedule = resolveReminderSchedule(phrase, recurrence, recurrenceExceptions || [], now, timeZone, locale, calendar);
+    // A bare recurrence ("every weekday") is clear on its own: it starts at 9 AM
+    const analysis = analyzeTimeExpression(schedule.timeText || phrase, timeZone, now, locale, calendar);
+    if (analysis.allDay && analysis.hasClock) {
+        throw new Error(`"${time}" names whole days and a time of day. Give only the day(s) for an all-day reminder ("Oct 30", "Nov 4-6"), or only the time for a timed one.`);
+    }
+
+    const clarification = requireClearTime && schedule.timeText ? clarifyTimeExpression(schedule.timeText, analysis, timeZone) : null;
+    if (clarification) {
+        // Offer the whole expression back, recurrence included
+        const reword = (words: string) => schedule.timeText === phrase || !phrase.includes(schedule.timeText) ? words : phrase.replace(schedule.timeText, words);
+        throw new TimeClarificationError({
+            ...clarification,
+            time,
+            options: clarification.options.map(option => ({ ...option, time: reword(option.time) }))
+        });
+    }
+
+    const dueAt = workingDaysOnly ? rollToWorkingDay(schedule.dueAt, timeZone, calendar) : schedule.dueAt;
+    const moved = dueAt.getTime() !== schedule.dueAt.getTime() ? ` (moved off a non-working day to ${formatInZone(dueAt, timeZone)})` : '';
+    // All-day reminders take as many days as the phrase named, from the day they are (first) due
+    const days = analysis.allDay ? spanStartingAt(dueAt, spanLength(analysis.allDay), timeZone) : undefined;
+
+    return {
+        dueAt: dueAt.toISOString(),
+        timeZone,
+        locale: locale.code,
+        timeConfidence: analysis.confidence,
+        timeInterpretation: analysis.interpretation + moved,
+        workingDaysOnly: workingDaysOnly || undefined,
+        recurrence: schedule.recurrence,
+        seriesStartAt: schedule.recurrence ? schedule.dueAt.toISOString() : undefined,
+        allDayStart: days?.firstDay,
+        allDayEnd: days?.lastDay
+    };
+}
+
+/**
+ * Event duration for a task: the explicit one, else suggested from the caller's rules,
+ * their earlier reminders and the shared rules. Throws DurationRuleError for invalid durations.
+ */
+async function durationFor(res: Response, task: string, location?: string, duration?: number): Promise<DurationSuggestion> {
+    if (duration !== undefined) {
+        return suggestDuration({ task, location, duration }, { rules: { rules: [] } });
+    }
+    const userId = callerIdentity(res).userId;
+    return suggestDuration(
+        { task, location, duration },
+        { rules: await durationRules.load(), userId, history: await reminderRepository.list() }
+    );
+}
+
+/**
+ * The caller's busy time between `from` and `to` (see schedule-conflicts.ts): their open reminders,
+ * each lasting its event duration, else the duration suggested for its task
+ */
+async function callerBusyIntervals(res: Response, from: Date, to: Date): Promise<BusyInterval[]> {
+    const userId = callerIdentity(res).userId;
+    const history = await reminderRepository.list();
+    const rules = await durationRules.load();
+    const durationOf = (reminder: Reminder) =>
+        reminder.durationMinutes ?? suggestDuration({ task: reminder.task, location: reminder.location }, { rules, userId, history }).minutes;
+    return busyIntervals(history.filter(reminder => reminder.ownerId === userId), from, to, durationOf);
+}
+
+/**
+ * The caller's reminders that a new one on `schedule`, lasting `minutes`, would overlap
+ */
+async function scheduleConflicts(res: Response, schedule: Pick<Reminder, 'dueAt' | 'recurrence' | 'seriesStartAt' | 'timeZone' | 'allDayStart'>, minutes: number): Promise<ScheduleConflict[]> {
+    const starts = plannedOccurrences(schedule);
+    if (starts.length === 0) {
+        return [];
+    }
+    const end = new Date(starts[starts.length - 1].getTime() + minutes * 60 * 1000);
+    return findConflicts(starts, minutes, await callerBusyIntervals(res, starts[0], end));
+}
+
+/**
+ * Responds with a 409 naming the overlapped reminders and offering the next free slots of the same
+ * length from the requested time on; the MCP layer turns it into a SCHEDULE_CONFLICT error
  */
-app.get('/tools/list_reminders', (req: Request, res: Response) => {
-    console.log("Executing tool: list_reminders");
-    res.json(remindersDb);
+async function sendScheduleConflict(res: Response, conflicts: ScheduleConflict[], start: Date, minutes: number, timeZone: string) {
+    const from = new Date(Math.max(start.getTime(), Date.now()));
+    const to = new Date(from.getTime() + DEFAULT_FREE_SLOT_SEARCH_DAYS * 24 * 60 * 60 * 1000);
+    const freeSlots = findFreeSlots(await callerBusyIntervals(res, from, to), {
+        from, to, minutes, timeZone, calendar: await callerWorkingCalendar(res), count: 3
+    });
+    res.status(409).json({
+        error: `This time ${describeConflicts(conflicts, timeZone)}. Pick another time, or pass allowConflicts: true to book it anyway.`,
+        code: 'SCHEDULE_CONFLICT',
+        conflicts,
+        freeSlots: freeSlots.map(slot => ({ ...slot, formattedStart: formatInZone(new Date(slot.start), timeZone) }))
+    });
+}
+
+/**
+ * Alarm plan of a reminder: the requested alarms, else the caller's default alarms, else `fallback`
+ * (the classic invite alerts for emailed reminders, none for local ones). Fixed-time alarms
+ * ("at 8 AM on Nov 3") are read like the reminder's own time. Throws AlarmError.
+ */
+async function alarmPlanFor(
+    res: Response,
+    requested: unknown,
+    schedule: Pick<Reminder, 'timeZone' | 'recurrence'>,
+    context: Pick<ScheduleContext, 'locale' | 'calendar'>,
+    fallback?: ReminderAlarm[]
+): Promise<ReminderAlarm[] | undefined> {
+    if (requested === undefined || requested === null || requested === '') {
+        const preferences = await preferencesRepository.get(callerIdentity(res).userId);
+        return preferences.alarms ?? fallback;
+    }
+    const timeZone = schedule.timeZone || serverTimeZone();
+    const resolveAt = (phrase: string) => {
+        const analysis = analyzeTimeExpression(phrase, timeZone, new Date(), context.locale, context.calendar);
+        const clarification = clarifyTimeExpression(phrase, analysis, timeZone);
+        if (clarification && clarification.reason !== 'past') { // past alarm times are reported below
+            throw new AlarmError(`Cannot tell when the alarm "${phrase}" should go off. Use e.g. "at 8 AM on Nov 3"`);
+        }
+        return analysis.parsedDate;
+    };
+    const alarms = validateAlarmPlan(parseAlarms(requested, resolveAt), { recurring: !!schedule.recurrence });
+    if (alarms.some(alarm => alarm.at !== undefined && Date.parse(alarm.at) <= Date.now())) {
+        throw new AlarmError('Fixed-time alarms must be in the future');
+    }
+    return alarms;
+}
+
+/**
+ * Responds with a 422 that asks for a clearer time; the MCP layer turns it into a
+ * CLARIFICATION_NEEDED error and the agent into a follow-up question
+ */
+function sendTimeClarification(res: Response, clarification: TimeClarification) {
+    res.status(422).json({ error: clarification.question, code: 'TIME_CLARIFICATION_NEEDED', clarification });
+}
+
+/**
+ * The list_reminders query of the request, scoped to the caller's reminders unless an admin asks
+ * for 'allUsers' / 'owner'. Responds with the error (400, 403 or 500) and returns undefined when
+ * the query is invalid or not allowed.
+ */
+async function callerReminderQuery(req: Request, res: Response, action: string): Promise<ReminderQuery | undefined> {
+    let query;
+    try {
+        const timeZone = await callerTimeZone(res, req.query.timeZone as string | undefined);
+        query = parseReminderQuery(req.query, new Date(), timeZone);
+    } catch (error) {
+        if (error instanceof ReminderQueryError || error instanceof TimeZoneError) {
+            res.status(400).json({ error: error.message });
+            return undefined;
+        }
+        console.error(`Failed to ${action}:`, error);
+        res.status(500).json({
+            error: `Failed to ${action}`,
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+        return undefined;
+    }
+    const identity = callerIdentity(res);
+    const adminScope = req.query.allUsers === 'true' || req.query.owner !== undefined;
+    if (adminScope && !identity.isAdmin) {
+        res.status(403).json({ error: "Only admins can list other users' reminders ('allUsers' / 'owner')." });
+        return undefined;
+    }
+    if (!adminScope) {
+        query.ownerId = identity.userId;
+    }
+    return query;
+}
+
+/**
+ * Returns the caller's reminders, filtered, sorted and paginated.
+ * Optional query: 'from', 'to', 'dueOn', 'status', 'email', 'search', 'sortBy', 'order',
+ * 'limit', 'offset', 'timeZone' (see reminder-query.ts) and 'occurrences' (number), which expands the
+ * next N occurrences of repeating reminders within the requested window.
+ * Reminders that emailed an invite carry 'attendeeStatus': each attendee's RSVP (see rsvp-replies.ts).
+ * Admins may pass 'allUsers=true' to see everyone's reminders, or 'owner' to pick one user.
+ * 'groupBy' (tag, priority or category) returns { groupBy, groups: [{ key, count, reminders }] }
+ * instead of a flat array.
+ * The total number of matches before pagination is returned in the X-Total-Count header.
+ */
+app.get('/tools/list_reminders', async (req: Request, res: Response) => {
+    console.log(`Executing tool: list_reminders(${JSON.stringify(req.query)})`);
+
+    const query = await callerReminderQuery(req, res, 'list reminders');
+    if (!query) {
+        return;
+    }
+    const occurrences = Math.min(parseInt(String(req.query.occurrences || '0')) || 0, 50);
+    const groupBy = req.query.groupBy as ReminderGroupField | undefined;
+    if (groupBy && !GROUP_FIELDS.includes(groupBy)) {
+        return res.status(400).json({ error: `Invalid groupBy '${groupBy}'. Use one of: ${GROUP_FIELDS.join(', ')}` });
+    }
+
+    try {
+        const { total, reminders } = queryReminders(await reminderRepository.list(), query);
+        res.setHeader('X-Total-Count', String(total));
+        const results = reminders.map(reminder => ({
+            ...describeReminder(reminder),
+            ...(reminder.recurrence && occurrences > 0 ? {
+                upcomingOccurrences: occurrencesInWindow(reminder, query.from, query.to, occurrences).map(date => date.toISOString())
+            } : {})
+        }));
+        res.json(groupBy ? { groupBy, groups: groupReminders(results, groupBy) } : results);
+    } catch (error) {
+        console.error('Error listing reminders:', error);
+        res.status(500).json({ 
+            error: 'Failed to list reminders',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * Returns one of the caller's reminders by 'id' (query parameter), as list_reminders shows it.
+ * A reminder that emailed an invite has 'attendeeStatus' (each attendee's RSVP: accepted, tentative,
+ * declined, delegated or needs-action, with single-occurrence answers of a series) and 'responses',
+ * how many attendees gave each answer.
+ */
+app.get('/tools/get_reminder', async (req: Request, res: Response) => {
+    const id = req.query.id as string | undefined;
+    console.log(`Executing tool: get_reminder(id='${id ?? ''}')`);
+
+    if (!id) {
+        return res.status(400).json({ error: "Missing 'id' query parameter." });
+    }
+
+    try {
+        const reminder = await getOwnedReminder(res, id);
+        if (!reminder) {
+            return sendReminderNotFound(res, id);
+        }
+        const details = describeReminder(reminder);
+        res.json(details.attendeeStatus ? { ...details, responses: summarizeResponses(details.attendeeStatus) } : details);
+    } catch (error) {
+        console.error('Error getting reminder:', error);
+        res.status(500).json({
+            error: 'Failed to get reminder',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * Exports the caller's reminders (see reminder-export.ts) and returns the document in 'content',
+ * with its 'format', 'contentType', 'filename' and the number of reminders ('count').
+ * 'format' is csv, json, md (a Markdown agenda grouped by day, the default), ics or jcal; the other
+ * query parameters select reminders like list_reminders. /reminders/export serves the same as a file.
+ */
+app.get('/tools/export_reminders', async (req: Request, res: Response) => {
+    console.log(`Executing tool: export_reminders(${JSON.stringify(req.query)})`);
+
+    const exported = await callerExport(req, res);
+    if (exported) {
+        res.status(200).json(exported);
+    }
 });
 
 /**
  * Adds a new reminder to the list.
- * Expects a JSON body with 'time' and 'task' properties only.
+ * Expects a JSON body with 'time' and 'task' properties.
+ * Optional: 'recurrence' (e.g. "every weekday"), 'recurrenceExceptions' (dates to skip),
+ * 'tags', 'priority' and 'category' (also read inline from the task: "high priority: ... #admin"),
+ * 'timeZone' (IANA name; defaults to the caller's preference, then the server zone),
+ * 'locale' (language of the time, e.g. "es" for "mañana a las 3"; defaults to the caller's preference, then English),
+ * 'workingDaysOnly' (true moves a due time on a weekend or holiday, and every later occurrence, to the next working day),
+ * 'alarms' (alerts before the due time, e.g. ["1 day before", "2 hours before by email"]; defaults to the caller's preference),
+ * 'allDay' (true makes a date like "Oct 30" a whole-day reminder; "all day" phrases and ranges like "Nov 4-6" are all-day anyway,
+ * notifying at 9 AM on the first day)
+ * A vague or ambiguous time ("sometime", "at 7", "3/4") is refused with a 422 clarification.
+ * A reminder overlapping the caller's other reminders (each taken to last its suggested duration) is
+ * still added, with the overlapped ones in 'conflicts'.
  * This is for LOCAL reminders (no email involved).
  */
-app.post('/tools/add_reminder', (req: Request, res: Response) => {
-    const { time, task } = req.body;
-    console.log(`Executing tool: add_reminder(time='${time}', task='${task}')`);
+app.post('/tools/add_reminder', async (req: Request, res: Response) => {
+    const { time, task, recurrence, recurrenceExceptions, tags, priority, category, timeZone, locale, workingDaysOnly, alarms, allDay } = req.body;
+    console.log(`Executing tool: add_reminder(time='${time}', task='${task}', recurrence='${recurrence || 'none'}')`);
 
     if (!time || !task) {
         return res.status(400).json({ error: "Missing 'time' or 'task' in request body." });
     }
 
+    let schedule;
+    let labels;
+    let alarmPlan;
+    try {
+        const context = { locale: await callerLocale(res, locale), calendar: await callerWorkingCalendar(res), workingDaysOnly: !!workingDaysOnly, allDay: !!allDay };
+        schedule = scheduleFor(time, recurrence, recurrenceExceptions, await callerTimeZone(res, timeZone), context, true);
+        labels = resolveLabels(task, { tags, priority, category });
+        alarmPlan = await alarmPlanFor(res, alarms, schedule, context);
+    } catch (error) {
+        if (error instanceof TimeClarificationError) {
+            return sendTimeClarification(res, error.clarification);
+        }
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid recurrence' });
+    }
+
     const newReminder: Reminder = { 
         id: `reminder_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        ownerId: callerIdentity(res).userId,
         time, 
-        task,
+        ...labels,
         email: undefined, // Local reminders don't have email
-        createdAt: new Date().toISOString()
+        createdAt: new Date().toISOString(),
+        ...schedule,
+        ...(alarmPlan ? { alarms: alarmPlan } : {}),
+        status: 'pending'
     };
-    remindersDb.push(newReminder);
-    res.status(200).json({ message: `Reminder added: ${task} at ${time}`, reminder: newReminder });
+
+    try {
+        const conflicts = await scheduleConflicts(res, newReminder, (await durationFor(res, newReminder.task)).minutes);
+        await reminderRepository.add(newReminder);
+        await remindersChanged();
+        const repeats = newReminder.recurrence ? ` (repeats ${describeRecurrence(newReminder.recurrence, newReminder.timeZone)})` : '';
+        const warning = conflicts.length > 0 ? `. Note: it ${describeConflicts(conflicts, newReminder.timeZone!)}` : '';
+        res.status(200).json({
+            message: `Reminder added: ${newReminder.task} at ${time}${repeats}${warning}`,
+            reminder: newReminder,
+            ...(conflicts.length > 0 ? { conflicts } : {})
+        });
+    } catch (error) {
+        console.error('Error storing reminder:', error);
+        res.status(500).json({ 
+            error: 'Failed to store reminder',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
 });
 
 /**
  * Sends an email reminder with calendar invite
- * Expects a JSON body with 'time', 'task', and 'email' properties.
- * Optional: 'eventDuration', 'eventLocation', 'senderName'
+ * Expects a JSON body with 'time', 'task', and 'email' (one address or a comma-separated list) and/or
+ * 'attendees' (addresses or { email, name, role: 'required' | 'optional' } objects); all of them get one email
+ * and are listed in the invite, organized by the caller's organizerName/organizerEmail preferences.
+ * Optional: 'eventDuration' (minutes; suggested from the task when omitted), 'eventLocation', 'senderName', 'recurrence', 'recurrenceExceptions',
+ * 'tags', 'priority', 'category', 'timeZone' (zone the time is read in),
+ * 'recipientTimeZone' (zone the email shows times in; defaults to 'timeZone'),
+ * 'locale' (language the time is written in), 'recipientLocale' (language of the email; defaults to 'locale')
+ * 'workingDaysOnly' (keep the event off weekends and holidays, as for add_reminder)
+ * 'alarms' (the invite's alerts and ours; defaults to the caller's preference, then 15 and 5 minutes before)
+ * and 'allDay' (an all-day invite, as for add_reminder; it has no duration and conflicts with nothing)
+ * A vague or ambiguous time is refused with a 422 clarification instead of sending a guessed invite.
+ * An event overlapping the caller's other reminders is refused with a 409 listing them and free slots,
+ * unless 'allowConflicts' is true.
  */
 app.post('/tools/send_email_reminder', async (req: Request, res: Response) => {
-    const { time, task, email, senderName, eventDuration, eventLocation } = req.body;
-    console.log(`Executing tool: send_email_reminder(time='${time}', task='${task}', email='${email}', duration=${eventDuration || 'auto'}, location='${eventLocation || 'none'}')`);
+    const { time, email, attendees, senderName, eventDuration, eventLocation, recurrence, recurrenceExceptions, tags, priority, category, timeZone, recipientTimeZone, locale, recipientLocale, workingDaysOnly, alarms, allowConflicts, allDay } = req.body;
+    let { task } = req.body;
+    console.log(`Executing tool: send_email_reminder(time='${time}', task='${task}', email='${email ?? ''}', attendees=${Array.isArray(attendees) ? attendees.length : 0}, duration=${eventDuration || 'auto'}, location='${eventLocation || 'none'}', recurrence='${recurrence || 'none'}')`);
 
-    if (!time || !task || !email) {
-        return res.status(400).json({ error: "Missing required fields: 'time', 'task', or 'email'" });
+    if (!time || !task || (!email && !attendees)) {
+        return res.status(400).json({ error: "Missing required fields: 'time', 'task', or 'email' (or 'attendees')" });
+    }
+
+    let schedule;
+    let labels;
+    let displayTimeZone;
+    let emailLocale;
+    let invitees: InviteAttendee[];
+    let alarmPlan: ReminderAlarm[];
+    try {
+        invitees = normalizeAttendees(email, attendees);
+        if (invitees.length === 0) {
+            return res.status(400).json({ error: "At least one recipient is required in 'email' or 'attendees'" });
+        }
+        const timeLocale = await callerLocale(res, locale);
+        const context = { locale: timeLocale, calendar: await callerWorkingCalendar(res), workingDaysOnly: !!workingDaysOnly, allDay: !!allDay };
+        schedule = scheduleFor(time, recurrence, recurrenceExceptions, await callerTimeZone(res, timeZone), context, true);
+        displayTimeZone = resolveTimeZone(recipientTimeZone, schedule.timeZone);
+        emailLocale = resolveLocale(recipientLocale, timeLocale.code);
+        labels = resolveLabels(task, { tags, priority, category });
+        alarmPlan = (await alarmPlanFor(res, alarms, schedule, context, DEFAULT_ALARMS))!;
+    } catch (error) {
+        if (error instanceof TimeClarificationError) {
+            return sendTimeClarification(res, error.clarification);
+        }
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid recurrence' });
+    }
+    task = labels.task;
+
+    // All-day events take their days instead of a duration
+    let duration: DurationSuggestion | undefined;
+    try {
+        duration = schedule.allDayStart ? undefined : await durationFor(res, task, eventLocation, eventDuration ?? undefined);
+    } catch (error) {
+        if (error instanceof DurationRuleError) {
+            return res.status(400).json({ error: `eventDuration: ${error.message}` });
+        }
+        console.error('Error suggesting duration:', error);
+        return res.status(500).json({
+            error: 'Failed to suggest an event duration',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+
+    let conflicts: ScheduleConflict[] = [];
+    try {
+        conflicts = duration ? await scheduleConflicts(res, schedule, duration.minutes) : [];
+        if (duration && conflicts.length > 0 && allowConflicts !== true) {
+            return await sendScheduleConflict(res, conflicts, new Date(schedule.dueAt), duration.minutes, displayTimeZone);
+        }
+    } catch (error) {
+        console.error('Error checking for scheduling conflicts:', error);
+        return res.status(500).json({
+            error: 'Failed to check for scheduling conflicts',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+
+    // The id is needed up front so the email can carry signed snooze/done links and a stable invite UID
+    const reminderId = `email_reminder_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const calendarUid = reminderCalendarUid(reminderId);
+    const recipients = invitees.map(attendee => attendee.email).join(', ');
+
+    // The reminder is saved before its invite goes out, so a failed save never leaves an
+    // invite behind that no reminder tracks; a failed send is recorded on the saved reminder
+    let newReminder: Reminder;
+    try {
+        const organizer = await callerOrganizer(res);
+        newReminder = { 
+            id: reminderId,
+            ownerId: callerIdentity(res).userId,
+            time, 
+            ...labels,
+            email: invitees[0].email,
+            attendees: invitees,
+            ...(organizer ? { organizer } : {}),
+            createdAt: new Date().toISOString(),
+            ...schedule,
+            ...(eventLocation ? { location: eventLocation } : {}),
+            ...(duration ? { durationMinutes: duration.minutes, durationSource: duration.source === 'explicit' ? 'explicit' as const : 'suggested' as const } : {}),
+            alarms: alarmPlan,
+            calendarUid,
+            calendarSequence: 0,
+            calendarStartAt: schedule.dueAt,
+            recipientTimeZone: displayTimeZone,
+            recipientLocale: emailLocale.code,
+            status: 'pending'
+        };
+        await reminderRepository.add(newReminder);
+        await remindersChanged();
+    } catch (error) {
+        console.error('Error saving email reminder:', error);
+        return res.status(500).json({
+            error: 'Failed to save email reminder (no email was sent)',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
     }
 
     try {
-        // Send email via email server with calendar integration
+        // Send email via email server with calendar integration (one email to all attendees)
         const emailResponse = await axios.post(`${emailServerUrl}/send-reminder`, {
-            to: email,
+            attendees: invitees,
+            organizer: newReminder.organizer,
             reminderText: task,
             reminderTime: time,
+            reminderStartAt: schedule.dueAt,
+            allDayStart: schedule.allDayStart,
+            allDayEnd: schedule.allDayEnd,
             senderName: senderName || process.env.SENDER_NAME,
             includeCalendarInvite: true, // Always include calendar invites
-            eventDuration: eventDuration,
-            eventLocation: eventLocation
+            eventDuration: duration?.minutes,
+            eventDurationReason: duration?.reason,
+            eventLocation: eventLocation,
+            recurrenceRule: schedule.recurrence ? formatRRule(schedule.recurrence) : undefined,
+            recurrenceDescription: schedule.recurrence ? describeRecurrence(schedule.recurrence, displayTimeZone) : undefined,
+            recurrenceExceptions: schedule.recurrence
+                ? exceptionInstants(schedule.recurrence, new Date(schedule.dueAt), schedule.timeZone).map(date => date.toISOString())
+                : undefined,
+            timeZone: schedule.timeZone,
+            recipientTimeZone: displayTimeZone,
+            actionLinks: buildReminderActionLinks(reminderId, new Date(), emailLocale),
+            locale: emailLocale.code,
+            priority: labels.priority,
+            tags: labels.tags,
+            category: labels.category,
+            calendarUid,
+            calendarSequence: 0,
+            alarms: alarmPlan
         });
 
-        // Also add to local database
-        const newReminder: Reminder = { 
-            id: `email_reminder_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            time, 
-            task,
-            email,
-            createdAt: new Date().toISOString()
-        };
-        remindersDb.push(newReminder);
-
         res.status(200).json({ 
-            message: `Email reminder with calendar invite sent to ${email}: ${task} at ${time}`,
+            message: `Email reminder with calendar invite sent to ${recipients}: ${task} at ${time}`,
             emailResponse: emailResponse.data,
             reminder: newReminder,
             calendarIncluded: true,
             eventDetails: {
-                duration: eventDuration || 'auto-suggested',
+                ...(duration ? { duration: duration.minutes, durationReason: duration.reason } : { allDay: reminderDays(newReminder) }),
                 location: eventLocation || 'not specified'
-            }
+            },
+            ...(conflicts.length > 0 ? { conflicts } : {})
         });
     } catch (error) {
         console.error('Error sending email reminder:', error);
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        // No invite went out, so there is none to update or cancel later
+        const reminder = await reminderRepository.update(reminderId, { inviteError: errorMessage, calendarSequence: undefined })
+            .catch(updateError => {
+                console.error(`Error recording the failed invite of reminder ${reminderId}:`, updateError);
+                return newReminder;
+            });
         res.status(500).json({ 
-            error: 'Failed to send email reminder',
+            error: 'Reminder saved, but its email could not be sent',
             details: errorMessage,
+            reminder,
             suggestion: 'Check if email server is running and configuration is correct'
         });
     }
 });
 
+/**
+ * Responds with a 404 that the MCP layer turns into a RESOURCE_NOT_FOUND error
+ */
+function sendReminderNotFound(res: Response, id: string) {
+    res.status(404).json({ error: `Reminder not found: ${id}`, code: 'REMINDER_NOT_FOUND', id });
+}
+
+/**
+ * Load a reminder the caller may act on. Other users' reminders look exactly like
+ * missing ones so ids cannot be probed.
+ */
+async function getOwnedReminder(res: Response, id: string): Promise<Reminder | undefined> {
+    const reminder = await reminderRepository.get(id);
+    return reminder && canAccessReminder(callerIdentity(res), reminder) ? reminder : undefined;
+}
+
+/**
+ * A reminder as list_reminders and get_reminder show it: its repeat rule in words and, when it
+ * emailed an invite, every attendee's answer
+ */
+function describeReminder(reminder: Reminder) {
+    return {
+        ...reminder,
+        ...(reminder.recurrence ? { recurrenceDescription: describeRecurrence(reminder.recurrence, reminder.timeZone) } : {}),
+        ...(hasSentInvite(reminder) ? { attendeeStatus: attendeeStatuses(reminder) } : {})
+    };
+}
+
+interface CalendarUpdateResult {
+    method: 'REQUEST' | 'CANCEL';
+    to: string; // comma-separated recipients of the one email sent
+    sequence: number;
+    sent: boolean;
+    error?: string;
+}
+
+/**
+ * True when the reminder emailed a calendar invite that later changes must follow
+ * (imported reminders carry a UID too, but never sent anything)
+ */
+function hasSentInvite(reminder: Reminder): boolean {
+    return inviteRecipients(reminder).length > 0 && !!reminder.calendarUid && reminder.calendarSequence !== undefined;
+}
+
+/**
+ * Email a changed (METHOD:REQUEST) or cancelled (METHOD:CANCEL) invite for a reminder's event,
+ * with its UID and current calendarSequence so calendar clients replace the original entry.
+ * Goes to all of the reminder's attendees unless `recipients` narrows it (e.g. to removed ones).
+ * Failures are reported rather than thrown: the reminder itself has already been changed.
+ */
+async function sendCalendarUpdate(reminder: Reminder, method: 'REQUEST' | 'CANCEL', recipients: InviteAttendee[] = inviteRecipients(reminder)): Promise<CalendarUpdateResult> {
+    const to = recipients.map(attendee => attendee.email).join(', ');
+    const sequence = reminder.calendarSequence || 0;
+    const start = new Date(reminder.calendarStartAt || reminder.seriesStartAt || reminder.dueAt);
+    const displayTimeZone = reminder.recipientTimeZone || reminder.timeZone || serverTimeZone();
+    try {
+        await axios.post(`${emailServerUrl}/send-calendar-update`, {
+            attendees: recipients,
+            organizer: reminder.organizer,
+            method,
+            calendarUid: reminder.calendarUid,
+            calendarSequence: sequence,
+            reminderText: reminder.task,
+            reminderStartAt: start.toISOString(),
+            allDayStart: reminder.allDayStart,
+            allDayEnd: reminder.allDayEnd,
+            eventDuration: reminder.durationMinutes,
+            eventLocation: reminder.location,
+            recurrenceRule: reminder.recurrence ? formatRRule(reminder.recurrence) : undefined,
+            recurrenceDescription: reminder.recurrence ? describeRecurrence(reminder.recurrence, displayTimeZone) : undefined,
+            recurrenceExceptions: reminder.recurrence
+                ? exceptionInstants(reminder.recurrence, start, reminder.timeZone).map(date => date.toISOString())
+                : undefined,
+            timeZone: reminder.timeZone,
+            recipientTimeZone: displayTimeZone,
+            locale: reminder.recipientLocale || reminder.locale,
+            alarms: reminder.alarms
+        });
+        return { method, to, sequence, sent: true };
+    } catch (error) {
+        const message = axios.isAxiosError(error) ? error.response?.data?.details || error.response?.data?.error || error.message : String(error);
+        console.error(`❌ Failed to send calendar ${method === 'CANCEL' ? 'cancellation' : 'update'} for ${reminder.id}:`, message);
+        return { method, to, sequence, sent: false, error: message };
+    }
+}
+
+const recurrenceKey = (rule?: RecurrenceRule) => rule ? `${formatRRule(rule)}|${(rule.exceptions || []).join(',')}` : '';
+
+/**
+ * Updates an existing reminder.
+ * Expects a JSON body with 'id' and any of 'time', 'task', 'email' (replaces the primary recipient),
+ * 'attendees' (replaces the attendee list), 'recurrence', 'recurrenceExceptions',
+ * 'tags' (replaces the tag list), 'priority', 'category' (empty string clears it), 'timeZone', 'locale', 'workingDaysOnly',
+ * 'allDay' and 'alarms' (replaces the alarm plan; "none" for no alarms, empty string for the defaults).
+ * Changing the time, recurrence, time zone, language, working-days or all-day setting re-resolves the due instant and re-arms the reminder;
+ * a recurrence of "none" turns a repeating reminder back into a one-off. A new time without 'allDay' is all-day only when
+ * it says so ("Nov 4-6", "all day Friday"); otherwise an all-day reminder stays all-day.
+ * When the reminder emailed a calendar invite and its time, task, recurrence, attendees or alarms change, an updated
+ * invite (same UID, next SEQUENCE) is emailed to the attendees and a cancellation to removed ones; see 'calendarUpdates'.
+ * Moving the event resets the attendees' RSVPs, since they are asked again.
+ */
+app.post('/tools/update_reminder', async (req: Request, res: Response) => {
+    const { id, time, task, email, attendees, recurrence, recurrenceExceptions, tags, priority, category, timeZone, locale, workingDaysOnly, allDay, alarms } = req.body;
+    console.log(`Executing tool: update_reminder(id='${id}', time='${time ?? ''}', task='${task ?? ''}', email='${email ?? ''}', recurrence='${recurrence ?? ''}')`);
+
+    if (!id) {
+        return res.status(400).json({ error: "Missing 'id' in request body." });
+    }
+    if ([time, task, email, attendees, recurrence, recurrenceExceptions, tags, priority, category, timeZone, locale, workingDaysOnly, allDay, alarms].every(value => value === undefined)) {
+        return res.status(400).json({ error: "Nothing to update: provide 'time', 'task', 'email', 'attendees', 'recurrence', 'tags', 'priority', 'category', 'timeZone', 'locale', 'workingDaysOnly', 'allDay' or 'alarms'." });
+    }
+
+    try {
+        const existing = await getOwnedReminder(res, id);
+        if (!existing) {
+            return sendReminderNotFound(res, id);
+        }
+
+        const changes: Partial<Reminder> = {};
+        if (task !== undefined) changes.task = task;
+        try {
+            if (email !== undefined || attendees !== undefined) {
+                // New attendees replace the list; a new email replaces only the primary (first) recipient
+                const list = attendees !== undefined
+                    ? normalizeAttendees(email, attendees)
+                    : email ? normalizeAttendees(email, inviteRecipients(existing).slice(1)) : [];
+                changes.attendees = list.length > 0 ? list : undefined;
+                changes.email = list[0]?.email;
+            }
+            if (tags !== undefined) changes.tags = normalizeTags(tags);
+            if (priority !== undefined) changes.priority = priority ? normalizePriority(priority) : undefined;
+            if (category !== undefined) changes.category = category ? normalizeCategory(category) : undefined;
+        } catch (error) {
+            if (error instanceof ReminderLabelError || error instanceof AttendeeError) {
+                return res.status(400).json({ error: error.message });
+            }
+            throw error;
+        }
+        if (time !== undefined || recurrence !== undefined || recurrenceExceptions !== undefined || timeZone !== undefined || locale !== undefined || workingDaysOnly !== undefined || allDay !== undefined) {
+            const newTime = time ?? existing.time;
+            const newRecurrence = recurrence === undefined
+                ? (existing.recurrence ? formatRRule(existing.recurrence) : undefined)
+                : (recurrence === '' || recurrence === 'none' ? undefined : recurrence);
+            const exceptions = recurrenceExceptions ?? existing.recurrence?.exceptions;
+
+            try {
+                const zone = await callerTimeZone(res, timeZone, existing.timeZone);
+                Object.assign(changes, scheduleFor(newTime, newRecurrence, exceptions, zone, {
+                    locale: await callerLocale(res, locale, existing.locale),
+                    calendar: await callerWorkingCalendar(res),
+                    workingDaysOnly: !!(workingDaysOnly ?? existing.workingDaysOnly),
+                    allDay: !!(allDay ?? (time === undefined && existing.allDayStart))
+                }));
+            } catch (error) {
+                return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid recurrence' });
+            }
+            changes.time = newTime;
+            changes.status = 'pending';
+            changes.occurrencesFired = 0;
+            changes.firedAt = undefined;
+            changes.completedAt = undefined;
+            changes.deliveryAttempts = 0;
+            changes.lastDeliveryError = undefined;
+            changes.nextDeliveryAttemptAt = undefined;
+        }
+
+        // New alarms replace the plan ('' restores the defaults); a rescheduled reminder must still suit its plan
+        if (alarms !== undefined || changes.dueAt !== undefined) {
+            const schedule = {
+                timeZone: changes.timeZone ?? existing.timeZone,
+                recurrence: changes.dueAt !== undefined ? changes.recurrence : existing.recurrence
+            };
+            try {
+                if (alarms !== undefined) {
+                    const context = { locale: await callerLocale(res, locale, existing.locale), calendar: await callerWorkingCalendar(res) };
+                    changes.alarms = await alarmPlanFor(res, alarms, schedule, context, hasSentInvite(existing) ? DEFAULT_ALARMS : undefined);
+                } else {
+                    validateAlarmPlan(existing.alarms || [], { recurring: !!schedule.recurrence });
+                }
+            } catch (error) {
+                return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid alarms' });
+            }
+            changes.firedAlarms = undefined;
+        }
+
+        // A sent invite follows the change as a new revision of the same event
+        if (hasSentInvite(existing)) {
+            const startAt = changes.dueAt !== undefined ? (changes.seriesStartAt || changes.dueAt) : existing.calendarStartAt;
+            const rescheduled = startAt !== existing.calendarStartAt
+                || (changes.dueAt !== undefined && (changes.allDayStart !== existing.allDayStart || changes.allDayEnd !== existing.allDayEnd))
+                || (changes.dueAt !== undefined && recurrenceKey(changes.recurrence) !== recurrenceKey(existing.recurrence));
+            const eventChanged = rescheduled
+                || (changes.task !== undefined && changes.task !== existing.task)
+                || ('attendees' in changes && attendeesKey(inviteRecipients(changes)) !== attendeesKey(inviteRecipients(existing)))
+                || ('alarms' in changes && alarmsKey(changes.alarms) !== alarmsKey(existing.alarms));
+            if (eventChanged) {
+                changes.calendarStartAt = startAt;
+                changes.calendarSequence = existing.calendarSequence! + 1;
+            }
+            // Attendees answer a moved event again; the answers of people no longer invited are dropped
+            if (rescheduled) {
+                changes.rsvps = undefined;
+                changes.rsvpSequence = changes.calendarSequence;
+            } else if ('attendees' in changes) {
+                changes.rsvps = keptResponses(existing.rsvps, inviteRecipients(changes));
+            }
+        }
+
+        const updated = await reminderRepository.update(id, changes);
+        if (!updated) {
+            return sendReminderNotFound(res, id);
+        }
+        await remindersChanged();
+
+        const calendarUpdates: CalendarUpdateResult[] = [];
+        if (changes.calendarSequence !== undefined) {
+            const current = inviteRecipients(updated);
+            const kept = new Set(current.map(attendee => attendee.email.toLowerCase()));
+            const removed = inviteRecipients(existing).filter(attendee => !kept.has(attendee.email.toLowerCase()));
+            if (removed.length > 0) {
+                calendarUpdates.push(await sendCalendarUpdate(updated, 'CANCEL', removed));
+            }
+            if (current.length > 0) {
+                calendarUpdates.push(await sendCalendarUpdate(updated, 'REQUEST'));
+            }
+        }
+
+        res.status(200).json({
+            message: `Reminder updated: ${updated.task} at ${updated.time}`,
+            reminder: updated,
+            ...(calendarUpdates.length > 0 ? { calendarUpdates } : {})
+        });
+    } catch (error) {
+        console.error('Error updating reminder:', error);
+        res.status(500).json({ 
+            error: 'Failed to update reminder',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * Deletes a reminder.
+ * Expects a JSON body with 'id'.
+ * A reminder that emailed a calendar invite also emails its cancellation (see 'calendarUpdates').
+ */
+app.post('/tools/delete_reminder', async (req: Request, res: Response) => {
+    const { id } = req.body;
+    console.log(`Executing tool: delete_reminder(id='${id}')`);
+
+    if (!id) {
+        return res.status(400).json({ error: "Missing 'id' in request body." });
+    }
+
+    try {
+        if (!await getOwnedReminder(res, id)) {
+            return sendReminderNotFound(res, id);
+        }
+        const removed = await reminderRepository.remove(id);
+        if (!removed) {
+            return sendReminderNotFound(res, id);
+        }
+        caldavSync?.reminderDeleted(removed);
+        await remindersChanged();
+
+        const calendarUpdates = hasSentInvite(removed)
+            ? [await sendCalendarUpdate({ ...removed, calendarSequence: removed.calendarSequence! + 1 }, 'CANCEL')]
+            : [];
+
+        res.status(200).json({
+            message: `Reminder deleted: ${removed.task}`,
+            reminder: removed,
+            ...(calendarUpdates.length > 0 ? { calendarUpdates } : {})
+        });
+    } catch (error) {
+        console.error('Error deleting reminder:', error);
+        res.status(500).json({ 
+            error: 'Failed to delete reminder',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * Marks a reminder as completed so the scheduler no longer fires it.
+ * Expects a JSON body with 'id'.
+ */
+app.post('/tools/complete_reminder', async (req: Request, res: Response) => {
+    const { id } = req.body;
+    console.log(`Executing tool: complete_reminder(id='${id}')`);
+
+    if (!id) {
+        return res.status(400).json({ error: "Missing 'id' in request body." });
+    }
+
+    try {
+        if (!await getOwnedReminder(res, id)) {
+            return sendReminderNotFound(res, id);
+        }
+        const updated = await reminderRepository.update(id, {
+            status: 'completed',
+            completedAt: new Date().toISOString()
+        });
+        if (!updated) {
+            return sendReminderNotFound(res, id);
+        }
+        await remindersChanged();
+
+        res.status(200).json({ message: `Reminder completed: ${updated.task}`, reminder: updated });
+    } catch (error) {
+        console.error('Error completing reminder:', error);
+        res.status(500).json({ 
+            error: 'Failed to complete reminder',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * Snoozes a reminder (fired or still pending) and records the snooze in its history.
+ * Expects a JSON body with 'id' and 'duration' ("10 minutes", "until tomorrow morning", ...).
+ * Optional 'timeZone' for reading "tomorrow morning" (defaults to the reminder's own zone) and
+ * 'locale' for durations in other languages ("10 Minuten"; defaults to the reminder's language).
+ */
+app.post('/tools/snooze_reminder', async (req: Request, res: Response) => {
+    const { id, duration, timeZone, locale } = req.body;
+    console.log(`Executing tool: snooze_reminder(id='${id}', duration='${duration}')`);
+
+    if (!id || !duration) {
+        return res.status(400).json({ error: "Missing 'id' or 'duration' in request body." });
+    }
+
+    try {
+        const existing = await getOwnedReminder(res, id);
+        if (!existing) {
+            return sendReminderNotFound(res, id);
+        }
+        const zone = await callerTimeZone(res, timeZone, existing.timeZone);
+        const result = await snoozeReminder(id, duration, 'tool', zone, await callerLocale(res, locale, existing.locale));
+        if (!result) {
+            return sendReminderNotFound(res, id);
+        }
+        res.status(200).json({
+            message: `Reminder snoozed until ${formatInZone(new Date(result.dueAt), zone)}: ${result.task}`,
+            reminder: result
+        });
+    } catch (error) {
+        if (error instanceof SnoozeError || error instanceof TimeZoneError || error instanceof LocaleError || error instanceof WorkingCalendarError) {
+            return res.status(400).json({ error: error.message });
+        }
+        console.error('Error snoozing reminder:', error);
+        res.status(500).json({ 
+            error: 'Failed to snooze reminder',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * Shared by the snooze tool and the email links (whose snooze values are always English).
+ * Resolves to undefined when the reminder does not exist.
+ */
+async function snoozeReminder(id: string, duration: string, source: 'tool' | 'email', timeZone?: string, locale?: LocalePack): Promise<Reminder | undefined> {
+    const reminder = await reminderRepository.get(id);
+    if (!reminder) {
+        return undefined;
+    }
+    if (reminder.status === 'completed') {
+        throw new SnoozeError('This reminder is already completed.');
+    }
+
+    const calendar = await workingCalendarFor(reminder.ownerId);
+    const until = resolveSnoozeUntil(duration, reminder, new Date(), timeZone || reminder.timeZone || serverTimeZone(), locale, calendar);
+    const updated = await reminderRepository.update(id, snoozeChanges(reminder, until, source));
+    await remindersChanged();
+    return updated;
+}
+
+/**
+ * Imports reminders from an .ics calendar file.
+ * Accepts either a JSON body { ics: "<calendar text>", includePast?: boolean, timeZone?: string } or the raw
+ * file with Content-Type text/calendar (e.g. curl --data-binary @calendar.ics?includePast=true&timeZone=...).
+ * 'timeZone' applies to floating and all-day event times.
+ * Events already imported (same UID) are skipped; the response reports what was
+ * created, skipped or failed.
+ */
+app.post('/tools/import_calendar', express.text({ type: ['text/calendar', 'text/plain'], limit: '5mb' }), async (req: Request, res: Response) => {
+    const icsText = typeof req.body === 'string' ? req.body : req.body?.ics;
+    const includePast = typeof req.body === 'string' ? req.query.includePast === 'true' : !!req.body?.includePast;
+    const timeZone = typeof req.body === 'string' ? req.query.timeZone as string | undefined : req.body?.timeZone;
+    console.log(`Executing tool: import_calendar(${icsText ? `${icsText.length} bytes` : 'no data'}, includePast=${includePast})`);
+
+    if (!icsText || typeof icsText !== 'string') {
+        return res.status(400).json({ error: "Missing calendar data: send 'ics' in a JSON body or upload the file as text/calendar." });
+    }
+
+    try {
+        const ownerId = callerIdentity(res).userId;
+        const zone = await callerTimeZone(res, timeZone);
+        const { reminders, report } = importCalendar(icsText, await reminderRepository.list(), { ownerId, includePast, timeZone: zone });
+        for (const reminder of reminders) {
+            await reminderRepository.add(reminder);
+        }
+        await remindersChanged();
+
+        res.status(200).json({
+            message: `Calendar imported: ${report.created.length} created, ${report.skipped.length} skipped, ${report.failed.length} failed`,
+            ...report
+        });
+    } catch (error) {
+        if (error instanceof IcsParseError || error instanceof TimeZoneError) {
+            return res.status(400).json({ error: error.message });
+        }
+        console.error('Error importing calendar:', error);
+        res.status(500).json({ 
+            error: 'Failed to import calendar',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * Suggests how long the calendar event for a task should be.
+ * Query: 'task' (required), 'location' (optional).
+ * Returns { minutes, source, reason, basedOn? }; source is one of user-rule, history, rule, default.
+ */
+app.get('/tools/suggest_duration', async (req: Request, res: Response) => {
+    const task = typeof req.query.task === 'string' ? req.query.task : '';
+    const location = typeof req.query.location === 'string' ? req.query.location : undefined;
+    console.log(`Executing tool: suggest_duration(task='${task}', location='${location || 'none'}')`);
+
+    if (!task.trim()) {
+        return res.status(400).json({ error: "Missing 'task' query parameter." });
+    }
+
+    try {
+        res.status(200).json(await durationFor(res, resolveLabels(task, {}).task, location));
+    } catch (error) {
+        console.error('Error suggesting duration:', error);
+        res.status(500).json({ 
+            error: 'Failed to suggest an event duration',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * Proposes the next free windows of a given length within the caller's working hours, around their reminders.
+ * Query: 'duration' (minutes) or 'task' (and 'location') to use the duration suggested for it,
+ * 'from' / 'to' (ISO timestamps or time expressions; default now and 14 days later), 'count' (default 3)
+ * and 'timeZone' (zone of the working hours; defaults to the caller's preference).
+ * Returns { duration, slots: [{ start, end, freeUntil, formattedStart }] }.
+ */
+app.get('/tools/find_free_slot', async (req: Request, res: Response) => {
+    console.log(`Executing tool: find_free_slot(${JSON.stringify(req.query)})`);
+    const task = typeof req.query.task === 'string' ? req.query.task : '';
+    const location = typeof req.query.location === 'string' ? req.query.location : undefined;
+
+    if (req.query.duration === undefined && !task.trim()) {
+        return res.status(400).json({ error: "Pass 'duration' (minutes) or the 'task' to suggest one for." });
+    }
+
+    let timeZone;
+    let from;
+    let to;
+    let count;
+    try {
+        timeZone = await callerTimeZone(res, req.query.timeZone as string | undefined);
+        const window = parseReminderQuery({ from: req.query.from, to: req.query.to }, new Date(), timeZone);
+        from = window.from && window.from.getTime() > Date.now() ? window.from : new Date();
+        to = window.to || new Date(from.getTime() + DEFAULT_FREE_SLOT_SEARCH_DAYS * 24 * 60 * 60 * 1000);
+        if (to <= from) {
+            return res.status(400).json({ error: "'to' must be in the future and after 'from'" });
+        }
+        if (to.getTime() - from.getTime() > MAX_FREE_SLOT_SEARCH_DAYS * 24 * 60 * 60 * 1000) {
+            return res.status(400).json({ error: `Search at most ${MAX_FREE_SLOT_SEARCH_DAYS} days at a time` });
+        }
+        count = req.query.count === undefined ? 3 : parseInt(String(req.query.count));
+        if (isNaN(count) || count < 1) {
+            return res.status(400).json({ error: "'count' must be a positive number" });
+        }
+        count = Math.min(count, MAX_FREE_SLOTS);
+    } catch (error) {
+        if (error instanceof ReminderQueryError || error instanceof TimeZoneError) {
+            return res.status(400).json({ error: error.message });
+        }
+        console.error('Error finding free slots:', error);
+        return res.status(500).json({
+            error: 'Failed to find free slots',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+
+    try {
+        const explicit = req.query.duration !== undefined ? normalizeDuration(req.query.duration) : undefined;
+        const duration = await durationFor(res, task.trim() ? resolveLabels(task, {}).task : '', location, explicit);
+        const slots = findFreeSlots(await callerBusyIntervals(res, from, to), {
+            from, to, timeZone, minutes: duration.minutes, calendar: await callerWorkingCalendar(res), count
+        });
+        res.status(200).json({
+            message: slots.length > 0
+                ? `Next free ${duration.minutes}-minute slot: ${formatInZone(new Date(slots[0].start), timeZone)}`
+                : `No free ${duration.minutes}-minute slot in working hours between ${formatInZone(from, timeZone)} and ${formatInZone(to, timeZone)}`,
+            duration,
+            timeZone,
+            slots: slots.map(slot => ({ ...slot, formattedStart: formatInZone(new Date(slot.start), timeZone) }))
+        });
+    } catch (error) {
+        if (error instanceof DurationRuleError) {
+            return res.status(400).json({ error: `duration: ${error.message}` });
+        }
+        console.error('Error finding free slots:', error);
+        res.status(500).json({
+            error: 'Failed to find free slots',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * Dry run of send_email_reminder: parses the time, suggests the duration and renders the
+ * calendar invite and email subject exactly as a send would, without storing or emailing anything.
+ * Takes the same JSON body ('email' and 'attendees' are optional here). A time that send_email_reminder would refuse
+ * is still previewed with its best reading, plus the 'clarification' the send would answer with,
+ * and reminders the event would overlap are listed in 'conflicts'.
+ */
+app.post('/tools/preview_reminder', async (req: Request, res: Response) => {
+    const { time, email, attendees, eventDuration, eventLocation, recurrence, recurrenceExceptions, tags, priority, category, timeZone, recipientTimeZone, locale, recipientLocale, workingDaysOnly, alarms, allDay } = req.body;
+    console.log(`Executing tool: preview_reminder(time='${time}', task='${req.body.task}', recurrence='${recurrence || 'none'}')`);
+
+    if (!time || !req.body.task) {
+        return res.status(400).json({ error: "Missing 'time' or 'task' in request body." });
+    }
+
+    let schedule;
+    let clarification: TimeClarification | undefined;
+    let labels;
+    let displayTimeZone;
+    let emailLocale;
+    let duration: DurationSuggestion | undefined;
+    let invitees;
+    let organizer;
+    let alarmPlan: ReminderAlarm[];
+    try {
+        invitees = normalizeAttendees(email, attendees);
+        organizer = await callerOrganizer(res);
+        const timeLocale = await callerLocale(res, locale);
+        const zone = await callerTimeZone(res, timeZone);
+        const context = { locale: timeLocale, calendar: await callerWorkingCalendar(res), workingDaysOnly: !!workingDaysOnly, allDay: !!allDay };
+        try {
+            schedule = scheduleFor(time, recurrence, recurrenceExceptions, zone, context, true);
+        } catch (error) {
+            if (!(error instanceof TimeClarificationError)) {
+                throw error;
+            }
+            clarification = error.clarification;
+            schedule = scheduleFor(time, recurrence, recurrenceExceptions, zone, context);
+        }
+        displayTimeZone = resolveTimeZone(recipientTimeZone, schedule.timeZone);
+        emailLocale = resolveLocale(recipientLocale, timeLocale.code);
+        labels = resolveLabels(req.body.task, { tags, priority, category });
+        alarmPlan = (await alarmPlanFor(res, alarms, schedule, context, DEFAULT_ALARMS))!;
+        duration = schedule.allDayStart ? undefined : await durationFor(res, labels.task, eventLocation, eventDuration ?? undefined);
+    } catch (error) {
+        if (error instanceof DurationRuleError) {
+            return res.status(400).json({ error: `eventDuration: ${error.message}` });
+        }
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid recurrence' });
+    }
+
+    try {
+        const start = new Date(schedule.dueAt);
+        // An all-day preview spans its days (its start is when it notifies)
+        const days = reminderDays(schedule);
+        const end = days ? spanBounds(days, schedule.timeZone!).end : new Date(start.getTime() + duration!.minutes * 60 * 1000);
+        const recurrenceRule = schedule.recurrence ? formatRRule(schedule.recurrence) : undefined;
+        const conflicts = duration ? await scheduleConflicts(res, schedule, duration.minutes) : [];
+        const invite = await generateCalendarInvite({
+            title: labels.task,
+            description: emailLocale.messages.eventDescription(labels.task),
+            startDateTime: time,
+            startDate: start,
+            duration: duration?.minutes,
+            ...(days ? { days } : {}),
+            location: eventLocation,
+            attendees: invitees,
+            organizer,
+            alarms: alarmPlan,
+            recurrenceRule,
+            exclusionDates: schedule.recurrence ? exceptionInstants(schedule.recurrence, start, schedule.timeZone) : undefined,
+            timeZone: schedule.timeZone,
+            locale: emailLocale
+        });
+
+        res.status(200).json({
+            message: `Preview only, nothing was saved or sent: ${labels.task} at ${formatInZone(start, displayTimeZone)}`,
+            start: start.toISOString(),
+            end: end.toISOString(),
+            timeZone: schedule.timeZone,
+            recipientTimeZone: displayTimeZone,
+            formattedStart: formatInZone(start, displayTimeZone, undefined, emailLocale.dateLocale),
+            interpretation: schedule.timeInterpretation,
+            confidence: schedule.timeConfidence,
+            ...(clarification ? { clarification } : {}),
+            ...(conflicts.length > 0 ? { conflicts } : {}),
+            ...(schedule.recurrence ? { recurrence: describeRecurrence(schedule.recurrence, displayTimeZone), recurrenceRule } : {}),
+            ...(days ? { allDay: { ...days, description: describeDaySpan(days, emailLocale.dateLocale) } } : { duration }),
+            alarms: alarmPlan.map(alarm => describeAlarm(alarm, displayTimeZone)),
+            ...labels,
+            locale: emailLocale.code,
+            email: {
+                ...(invitees.length > 0 ? { to: invitees.map(attendee => attendee.email).join(', '), attendees: invitees } : {}),
+                ...(organizer ? { organizer } : {}),
+                subject: reminderEmailSubject(emailLocale, labels.task, labels.priority)
+            },
+            ics: invite
+        });
+    } catch (error) {
+        console.error('Error previewing reminder:', error);
+        res.status(500).json({
+            error: 'Failed to preview reminder',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * The time zone, language, working calendar, invite organizer and alarms that currently apply to a user with these preferences
+ */
+async function effectivePreferences(preferences: UserPreferences) {
+    const calendar = buildWorkingCalendar(preferences, await holidayFile.load());
+    return {
+        effectiveTimeZone: resolveTimeZone(preferences.timeZone),
+        effectiveLocale: resolveLocale(preferences.locale).code,
+        effectiveWorkWeek: calendar.workDays.map(day => WORK_DAY_CODES[day]),
+        effectiveWorkingHours: formatWorkingHours(calendar.workHours),
+        effectiveOrganizer: {
+            name: preferences.organizerName || resolveLocale(preferences.locale).messages.organizerName,
+            email: preferences.organizerEmail || process.env.EMAIL_USER || 'assistant@example.com'
+        },
+        effectiveAlarms: (preferences.alarms ?? DEFAULT_ALARMS).map(alarm => describeAlarm(alarm, resolveTimeZone(preferences.timeZone))),
+        holidays: calendar.holidays
+    };
+}
+
+/**
+ * Returns the caller's preferences, with the time zone, language, work week and holidays that currently apply to them
+ */
+app.get('/tools/get_preferences', async (req: Request, res: Response) => {
+    console.log('Executing tool: get_preferences()');
+
+    try {
+        const preferences = await preferencesRepository.get(callerIdentity(res).userId);
+        res.status(200).json({
+            preferences,
+            ...await effectivePreferences(preferences)
+        });
+    } catch (error) {
+        console.error('Error loading preferences:', error);
+        res.status(500).json({ 
+            error: 'Failed to load preferences',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * Updates the caller's preferences.
+ * Expects a JSON body with any of 'timeZone' (IANA name; empty string falls back to the server zone),
+ * 'locale' (language tag such as "es" or "de-DE"; empty string falls back to the default language),
+ * 'workWeek' (e.g. "mon-fri" or "sun-thu"), 'workingHours' (e.g. "09:00-17:00") and 'organizerName' / 'organizerEmail'
+ * (organizer of the caller's calendar invites) and 'alarms' (default alerts, e.g. ["1 hour before"]); empty strings restore the defaults.
+ */
+app.post('/tools/update_preferences', async (req: Request, res: Response) => {
+    console.log(`Executing tool: update_preferences(${JSON.stringify(req.body)})`);
+
+    let changes;
+    try {
+        changes = parsePreferenceChanges(req.body || {});
+    } catch (error) {
+        if (error instanceof PreferenceError) {
+            return res.status(400).json({ error: error.message });
+        }
+        throw error;
+    }
+
+    try {
+        const preferences = await preferencesRepository.update(callerIdentity(res).userId, changes);
+        res.status(200).json({
+            message: 'Preferences updated',
+            preferences,
+            ...await effectivePreferences(preferences)
+        });
+    } catch (error) {
+        console.error('Error updating preferences:', error);
+        res.status(500).json({ 
+            error: 'Failed to update preferences',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// list_reminders filters that also narrow the calendar feed
+const FEED_FILTERS = ['tags', 'from', 'to', 'dueOn', 'status', 'priority', 'category', 'search'];
+
+function feedFilters(params: Record<string, any>): Record<string, string> {
+    const filters: Record<string, string> = {};
+    for (const name of FEED_FILTERS) {
+        if (params[name] !== undefined && params[name] !== '') {
+            filters[name] = Array.isArray(params[name]) ? params[name].join(',') : String(params[name]);
+        }
+    }
+    return filters;
+}
+
+/**
+ * Returns the caller's calendar feed URL to subscribe to in a calendar app (see /calendar/feed.ics).
+ * Optional query parameters narrow the feed like list_reminders: 'tags', 'from', 'to', 'dueOn',
+ * 'status', 'priority', 'category', 'search' (relative windows such as "today" are re-read on every refresh).
+ */
+app.get('/tools/get_calendar_feed', async (req: Request, res: Response) => {
+    console.log(`Executing tool: get_calendar_feed(${JSON.stringify(req.query)})`);
+
+    const filters = feedFilters(req.query);
+    try {
+        parseReminderQuery(filters, new Date(), await callerTimeZone(res));
+    } catch (error) {
+        if (error instanceof ReminderQueryError) {
+            return res.status(400).json({ error: error.message });
+        }
+        console.error('Error building calendar feed URL:', error);
+        return res.status(500).json({
+            error: 'Failed to build the calendar feed URL',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+
+    try {
+        const userId = callerIdentity(res).userId;
+        const url = buildCalendarFeedUrl(userId, filters, (await preferencesRepository.get(userId)).calendarFeedVersion);
+        res.status(200).json({
+            message: 'Subscribe to this URL in your calendar app (e.g. "Add calendar from URL"); keep it private, it grants read access to your reminders.',
+            url,
+            webcalUrl: url.replace(/^https?:/, 'webcal:'),
+            filters
+        });
+    } catch (error) {
+        console.error('Error building calendar feed URL:', error);
+        res.status(500).json({
+            error: 'Failed to build the calendar feed URL',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * Revokes every calendar feed URL the caller was given (e.g. after one leaked) and returns a new one.
+ * Calendar apps subscribed to an old URL stop updating and must subscribe again.
+ */
+app.post('/tools/reset_calendar_feed', async (req: Request, res: Response) => {
+    console.log('Executing tool: reset_calendar_feed()');
+
+    try {
+        const userId = callerIdentity(res).userId;
+        const version = ((await preferencesRepository.get(userId)).calendarFeedVersion || 0) + 1;
+        await preferencesRepository.update(userId, { calendarFeedVersion: version });
+        const url = buildCalendarFeedUrl(userId, {}, version);
+        res.status(200).json({
+            message: 'Your previous calendar feed URLs no longer work. Subscribe to this new URL in your calendar app.',
+            url,
+            webcalUrl: url.replace(/^https?:/, 'webcal:')
+        });
+    } catch (error) {
+        console.error('Error resetting calendar feed:', error);
+        res.status(500).json({
+            error: 'Failed to reset the calendar feed',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// --- Reminder Export ---
+
+/**
+ * Runs the export a request asks for: 'format' plus the list_reminders filters, dates and labels in
+ * the caller's time zone and language. Responds with the error and returns undefined when it fails.
+ */
+async function callerExport(req: Request, res: Response): Promise<ReminderExport | undefined> {
+    let format;
+    try {
+        format = parseExportFormat(req.query.format);
+    } catch (error) {
+        if (error instanceof ExportError) {
+            res.status(400).json({ error: error.message });
+            return undefined;
+        }
+        throw error;
+    }
+    const query = await callerReminderQuery(req, res, 'export reminders');
+    if (!query) {
+        return undefined;
+    }
+
+    try {
+        const { reminders } = queryReminders(await reminderRepository.list(), query);
+        return await exportReminders(reminders, format, {
+            timeZone: await callerTimeZone(res, req.query.timeZone as string | undefined),
+            locale: await callerLocale(res, req.query.locale as string | undefined),
+            title: `Reminders (${callerIdentity(res).userId})`,
+            from: query.from,
+            to: query.to
+        });
+    } catch (error) {
+        if (error instanceof LocaleError) {
+            res.status(400).json({ error: error.message });
+            return undefined;
+        }
+        console.error('Error exporting reminders:', error);
+        res.status(500).json({
+            error: 'Failed to export reminders',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+        return undefined;
+    }
+}
+
+/**
+ * The caller's reminders as a file, for a browser or curl: takes the export_reminders parameters,
+ * plus 'download=true' to save it (Content-Disposition: attachment) rather than show it.
+ */
+app.get('/reminders/export', identityResolver.middleware(), async (req: Request, res: Response) => {
+    console.log(`Exporting reminders (${JSON.stringify(req.query)})`);
+
+    const exported = await callerExport(req, res);
+    if (exported) {
+        const disposition = req.query.download === 'true' ? 'attachment' : 'inline';
+        res.set({
+            'Content-Type': exported.contentType,
+            'Content-Disposition': `${disposition}; filename="${exported.filename}"`,
+            'X-Total-Count': String(exported.count)
+        });
+        res.status(200).send(exported.content);
+    }
+});
+
+// --- Calendar Feed ---
+
+/**
+ * Subscribable iCalendar feed of a user's reminders (see calendar-feed.ts).
+ * Authorized by the signed 'user' and 'token' from get_calendar_feed, or by an API token
+ * ("Authorization: Bearer <token>"); takes the get_calendar_feed filters as query parameters.
+ * Answers 304 when If-None-Match / If-Modified-Since show the client is up to date.
+ */
+app.get('/calendar/feed.ics', async (req: Request, res: Response) => {
+    const { user, token } = req.query as Record<string, string>;
+
+    let userId: string;
+    if (user !== undefined || token !== undefined) {
+        let valid = false;
+        try {
+            valid = !!user && !!token && verifyCalendarFeedToken(user, token, (await preferencesRepository.get(user)).calendarFeedVersion);
+        } catch (error) {
+            console.error('Error checking calendar feed token:', error);
+            return res.status(500).type('text/plain').send('Failed to load the calendar feed.');
+        }
+        if (!valid) {
+            return res.status(403).type('text/plain').send('This calendar feed link is invalid.');
+        }
+        userId = user;
+    } else if (req.headers.authorization) {
+        try {
+            userId = identityResolver.resolve(req).userId;
+        } catch (error) {
+            if (error instanceof AuthenticationError) {
+                return res.status(401).type('text/plain').send(error.message);
+            }
+            throw error;
+        }
+    } else {
+        return res.status(401).type('text/plain').send('Calendar feed token required: use the URL from get_calendar_feed.');
+    }
+    console.log(`Serving calendar feed for '${userId}'`);
+
+    let query;
+    try {
+        const preferences = await preferencesRepository.get(userId);
+        query = parseReminderQuery(feedFilters(req.query), new Date(), resolveTimeZone(preferences.timeZone));
+    } catch (error) {
+        if (error instanceof ReminderQueryError) {
+            return res.status(400).type('text/plain').send(error.message);
+        }
+        console.error('Error loading calendar feed:', error);
+        return res.status(500).type('text/plain').send('Failed to load the calendar feed.');
+    }
+    query.ownerId = userId;
+
+    try {
+        const { reminders } = queryReminders(await reminderRepository.list(), query);
+        const feed = await renderCalendarFeed(reminders, `Reminders (${userId})`);
+        res.set({
+            'Content-Type': 'text/calendar; charset=utf-8',
+            'Content-Disposition': 'inline; filename="reminders.ics"',
+            'Cache-Control': 'private, no-cache',
+            ETag: feed.etag,
+            ...(feed.lastModified ? { 'Last-Modified': feed.lastModified.toUTCString() } : {})
+        });
+        // Express answers 304 itself when the request's validators still match
+        res.send(feed.content);
+    } catch (error) {
+        console.error('Error rendering calendar feed:', error);
+        res.status(500).type('text/plain').send('Failed to render the calendar feed.');
+    }
+});
+
+// --- Calendar Replies ---
+
+/**
+ * Takes attendees' iMIP replies (RSVPs) to the invites reminders emailed, e.g. from a mail provider's
+ * inbound webhook (see rsvp-replies.ts): the whole email as message/rfc822, the calendar as
+ * text/calendar, or JSON { message } / { ics }. Authorized like the tools: replies only update the
+ * caller's reminders (everyone's for admins). Returns the outcome for each attendee in 'results'.
+ */
+app.post('/calendar/replies', identityResolver.middleware(), express.text({ type: ['text/calendar', 'message/rfc822', 'text/plain'], limit: '5mb' }), async (req: Request, res: Response) => {
+    const text = typeof req.body === 'string' ? req.body : req.body?.message ?? req.body?.ics;
+    console.log(`Processing calendar reply (${typeof text === 'string' ? `${text.length} bytes` : 'no data'})`);
+
+    if (!text || typeof text !== 'string') {
+        return res.status(400).json({ error: "Missing reply: send the email as message/rfc822, the calendar as text/calendar, or 'message' / 'ics' in a JSON body." });
+    }
+
+    try {
+        const identity = callerIdentity(res);
+        const results = await recordRsvpReplies(reminderRepository, readRsvpReplies(text), {
+            canAccess: reminder => canAccessReminder(identity, reminder)
+        });
+        const recorded = results.filter(result => result.outcome === 'recorded').length;
+        if (recorded > 0) {
+            await remindersChanged();
+        }
+        res.status(200).json({
+            message: `Reply processed: ${recorded} of ${results.length} responses recorded`,
+            results
+        });
+    } catch (error) {
+        if (error instanceof RsvpError || error instanceof IcsParseError) {
+            return res.status(400).json({ error: error.message });
+        }
+        console.error('Error processing calendar reply:', error);
+        res.status(500).json({
+            error: 'Failed to process the calendar reply',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// --- Email Action Links ---
+
+function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function renderActionPage(title: string, body: string): string {
+    return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${escapeHtml(title)}</title></head>
+<body style="font-family: Arial, sans-serif; max-width: 480px; margin: 60px auto; padding: 0 20px; color: #333;">
+    <h2 style="color: #667eea;">${escapeHtml(title)}</h2>
+    ${body}
+</body>
+</html>`;
+}
+
+/**
+ * Landing page for the signed links in reminder emails.
+ * GET only shows a confirmation button so link scanners and previews cannot change anything;
+ * the button POSTs back to the same signed URL.
+ */
+app.get('/reminders/:id/:action', async (req: Request, res: Response) => {
+    const { id, action } = req.params;
+    const error = verifyReminderActionLink({ id, action, ...(req.query as Record<string, string>) });
+    if (error) {
+        return res.status(403).send(renderActionPage('Link not valid', `<p>${escapeHtml(error)}</p>`));
+    }
+
+    let reminder;
+    try {
+        reminder = await reminderRepository.get(id);
+    } catch (error) {
+        console.error('Error loading reminder for email action:', error);
+        return res.status(500).send(renderActionPage('Something went wrong', '<p>Please try again later.</p>'));
+    }
+    if (!reminder) {
+        return res.status(404).send(renderActionPage('Reminder not found', '<p>This reminder no longer exists.</p>'));
+    }
+
+    const question = action === 'done'
+        ? 'Mark this reminder as done?'
+        : `Snooze this reminder (${escapeHtml(String(req.query.snooze))})?`;
+    res.send(renderActionPage(reminder.task, `
+    <p>${question}</p>
+    <form method="post" action="${escapeHtml(req.originalUrl)}">
+        <button type="submit" style="background: #667eea; color: white; border: none; padding: 10px 20px; border-radius: 6px; font-size: 16px;">Confirm</button>
+    </form>`));
+});
+
+app.post('/reminders/:id/:action', async (req: Request, res: Response) => {
+    const { id, action } = req.params;
+    const { snooze } = req.query as Record<string, string>;
+    console.log(`Executing email action: ${action}(id='${id}'${snooze ? `, snooze='${snooze}'` : ''})`);
+
+    const error = verifyReminderActionLink({ id, action, ...(req.query as Record<string, string>) });
+    if (error) {
+        return res.status(403).send(renderActionPage('Link not valid', `<p>${escapeHtml(error)}</p>`));
+    }
+
+    try {
+        if (action === 'done') {
+            const updated = await reminderRepository.update(id, { status: 'completed', completedAt: new Date().toISOString() });
+            if (!updated) {
+                return res.status(404).send(renderActionPage('Reminder not found', '<p>This reminder no longer exists.</p>'));
+            }
+            await remindersChanged();
+            return res.send(renderActionPage('Done ✅', `<p>"${escapeHtml(updated.task)}" is marked as done.</p>`));
+        }
+
+        const updated = await snoozeReminder(id, snooze, 'email');
+        if (!updated) {
+            return res.status(404).send(renderActionPage('Reminder not found', '<p>This reminder no longer exists.</p>'));
+        }
+        const dueAt = formatInZone(new Date(updated.dueAt), updated.timeZone || serverTimeZone());
+        res.send(renderActionPage('Snoozed 😴', `<p>"${escapeHtml(updated.task)}" will remind you again at ${escapeHtml(dueAt)}.</p>`));
+    } catch (error) {
+        if (error instanceof SnoozeError) {
+            return res.status(400).send(renderActionPage('Could not snooze', `<p>${escapeHtml(error.message)}</p>`));
+        }
+        console.error('Error handling email action:', error);
+        res.status(500).send(renderActionPage('Something went wrong', '<p>Please try again later.</p>'));
+    }
+});
+
 // --- Agent Execution Endpoint ---
 
 /**
@@ -151,7 +1735,8 @@ app.post('/agent/execute', async (req: Request, res: Response) => {
     
     try {
         console.log(`Executing agent query: ${query}`);
-        const result = await executeAgentQuery(query);
+        // The agent's tool calls run as the same caller
+        const result = await executeAgentQuery(query, forwardedCredentials(req));
         res.json(result);
     } catch (error) {
         console.error('Error executing agent query:', error);
@@ -172,6 +1757,9 @@ app.post('/agent/execute', async (req: Request, res: Response) => {
 // Start the server
 app.listen(port, () => {
     console.log(`🚀 MCP Server running at http://localhost:${port}`);
+    reminderScheduler.start().catch(error => console.error('❌ Failed to start reminder scheduler:', error));
+    caldavSync?.start();
+    rsvpMailbox?.start();
     console.log('');
     console.log('📡 Available Interfaces:');
     console.log(`  • Simple HTTP API: http://localhost:${port}/tools/*`);
@@ -181,6 +1769,23 @@ app.listen(port, () => {
     console.log('  • /tools/add_reminder (HTTP)');
     console.log('  • /tools/send_email_reminder (HTTP)'); 
     console.log('  • /tools/list_reminders (HTTP)');
+    console.log('  • /tools/get_reminder (HTTP)');
+    console.log('  • /tools/export_reminders (HTTP)');
+    console.log('  • /tools/update_reminder (HTTP)');
+    console.log('  • /tools/delete_reminder (HTTP)');
+    console.log('  • /tools/complete_reminder (HTTP)');
+    console.log('  • /tools/snooze_reminder (HTTP)');
+    console.log('  • /tools/import_calendar (HTTP)');
+    console.log('  • /tools/suggest_duration (HTTP)');
+    console.log('  • /tools/find_free_slot (HTTP)');
+    console.log('  • /tools/preview_reminder (HTTP)');
+    console.log('  • /tools/get_preferences (HTTP)');
+    console.log('  • /tools/update_preferences (HTTP)');
+    console.log('  • /tools/get_calendar_feed (HTTP)');
+    console.log('  • /tools/reset_calendar_feed (HTTP)');
+    console.log('  • /calendar/feed.ics (calendar subscription)');
+    console.log('  • /calendar/replies (iMIP RSVP replies)');
+    console.log('  • /reminders/export (CSV, JSON, Markdown, iCalendar, jCal)');
     console.log('');
     console.log('🔌 MCP Endpoints:');
     console.log('  • /mcp/initialize (MCP Protocol)');
@@ -0,0 +1,499 @@
+// recurrence.ts
+// 🔁 RECURRING REMINDERS
+//
+// A small, dependency-free subset of RFC 5545 recurrence rules:
+// - FREQ=DAILY/WEEKLY/MONTHLY/YEARLY with INTERVAL
+// - BYDAY (plain "MO" or ordinal "1MO" / "-1FR" for monthly/yearly rules)
+// - BYMONTHDAY, BYMONTH
+// - COUNT / UNTIL and exception dates (EXDATE)
+//
+// Rules can be written as natural language ("every weekday", "first Monday
+// of each month") or as a raw RRULE string, and are expanded into concrete
+// occurrences for the scheduler, list views and ICS output.
+//
+// Occurrences are computed on the wall clock of the reminder's time zone, so a
+// weekly 9 AM reminder stays at 9 AM when daylight saving time starts or ends.
+
+import { parseTimeExpression } from './calendar-utils';
+import { LocalePack } from './locales';
+import { fromZonedWall, serverTimeZone, toZonedWall } from './timezone';
+import { WorkingCalendar } from './working-calendar';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceRule {
+    frequency: RecurrenceFrequency;
+    interval?: number;      // every N periods, defaults to 1
+    byDay?: string[];       // e.g. ['MO', 'WE'] or ['1MO', '-1FR']
+    byMonthDay?: number[];  // e.g. [1, 15, -1]
+    byMonth?: number[];     // 1-12
+    count?: number;         // total number of occurrences
+    until?: string;         // ISO instant, inclusive
+    exceptions?: string[];  // local dates (YYYY-MM-DD) whose occurrence is skipped
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES: Record<string, string> = {
+    sunday: 'SU', sun: 'SU',
+    monday: 'MO', mon: 'MO',
+    tuesday: 'TU', tue: 'TU', tues: 'TU',
+    wednesday: 'WE', wed: 'WE',
+    thursday: 'TH', thu: 'TH', thur: 'TH', thurs: 'TH',
+    friday: 'FR', fri: 'FR',
+    saturday: 'SA', sat: 'SA'
+};
+const ORDINALS: Record<string, number> = {
+    first: 1, '1st': 1,
+    second: 2, '2nd': 2,
+    third: 3, '3rd': 3,
+    fourth: 4, '4th': 4,
+    fifth: 5, '5th': 5,
+    last: -1
+};
+const UNIT_FREQUENCIES: Record<string, RecurrenceFrequency> = {
+    day: 'DAILY', week: 'WEEKLY', month: 'MONTHLY', year: 'YEARLY'
+};
+
+// Guards against rules that can never produce an occurrence (e.g. Feb 30th)
+const MAX_PERIODS = 5000;
+
+const WEEKDAY_PATTERN = Object.keys(WEEKDAY_NAMES).sort((a, b) => b.length - a.length).join('|');
+const ORDINAL_PATTERN = Object.keys(ORDINALS).join('|');
+
+/**
+ * Parse a raw RRULE ("RRULE:FREQ=WEEKLY;BYDAY=MO,WE") into a rule
+ */
+export function parseRRule(rrule: string): RecurrenceRule {
+    const body = rrule.trim().replace(/^RRULE:/i, '');
+    const parts: Record<string, string> = {};
+    for (const part of body.split(';')) {
+        const [key, value] = part.split('=');
+        if (key && value) {
+            parts[key.trim().toUpperCase()] = value.trim();
+        }
+    }
+
+    const frequency = (parts.FREQ || '').toUpperCase() as RecurrenceFrequency;
+    if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(frequency)) {
+        throw new Error(`Unsupported recurrence frequency: ${parts.FREQ || 'missing'}`);
+    }
+
+    const rule: RecurrenceRule = { frequency };
+    if (parts.INTERVAL) rule.interval = parseInt(parts.INTERVAL);
+    if (parts.BYDAY) rule.byDay = parts.BYDAY.toUpperCase().split(',');
+    if (parts.BYMONTHDAY) rule.byMonthDay = parts.BYMONTHDAY.split(',').map(Number);
+    if (parts.BYMONTH) rule.byMonth = parts.BYMONTH.split(',').map(Number);
+    if (parts.COUNT) rule.count = parseInt(parts.COUNT);
+    if (parts.UNTIL) rule.until = parseIcsDateTime(parts.UNTIL).toISOString();
+    return rule;
+}
+
+/**
+ * Format a rule as an RRULE value (without the "RRULE:" prefix, as the ics package expects)
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+    const parts = [`FREQ=${rule.frequency}`];
+    if (rule.interval && rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+    if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+    if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+    if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+    if (rule.count) parts.push(`COUNT=${rule.count}`);
+    if (rule.until) parts.push(`UNTIL=${new Date(rule.until).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+    return parts.join(';');
+}
+
+/**
+ * Human-readable summary, e.g. "every 2 weeks on MO, WE (10 times)"
+ */
+export function describeRecurrence(rule: RecurrenceRule, timeZone: string = serverTimeZone()): string {
+    const interval = rule.interval || 1;
+    const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[rule.frequency];
+    let description = interval === 1 ? `every ${unit}` : `every ${interval} ${unit}s`;
+
+    if (rule.byDay?.length) description += ` on ${rule.byDay.join(', ')}`;
+    if (rule.byMonthDay?.length) description += ` on day ${rule.byMonthDay.join(', ')}`;
+    if (rule.byMonth?.length) description += ` in month ${rule.byMonth.join(', ')}`;
+    if (rule.count) description += ` (${rule.count} times)`;
+    if (rule.until) description += ` until ${new Date(rule.until).toLocaleDateString('en-US', { timeZone })}`;
+    if (rule.exceptions?.length) description += `, except ${rule.exceptions.join(', ')}`;
+    return description;
+}
+
+/**
+ * Find a recurrence phrase inside a time expression.
+ * Returns the rule plus the text that is left once the phrase is removed,
+ * e.g. "every weekday at 9 AM" → { rule: weekdays, remainder: "at 9 AM" }.
+ */
+export function extractRecurrence(text: string, timeZone: string = serverTimeZone()): { rule: RecurrenceRule; remainder: string } | null {
+    if (/^\s*(rrule:)?freq=/i.test(text)) {
+        return { rule: parseRRule(text), remainder: '' };
+    }
+
+    let remaining = ` ${text.toLowerCase()} `;
+    let rule: RecurrenceRule | null = null;
+
+    const consume = (pattern: RegExp): RegExpMatchArray | null => {
+        const match = remaining.match(pattern);
+        if (match) {
+            remaining = remaining.replace(match[0], ' ');
+        }
+        return match;
+    };
+
+    let match: RegExpMatchArray | null;
+
+    if ((match = consume(new RegExp(`\\b(?:on )?(?:the )?(${ORDINAL_PATTERN}) (${WEEKDAY_PATTERN}) of (?:each|every|the) month\\b`)))) {
+        rule = { frequency: 'MONTHLY', byDay: [`${ORDINALS[match[1]]}${WEEKDAY_NAMES[match[2]]}`] };
+    } else if ((match = consume(/\b(?:every|each) (?:working day|weekday|business day)s?\b|\b(?:on )?weekdays\b/))) {
+        rule = { frequency: 'WEEKLY', byDay: ['MO', 'TU', 'WE', 'TH', 'FR'] };
+    } else if ((match = consume(/\b(?:every|each) weekend\b|\b(?:on )?weekends\b/))) {
+        rule = { frequency: 'WEEKLY', byDay: ['SA', 'SU'] };
+    } else if ((match = consume(new RegExp(`\\b(?:every|each) (other )?((?:${WEEKDAY_PATTERN})s?(?:(?:,| and|, and) (?:${WEEKDAY_PATTERN})s?)*)\\b`)))) {
+        rule = { frequency: 'WEEKLY', byDay: weekdayCodes(match[2]), ...(match[1] ? { interval: 2 } : {}) };
+    } else if ((match = consume(/\b(?:every|each) (other |\d+ )?(day|week|month|year)s?\b/))) {
+        const interval = match[1] ? (match[1].trim() === 'other' ? 2 : parseInt(match[1])) : 1;
+        rule = { frequency: UNIT_FREQUENCIES[match[2]], ...(interval > 1 ? { interval } : {}) };
+    } else if ((match = consume(/\b(daily|weekly|monthly|yearly|annually|fortnightly|biweekly)\b/))) {
+        const word = match[1];
+        if (word === 'fortnightly' || word === 'biweekly') {
+            rule = { frequency: 'WEEKLY', interval: 2 };
+        } else {
+            rule = { frequency: word === 'annually' ? 'YEARLY' : word.toUpperCase() as RecurrenceFrequency };
+        }
+    }
+
+    if (!rule) {
+        return null;
+    }
+
+    // "on the 15th" for monthly rules
+    if (rule.frequency === 'MONTHLY' && !rule.byDay) {
+        const dayMatch = consume(/\b(?:on )?the (\d{1,2})(?:st|nd|rd|th)?(?: of (?:each|every|the) month)?\b|\bon the last day(?: of (?:each|every|the) month)?\b/);
+        if (dayMatch) {
+            rule.byMonthDay = [dayMatch[1] ? parseInt(dayMatch[1]) : -1];
+        }
+    }
+
+    // "on Monday and Friday" after "every week"
+    if (rule.frequency === 'WEEKLY' && !rule.byDay) {
+        const dayMatch = consume(new RegExp(`\\bon ((?:${WEEKDAY_PATTERN})s?(?:(?:,| and|, and) (?:${WEEKDAY_PATTERN})s?)*)\\b`));
+        if (dayMatch) {
+            rule.byDay = weekdayCodes(dayMatch[1]);
+        }
+    }
+
+    const countMatch = consume(/\b(?:for )?(\d+) (?:times|occurrences)\b/);
+    if (countMatch) {
+        rule.count = parseInt(countMatch[1]);
+    }
+
+    const untilMatch = consume(/\buntil (.+?)\s*$/);
+    if (untilMatch) {
+        rule.until = endOfDay(parseDateExpression(untilMatch[1], timeZone), timeZone).toISOString();
+    }
+
+    return { rule, remainder: remaining.replace(/\s+/g, ' ').trim() };
+}
+
+/**
+ * Parse a natural-language or RRULE recurrence, e.g. "every other Tuesday"
+ */
+export function parseRecurrenceExpression(text: string, timeZone: string = serverTimeZone()): RecurrenceRule | null {
+    return extractRecurrence(text, timeZone)?.rule || null;
+}
+
+export interface ReminderSchedule {
+    dueAt: Date;
+    recurrence?: RecurrenceRule;
+    timeText: string; // the part of the expression that fixes the day and time ('' when it only names a recurrence)
+}
+
+/**
+ * Resolve when a reminder is first due.
+ * The recurrence may be passed separately ("every weekday") or be embedded in
+ * the time expression ("every weekday at 9 AM"); the rest of the expression
+ * sets the time of day (9 AM when none is given). `locale` is the language of that
+ * time of day; recurrences are always English. `calendar` gives business-day phrases
+ * their working days and hours.
+ */
+export function resolveReminderSchedule(
+    time: string,
+    recurrence?: string,
+    exceptions: string[] = [],
+    now: Date = new Date(),
+    timeZone: string = serverTimeZone(),
+    locale?: LocalePack,
+    calendar?: WorkingCalendar
+): ReminderSchedule {
+    const embedded = extractRecurrence(time, timeZone);
+    let rule: RecurrenceRule | null = null;
+    let timeText = time;
+
+    if (recurrence) {
+        rule = parseRecurrenceExpression(recurrence, timeZone);
+        if (!rule) {
+            throw new Error(`Could not understand recurrence "${recurrence}"`);
+        }
+        timeText = embedded ? embedded.remainder : time;
+    } else if (embedded) {
+        rule = embedded.rule;
+        timeText = embedded.remainder;
+    }
+
+    if (!rule) {
+        return { dueAt: parseTimeExpression(time, now, timeZone, locale, calendar), timeText: time };
+    }
+
+    if (exceptions.length > 0) {
+        rule.exceptions = normalizeExceptionDates(exceptions, timeZone);
+    }
+
+    let anchor: Date;
+    if (timeText.trim()) {
+        anchor = parseTimeExpression(timeText, now, timeZone, locale, calendar);
+    } else {
+        const wall = toZonedWall(now, timeZone);
+        wall.setUTCHours(9, 0, 0, 0);
+        anchor = fromZonedWall(wall, timeZone);
+    }
+
+    // The anchor only fixes the time of day; the first occurrence must not be in the past
+    const earliest = anchor > now ? anchor : now;
+    const dueAt = nextOccurrence(rule, anchor, new Date(earliest.getTime() - 1), timeZone);
+    if (!dueAt) {
+        throw new Error(`Recurrence "${describeRecurrence(rule, timeZone)}" has no upcoming occurrences`);
+    }
+    return { dueAt, recurrence: rule, timeText: timeText.trim() };
+}
+
+/**
+ * Exception dates of a series as instants at the series' time of day (for EXDATE)
+ */
+export function exceptionInstants(rule: RecurrenceRule, start: Date, timeZone: string = serverTimeZone()): Date[] {
+    const startWall = toZonedWall(start, timeZone);
+    return (rule.exceptions || []).map(key => {
+        const [year, month, day] = key.split('-').map(Number);
+        const wall = new Date(Date.UTC(year, month - 1, day, startWall.getUTCHours(), startWall.getUTCMinutes()));
+        return fromZonedWall(wall, timeZone);
+    });
+}
+
+/**
+ * Normalize free-form exception dates ("2026-12-25", "next week") to local YYYY-MM-DD
+ */
+export function normalizeExceptionDates(dates: string[], timeZone: string = serverTimeZone()): string[] {
+    return dates.map(date => toLocalDateKey(parseDateExpression(date, timeZone), timeZone));
+}
+
+/**
+ * All occurrences of the series in [from, to], at most `limit`
+ *
+ * @param start - First instant of the series (DTSTART); sets the time of day and period anchor
+ */
+export function occurrencesBetween(
+    rule: RecurrenceRule,
+    start: Date,
+    from: Date,
+    to: Date,
+    limit = 100,
+    timeZone: string = serverTimeZone()
+): Date[] {
+    const occurrences: Date[] = [];
+    for (const occurrence of iterateOccurrences(rule, start, timeZone)) {
+        if (occurrence > to || occurrences.length >= limit) {
+            break;
+        }
+        if (occurrence >= from) {
+            occurrences.push(occurrence);
+        }
+    }
+    return occurrences;
+}
+
+/**
+ * First occurrence strictly after `after`, or null when the series has ended
+ */
+export function nextOccurrence(rule: RecurrenceRule, start: Date, after: Date, timeZone: string = serverTimeZone()): Date | null {
+    for (const occurrence of iterateOccurrences(rule, start, timeZone)) {
+        if (occurrence > after) {
+            return occurrence;
+        }
+    }
+    return null;
+}
+
+/**
+ * Generate occurrences in order, honoring COUNT, UNTIL and exceptions.
+ * Candidates are wall dates in the zone (see timezone.ts); yielded values are instants.
+ */
+function* iterateOccurrences(rule: RecurrenceRule, start: Date, timeZone: string): Generator<Date> {
+    const interval = Math.max(rule.interval || 1, 1);
+    const until = rule.until ? new Date(rule.until) : null;
+    const exceptions = new Set(rule.exceptions || []);
+    const startWall = toZonedWall(start, timeZone);
+    let produced = 0;
+
+    for (let period = 0; period < MAX_PERIODS; period++) {
+        const candidates = candidatesForPeriod(rule, startWall, period * interval);
+
+        for (const candidate of candidates) {
+            if (candidate < startWall) {
+                continue;
+            }
+            const instant = fromZonedWall(candidate, timeZone);
+            if (until && instant > until) {
+                return;
+            }
+            if (rule.count && produced >= rule.count) {
+                return;
+            }
+            produced++;
+            if (!exceptions.has(wallDateKey(candidate))) {
+                yield instant;
+            }
+        }
+    }
+}
+
+/**
+ * Sorted candidate wall dates for the period `offset` periods after the start
+ */
+function candidatesForPeriod(rule: RecurrenceRule, start: Date, offset: number): Date[] {
+    const at = (year: number, month: number, day: number) =>
+        new Date(Date.UTC(year, month, day, start.getUTCHours(), start.getUTCMinutes()));
+    const plainDays = (rule.byDay || []).filter(day => /^[A-Z]{2}$/.test(day));
+    let candidates: Date[] = [];
+
+    switch (rule.frequency) {
+        case 'DAILY': {
+            const day = at(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() + offset);
+            if (plainDays.length === 0 || plainDays.includes(WEEKDAY_CODES[day.getUTCDay()])) {
+                candidates = [day];
+            }
+            break;
+        }
+        case 'WEEKLY': {
+            // Weeks start on Monday
+            const mondayOffset = (start.getUTCDay() + 6) % 7;
+            const weekStart = at(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() - mondayOffset + offset * 7);
+            const days = plainDays.length > 0 ? plainDays : [WEEKDAY_CODES[start.getUTCDay()]];
+            candidates = days.map(code => {
+                const dayIndex = (WEEKDAY_CODES.indexOf(code) + 6) % 7;
+                return at(weekStart.getUTCFullYear(), weekStart.getUTCMonth(), weekStart.getUTCDate() + dayIndex);
+            });
+            break;
+        }
+        case 'MONTHLY': {
+            const monthDate = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + offset, 1));
+            candidates = candidatesInMonth(rule, start, monthDate.getUTCFullYear(), monthDate.getUTCMonth(), at);
+            break;
+        }
+        case 'YEARLY': {
+            const year = start.getUTCFullYear() + offset;
+            const months = rule.byMonth?.length ? rule.byMonth.map(m => m - 1) : [start.getUTCMonth()];
+            for (const month of months) {
+                candidates.push(...candidatesInMonth(rule, start, year, month, at));
+            }
+            break;
+        }
+    }
+
+    if (rule.byMonth?.length && rule.frequency !== 'YEARLY') {
+        candidates = candidates.filter(candidate => rule.byMonth!.includes(candidate.getUTCMonth() + 1));
+    }
+
+    return candidates.sort((a, b) => a.getTime() - b.getTime());
+}
+
+function candidatesInMonth(
+    rule: RecurrenceRule,
+    start: Date,
+    year: number,
+    month: number,
+    at: (year: number, month: number, day: number) => Date
+): Date[] {
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    const candidates: Date[] = [];
+
+    if (rule.byMonthDay?.length) {
+        for (const monthDay of rule.byMonthDay) {
+            const day = monthDay < 0 ? daysInMonth + monthDay + 1 : monthDay;
+            if (day >= 1 && day <= daysInMonth) {
+                candidates.push(at(year, month, day));
+            }
+        }
+    } else if (rule.byDay?.length) {
+        for (const spec of rule.byDay) {
+            const match = spec.match(/^([+-]?\d)?([A-Z]{2})$/);
+            if (!match) continue;
+            const weekday = WEEKDAY_CODES.indexOf(match[2]);
+            const matchingDays: number[] = [];
+            for (let day = 1; day <= daysInMonth; day++) {
+                if (new Date(Date.UTC(year, month, day)).getUTCDay() === weekday) {
+                    matchingDays.push(day);
+                }
+            }
+            if (match[1]) {
+                const ordinal = parseInt(match[1]);
+                const day = ordinal > 0 ? matchingDays[ordinal - 1] : matchingDays[matchingDays.length + ordinal];
+                if (day) candidates.push(at(year, month, day));
+            } else {
+                candidates.push(...matchingDays.map(day => at(year, month, day)));
+            }
+        }
+    } else if (start.getUTCDate() <= daysInMonth) {
+        candidates.push(at(year, month, start.getUTCDate()));
+    }
+
+    return candidates;
+}
+
+/**
+ * "mondays, wednesday and fri" → ['MO', 'WE', 'FR']
+ */
+function weekdayCodes(list: string): string[] {
+    return list
+        .split(/,\s*(?:and\s+)?|\s+and\s+/)
+        .map(day => day.trim())
+        .map(day => WEEKDAY_NAMES[day] || WEEKDAY_NAMES[day.replace(/s$/, '')])
+        .filter(Boolean);
+}
+
+/**
+ * Calendar date key (YYYY-MM-DD) of an instant in the zone, used for exception matching
+ */
+export function toLocalDateKey(date: Date, timeZone: string = serverTimeZone()): string {
+    return wallDateKey(toZonedWall(date, timeZone));
+}
+
+function wallDateKey(wall: Date): string {
+    return wall.toISOString().slice(0, 10);
+}
+
+function parseDateExpression(text: string, timeZone: string): Date {
+    const isoMatch = text.trim().match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (isoMatch) {
+        const wall = new Date(Date.UTC(parseInt(isoMatch[1]), parseInt(isoMatch[2]) - 1, parseInt(isoMatch[3]), 9));
+        return fromZonedWall(wall, timeZone);
+    }
+    return parseTimeExpression(text, new Date(), timeZone);
+}
+
+function endOfDay(date: Date, timeZone: string): Date {
+    const end = toZonedWall(date, timeZone);
+    end.setUTCHours(23, 59, 59, 0);
+    return fromZonedWall(end, timeZone);
+}
+
+/**
+ * Parse an ICS DATE or DATE-TIME value (20261231T235959Z / 20261231)
+ */
+function parseIcsDateTime(value: string): Date {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+    if (!match) {
+        throw new Error(`Invalid UNTIL value: ${value}`);
+    }
+    const [, year, month, day, hour = '23', minute = '59', second = '59', utc] = match;
+    const parts = [parseInt(year), parseInt(month) - 1, parseInt(day), parseInt(hour), parseInt(minute), parseInt(second)] as const;
+    return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+}
@@ -0,0 +1,272 @@
+// reminder-alarms.ts
+// ⏰ REMINDER ALARMS
+//
+// The alerts of a reminder: how long before (or after) it is due, or at a fixed time,
+// and how they are given (display, email or audio). One alarm plan drives both the
+// VALARMs of emailed calendar invites and the alerts of our own scheduler.
+// - per reminder: `alarms` on add/send/update, e.g. ["1 day before", "2 hours before by email"]
+// - per user: the `alarms` preference, used when a reminder names none
+// - invites without either keep the classic alerts 15 and 5 minutes before
+//
+// Absolute alarms ("at 8 AM on Nov 3") are resolved by the caller, which knows the
+// user's time zone and language, and only make sense for one-off reminders.
+
+import { AlarmAction, Reminder, ReminderAlarm } from './reminder-store';
+import { formatInZone, serverTimeZone } from './timezone';
+
+/**
+ * Raised for alarm specifications that cannot be understood (mapped to HTTP 400)
+ */
+export class AlarmError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AlarmError';
+    }
+}
+
+export const ALARM_ACTIONS: AlarmAction[] = ['display', 'email', 'audio'];
+
+// What every invite had before alarms were configurable
+export const DEFAULT_ALARMS: ReminderAlarm[] = [{ minutesBefore: 15 }, { minutesBefore: 5 }];
+
+const MAX_ALARMS = 10;
+const MISSED_ALARM_GRACE_MS = 10 * 60_000;
+const MAX_OFFSET_MINUTES = 28 * 24 * 60;
+
+const UNIT_MINUTES: Record<string, number> = {
+    m: 1, min: 1, mins: 1, minute: 1, minutes: 1,
+    h: 60, hr: 60, hrs: 60, hour: 60, hours: 60,
+    d: 1440, day: 1440, days: 1440,
+    w: 10080, wk: 10080, wks: 10080, week: 10080, weeks: 10080
+};
+
+const ACTION_WORDS: [RegExp, AlarmAction][] = [
+    [/\b(?:(?:by|via|as an?|with an?|send an?)\s+)?(?:e-?mail|mail)\b/, 'email'],
+    [/\b(?:(?:with an?|with|as an?)\s+)?(?:sound|audio|audible|beep)\b/, 'audio'],
+    [/\b(?:(?:as an?|with an?)\s+)?(?:pop-?up|notification|display)\b/, 'display']
+];
+
+const AT_START = /^(?:at (?:the )?start|at (?:the )?(?:event )?time|when it (?:starts|begins|is due)|on time|0 ?(?:minutes?|mins?|m)(?: before)?)$/;
+const OFFSET_PART = /\b(?:(\d+(?:\.\d+)?)\s*|(an?|one|the|half an?)\s+)(minutes?|mins?|m|hours?|hrs?|h|days?|d|weeks?|wks?|w)\b/g;
+
+function parseAction(value: unknown): AlarmAction {
+    const action = String(value).trim().toLowerCase();
+    if (!ALARM_ACTIONS.includes(action as AlarmAction)) {
+        throw new AlarmError(`Unknown alarm action '${value}'. Use ${ALARM_ACTIONS.map(name => `"${name}"`).join(', ')}`);
+    }
+    return action as AlarmAction;
+}
+
+/**
+ * Minutes before the due time from "1 day before", "2 hours 30 minutes before", "half an hour after"
+ */
+function parseOffset(text: string): number | undefined {
+    if (AT_START.test(text)) {
+        return 0;
+    }
+    const direction = text.match(/\s*\b(before|prior|ahead|in advance|early|earlier|after|later|late)$/);
+    const body = direction ? text.slice(0, direction.index).trim() : text;
+    const rest = body.replace(OFFSET_PART, '').replace(/\band\b|,/g, '').trim();
+    const parts = [...body.matchAll(OFFSET_PART)];
+    if (parts.length === 0 || rest) {
+        return undefined;
+    }
+    const minutes = parts.reduce((total, [, number, word, unit]) => {
+        const count = number !== undefined ? parseFloat(number) : /^half/.test(word) ? 0.5 : 1;
+        return total + count * UNIT_MINUTES[unit];
+    }, 0);
+    return Math.round(minutes) * (direction && /after|later|late/.test(direction[1]) ? -1 : 1);
+}
+
+/**
+ * One alarm from "1 hour before", "15 minutes before by email", "at start with sound",
+ * "at 8 AM on Nov 3" or { minutesBefore?, before?, at?, action? }.
+ *
+ * @param resolveAt - Turns an absolute time phrase into an instant (throws when unclear);
+ *   absolute alarms are refused without it
+ */
+export function parseAlarm(value: unknown, resolveAt?: (phrase: string) => Date): ReminderAlarm {
+    let text: string | undefined;
+    let action: AlarmAction | undefined;
+    let alarm: ReminderAlarm = {};
+
+    if (typeof value === 'number') {
+        alarm.minutesBefore = value;
+    } else if (typeof value === 'string') {
+        text = value.trim().toLowerCase().replace(/\s+/g, ' ');
+        for (const [pattern, name] of ACTION_WORDS) {
+            if (pattern.test(text)) {
+                action = name;
+                text = text.replace(pattern, ' ').replace(/\s+/g, ' ').trim();
+                break;
+            }
+        }
+        text = text.replace(/^(?:(?:alert|alarm|remind|notify|ping)\s+)?(?:me\s+)?/, '');
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+        const entry = value as { minutesBefore?: unknown; before?: unknown; at?: unknown; action?: unknown };
+        if (entry.action !== undefined) {
+            action = parseAction(entry.action);
+        }
+        if (entry.minutesBefore !== undefined) {
+            alarm.minutesBefore = Number(entry.minutesBefore);
+        } else if (typeof entry.before === 'string') {
+            text = entry.before.trim().toLowerCase();
+            if (!/\b(?:before|after|prior|ahead|advance|early|earlier|later|late)$/.test(text) && !AT_START.test(text)) {
+                text += ' before';
+            }
+        } else if (typeof entry.at === 'string') {
+            text = `at ${entry.at.trim()}`;
+        }
+    }
+
+    if (text !== undefined) {
+        const minutes = parseOffset(text);
+        if (minutes !== undefined) {
+            alarm.minutesBefore = minutes;
+        } else {
+            const phrase = text.replace(/^(?:at|on)\s+/, '');
+            const iso = /^\d{4}-\d{2}-\d{2}t/i.test(phrase) ? new Date(phrase.toUpperCase()) : undefined;
+            if (iso && !isNaN(iso.getTime())) {
+                alarm = { at: iso.toISOString() };
+            } else if (phrase === text) {
+                throw new AlarmError(`Cannot understand alarm '${typeof value === 'string' ? value : JSON.stringify(value)}'. Use e.g. "15 minutes before", "1 day before by email" or "at 8 AM on Nov 3"`);
+            } else if (!resolveAt) {
+                throw new AlarmError('Only relative alarms are possible here, e.g. "30 minutes before"');
+            } else {
+                alarm = { at: resolveAt(phrase).toISOString() };
+            }
+        }
+    }
+
+    if (alarm.at === undefined) {
+        if (alarm.minutesBefore === undefined || !Number.isFinite(alarm.minutesBefore)) {
+            throw new AlarmError('Each alarm needs "minutesBefore", "before" (e.g. "1 hour") or "at"');
+        }
+        if (Math.abs(alarm.minutesBefore) > MAX_OFFSET_MINUTES) {
+            throw new AlarmError('Alarms can be at most 4 weeks before or after the reminder');
+        }
+        alarm.minutesBefore = Math.round(alarm.minutesBefore);
+    }
+    return action && action !== 'display' ? { ...alarm, action } : alarm;
+}
+
+/**
+ * An alarm plan: a list of alarms (or one, or a comma-separated string), in trigger order.
+ * "none" or an empty list means no alarms at all. Repeated alarms are kept once.
+ */
+export function parseAlarms(value: unknown, resolveAt?: (phrase: string) => Date): ReminderAlarm[] {
+    const none = (entry: unknown) => typeof entry === 'string' && /^(?:none|no alarms?|no alerts?|off)$/i.test(entry.trim());
+    if (none(value) || (Array.isArray(value) && value.length === 1 && none(value[0]))) {
+        return [];
+    }
+    const entries = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/\s*[,;]\s*/).filter(Boolean) : [value];
+    const alarms = new Map<string, ReminderAlarm>();
+    for (const entry of entries) {
+        const alarm = parseAlarm(entry, resolveAt);
+        alarms.set(alarmKey(alarm), alarm);
+    }
+    if (alarms.size > MAX_ALARMS) {
+        throw new AlarmError(`At most ${MAX_ALARMS} alarms per reminder`);
+    }
+    return sortAlarms([...alarms.values()]);
+}
+
+/**
+ * Check a plan against the reminder it belongs to: fixed-time alarms cannot repeat with
+ * a recurring reminder, and user defaults (with no reminder yet) must all be relative
+ */
+export function validateAlarmPlan(alarms: ReminderAlarm[], options: { recurring?: boolean; defaults?: boolean }): ReminderAlarm[] {
+    if (alarms.some(alarm => alarm.at !== undefined)) {
+        if (options.defaults) {
+            throw new AlarmError('Default alarms must be relative, e.g. "30 minutes before"');
+        }
+        if (options.recurring) {
+            throw new AlarmError('Repeating reminders only take relative alarms, e.g. "1 hour before"');
+        }
+    }
+    return alarms;
+}
+
+function sortAlarms(alarms: ReminderAlarm[]): ReminderAlarm[] {
+    const order = (alarm: ReminderAlarm) => alarm.at !== undefined ? Date.parse(alarm.at) : -(alarm.minutesBefore || 0) * 60_000;
+    return alarms.sort((a, b) => order(a) - order(b));
+}
+
+export function alarmKey(alarm: ReminderAlarm): string {
+    return `${alarm.at ?? alarm.minutesBefore}|${alarm.action || 'display'}`;
+}
+
+/**
+ * Comparable form of a plan, to tell whether a reminder's alarms changed
+ */
+export function alarmsKey(alarms?: ReminderAlarm[]): string {
+    return alarms === undefined ? '' : `[${alarms.map(alarmKey).join(',')}]`;
+}
+
+function formatOffset(minutes: number): string {
+    const units: [number, string][] = [[10080, 'week'], [1440, 'day'], [60, 'hour'], [1, 'minute']];
+    const parts: string[] = [];
+    let remaining = minutes;
+    for (const [size, name] of units) {
+        const count = Math.floor(remaining / size);
+        if (count > 0) {
+            parts.push(`${count} ${name}${count === 1 ? '' : 's'}`);
+            remaining -= count * size;
+        }
+    }
+    return parts.join(' ');
+}
+
+/**
+ * "1 day before", "at start", "15 minutes after (email)", "at Tue, Nov 3, 8:00 AM (audio)"
+ */
+export function describeAlarm(alarm: ReminderAlarm, timeZone: string = serverTimeZone()): string {
+    const when = alarm.at !== undefined
+        ? `on ${formatInZone(new Date(alarm.at), timeZone)}`
+        : alarm.minutesBefore === 0
+            ? 'at start'
+            : `${formatOffset(Math.abs(alarm.minutesBefore!))} ${alarm.minutesBefore! > 0 ? 'before' : 'after'}`;
+    return alarm.action && alarm.action !== 'display' ? `${when} (${alarm.action})` : when;
+}
+
+export interface AlarmTrigger {
+    alarm: ReminderAlarm;
+    at: Date;
+    key: string; // recorded in `firedAlarms` once delivered
+}
+
+/**
+ * When each of a reminder's alarms goes off for its current due time
+ */
+export function alarmTriggers(reminder: Pick<Reminder, 'dueAt' | 'alarms'>): AlarmTrigger[] {
+    const due = new Date(reminder.dueAt).getTime();
+    return (reminder.alarms || []).map(alarm => {
+        const at = new Date(alarm.at !== undefined ? alarm.at : due - (alarm.minutesBefore || 0) * 60_000);
+        return { alarm, at, key: `${at.toISOString()}|${alarm.action || 'display'}` };
+    }).filter(trigger => !isNaN(trigger.at.getTime()));
+}
+
+/**
+ * Alarms the scheduler still has to deliver: those before the due time of a pending reminder
+ * (an alarm at the due time is the due notification itself), and those after the due time of
+ * a one-off reminder that fired but was not completed. Alarms of a reminder that is already
+ * overdue are dropped; it is about to be delivered anyway. So are alarms missed by more than
+ * a few minutes (server downtime, or a reminder created or snoozed past them).
+ */
+export function undeliveredAlarms(reminder: Reminder, now: number = Date.now()): AlarmTrigger[] {
+    const due = new Date(reminder.dueAt).getTime();
+    const delivered = new Set(reminder.firedAlarms || []);
+    return alarmTriggers(reminder).filter(trigger => {
+        if (delivered.has(trigger.key)) {
+            return false;
+        }
+        const at = trigger.at.getTime();
+        if (at < now - MISSED_ALARM_GRACE_MS) {
+            return false;
+        }
+        if (reminder.status === 'pending') {
+            return at < due && due > now;
+        }
+        return reminder.status === 'fired' && !reminder.recurrence && at > due;
+    });
+}
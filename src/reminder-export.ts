@@ -0,0 +1,342 @@
+// reminder-export.ts
+// 📤 REMINDER EXPORT
+//
+// GET /reminders/export (and the export_reminders tool) write the reminders a list_reminders query
+// selects in a format to paste or import elsewhere:
+// - csv: one row per reminder, for spreadsheets (RFC 4180, cells that look like formulas are defused)
+// - json: one record per reminder, without the bookkeeping fields of the store
+// - md: an agenda grouped by day; repeating reminders appear on each of their days in the
+//   requested window (else once, at their next occurrence), multi-day ones on each of their days
+// - ics: the reminders as the calendar feed renders them (calendar-feed.ts)
+// - jcal: the same calendar as jCal (RFC 7265), the JSON form of iCalendar
+// Times are shown in the export's time zone, dates and labels in its language.
+
+import { Reminder } from './reminder-store';
+import { renderCalendarFeed } from './calendar-feed';
+import { IcsComponent, IcsProperty, parseIcs, unescapeText } from './ics-parser';
+import { occurrencesInWindow } from './reminder-query';
+import { describeRecurrence, formatRRule, toLocalDateKey } from './recurrence';
+import { InviteAttendee, inviteRecipients } from './attendees';
+import { AttendeeStatus, attendeeStatuses } from './rsvp-replies';
+import { DaySpan, dayKey, describeDaySpan, keyDay, reminderDays, spanLength } from './all-day';
+import { LocalePack, en } from './locales';
+import { toZonedWall } from './timezone';
+
+export const EXPORT_FORMATS = ['csv', 'json', 'md', 'ics', 'jcal'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// Occurrences of one repeating reminder listed in an agenda
+const MAX_AGENDA_OCCURRENCES = 100;
+
+export interface ExportOptions {
+    timeZone: string;
+    locale?: LocalePack; // language of dates and labels (English when absent)
+    title: string; // heading of the agenda and name of the calendar
+    from?: Date; // window of the query, for the agenda's repeating reminders
+    to?: Date;
+    now?: Date;
+}
+
+export interface ReminderExport {
+    format: ExportFormat;
+    contentType: string;
+    filename: string;
+    count: number; // reminders exported
+    content: string;
+}
+
+/**
+ * A reminder as it is exported: what it is and when, without delivery and sync state
+ */
+export interface ExportedReminder {
+    id: string;
+    task: string;
+    status: Reminder['status'];
+    due: string; // wall time in the export's zone, "YYYY-MM-DD HH:mm"
+    dueAt: string;
+    allDay?: DaySpan;
+    recurrence?: string; // in words, e.g. "every week on MO, WE"
+    rrule?: string;
+    priority: NonNullable<Reminder['priority']>;
+    category?: string;
+    tags: string[];
+    location?: string;
+    durationMinutes?: number;
+    attendees?: (InviteAttendee | AttendeeStatus)[]; // with their RSVP when an invite was sent
+    createdAt: string;
+    completedAt?: string;
+}
+
+/**
+ * Raised for an unknown export format (mapped to HTTP 400)
+ */
+export class ExportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ExportError';
+    }
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+    csv: 'text/csv; charset=utf-8',
+    json: 'application/json; charset=utf-8',
+    md: 'text/markdown; charset=utf-8',
+    ics: 'text/calendar; charset=utf-8',
+    jcal: 'application/calendar+json; charset=utf-8'
+};
+
+const EXTENSIONS: Record<ExportFormat, string> = { csv: 'csv', json: 'json', md: 'md', ics: 'ics', jcal: 'jcal.json' };
+
+export function parseExportFormat(value: unknown): ExportFormat {
+    const format = String(value ?? 'md').trim().toLowerCase();
+    const aliases: Record<string, ExportFormat> = { markdown: 'md', ical: 'ics', icalendar: 'ics' };
+    const resolved = aliases[format] || format;
+    if (!EXPORT_FORMATS.includes(resolved as ExportFormat)) {
+        throw new ExportError(`Invalid export format '${value}'. Use one of: ${EXPORT_FORMATS.join(', ')}`);
+    }
+    return resolved as ExportFormat;
+}
+
+/**
+ * Export reminders (already filtered and sorted) in the given format
+ */
+export async function exportReminders(reminders: Reminder[], format: ExportFormat, options: ExportOptions): Promise<ReminderExport> {
+    const now = options.now || new Date();
+    let content: string;
+    switch (format) {
+        case 'csv':
+            content = toCsv(reminders.map(reminder => exportedReminder(reminder, options.timeZone)));
+            break;
+        case 'json':
+            content = JSON.stringify({
+                exportedAt: now.toISOString(),
+                timeZone: options.timeZone,
+                count: reminders.length,
+                reminders: reminders.map(reminder => exportedReminder(reminder, options.timeZone))
+            }, null, 2);
+            break;
+        case 'md':
+            content = toAgenda(reminders, options, now);
+            break;
+        case 'ics':
+            content = (await renderCalendarFeed(reminders, options.title)).content;
+            break;
+        case 'jcal':
+            content = JSON.stringify(toJCal(parseIcs((await renderCalendarFeed(reminders, options.title)).content)[0]), null, 2);
+            break;
+    }
+
+    return {
+        format,
+        contentType: CONTENT_TYPES[format],
+        filename: `reminders-${toLocalDateKey(now, options.timeZone)}.${EXTENSIONS[format]}`,
+        count: reminders.length,
+        content
+    };
+}
+
+const wallTime = (instant: Date, timeZone: string) => toZonedWall(instant, timeZone).toISOString().slice(0, 16).replace('T', ' ');
+
+export function exportedReminder(reminder: Reminder, timeZone: string): ExportedReminder {
+    const days = reminderDays(reminder);
+    const attendees = reminder.calendarSequence !== undefined ? attendeeStatuses(reminder) : inviteRecipients(reminder);
+    return {
+        id: reminder.id,
+        task: reminder.task,
+        status: reminder.status,
+        due: days ? days.firstDay : wallTime(new Date(reminder.dueAt), timeZone),
+        dueAt: reminder.dueAt,
+        ...(days ? { allDay: days } : {}),
+        ...(reminder.recurrence ? {
+            recurrence: describeRecurrence(reminder.recurrence, reminder.timeZone),
+            rrule: formatRRule(reminder.recurrence)
+        } : {}),
+        priority: reminder.priority || 'normal',
+        ...(reminder.category ? { category: reminder.category } : {}),
+        tags: reminder.tags || [],
+        ...(reminder.location ? { location: reminder.location } : {}),
+        ...(reminder.durationMinutes !== undefined && !days ? { durationMinutes: reminder.durationMinutes } : {}),
+        ...(attendees.length > 0 ? { attendees } : {}),
+        createdAt: reminder.createdAt,
+        ...(reminder.completedAt ? { completedAt: reminder.completedAt } : {})
+    };
+}
+
+// --- CSV ---
+
+const CSV_COLUMNS = ['id', 'task', 'status', 'due', 'dueAt', 'allDayEnd', 'recurrence', 'priority', 'category', 'tags', 'location', 'durationMinutes', 'attendees', 'createdAt', 'completedAt'];
+
+function csvCell(value: string | number | undefined): string {
+    let text = value === undefined ? '' : String(value);
+    // Spreadsheets run cells starting with = + - @ as formulas
+    if (/^[=+\-@\t\r]/.test(text) && typeof value === 'string') {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(records: ExportedReminder[]): string {
+    const rows = records.map(record => [
+        record.id,
+        record.task,
+        record.status,
+        record.due,
+        record.dueAt,
+        record.allDay && record.allDay.lastDay !== record.allDay.firstDay ? record.allDay.lastDay : undefined,
+        record.recurrence,
+        record.priority,
+        record.category,
+        record.tags.map(tag => `#${tag}`).join(' '),
+        record.location,
+        record.durationMinutes,
+        record.attendees?.map(attendee => 'response' in attendee ? `${attendee.email} (${attendee.response})` : attendee.email).join('; '),
+        record.createdAt,
+        record.completedAt
+    ].map(csvCell).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+// --- Markdown agenda ---
+
+interface AgendaEntry {
+    day: string; // YYYY-MM-DD in the export's zone
+    at?: Date; // absent for all-day entries
+    span?: DaySpan; // the days of a multi-day entry
+    reminder: Reminder;
+}
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]<>#|~])/g, '\\$1').replace(/\s*\n\s*/g, ' ');
+
+/**
+ * Where a reminder appears in the agenda: at each occurrence in the window, on every day of an all-day span
+ */
+function agendaEntries(reminder: Reminder, options: ExportOptions): AgendaEntry[] {
+    const occurrences = reminder.recurrence && options.to
+        ? occurrencesInWindow(reminder, options.from, options.to, MAX_AGENDA_OCCURRENCES)
+        : [new Date(reminder.dueAt)];
+
+    return occurrences.flatMap(occurrence => {
+        const span = reminderDays(reminder, reminder.recurrence ? occurrence : undefined);
+        if (!span) {
+            return [{ day: toLocalDateKey(occurrence, options.timeZone), at: occurrence, reminder }];
+        }
+        return Array.from({ length: spanLength(span) }, (_unused, index) => ({
+            day: dayKey(keyDay(span.firstDay, index)),
+            ...(span.lastDay !== span.firstDay ? { span } : {}),
+            reminder
+        })).filter(entry => (!options.from || entry.day >= toLocalDateKey(options.from, options.timeZone))
+            && (!options.to || entry.day <= toLocalDateKey(options.to, options.timeZone)));
+    });
+}
+
+function agendaLine(entry: AgendaEntry, options: ExportOptions, locale: LocalePack): string {
+    const { reminder } = entry;
+    const messages = locale.messages;
+    const when = entry.at
+        ? entry.at.toLocaleTimeString(locale.dateLocale, { timeStyle: 'short', timeZone: options.timeZone })
+        : messages.allDay;
+    const details: string[] = [];
+    if (entry.span) {
+        const format = new Intl.DateTimeFormat(locale.dateLocale, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+        details.push(format.formatRange(keyDay(entry.span.firstDay), keyDay(entry.span.lastDay)));
+    }
+    if (entry.at && reminder.durationMinutes) details.push(messages.duration(reminder.durationMinutes));
+    if (reminder.location) details.push(`📍 ${escapeMarkdown(reminder.location)}`);
+    if (reminder.recurrence) details.push(`🔁 ${describeRecurrence(reminder.recurrence, reminder.timeZone)}`);
+    if (reminder.priority && reminder.priority !== 'normal') details.push(`${messages.priority}: ${messages.priorityNames[reminder.priority]}`);
+    if (reminder.category) details.push(escapeMarkdown(reminder.category));
+    if (reminder.tags?.length) details.push(reminder.tags.map(tag => `\\#${tag}`).join(' '));
+    const attendees = inviteRecipients(reminder);
+    if (attendees.length > 0) details.push(`👥 ${attendees.map(attendee => escapeMarkdown(attendee.name || attendee.email)).join(', ')}`);
+
+    const done = reminder.status === 'completed' ? 'x' : ' ';
+    return `- [${done}] **${when}** ${escapeMarkdown(reminder.task)}${details.length > 0 ? ` · ${details.join(' · ')}` : ''}`;
+}
+
+function toAgenda(reminders: Reminder[], options: ExportOptions, now: Date): string {
+    const locale = options.locale || en;
+    const entries = reminders.flatMap(reminder => agendaEntries(reminder, options));
+    // All-day entries open their day, the rest follow in time order
+    entries.sort((a, b) => a.day.localeCompare(b.day)
+        || (a.at ? a.at.getTime() : -Infinity) - (b.at ? b.at.getTime() : -Infinity)
+        || a.reminder.task.localeCompare(b.reminder.task));
+
+    const lines = [
+        `# ${escapeMarkdown(options.title)}`,
+        '',
+        `_${now.toLocaleString(locale.dateLocale, { dateStyle: 'medium', timeStyle: 'short', timeZone: options.timeZone })} · ${options.timeZone} · ${locale.messages.reminderCount(reminders.length)}_`
+    ];
+    let day: string | undefined;
+    for (const entry of entries) {
+        if (entry.day !== day) {
+            day = entry.day;
+            lines.push('', `## ${describeDaySpan({ firstDay: day, lastDay: day }, locale.dateLocale)}`, '');
+        }
+        lines.push(agendaLine(entry, options, locale));
+    }
+    return lines.join('\n') + '\n';
+}
+
+// --- jCal ---
+
+const JCAL_TYPES: Record<string, string> = {
+    DTSTART: 'date-time', DTEND: 'date-time', DUE: 'date-time', DTSTAMP: 'date-time', CREATED: 'date-time',
+    'LAST-MODIFIED': 'date-time', COMPLETED: 'date-time', 'RECURRENCE-ID': 'date-time', EXDATE: 'date-time', RDATE: 'date-time',
+    DURATION: 'duration', TRIGGER: 'duration', RRULE: 'recur', SEQUENCE: 'integer', PRIORITY: 'integer',
+    'PERCENT-COMPLETE': 'integer', ORGANIZER: 'cal-address', ATTENDEE: 'cal-address', URL: 'uri',
+    TZOFFSETFROM: 'utc-offset', TZOFFSETTO: 'utc-offset'
+};
+const MULTI_VALUED = new Set(['CATEGORIES', 'RESOURCES', 'EXDATE', 'RDATE']);
+const RECUR_NUMBERS = new Set(['count', 'interval', 'bysecond', 'byminute', 'byhour', 'bymonthday', 'byyearday', 'byweekno', 'bymonth', 'bysetpos']);
+
+function jcalDate(value: string): string {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/);
+    if (!match) {
+        return value;
+    }
+    const [, year, month, day, hour, minute, second, utc] = match;
+    return hour ? `${year}-${month}-${day}T${hour}:${minute}:${second}${utc}` : `${year}-${month}-${day}`;
+}
+
+function jcalValue(type: string, value: string): unknown {
+    switch (type) {
+        case 'date':
+        case 'date-time':
+            return jcalDate(value);
+        case 'integer':
+            return parseInt(value);
+        case 'utc-offset':
+            return value.replace(/^([+-]\d{2})(\d{2})$/, '$1:$2');
+        case 'recur': {
+            const recur: Record<string, unknown> = {};
+            for (const part of value.split(';')) {
+                const [name, raw = ''] = part.split('=');
+                const key = name.toLowerCase();
+                const values = raw.split(',').map(item => key === 'until' ? jcalDate(item) : RECUR_NUMBERS.has(key) ? parseInt(item) : item);
+                recur[key] = values.length === 1 ? values[0] : values;
+            }
+            return recur;
+        }
+        case 'text':
+            return unescapeText(value);
+        default:
+            return value;
+    }
+}
+
+function jcalProperty(property: IcsProperty): unknown[] {
+    const { VALUE: valueType, ...params } = property.params;
+    const type = valueType?.toLowerCase()
+        || JCAL_TYPES[property.name]
+        || (property.name.startsWith('X-') ? 'unknown' : 'text');
+    const values = MULTI_VALUED.has(property.name) ? property.value.split(/(?<!\\),/) : [property.value];
+    const jcalParams = Object.fromEntries(Object.entries(params).map(([name, value]) => [name.toLowerCase(), value]));
+    return [property.name.toLowerCase(), jcalParams, type, ...values.map(value => jcalValue(type, value))];
+}
+
+/**
+ * A parsed iCalendar component as jCal: [name, properties, subcomponents]
+ */
+function toJCal(component: IcsComponent): unknown[] {
+    return [component.name.toLowerCase(), component.properties.map(jcalProperty), component.components.map(toJCal)];
+}
@@ -0,0 +1,145 @@
+// reminder-labels.ts
+// 🏷️ TAGS, PRIORITY AND CATEGORY
+//
+// Reminders can be organised three ways:
+// - tags: free-form labels, written inline as "#admin" or passed explicitly
+// - priority: low | normal | high | urgent, written inline as "high priority: ..." or "urgent: ..."
+// - category: a single bucket such as "work" or "health"
+// Inline markers are stripped from the task text so the reminder reads naturally.
+
+import { Reminder, ReminderPriority } from './reminder-store';
+
+export const REMINDER_PRIORITIES: ReminderPriority[] = ['low', 'normal', 'high', 'urgent'];
+export const GROUP_FIELDS = ['tag', 'priority', 'category'] as const;
+
+export type ReminderGroupField = typeof GROUP_FIELDS[number];
+
+export interface ReminderLabels {
+    tags?: string[];
+    priority?: ReminderPriority;
+    category?: string;
+}
+
+/**
+ * Raised for invalid tags, priorities or categories (mapped to HTTP 400)
+ */
+export class ReminderLabelError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ReminderLabelError';
+    }
+}
+
+const INLINE_TAG = /(^|\s)#([\p{L}\p{N}_-]+)/gu;
+const INLINE_PRIORITY = /^\s*(?:(low|normal|high|urgent)\s+priority|(urgent|important))\s*[:\-–]\s*/i;
+
+/**
+ * Pull "#tags" and a leading "high priority:" marker out of a task description
+ */
+export function extractInlineLabels(task: string): { task: string; tags: string[]; priority?: ReminderPriority } {
+    let text = task;
+    let priority: ReminderPriority | undefined;
+
+    const priorityMatch = text.match(INLINE_PRIORITY);
+    if (priorityMatch) {
+        const word = (priorityMatch[1] || priorityMatch[2]).toLowerCase();
+        priority = word === 'important' ? 'high' : word as ReminderPriority;
+        text = text.slice(priorityMatch[0].length);
+    }
+
+    const tags: string[] = [];
+    text = text.replace(INLINE_TAG, (_match, leading: string, tag: string) => {
+        tags.push(tag);
+        return leading;
+    });
+
+    return { task: text.replace(/\s{2,}/g, ' ').trim() || task.trim(), tags: normalizeTags(tags), priority };
+}
+
+/**
+ * Merge explicit tool arguments with labels written inline in the task.
+ * Explicit priority wins; tags from both sources are combined.
+ */
+export function resolveLabels(task: string, explicit: { tags?: any; priority?: any; category?: any }): { task: string } & ReminderLabels {
+    const inline = extractInlineLabels(task);
+    const tags = normalizeTags([...inline.tags, ...toList(explicit.tags)]);
+    const priority = explicit.priority !== undefined && explicit.priority !== ''
+        ? normalizePriority(explicit.priority)
+        : inline.priority;
+    const category = explicit.category ? normalizeCategory(explicit.category) : undefined;
+
+    return {
+        task: inline.task,
+        ...(tags.length > 0 ? { tags } : {}),
+        ...(priority ? { priority } : {}),
+        ...(category ? { category } : {})
+    };
+}
+
+export function normalizeTags(value: any): string[] {
+    const tags = toList(value).map(tag => tag.replace(/^#/, '').toLowerCase());
+    const invalid = tags.filter(tag => !/^[\p{L}\p{N}_-]+$/u.test(tag));
+    if (invalid.length > 0) {
+        throw new ReminderLabelError(`Invalid tag '${invalid[0]}'. Tags may contain letters, numbers, '-' and '_'`);
+    }
+    return Array.from(new Set(tags));
+}
+
+export function normalizePriority(value: any): ReminderPriority {
+    const priority = String(value).toLowerCase().trim() as ReminderPriority;
+    if (!REMINDER_PRIORITIES.includes(priority)) {
+        throw new ReminderLabelError(`Invalid priority '${value}'. Use one of: ${REMINDER_PRIORITIES.join(', ')}`);
+    }
+    return priority;
+}
+
+export function normalizeCategory(value: any): string {
+    const category = String(value).toLowerCase().trim();
+    if (category.length > 50) {
+        throw new ReminderLabelError('Category must be at most 50 characters');
+    }
+    return category;
+}
+
+/**
+ * Sort weight of a priority (reminders without one count as normal)
+ */
+export function priorityRank(priority?: ReminderPriority): number {
+    return REMINDER_PRIORITIES.indexOf(priority || 'normal');
+}
+
+/**
+ * Group reminders by tag, priority or category. A reminder with several tags appears in each tag group;
+ * reminders without the field land in the "none" group.
+ */
+export function groupReminders<T extends Reminder>(reminders: T[], field: ReminderGroupField): { key: string; count: number; reminders: T[] }[] {
+    const groups = new Map<string, T[]>();
+    const add = (key: string, reminder: T) => groups.set(key, [...(groups.get(key) || []), reminder]);
+
+    for (const reminder of reminders) {
+        if (field === 'tag') {
+            const tags = reminder.tags && reminder.tags.length > 0 ? reminder.tags : ['none'];
+            tags.forEach(tag => add(tag, reminder));
+        } else if (field === 'priority') {
+            add(reminder.priority || 'normal', reminder);
+        } else {
+            add(reminder.category || 'none', reminder);
+        }
+    }
+
+    const keys = Array.from(groups.keys());
+    if (field === 'priority') {
+        keys.sort((a, b) => priorityRank(b as ReminderPriority) - priorityRank(a as ReminderPriority));
+    } else {
+        keys.sort((a, b) => (a === 'none' ? 1 : b === 'none' ? -1 : a.localeCompare(b)));
+    }
+    return keys.map(key => ({ key, count: groups.get(key)!.length, reminders: groups.get(key)! }));
+}
+
+function toList(value: any): string[] {
+    if (value === undefined || value === null || value === '') {
+        return [];
+    }
+    const values = Array.isArray(value) ? value : String(value).split(',');
+    return values.map(item => String(item).trim()).filter(Boolean);
+}
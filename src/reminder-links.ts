@@ -0,0 +1,162 @@
+// reminder-links.ts
+// 🔗 SIGNED REMINDER ACTION LINKS
+//
+// Reminder emails carry "Snooze" and "Done" links that work without logging in.
+// Each link is an HMAC-signed capability for exactly one action on one reminder:
+//   /reminders/<id>/<action>?snooze=<duration>&expires=<ms>&sig=<hmac>
+// Anything that changes the id, action, snooze duration or expiry breaks the signature.
+// The calendar feed URL is signed the same way, as a capability to read one user's feed:
+//   /calendar/feed.ics?user=<userId>&token=<hmac>
+// reset_calendar_feed revokes a user's feed URLs by signing theirs with a new version.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { LocalePack, en } from './locales';
+
+export type ReminderLinkAction = 'snooze' | 'done';
+
+export interface ReminderActionLink {
+    action: ReminderLinkAction;
+    label: string;
+    url: string;
+}
+
+export interface ReminderLinkParams {
+    id: string;
+    action: string;
+    snooze?: string;
+    expires?: string;
+    sig?: string;
+}
+
+// Snooze choices offered in reminder emails (labelled by the locale pack's snoozeLabels)
+export const EMAIL_SNOOZE_OPTIONS = ['10 minutes', '1 hour', 'until tomorrow morning'];
+
+const LINK_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+let cachedSecret: string | null = null;
+
+/**
+ * Secret that signs the links: REMINDER_LINK_SECRET, else one generated once and kept in
+ * REMINDER_LINK_SECRET_PATH (data/link-secret), so links in sent emails and feed URLs survive
+ * restarts. With NODE_ENV=production the variable is required. Call it at startup to fail early.
+ */
+export function loadLinkSecret(): string {
+    if (process.env.REMINDER_LINK_SECRET) {
+        return process.env.REMINDER_LINK_SECRET;
+    }
+    if (cachedSecret) {
+        return cachedSecret;
+    }
+    if (process.env.NODE_ENV === 'production') {
+        throw new Error('REMINDER_LINK_SECRET must be set in production: it signs email action links and calendar feed URLs.');
+    }
+
+    const secretPath = path.resolve(process.env.REMINDER_LINK_SECRET_PATH || path.join('data', 'link-secret'));
+    try {
+        cachedSecret = fs.readFileSync(secretPath, 'utf8').trim();
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            throw new Error(`Failed to read link secret ${secretPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+    if (!cachedSecret) {
+        cachedSecret = crypto.randomBytes(32).toString('hex');
+        fs.mkdirSync(path.dirname(secretPath), { recursive: true });
+        // 'wx': when another process created it meanwhile, use theirs
+        try {
+            fs.writeFileSync(secretPath, cachedSecret, { encoding: 'utf8', mode: 0o600, flag: 'wx' });
+            console.warn(`⚠️  REMINDER_LINK_SECRET is not set; generated a link secret in ${secretPath} (keep it private and backed up).`);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+                throw error;
+            }
+            cachedSecret = fs.readFileSync(secretPath, 'utf8').trim();
+        }
+    }
+    return cachedSecret;
+}
+
+function sign(id: string, action: string, snooze: string, expires: string): string {
+    return crypto
+        .createHmac('sha256', loadLinkSecret())
+        .update([id, action, snooze, expires].join('\n'))
+        .digest('base64url');
+}
+
+function publicBaseUrl(): string {
+    return (process.env.PUBLIC_BASE_URL || 'http://localhost:3000').replace(/\/$/, '');
+}
+
+function signaturesMatch(actual: string, expected: string): boolean {
+    const actualBytes = Buffer.from(actual);
+    const expectedBytes = Buffer.from(expected);
+    return actualBytes.length === expectedBytes.length && crypto.timingSafeEqual(actualBytes, expectedBytes);
+}
+
+/**
+ * Build the signed snooze/done links for a reminder email, labelled in the email's language
+ */
+export function buildReminderActionLinks(reminderId: string, now: Date = new Date(), locale: LocalePack = en): ReminderActionLink[] {
+    const baseUrl = publicBaseUrl();
+    const expires = String(now.getTime() + LINK_TTL_MS);
+
+    const linkFor = (action: ReminderLinkAction, snooze = '') => {
+        const query = new URLSearchParams({
+            ...(snooze ? { snooze } : {}),
+            expires,
+            sig: sign(reminderId, action, snooze, expires)
+        });
+        return `${baseUrl}/reminders/${encodeURIComponent(reminderId)}/${action}?${query.toString()}`;
+    };
+
+    return [
+        ...EMAIL_SNOOZE_OPTIONS.map(snooze => ({
+            action: 'snooze' as const,
+            label: locale.messages.snoozeLabels[snooze] || en.messages.snoozeLabels[snooze],
+            url: linkFor('snooze', snooze)
+        })),
+        { action: 'done', label: locale.messages.done, url: linkFor('done') }
+    ];
+}
+
+/**
+ * Check a link's signature and expiry. Returns an error message, or null when valid.
+ */
+export function verifyReminderActionLink(params: ReminderLinkParams, now: Date = new Date()): string | null {
+    const { id, action, snooze = '', expires = '', sig = '' } = params;
+
+    if (action !== 'snooze' && action !== 'done') {
+        return `Unknown action '${action}'`;
+    }
+    if (!signaturesMatch(sig, sign(id, action, snooze, expires))) {
+        return 'This link is invalid.';
+    }
+    if (!(Number(expires) > now.getTime())) {
+        return 'This link has expired.';
+    }
+    return null;
+}
+
+/**
+ * Subscription URL of a user's calendar feed. The token does not expire, since calendar apps keep
+ * polling the same URL; it is revoked by moving the user to a new `version` (calendarFeedVersion
+ * in their preferences). `filters` (tags, from, to, ...) are added unsigned, as they only narrow the feed.
+ */
+export function buildCalendarFeedUrl(userId: string, filters: Record<string, string> = {}, version = 0): string {
+    const query = new URLSearchParams({ ...filters, user: userId, token: feedToken(userId, version) });
+    return `${publicBaseUrl()}/calendar/feed.ics?${query.toString()}`;
+}
+
+/**
+ * Whether a feed token was issued for this user at their current version
+ */
+export function verifyCalendarFeedToken(userId: string, token: string, version = 0): boolean {
+    return signaturesMatch(token, feedToken(userId, version));
+}
+
+// Version 0 signs like the tokens issued before versions existed
+function feedToken(userId: string, version: number): string {
+    return sign(userId, 'feed', version > 0 ? String(version) : '', '');
+}
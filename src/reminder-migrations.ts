@@ -0,0 +1,92 @@
+// reminder-migrations.ts
+// 🧬 REMINDER SCHEMA MIGRATIONS
+//
+// The file-backed store keeps a schemaVersion next to the reminders.
+// Whenever the Reminder type grows, add a migration here so reminders
+// written by older versions of the server are upgraded on load.
+
+import { analyzeTimeExpression, parseTimeExpression } from './calendar-utils';
+import { serverTimeZone } from './timezone';
+
+export interface ReminderMigration {
+    version: number;
+    description: string;
+    migrate: (reminders: any[]) => any[];
+}
+
+/**
+ * Ordered list of migrations. Each one upgrades data from `version - 1` to `version`.
+ */
+const migrations: ReminderMigration[] = [
+    {
+        version: 1,
+        description: 'Initial schema: id, time, task, email, createdAt',
+        migrate: (reminders) => reminders.map(reminder => ({
+            id: String(reminder.id),
+            time: String(reminder.time),
+            task: String(reminder.task),
+            email: reminder.email || undefined,
+            createdAt: reminder.createdAt || new Date().toISOString()
+        }))
+    },
+    {
+        version: 2,
+        description: 'Resolve dueAt relative to createdAt and track delivery status',
+        migrate: (reminders) => reminders.map(reminder => ({
+            ...reminder,
+            dueAt: reminder.dueAt || parseTimeExpression(reminder.time, new Date(reminder.createdAt)).toISOString(),
+            status: reminder.status || 'pending'
+        }))
+    },
+    {
+        version: 3,
+        description: 'Record parse confidence and interpretation of the time phrase',
+        migrate: (reminders) => reminders.map(reminder => {
+            if (reminder.timeConfidence) {
+                return reminder;
+            }
+            // Read as of when the reminder was made, so a due time now gone by is not reported as past
+            const analysis = analyzeTimeExpression(reminder.time, undefined, new Date(reminder.createdAt));
+            return { ...reminder, timeConfidence: analysis.confidence, timeInterpretation: analysis.interpretation };
+        })
+    },
+    {
+        version: 4,
+        description: 'Assign an owner; reminders created before per-user ownership belong to the anonymous "local" user',
+        migrate: (reminders) => reminders.map(reminder => ({
+            ...reminder,
+            ownerId: reminder.ownerId || 'local'
+        }))
+    },
+    {
+        version: 5,
+        description: 'Record the time zone; older reminders were parsed in the server zone',
+        migrate: (reminders) => reminders.map(reminder => ({
+            ...reminder,
+            timeZone: reminder.timeZone || serverTimeZone()
+        }))
+    }
+];
+
+export const REMINDER_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+/**
+ * Upgrade raw stored reminders from `fromVersion` to the current schema version
+ */
+export function migrateReminders(reminders: any[], fromVersion: number): { reminders: any[]; applied: ReminderMigration[] } {
+    if (fromVersion > REMINDER_SCHEMA_VERSION) {
+        throw new Error(`Reminder store schema v${fromVersion} is newer than supported v${REMINDER_SCHEMA_VERSION}`);
+    }
+
+    const applied: ReminderMigration[] = [];
+    let current = reminders;
+
+    for (const migration of migrations) {
+        if (migration.version > fromVersion) {
+            current = migration.migrate(current);
+            applied.push(migration);
+        }
+    }
+
+    return { reminders: current, applied };
+}
@@ -0,0 +1,263 @@
+// reminder-query.ts
+// 🔎 REMINDER QUERIES
+//
+// Filtering, sorting and pagination for list_reminders.
+// The same query shape is accepted from the HTTP query string, the MCP
+// inputSchema and the agent's zod schema, so parsing lives in one place.
+
+import { parseTimeExpression } from './calendar-utils';
+import { Reminder, ReminderPriority, ReminderStatus } from './reminder-store';
+import { occurrencesBetween } from './recurrence';
+import { normalizeCategory, normalizePriority, normalizeTags, priorityRank, ReminderLabelError } from './reminder-labels';
+import { fromZonedWall, serverTimeZone, toZonedWall } from './timezone';
+import { reminderDays, spanBounds, spanLength } from './all-day';
+
+const REMINDER_STATUSES: ReminderStatus[] = ['pending', 'fired', 'completed'];
+const SORT_FIELDS = ['dueAt', 'createdAt', 'task', 'priority'] as const;
+const MAX_LIMIT = 200;
+
+export interface ReminderQuery {
+    from?: Date;
+    to?: Date;
+    status?: ReminderStatus[];
+    ownerId?: string;
+    email?: string;
+    search?: string;
+    tags?: string[];
+    priority?: ReminderPriority[];
+    category?: string;
+    sortBy: typeof SORT_FIELDS[number];
+    order: 'asc' | 'desc';
+    limit?: number;
+    offset: number;
+}
+
+export interface ReminderQueryResult {
+    total: number; // matches before pagination
+    reminders: Reminder[];
+}
+
+/**
+ * Raised for malformed query parameters (mapped to HTTP 400 / MCP invalid params)
+ */
+export class ReminderQueryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ReminderQueryError';
+    }
+}
+
+/**
+ * Build a ReminderQuery from loosely-typed parameters (query string or tool arguments).
+ *
+ * Supported parameters:
+ * - from / to: ISO timestamps or time expressions ("tomorrow at 12 AM")
+ * - dueOn: a day expression ("tomorrow", "2026-11-03"), shorthand for that whole day in `timeZone`
+ * - status: one or more of pending, fired, completed (comma-separated or array)
+ * - owner: userId that owns the reminder (the route only honors this for admins)
+ * - email: recipient email address (case-insensitive)
+ * - search: text contained in the task or time phrase
+ * - tags: reminders carrying all of these tags (comma-separated or array, '#' optional)
+ * - priority: one or more of low, normal, high, urgent
+ * - category: exact category (case-insensitive)
+ * - sortBy: dueAt (default), createdAt, task or priority; order: asc (default) or desc
+ * - limit / offset: pagination
+ */
+export function parseReminderQuery(params: Record<string, any>, now: Date = new Date(), timeZone: string = serverTimeZone()): ReminderQuery {
+    const query: ReminderQuery = { sortBy: 'dueAt', order: 'asc', offset: 0 };
+
+    if (params.dueOn) {
+        const day = toZonedWall(parseInstant('dueOn', params.dueOn, now, timeZone), timeZone);
+        day.setUTCHours(0, 0, 0, 0);
+        query.from = fromZonedWall(day, timeZone);
+        day.setUTCHours(23, 59, 59, 999);
+        query.to = fromZonedWall(day, timeZone);
+    }
+    if (params.from) query.from = parseInstant('from', params.from, now, timeZone);
+    if (params.to) query.to = parseInstant('to', params.to, now, timeZone);
+    if (query.from && query.to && query.from > query.to) {
+        throw new ReminderQueryError("'from' must be before 'to'");
+    }
+
+    if (params.status) {
+        const statuses = toList(params.status);
+        const invalid = statuses.filter(status => !REMINDER_STATUSES.includes(status as ReminderStatus));
+        if (invalid.length > 0) {
+            throw new ReminderQueryError(`Invalid status '${invalid.join(', ')}'. Use one of: ${REMINDER_STATUSES.join(', ')}`);
+        }
+        query.status = statuses as ReminderStatus[];
+    }
+
+    if (params.owner) query.ownerId = String(params.owner);
+    if (params.email) query.email = String(params.email).toLowerCase();
+    if (params.search) query.search = String(params.search).toLowerCase();
+
+    try {
+        if (params.tags) query.tags = normalizeTags(params.tags);
+        if (params.priority) query.priority = toList(params.priority).map(normalizePriority);
+        if (params.category) query.category = normalizeCategory(params.category);
+    } catch (error) {
+        if (error instanceof ReminderLabelError) {
+            throw new ReminderQueryError(error.message);
+        }
+        throw error;
+    }
+
+    if (params.sortBy) {
+        if (!SORT_FIELDS.includes(params.sortBy)) {
+            throw new ReminderQueryError(`Invalid sortBy '${params.sortBy}'. Use one of: ${SORT_FIELDS.join(', ')}`);
+        }
+        query.sortBy = params.sortBy;
+    }
+    if (params.order) {
+        if (params.order !== 'asc' && params.order !== 'desc') {
+            throw new ReminderQueryError("Invalid order. Use 'asc' or 'desc'");
+        }
+        query.order = params.order;
+    }
+
+    if (params.limit !== undefined && params.limit !== '') {
+        const limit = parseInt(String(params.limit));
+        if (isNaN(limit) || limit < 1) {
+            throw new ReminderQueryError("'limit' must be a positive number");
+        }
+        query.limit = Math.min(limit, MAX_LIMIT);
+    }
+    if (params.offset !== undefined && params.offset !== '') {
+        const offset = parseInt(String(params.offset));
+        if (isNaN(offset) || offset < 0) {
+            throw new ReminderQueryError("'offset' must be zero or a positive number");
+        }
+        query.offset = offset;
+    }
+
+    return query;
+}
+
+/**
+ * Apply a query to a list of reminders
+ */
+export function queryReminders(reminders: Reminder[], query: ReminderQuery): ReminderQueryResult {
+    const matches = reminders.filter(reminder => matchesQuery(reminder, query));
+
+    const direction = query.order === 'desc' ? -1 : 1;
+    matches.sort((a, b) => {
+        const left = sortValue(a, query.sortBy);
+        const right = sortValue(b, query.sortBy);
+        if (left !== right) {
+            return (left < right ? -1 : 1) * direction;
+        }
+        // Ties (same priority, same task name) are listed soonest first
+        return sortValue(a, 'dueAt') as number - (sortValue(b, 'dueAt') as number);
+    });
+
+    const end = query.limit !== undefined ? query.offset + query.limit : undefined;
+    return { total: matches.length, reminders: matches.slice(query.offset, end) };
+}
+
+/**
+ * Occurrences of a reminder inside the query window (a one-off reminder has at most one)
+ */
+export function occurrencesInWindow(reminder: Pick<Reminder, 'dueAt' | 'recurrence' | 'seriesStartAt' | 'timeZone'>, from?: Date, to?: Date, limit = 100): Date[] {
+    const dueAt = new Date(reminder.dueAt);
+    const windowStart = from && from > dueAt ? from : dueAt;
+    const windowEnd = to || new Date(8640000000000000);
+
+    if (!reminder.recurrence) {
+        return dueAt >= windowStart && dueAt <= windowEnd ? [dueAt] : [];
+    }
+
+    const seriesStart = new Date(reminder.seriesStartAt || reminder.dueAt);
+    return occurrencesBetween(reminder.recurrence, seriesStart, windowStart, windowEnd, limit, reminder.timeZone);
+}
+
+/**
+ * Whether any day of an all-day reminder (of any upcoming occurrence, when it repeats) overlaps the window
+ */
+function allDayInWindow(reminder: Reminder, from?: Date, to?: Date): boolean {
+    const timeZone = reminder.timeZone || serverTimeZone();
+    const overlaps = (occurrence?: Date) => {
+        const { start, end } = spanBounds(reminderDays(reminder, occurrence)!, timeZone);
+        return (!from || end > from) && (!to || start <= to);
+    };
+    if (!reminder.recurrence) {
+        return overlaps();
+    }
+    // An occurrence that started up to its length before the window may still be running
+    const length = spanLength(reminderDays(reminder)!) * 24 * 60 * 60 * 1000;
+    const earliest = from && new Date(from.getTime() - length);
+    return occurrencesInWindow(reminder, earliest, to, 100).some(overlaps);
+}
+
+function matchesQuery(reminder: Reminder, query: ReminderQuery): boolean {
+    if (query.status && !query.status.includes(reminder.status)) {
+        return false;
+    }
+    if (query.ownerId && reminder.ownerId !== query.ownerId) {
+        return false;
+    }
+    if (query.email && (reminder.email || '').toLowerCase() !== query.email) {
+        return false;
+    }
+    if (query.search) {
+        const haystack = `${reminder.task} ${reminder.time}`.toLowerCase();
+        if (!haystack.includes(query.search)) {
+            return false;
+        }
+    }
+    if (query.tags && !query.tags.every(tag => (reminder.tags || []).includes(tag))) {
+        return false;
+    }
+    if (query.priority && !query.priority.includes(reminder.priority || 'normal')) {
+        return false;
+    }
+    if (query.category && reminder.category !== query.category) {
+        return false;
+    }
+    if (query.from || query.to) {
+        if (reminder.allDayStart) {
+            return allDayInWindow(reminder, query.from, query.to);
+        }
+        // Repeating reminders match when any upcoming occurrence falls in the window
+        if (reminder.recurrence) {
+            return occurrencesInWindow(reminder, query.from, query.to, 1).length > 0;
+        }
+        const dueAt = new Date(reminder.dueAt);
+        if ((query.from && dueAt < query.from) || (query.to && dueAt > query.to)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+function sortValue(reminder: Reminder, field: ReminderQuery['sortBy']): string | number {
+    switch (field) {
+        case 'createdAt':
+            return new Date(reminder.createdAt).getTime() || 0;
+        case 'task':
+            return reminder.task.toLowerCase();
+        case 'priority':
+            return priorityRank(reminder.priority);
+        default:
+            return new Date(reminder.dueAt).getTime() || 0;
+    }
+}
+
+function parseInstant(name: string, value: any, now: Date, timeZone: string): Date {
+    const text = String(value).trim();
+    if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+        // A bare date means midnight in the caller's zone; full timestamps carry their own offset
+        const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(text);
+        const date = new Date(dateOnly ? `${text}T00:00:00Z` : text);
+        if (isNaN(date.getTime())) {
+            throw new ReminderQueryError(`Invalid '${name}' date: ${text}`);
+        }
+        return dateOnly ? fromZonedWall(date, timeZone) : date;
+    }
+    return parseTimeExpression(text, now, timeZone);
+}
+
+function toList(value: any): string[] {
+    const values = Array.isArray(value) ? value : String(value).split(',');
+    return values.map(item => String(item).trim()).filter(Boolean);
+}
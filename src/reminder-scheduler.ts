@@ -0,0 +1,401 @@
+// reminder-scheduler.ts
+// ⏰ REMINDER SCHEDULER
+//
+// Turns stored reminders into actual notifications:
+// 1. Every reminder carries an absolute `dueAt` instant (resolved at creation)
+// 2. The scheduler arms a single timer for the earliest pending reminder
+// 3. When it wakes up, every due reminder is dispatched through a notifier
+// 4. Delivered reminders are marked `fired` in the repository; repeating
+//    reminders move on to their next occurrence instead (the next working
+//    day, for reminders kept to working days)
+// 5. Alarms of a reminder (see reminder-alarms.ts) are delivered through the
+//    same notifier ahead of (or after) the due time and recorded in `firedAlarms`
+//
+// Because state lives in the repository, a restart simply re-reads it:
+// reminders that came due while the server was down are delivered late
+// (never skipped), reminders already marked fired are never sent twice, and
+// failed deliveries keep their attempt count and next retry time.
+
+import axios from 'axios';
+import { Reminder, ReminderAlarm, ReminderRepository } from './reminder-store';
+import { nextOccurrence, occurrencesBetween } from './recurrence';
+import { AlarmTrigger, alarmTriggers, describeAlarm, undeliveredAlarms } from './reminder-alarms';
+import { resolveLocale } from './locales';
+import { formatInZone, serverTimeZone } from './timezone';
+import { describeDaySpan, reminderDays } from './all-day';
+import { WorkingCalendar, rollToWorkingDay } from './working-calendar';
+
+// setTimeout cannot wait longer than ~24.8 days; longer waits are chained
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
+const RETRY_DELAY_MS = 60_000;
+const MAX_DELIVERY_ATTEMPTS = 5;
+
+export interface ReminderDispatchContext {
+    late: boolean; // true when the reminder is delivered after its due time (e.g. after downtime)
+    scheduledFor: Date;
+    alarm?: ReminderAlarm; // set for an alarm ahead of (or after) the due time rather than the reminder itself
+}
+
+/**
+ * Delivers a due reminder to the user
+ */
+export interface ReminderNotifier {
+    notify(reminder: Reminder, context: ReminderDispatchContext): Promise<void>;
+}
+
+/**
+ * Default notifier: prints the reminder to the server console
+ */
+export class ConsoleReminderNotifier implements ReminderNotifier {
+    async notify(reminder: Reminder, context: ReminderDispatchContext): Promise<void> {
+        const lateInfo = context.late ? ` (late, was due ${context.scheduledFor.toLocaleString()})` : '';
+        if (context.alarm) {
+            console.log(`⏰ REMINDER ALARM (${describeAlarm(context.alarm, reminder.timeZone)}): ${reminder.task}${lateInfo}`);
+            return;
+        }
+        console.log(`🔔 REMINDER DUE: ${reminder.task}${lateInfo}`);
+    }
+}
+
+/**
+ * Posts the due reminder as JSON to a webhook (chat bot, desktop notifier, etc.)
+ */
+export class WebhookReminderNotifier implements ReminderNotifier {
+    constructor(private webhookUrl: string) {}
+
+    async notify(reminder: Reminder, context: ReminderDispatchContext): Promise<void> {
+        await axios.post(this.webhookUrl, {
+            event: context.alarm ? 'reminder.alarm' : 'reminder.due',
+            reminder,
+            ...(context.alarm ? { alarm: context.alarm } : {}),
+            late: context.late,
+            scheduledFor: context.scheduledFor.toISOString(),
+            firedAt: new Date().toISOString()
+        });
+    }
+}
+
+/**
+ * Sends email alarms of reminders with a recipient through the email server;
+ * everything else goes to the wrapped notifier
+ */
+export class EmailAlarmNotifier implements ReminderNotifier {
+    constructor(private inner: ReminderNotifier, private emailServerUrl: string) {}
+
+    async notify(reminder: Reminder, context: ReminderDispatchContext): Promise<void> {
+        if (context.alarm?.action !== 'email' || !reminder.email) {
+            return this.inner.notify(reminder, context);
+        }
+        const locale = resolveLocale(reminder.recipientLocale, reminder.locale);
+        const days = reminderDays(reminder, new Date(reminder.dueAt));
+        const due = days
+            ? `${describeDaySpan(days, locale.dateLocale)} (${locale.messages.allDay})`
+            : formatInZone(new Date(reminder.dueAt), reminder.recipientTimeZone || reminder.timeZone || serverTimeZone(), undefined, locale.dateLocale);
+        await axios.post(`${this.emailServerUrl}/send-email`, {
+            to: (reminder.attendees?.map(attendee => attendee.email) || [reminder.email]).join(', '),
+            subject: `${locale.messages.alertTitle}: ${reminder.task}`,
+            text: `${reminder.task}\n${locale.messages.scheduledTime}: ${due}`
+        });
+    }
+}
+
+/**
+ * Pick the notifier from the environment: REMINDER_WEBHOOK_URL enables webhooks.
+ * Email alarms are always mailed (see EmailAlarmNotifier).
+ */
+export function createReminderNotifier(): ReminderNotifier {
+    const emailServerUrl = `http://localhost:${process.env.EMAIL_SERVER_PORT || 3002}`;
+    if (process.env.REMINDER_WEBHOOK_URL) {
+        console.log(`🔔 Reminder notifications will be posted to ${process.env.REMINDER_WEBHOOK_URL}`);
+        return new EmailAlarmNotifier(new WebhookReminderNotifier(process.env.REMINDER_WEBHOOK_URL), emailServerUrl);
+    }
+    return new EmailAlarmNotifier(new ConsoleReminderNotifier(), emailServerUrl);
+}
+
+export class ReminderScheduler {
+    private timer: NodeJS.Timeout | null = null;
+    private running = false;
+    private inFlight = new Set<string>();
+    private retryAt = new Map<string, number>(); // backs up nextDeliveryAttemptAt when it could not be saved
+    private unrecordedAlarms = new Set<string>(); // delivered alarms whose firedAlarms update failed
+    private unrecordedDeliveries = new Map<string, number>(); // delivered reminders whose update failed -> next save attempt
+
+    /**
+     * @param workingCalendarFor - Working days of a reminder's owner; without it, repeating
+     *   reminders with `workingDaysOnly` keep their plain occurrences
+     */
+    constructor(
+        private repository: ReminderRepository,
+        private notifier: ReminderNotifier,
+        private workingCalendarFor?: (reminder: Reminder) => Promise<WorkingCalendar>
+    ) {}
+
+    /**
+     * Start the scheduler: deliver anything overdue, then wait for the next reminder
+     */
+    async start(): Promise<void> {
+        this.running = true;
+        console.log('⏰ Reminder scheduler started');
+        await this.tick();
+    }
+
+    stop() {
+        this.running = false;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        console.log('⏰ Reminder scheduler stopped');
+    }
+
+    /**
+     * Re-arm the timer after reminders were added or changed
+     */
+    async refresh(): Promise<void> {
+        if (this.running) {
+            await this.tick();
+        }
+    }
+
+    /**
+     * Fire every due reminder, then schedule the next wake-up
+     */
+    private async tick(): Promise<void> {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+
+        try {
+            const now = Date.now();
+            const reminders = await this.repository.list();
+            for (const reminder of reminders) {
+                for (const trigger of this.alarmsToDeliver(reminder, now).filter(trigger => trigger.at.getTime() <= now)) {
+                    await this.dispatchAlarm(reminder, trigger);
+                }
+            }
+
+            const pending = reminders.filter(reminder => reminder.status === 'pending');
+            const due = pending.filter(reminder => this.nextAttemptTime(reminder) <= now);
+            for (const reminder of due) {
+                await this.dispatch(reminder);
+            }
+        } catch (error) {
+            console.error('❌ Reminder scheduler tick failed:', error);
+        }
+
+        await this.armTimer();
+    }
+
+    private async armTimer(): Promise<void> {
+        if (!this.running) {
+            return;
+        }
+
+        let nextTime = Infinity;
+        try {
+            for (const reminder of await this.repository.list()) {
+                if (reminder.status === 'pending') {
+                    nextTime = Math.min(nextTime, this.nextAttemptTime(reminder));
+                }
+                for (const trigger of this.alarmsToDeliver(reminder, Date.now())) {
+                    nextTime = Math.min(nextTime, trigger.at.getTime());
+                }
+            }
+        } catch (error) {
+            console.error('❌ Failed to read reminders for scheduling:', error);
+            nextTime = Date.now() + RETRY_DELAY_MS;
+        }
+
+        if (nextTime === Infinity || this.timer) {
+            return;
+        }
+
+        const delay = Math.min(Math.max(nextTime - Date.now(), 0), MAX_TIMER_DELAY_MS);
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.tick();
+        }, delay);
+    }
+
+    private alarmsToDeliver(reminder: Reminder, now: number): AlarmTrigger[] {
+        return undeliveredAlarms(reminder, now).filter(trigger => !this.unrecordedAlarms.has(`${reminder.id}#${trigger.key}`));
+    }
+
+    private nextAttemptTime(reminder: Reminder): number {
+        const unrecorded = this.unrecordedDeliveries.get(this.retryKey(reminder));
+        if (unrecorded !== undefined) {
+            return unrecorded;
+        }
+        if ((reminder.deliveryAttempts || 0) >= MAX_DELIVERY_ATTEMPTS) {
+            // Given up; the error stays visible on the reminder until it is rescheduled
+            return Infinity;
+        }
+        const dueTime = new Date(reminder.dueAt).getTime();
+        const storedRetry = reminder.nextDeliveryAttemptAt ? new Date(reminder.nextDeliveryAttemptAt).getTime() : 0;
+        const retryTime = Math.max(this.retryAt.get(this.retryKey(reminder)) || 0, isNaN(storedRetry) ? 0 : storedRetry);
+        return Math.max(isNaN(dueTime) ? 0 : dueTime, retryTime);
+    }
+
+    /**
+     * For repeating reminders, move dueAt to the next occurrence and keep them pending.
+     * Occurrences missed while the server was down are collapsed into the late delivery
+     * that just happened rather than replayed one by one.
+     */
+    private async advanceRecurrence(reminder: Reminder): Promise<Partial<Reminder>> {
+        if (!reminder.recurrence) {
+            return {};
+        }
+
+        const start = new Date(reminder.seriesStartAt || reminder.dueAt);
+        const firedOccurrence = new Date(reminder.dueAt);
+        const now = new Date();
+        const after = firedOccurrence > now ? firedOccurrence : now;
+        let next = nextOccurrence(reminder.recurrence, start, after, reminder.timeZone);
+        if (next && reminder.workingDaysOnly && this.workingCalendarFor) {
+            next = rollToWorkingDay(next, reminder.timeZone || serverTimeZone(), await this.workingCalendarFor(reminder));
+        }
+
+        const missed = occurrencesBetween(reminder.recurrence, start, new Date(firedOccurrence.getTime() + 1), now, 100, reminder.timeZone).length;
+        if (missed > 0) {
+            console.log(`⏭️  Reminder ${reminder.id}: ${missed} missed occurrence(s) folded into this delivery`);
+        }
+
+        const occurrencesFired = (reminder.occurrencesFired || 0) + 1;
+        if (!next) {
+            return { occurrencesFired };
+        }
+        return {
+            status: 'pending',
+            dueAt: next.toISOString(),
+            occurrencesFired,
+            deliveryAttempts: 0,
+            firedAlarms: undefined
+        };
+    }
+
+    /**
+     * Retry state is keyed by due instant so rescheduling a reminder clears it
+     */
+    private retryKey(reminder: Reminder): string {
+        return `${reminder.id}@${reminder.dueAt}`;
+    }
+
+    /**
+     * Deliver one alarm of a reminder. Alarms are not retried: a late alert is rarely useful,
+     * so a failed one is only recorded on the reminder.
+     */
+    private async dispatchAlarm(reminder: Reminder, trigger: AlarmTrigger): Promise<void> {
+        const flightKey = `${reminder.id}#${trigger.key}`;
+        if (this.inFlight.has(flightKey)) {
+            return;
+        }
+        this.inFlight.add(flightKey);
+
+        let error: string | undefined;
+        try {
+            await this.notifier.notify(reminder, {
+                late: Date.now() - trigger.at.getTime() > RETRY_DELAY_MS,
+                scheduledFor: trigger.at,
+                alarm: trigger.alarm
+            });
+            console.log(`⏰ Alarm for reminder ${reminder.id} delivered (${describeAlarm(trigger.alarm, reminder.timeZone)})`);
+        } catch (failure) {
+            error = failure instanceof Error ? failure.message : 'Unknown error';
+            console.error(`❌ Failed to deliver alarm for reminder ${reminder.id}:`, error);
+        }
+
+        try {
+            // Re-read so alarms recorded meanwhile are kept; keys of earlier due times are dropped
+            const current = await this.repository.get(reminder.id);
+            if (current && current.dueAt === reminder.dueAt) {
+                const live = new Set(alarmTriggers(current).map(other => other.key));
+                await this.repository.update(reminder.id, {
+                    firedAlarms: [...(current.firedAlarms || []).filter(key => live.has(key)), trigger.key],
+                    ...(error ? { lastDeliveryError: `Alarm: ${error}` } : {})
+                });
+            }
+        } catch (failure) {
+            // Never deliver it twice, even though the repository does not know it was sent
+            this.unrecordedAlarms.add(flightKey);
+            console.error(`❌ Failed to record alarm for reminder ${reminder.id}:`, failure instanceof Error ? failure.message : failure);
+        } finally {
+            this.inFlight.delete(flightKey);
+        }
+    }
+
+    /**
+     * Deliver one reminder and record the outcome in the repository.
+     * A failed delivery is retried with a growing delay (stored on the reminder, so it survives
+     * restarts); once delivered, only recording it is retried, the reminder is never sent again.
+     */
+    private async dispatch(reminder: Reminder): Promise<void> {
+        if (this.inFlight.has(reminder.id)) {
+            return;
+        }
+        this.inFlight.add(reminder.id);
+
+        const scheduledFor = new Date(reminder.dueAt);
+        const late = Date.now() - scheduledFor.getTime() > RETRY_DELAY_MS;
+        const key = this.retryKey(reminder);
+
+        try {
+            // Re-read so a reminder changed since the tick started is not fired stale
+            const current = await this.repository.get(reminder.id);
+            if (!current || current.status !== 'pending' || current.dueAt !== reminder.dueAt) {
+                this.unrecordedDeliveries.delete(key);
+                return;
+            }
+
+            if (!this.unrecordedDeliveries.has(key)) {
+                try {
+                    await this.notifier.notify(current, { late, scheduledFor });
+                } catch (error) {
+                    await this.recordDeliveryFailure(current, error);
+                    return;
+                }
+                this.retryAt.delete(key);
+                this.unrecordedDeliveries.set(key, Date.now() + RETRY_DELAY_MS);
+            }
+
+            await this.repository.update(reminder.id, {
+                status: 'fired',
+                firedAt: new Date().toISOString(),
+                deliveryAttempts: (current.deliveryAttempts || 0) + 1,
+                lastDeliveryError: undefined,
+                nextDeliveryAttemptAt: undefined,
+                ...await this.advanceRecurrence(current)
+            });
+            this.unrecordedDeliveries.delete(key);
+            console.log(`✅ Reminder ${reminder.id} fired${late ? ' (late)' : ''}`);
+        } catch (error) {
+            if (this.unrecordedDeliveries.has(key)) {
+                this.unrecordedDeliveries.set(key, Date.now() + RETRY_DELAY_MS);
+            } else {
+                this.retryAt.set(key, Date.now() + RETRY_DELAY_MS);
+            }
+            console.error(`❌ Failed to update reminder ${reminder.id}:`, error instanceof Error ? error.message : error);
+        } finally {
+            this.inFlight.delete(reminder.id);
+        }
+    }
+
+    /**
+     * Count a failed delivery on the reminder and schedule the next attempt, giving up after
+     * MAX_DELIVERY_ATTEMPTS
+     */
+    private async recordDeliveryFailure(reminder: Reminder, error: unknown): Promise<void> {
+        const attempts = (reminder.deliveryAttempts || 0) + 1;
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`❌ Failed to deliver reminder ${reminder.id} (attempt ${attempts}):`, message);
+
+        const retryAt = attempts >= MAX_DELIVERY_ATTEMPTS ? Infinity : Date.now() + RETRY_DELAY_MS * attempts;
+        // Kept in memory too, so a store that cannot save the attempt does not make the timer spin
+        this.retryAt.set(this.retryKey(reminder), retryAt);
+        await this.repository.update(reminder.id, {
+            deliveryAttempts: attempts,
+            lastDeliveryError: message,
+            nextDeliveryAttemptAt: retryAt === Infinity ? undefined : new Date(retryAt).toISOString()
+        });
+    }
+}
@@ -0,0 +1,112 @@
+// reminder-snooze.ts
+// 😴 REMINDER SNOOZE
+//
+// Pushes a reminder back without losing track of it:
+// - "10 minutes", "for 2 hours", "in 1 day" → relative to the later of now and the due time
+// - "until tomorrow morning", "tomorrow at 8 AM", "this evening" → an absolute instant
+// Every snooze is appended to the reminder's snooze history.
+// Absolute times are read with the shared time grammar in the reminder's own time zone;
+// other languages ("10 Minuten", "hasta mañana por la mañana") go through their locale pack first.
+// Reminders kept to working days are moved off weekends and holidays when snoozed to an absolute time.
+
+import { matchTimeExpression } from './calendar-utils';
+import { LocalePack, translateTimePhrase } from './locales';
+import { Reminder, ReminderSnooze } from './reminder-store';
+import { formatInZone, serverTimeZone } from './timezone';
+import { WorkingCalendar, rollToWorkingDay } from './working-calendar';
+
+const UNIT_MINUTES: Record<string, number> = {
+    minute: 1,
+    min: 1,
+    hour: 60,
+    hr: 60,
+    day: 24 * 60,
+    week: 7 * 24 * 60
+};
+
+// Snoozing further than this is almost certainly a parsing mistake
+const MAX_SNOOZE_MS = 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * Raised when a snooze expression cannot be understood (mapped to HTTP 400)
+ */
+export class SnoozeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SnoozeError';
+    }
+}
+
+/**
+ * Resolve a snooze expression to the instant the reminder should fire again
+ *
+ * @param calendar - Working days for "until next business day" and for reminders with `workingDaysOnly`
+ */
+export function resolveSnoozeUntil(
+    expression: string,
+    reminder: Reminder,
+    now: Date = new Date(),
+    timeZone: string = reminder.timeZone || serverTimeZone(),
+    locale?: LocalePack,
+    calendar?: WorkingCalendar
+): Date {
+    const phrase = locale ? translateTimePhrase(String(expression || ''), locale) : String(expression || '');
+    const text = phrase.toLowerCase().trim().replace(/^(snooze\s+)?(for|in)\s+/, '');
+    if (!text) {
+        throw new SnoozeError("Missing snooze duration, e.g. '10 minutes' or 'until tomorrow morning'");
+    }
+
+    let until: Date;
+    const durationMatch = text.match(/^(\d+|an?)\s*(minute|min|hour|hr|day|week)s?$/);
+    if (durationMatch) {
+        const amount = /^\d+$/.test(durationMatch[1]) ? parseInt(durationMatch[1]) : 1;
+        const dueAt = new Date(reminder.dueAt);
+        // A reminder that has not fired yet is pushed back from its own due time;
+        // a fired one (or a repeating one that already fired) is snoozed from now
+        const notYetFired = reminder.status === 'pending' && dueAt > now && !(reminder.recurrence && reminder.firedAt);
+        const base = notYetFired ? dueAt : now;
+        until = new Date(base.getTime() + amount * UNIT_MINUTES[durationMatch[2]] * 60_000);
+    } else {
+        until = resolveSnoozeInstant(text.replace(/^(until|by)\s+/, ''), now, timeZone, calendar);
+        if (reminder.workingDaysOnly && calendar) {
+            until = rollToWorkingDay(until, timeZone, calendar);
+        }
+    }
+
+    if (until <= now) {
+        throw new SnoozeError(`Snooze time must be in the future (got ${formatInZone(until, timeZone)})`);
+    }
+    if (until.getTime() - now.getTime() > MAX_SNOOZE_MS) {
+        throw new SnoozeError('Snooze time must be within a year');
+    }
+    return until;
+}
+
+/**
+ * Changes that snooze a reminder: re-arm it at `until` and record the snooze
+ */
+export function snoozeChanges(reminder: Reminder, until: Date, source: ReminderSnooze['source'], now: Date = new Date()): Partial<Reminder> {
+    const entry: ReminderSnooze = {
+        snoozedAt: now.toISOString(),
+        previousDueAt: reminder.dueAt,
+        until: until.toISOString(),
+        source
+    };
+    return {
+        dueAt: until.toISOString(),
+        status: 'pending',
+        deliveryAttempts: 0,
+        lastDeliveryError: undefined,
+        nextDeliveryAttemptAt: undefined,
+        snoozeHistory: [...(reminder.snoozeHistory || []), entry]
+    };
+}
+
+function resolveSnoozeInstant(text: string, now: Date, timeZone: string, calendar?: WorkingCalendar): Date {
+    // Anything the grammar only partly understood would silently snooze to the wrong time
+    const match = matchTimeExpression(text, now, timeZone, undefined, calendar);
+    if (!match || match.unparsed) {
+        throw new SnoozeError(`Could not understand snooze time '${text}'. Try '10 minutes', '2 hours' or 'until tomorrow morning'`);
+    }
+    return match.date;
+}
@@ -0,0 +1,274 @@
+// reminder-store.ts
+// 💾 REMINDER STORAGE LAYER
+//
+// Every tool handler reads and writes reminders through a ReminderRepository.
+// Two implementations are provided:
+// - InMemoryReminderRepository: fast, throwaway storage for tests and demos
+// - FileReminderRepository: JSON file on disk that survives server restarts
+//
+// The file format carries a schemaVersion so older data is migrated on load
+// (see reminder-migrations.ts).
+
+import fs from 'fs';
+import path from 'path';
+import { migrateReminders, REMINDER_SCHEMA_VERSION } from './reminder-migrations';
+import { RecurrenceRule } from './recurrence';
+import { InviteAttendee, InviteOrganizer } from './attendees';
+import { AttendeeRsvp } from './rsvp-replies';
+
+export type ReminderStatus = 'pending' | 'fired' | 'completed';
+export type ReminderPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+export type AlarmAction = 'display' | 'email' | 'audio';
+
+export interface ReminderAlarm {
+    minutesBefore?: number; // relative to dueAt; negative means after
+    at?: string; // absolute ISO instant, instead of minutesBefore (one-off reminders only)
+    action?: AlarmAction; // how the alert is given; display when absent
+}
+
+export interface ReminderSnooze {
+    snoozedAt: string;
+    previousDueAt: string;
+    until: string;
+    source: 'tool' | 'email'; // snooze_reminder tool or a signed link in the reminder email
+}
+
+export interface Reminder {
+    id: string;
+    ownerId: string; // userId of the caller that created it (see auth.ts)
+    time: string;
+    task: string;
+    email?: string; // primary recipient; with several attendees, the first one
+    attendees?: InviteAttendee[]; // everyone the invite went to, with roles and display names (see attendees.ts)
+    organizer?: InviteOrganizer; // organizer written into the invite, when the sender configured one
+    tags?: string[]; // lowercase, without '#'
+    priority?: ReminderPriority; // absent means normal
+    category?: string;
+    createdAt: string;
+    updatedAt?: string; // last change of any kind, set by the repository (absent until the first update)
+    dueAt: string; // Absolute ISO instant resolved from `time` when the reminder was created
+    timeZone?: string; // IANA zone `time` was read in; recurrences keep their wall-clock time there
+    locale?: string; // language `time` was written in (locale pack code, e.g. 'de')
+    timeConfidence?: 'high' | 'medium' | 'low'; // How sure the parser was about `time`
+    timeInterpretation?: string; // How `time` was understood, e.g. "Specific time detected"
+    workingDaysOnly?: boolean; // Due times falling on a weekend or holiday move to the next working day (see working-calendar.ts)
+    allDayStart?: string; // first day (YYYY-MM-DD) of an all-day or multi-day reminder; dueAt is 9 AM that day (see all-day.ts)
+    allDayEnd?: string; // its last day, inclusive
+    status: ReminderStatus;
+    firedAt?: string;
+    completedAt?: string;
+    deliveryAttempts?: number;
+    lastDeliveryError?: string;
+    nextDeliveryAttemptAt?: string; // After a failed delivery: when the scheduler tries again
+    recurrence?: RecurrenceRule; // Present on repeating reminders; dueAt is then the next occurrence
+    seriesStartAt?: string; // First occurrence of a repeating reminder (DTSTART)
+    occurrencesFired?: number;
+    snoozeHistory?: ReminderSnooze[];
+    calendarUid?: string; // iCalendar UID of the event this reminder came from, or of the invite it sent
+    calendarSequence?: number; // SEQUENCE of the last invite sent; present only on reminders that emailed one
+    calendarStartAt?: string; // start of the event in the last invite (dueAt moves with snoozes and occurrences)
+    inviteError?: string; // why the first invite email could not be sent (calendarSequence is then absent)
+    rsvps?: AttendeeRsvp[]; // attendees' replies to the invite (see rsvp-replies.ts)
+    rsvpSequence?: number; // SEQUENCE of the invite that last moved the event; replies to older ones are stale
+    caldavHref?: string; // path of the reminder's resource on the CalDAV server (see caldav-sync.ts)
+    caldavEtag?: string; // ETag of that resource when last synced
+    caldavHash?: string; // hash of the content both sides held after the last sync
+    recipientTimeZone?: string; // zone and language the invite emails were written for
+    recipientLocale?: string;
+    location?: string;
+    durationMinutes?: number; // length of the underlying event, when known
+    durationSource?: 'explicit' | 'suggested' | 'calendar'; // set by the user, suggested (duration-suggestions.ts) or imported
+    alarms?: ReminderAlarm[]; // alerts before (or after) dueAt, in the invite and from the scheduler (see reminder-alarms.ts)
+    firedAlarms?: string[]; // trigger instants of alarms already delivered (see alarmTriggers)
+}
+
+/**
+ * Storage contract used by all reminder tools
+ */
+export interface ReminderRepository {
+    list(): Promise<Reminder[]>;
+    get(id: string): Promise<Reminder | undefined>;
+    add(reminder: Reminder): Promise<Reminder>;
+    update(id: string, changes: Partial<Reminder>): Promise<Reminder | undefined>;
+    remove(id: string): Promise<Reminder | undefined>;
+}
+
+interface ReminderFileContents {
+    schemaVersion: number;
+    reminders: Reminder[];
+}
+
+/**
+ * Keeps reminders in process memory. Data is lost on restart.
+ * Reminders are deep-copied in and out, so callers never share the stored arrays
+ * (attendees, alarms, rsvps, ...).
+ */
+export class InMemoryReminderRepository implements ReminderRepository {
+    private reminders: Reminder[] = [];
+
+    constructor(initial: Reminder[] = []) {
+        this.reminders = initial.map(reminder => structuredClone(reminder));
+    }
+
+    async list(): Promise<Reminder[]> {
+        return this.reminders.map(reminder => structuredClone(reminder));
+    }
+
+    async get(id: string): Promise<Reminder | undefined> {
+        const reminder = this.reminders.find(r => r.id === id);
+        return reminder ? structuredClone(reminder) : undefined;
+    }
+
+    async add(reminder: Reminder): Promise<Reminder> {
+        if (this.reminders.some(r => r.id === reminder.id)) {
+            throw new Error(`Reminder ${reminder.id} already exists`);
+        }
+        this.reminders.push(structuredClone(reminder));
+        return structuredClone(reminder);
+    }
+
+    async update(id: string, changes: Partial<Reminder>): Promise<Reminder | undefined> {
+        const index = this.reminders.findIndex(r => r.id === id);
+        if (index === -1) {
+            return undefined;
+        }
+        this.reminders[index] = { ...this.reminders[index], ...structuredClone(changes), id, updatedAt: new Date().toISOString() };
+        return structuredClone(this.reminders[index]);
+    }
+
+    async remove(id: string): Promise<Reminder | undefined> {
+        const index = this.reminders.findIndex(r => r.id === id);
+        if (index === -1) {
+            return undefined;
+        }
+        const [removed] = this.reminders.splice(index, 1);
+        return removed;
+    }
+}
+
+/**
+ * Persists reminders to a JSON file.
+ * Writes are serialized and go through a temp file + rename so a crash
+ * mid-write never leaves a truncated store behind.
+ */
+export class FileReminderRepository implements ReminderRepository {
+    private filePath: string;
+    private memory: InMemoryReminderRepository | null = null;
+    private loading: Promise<InMemoryReminderRepository> | null = null;
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(filePath: string) {
+        this.filePath = path.resolve(filePath);
+    }
+
+    async list(): Promise<Reminder[]> {
+        return (await this.load()).list();
+    }
+
+    async get(id: string): Promise<Reminder | undefined> {
+        return (await this.load()).get(id);
+    }
+
+    async add(reminder: Reminder): Promise<Reminder> {
+        const memory = await this.load();
+        const added = await memory.add(reminder);
+        await this.persist();
+        return added;
+    }
+
+    async update(id: string, changes: Partial<Reminder>): Promise<Reminder | undefined> {
+        const memory = await this.load();
+        const updated = await memory.update(id, changes);
+        if (updated) {
+            await this.persist();
+        }
+        return updated;
+    }
+
+    async remove(id: string): Promise<Reminder | undefined> {
+        const memory = await this.load();
+        const removed = await memory.remove(id);
+        if (removed) {
+            await this.persist();
+        }
+        return removed;
+    }
+
+    /**
+     * Read the store from disk once, migrating older schema versions. Calls made while the
+     * first read is in flight share it; a failed read is retried by the next call.
+     */
+    private load(): Promise<InMemoryReminderRepository> {
+        if (!this.loading) {
+            this.loading = this.read().catch(error => {
+                this.loading = null;
+                throw error;
+            });
+        }
+        return this.loading;
+    }
+
+    private async read(): Promise<InMemoryReminderRepository> {
+        let contents: ReminderFileContents = { schemaVersion: REMINDER_SCHEMA_VERSION, reminders: [] };
+        let needsWrite = false;
+
+        try {
+            const raw = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+            // Version 0 stores were a bare array of reminders
+            const storedVersion = Array.isArray(raw) ? 0 : Number(raw.schemaVersion || 0);
+            const storedReminders = Array.isArray(raw) ? raw : (raw.reminders || []);
+
+            const { reminders, applied } = migrateReminders(storedReminders, storedVersion);
+            contents = { schemaVersion: REMINDER_SCHEMA_VERSION, reminders };
+
+            if (applied.length > 0) {
+                console.log(`🧬 Migrated reminder store ${this.filePath} to schema v${REMINDER_SCHEMA_VERSION} (${applied.map(m => m.description).join('; ')})`);
+                needsWrite = true;
+            }
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw new Error(`Failed to load reminder store ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        }
+
+        this.memory = new InMemoryReminderRepository(contents.reminders);
+        console.log(`💾 Loaded ${contents.reminders.length} reminders from ${this.filePath}`);
+
+        if (needsWrite) {
+            await this.persist();
+        }
+        return this.memory;
+    }
+
+    private persist(): Promise<void> {
+        const write = async () => {
+            const contents: ReminderFileContents = {
+                schemaVersion: REMINDER_SCHEMA_VERSION,
+                reminders: this.memory ? await this.memory.list() : []
+            };
+            const tempPath = `${this.filePath}.tmp`;
+            await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+            await fs.promises.writeFile(tempPath, JSON.stringify(contents, null, 2), 'utf8');
+            await fs.promises.rename(tempPath, this.filePath);
+        };
+
+        this.writeQueue = this.writeQueue.then(write, write);
+        return this.writeQueue;
+    }
+}
+
+/**
+ * Pick the repository implementation from the environment.
+ * REMINDER_STORE=memory keeps the old throwaway behaviour; the default is a JSON file.
+ */
+export function createReminderRepository(): ReminderRepository {
+    if (process.env.REMINDER_STORE === 'memory') {
+        console.log('💾 Using in-memory reminder store (data is lost on restart)');
+        return new InMemoryReminderRepository();
+    }
+
+    const filePath = process.env.REMINDER_DB_PATH || path.join('data', 'reminders.json');
+    console.log(`💾 Using file reminder store at ${path.resolve(filePath)}`);
+    return new FileReminderRepository(filePath);
+}
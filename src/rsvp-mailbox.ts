@@ -0,0 +1,162 @@
+// rsvp-mailbox.ts
+// 📬 RSVP MAILBOX
+//
+// Picks up the RSVP replies (rsvp-replies.ts) that attendees' calendar apps email to the organizer
+// address, from a Maildir that receives that mail (RSVP_MAILDIR):
+// - every RSVP_POLL_INTERVAL_SECONDS the messages in new/ are read and moved to cur/
+// - replies are recorded on their reminders and flagged seen (":2,S"); other mail is left unread
+// - when recording fails (e.g. the store is unavailable) the message stays in new/ for the next poll
+// An IMAP inbox is polled by mirroring it into a Maildir (mbsync, offlineimap, getmail);
+// other sources plug in through the Mailbox interface.
+
+import fs from 'fs';
+import path from 'path';
+import { ReminderRepository } from './reminder-store';
+import { RsvpError, RsvpResult, readRsvpReplies, recordRsvpReplies } from './rsvp-replies';
+import { IcsParseError } from './ics-parser';
+
+const DEFAULT_POLL_INTERVAL_SECONDS = 60;
+const MIN_POLL_INTERVAL_SECONDS = 5;
+
+export interface MailboxMessage {
+    id: string;
+    content: string;
+    receivedAt: Date;
+}
+
+/**
+ * Where replies are read from: unread messages, each marked read once handled
+ */
+export interface Mailbox {
+    readonly description: string;
+    unread(): Promise<MailboxMessage[]>;
+    markRead(id: string, seen: boolean): Promise<void>; // seen=false keeps it unread for a person
+}
+
+/**
+ * A Maildir (new/, cur/, tmp/) as delivered by an MTA or mirrored from IMAP
+ */
+export class MaildirMailbox implements Mailbox {
+    constructor(private directory: string) {
+        this.directory = path.resolve(directory);
+    }
+
+    get description(): string {
+        return `Maildir ${this.directory}`;
+    }
+
+    async unread(): Promise<MailboxMessage[]> {
+        const folder = path.join(this.directory, 'new');
+        let names: string[];
+        try {
+            names = await fs.promises.readdir(folder);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+
+        const messages: MailboxMessage[] = [];
+        for (const name of names.filter(name => !name.startsWith('.')).sort()) {
+            const file = path.join(folder, name);
+            const [content, stat] = await Promise.all([fs.promises.readFile(file, 'utf8'), fs.promises.stat(file)]);
+            messages.push({ id: name, content, receivedAt: stat.mtime });
+        }
+        return messages;
+    }
+
+    async markRead(id: string, seen: boolean) {
+        const folder = path.join(this.directory, 'cur');
+        await fs.promises.mkdir(folder, { recursive: true });
+        await fs.promises.rename(path.join(this.directory, 'new', id), path.join(folder, `${id}:2,${seen ? 'S' : ''}`));
+    }
+}
+
+/**
+ * Polls a mailbox and records the replies in it
+ */
+export class RsvpMailboxPoller {
+    private timer: NodeJS.Timeout | null = null;
+    private polling = false;
+
+    /**
+     * @param onChange - Called after replies were recorded
+     */
+    constructor(
+        private repository: ReminderRepository,
+        private mailbox: Mailbox,
+        private intervalMs: number,
+        private onChange?: () => Promise<void>
+    ) {}
+
+    start() {
+        console.log(`📬 Checking ${this.mailbox.description} for RSVP replies every ${this.intervalMs / 1000}s`);
+        this.timer = setInterval(() => this.poll(), this.intervalMs);
+        this.poll();
+    }
+
+    stop() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Handle the unread messages once; a poll still running makes this a no-op
+     */
+    async poll(): Promise<RsvpResult[]> {
+        if (this.polling) {
+            return [];
+        }
+        this.polling = true;
+        const results: RsvpResult[] = [];
+        try {
+            for (const message of await this.mailbox.unread()) {
+                let replies;
+                try {
+                    replies = readRsvpReplies(message.content);
+                } catch (error) {
+                    if (error instanceof RsvpError || error instanceof IcsParseError) {
+                        console.log(`📬 ${message.id} is not an RSVP reply (${error.message}); left unread`);
+                        await this.mailbox.markRead(message.id, false);
+                        continue;
+                    }
+                    throw error;
+                }
+                const recorded = await recordRsvpReplies(this.repository, replies, { receivedAt: message.receivedAt });
+                for (const result of recorded) {
+                    console.log(`📨 RSVP from ${result.email}: ${result.response} (${result.outcome}${result.reminderId ? `, reminder ${result.reminderId}` : `, UID ${result.uid}`})`);
+                }
+                results.push(...recorded);
+                await this.mailbox.markRead(message.id, true);
+            }
+            if (results.some(result => result.outcome === 'recorded')) {
+                await this.onChange?.();
+            }
+        } catch (error) {
+            console.error('❌ RSVP mailbox poll failed:', error instanceof Error ? error.message : error);
+        } finally {
+            this.polling = false;
+        }
+        return results;
+    }
+}
+
+/**
+ * The mailbox poller configured by RSVP_MAILDIR (and RSVP_POLL_INTERVAL_SECONDS),
+ * or null when no mailbox is configured
+ */
+export function createRsvpMailboxPoller(repository: ReminderRepository, onChange?: () => Promise<void>): RsvpMailboxPoller | null {
+    if (!process.env.RSVP_MAILDIR) {
+        return null;
+    }
+    const seconds = parseInt(process.env.RSVP_POLL_INTERVAL_SECONDS || '') || DEFAULT_POLL_INTERVAL_SECONDS;
+    return new RsvpMailboxPoller(
+        repository,
+        new MaildirMailbox(process.env.RSVP_MAILDIR),
+        Math.max(seconds, MIN_POLL_INTERVAL_SECONDS) * 1000,
+        onChange
+    );
+}
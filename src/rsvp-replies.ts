@@ -0,0 +1,375 @@
+// rsvp-replies.ts
+// 📨 RSVP REPLIES
+//
+// Invites ask every attendee to respond (RSVP=TRUE, PARTSTAT=NEEDS-ACTION). Their calendar app
+// answers with an iMIP reply: an email carrying a METHOD:REPLY calendar with the event's UID and the
+// attendee's PARTSTAT (ACCEPTED, DECLINED, TENTATIVE or DELEGATED). Replies come in through
+// POST /calendar/replies or the mailbox poller (rsvp-mailbox.ts) and are recorded on the reminder
+// whose invite they answer, per attendee and, for one occurrence of a series, per occurrence:
+// - only attendees the invite went to, or someone one of them delegated to, are recorded
+// - a reply to an invite sent before the event last moved (SEQUENCE below rsvpSequence) is stale,
+//   as is one stamped (DTSTAMP) before the response already recorded
+// - moving the event asks everyone again, so its responses are cleared (see update_reminder)
+
+import { IcsComponent, IcsProperty, findComponents, getProperties, getProperty, getText, parseIcs, parseIcsDate } from './ics-parser';
+import { Reminder, ReminderRepository } from './reminder-store';
+import { InviteAttendee, inviteRecipients } from './attendees';
+import { serverTimeZone } from './timezone';
+
+export type AttendeeResponse = 'needs-action' | 'accepted' | 'declined' | 'tentative' | 'delegated';
+
+export const ATTENDEE_RESPONSES: AttendeeResponse[] = ['accepted', 'tentative', 'declined', 'delegated', 'needs-action'];
+
+export interface AttendeeRsvp {
+    email: string;
+    response: AttendeeResponse;
+    respondedAt: string; // DTSTAMP of the reply, else when it arrived
+    occurrence?: string; // start (ISO) of the one occurrence answered (RECURRENCE-ID); absent for the whole event
+    delegatedTo?: string; // with 'delegated': who was asked to attend instead
+    comment?: string; // note the attendee added to the reply
+}
+
+export interface RsvpReply {
+    uid: string;
+    sequence: number; // SEQUENCE of the invite being answered
+    stamp?: Date;
+    occurrence?: IcsProperty; // RECURRENCE-ID, read in the reminder's zone once the reminder is known
+    attendees: { email: string; response: AttendeeResponse; delegatedTo?: string; comment?: string }[];
+}
+
+export type RsvpOutcome = 'recorded' | 'unchanged' | 'stale' | 'unknown-event' | 'unknown-attendee';
+
+export interface RsvpResult {
+    uid: string;
+    email: string;
+    response: AttendeeResponse;
+    outcome: RsvpOutcome;
+    reminderId?: string;
+    task?: string;
+    occurrence?: string;
+}
+
+/**
+ * An attendee of a sent invite with their latest answer
+ */
+export interface AttendeeStatus extends InviteAttendee {
+    response: AttendeeResponse;
+    respondedAt?: string;
+    delegatedTo?: string;
+    delegatedFrom?: string; // the invited attendee who passed the invite on
+    comment?: string;
+    occurrences?: { occurrence: string; response: AttendeeResponse; respondedAt: string }[]; // answers for single occurrences
+}
+
+/**
+ * Raised when a message carries no calendar reply (mapped to HTTP 400)
+ */
+export class RsvpError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RsvpError';
+    }
+}
+
+// --- Reading replies ---
+
+const calendarAddress = (value: string) => value.trim().replace(/^"|"$/g, '').replace(/^mailto:/i, '').trim();
+
+function readReplyEvent(event: IcsComponent): RsvpReply | undefined {
+    const uid = getText(event, 'UID');
+    if (!uid) {
+        return undefined;
+    }
+    const stamp = getProperty(event, 'DTSTAMP');
+    const comment = getText(event, 'COMMENT')?.trim();
+    const attendees: RsvpReply['attendees'] = [];
+    for (const attendee of getProperties(event, 'ATTENDEE')) {
+        const response = attendee.params.PARTSTAT?.toLowerCase() as AttendeeResponse | undefined;
+        const email = calendarAddress(attendee.value);
+        if (!response || !ATTENDEE_RESPONSES.includes(response) || !email) {
+            continue;
+        }
+        const delegatedTo = attendee.params['DELEGATED-TO'] ? calendarAddress(attendee.params['DELEGATED-TO'].split(',')[0]) : undefined;
+        attendees.push({ email, response, ...(delegatedTo ? { delegatedTo } : {}), ...(comment ? { comment } : {}) });
+    }
+    if (attendees.length === 0) {
+        return undefined;
+    }
+    return {
+        uid,
+        sequence: parseInt(getText(event, 'SEQUENCE') || '0') || 0,
+        stamp: stamp ? parseIcsDate(stamp).date : undefined,
+        occurrence: getProperty(event, 'RECURRENCE-ID'),
+        attendees
+    };
+}
+
+/**
+ * The replies in an iCalendar document: the VEVENTs of its METHOD:REPLY calendars
+ */
+export function parseRsvpReplies(ics: string): RsvpReply[] {
+    return parseIcs(ics)
+        .filter(calendar => calendar.name === 'VCALENDAR' && getText(calendar, 'METHOD')?.trim().toUpperCase() === 'REPLY')
+        .flatMap(calendar => findComponents([calendar], 'VEVENT'))
+        .map(readReplyEvent)
+        .filter((reply): reply is RsvpReply => !!reply);
+}
+
+/**
+ * The replies in a calendar or a whole email (the iMIP message as delivered).
+ * Throws RsvpError when there is none, IcsParseError for a broken calendar.
+ */
+export function readRsvpReplies(text: string): RsvpReply[] {
+    const calendars = /^\s*BEGIN:VCALENDAR/i.test(text) ? [text] : calendarPartsOfMessage(text);
+    if (calendars.length === 0) {
+        throw new RsvpError('No calendar found: expected an iMIP email with a text/calendar part, or the calendar itself');
+    }
+    const replies = calendars.flatMap(parseRsvpReplies);
+    if (replies.length === 0) {
+        throw new RsvpError('No calendar reply found: expected METHOD:REPLY with the event UID and an ATTENDEE with a PARTSTAT');
+    }
+    return replies;
+}
+
+// --- MIME ---
+
+interface MimeEntity {
+    headers: Record<string, string>; // lowercase name → unfolded value
+    body: string;
+}
+
+function splitEntity(raw: string): MimeEntity {
+    const text = raw.replace(/\r\n|\r/g, '\n');
+    const end = text.indexOf('\n\n');
+    const head = end === -1 ? text : text.slice(0, end);
+    const headers: Record<string, string> = {};
+    for (const line of head.replace(/\n[ \t]+/g, ' ').split('\n')) {
+        const colon = line.indexOf(':');
+        if (colon > 0) {
+            headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+        }
+    }
+    return { headers, body: end === -1 ? '' : text.slice(end + 2) };
+}
+
+/**
+ * "text/calendar; method=REPLY; charset=\"utf-8\"" → ['text/calendar', { method: 'REPLY', charset: 'utf-8' }]
+ */
+function headerValue(value: string | undefined): [string, Record<string, string>] {
+    const [first, ...rest] = (value || '').match(/(?:[^;"]+|"[^"]*")+/g) || [''];
+    const params: Record<string, string> = {};
+    for (const param of rest) {
+        const eq = param.indexOf('=');
+        if (eq > 0) {
+            params[param.slice(0, eq).trim().toLowerCase()] = param.slice(eq + 1).trim().replace(/^"|"$/g, '');
+        }
+    }
+    return [first.trim().toLowerCase(), params];
+}
+
+function multipartBodies(body: string, boundary: string): string[] {
+    const delimiter = `--${boundary}`;
+    const parts: string[] = [];
+    let current: string[] | null = null;
+    for (const line of body.split('\n')) {
+        const trimmed = line.trimEnd();
+        if (trimmed === delimiter || trimmed === `${delimiter}--`) {
+            if (current) {
+                parts.push(current.join('\n'));
+            }
+            if (trimmed !== delimiter) {
+                break;
+            }
+            current = [];
+        } else {
+            current?.push(line);
+        }
+    }
+    return parts;
+}
+
+function decodeBody(body: string, transferEncoding = '', charset = 'utf-8'): string {
+    const encoding = transferEncoding.trim().toLowerCase();
+    if (encoding !== 'base64' && encoding !== 'quoted-printable') {
+        return body;
+    }
+    const bytes = encoding === 'base64'
+        ? Buffer.from(body.replace(/\s+/g, ''), 'base64')
+        : Buffer.from(body.replace(/=\n/g, '').replace(/=([0-9A-F]{2})/gi, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16))), 'latin1');
+    try {
+        return new TextDecoder(charset).decode(bytes);
+    } catch {
+        return bytes.toString('utf8'); // unknown charset
+    }
+}
+
+/**
+ * The calendars in an email: text/calendar parts and .ics attachments, decoded, in message order
+ */
+export function calendarPartsOfMessage(raw: string): string[] {
+    const { headers, body } = splitEntity(raw);
+    const [type, params] = headerValue(headers['content-type'] || 'text/plain');
+    if (type.startsWith('multipart/')) {
+        return params.boundary ? multipartBodies(body, params.boundary).flatMap(calendarPartsOfMessage) : [];
+    }
+    const content = decodeBody(body, headers['content-transfer-encoding'], params.charset);
+    if (type === 'message/rfc822') {
+        return calendarPartsOfMessage(content);
+    }
+    const filename = headerValue(headers['content-disposition'])[1].filename || params.name || '';
+    return type === 'text/calendar' || type === 'application/ics' || /\.ics$/i.test(filename) ? [content] : [];
+}
+
+// --- Recording replies ---
+
+/**
+ * The reminder's responses with one reply applied, and what became of each attendee in it
+ */
+export function applyRsvpReply(reminder: Reminder, reply: RsvpReply, receivedAt = new Date()): { rsvps: AttendeeRsvp[]; results: RsvpResult[] } {
+    const rsvps = [...(reminder.rsvps || [])];
+    const occurrence = reply.occurrence
+        ? parseIcsDate(reply.occurrence, reminder.timeZone || serverTimeZone()).date.toISOString()
+        : undefined;
+    const respondedAt = (reply.stamp || receivedAt).toISOString();
+    const invited = new Set(inviteRecipients(reminder).map(attendee => attendee.email.toLowerCase()));
+    const isDelegate = (key: string) => rsvps.some(rsvp => rsvp.delegatedTo?.toLowerCase() === key);
+
+    const results = reply.attendees.map((attendee): RsvpResult => {
+        const key = attendee.email.toLowerCase();
+        const result = {
+            uid: reply.uid,
+            email: attendee.email,
+            response: attendee.response,
+            reminderId: reminder.id,
+            task: reminder.task,
+            ...(occurrence ? { occurrence } : {})
+        };
+        if (!invited.has(key) && !isDelegate(key)) {
+            return { ...result, outcome: 'unknown-attendee' };
+        }
+        if (reply.sequence < (reminder.rsvpSequence || 0)) {
+            return { ...result, outcome: 'stale' };
+        }
+
+        const index = rsvps.findIndex(rsvp => rsvp.email.toLowerCase() === key && rsvp.occurrence === occurrence);
+        const previous = index === -1 ? undefined : rsvps[index];
+        if (previous && previous.respondedAt > respondedAt) {
+            return { ...result, outcome: 'stale' };
+        }
+        if (previous && previous.respondedAt === respondedAt && previous.response === attendee.response) {
+            return { ...result, outcome: 'unchanged' };
+        }
+        const entry: AttendeeRsvp = {
+            email: attendee.email,
+            response: attendee.response,
+            respondedAt,
+            ...(occurrence ? { occurrence } : {}),
+            ...(attendee.response === 'delegated' && attendee.delegatedTo ? { delegatedTo: attendee.delegatedTo } : {}),
+            ...(attendee.comment ? { comment: attendee.comment } : {})
+        };
+        if (index === -1) {
+            rsvps.push(entry);
+        } else {
+            rsvps[index] = entry;
+        }
+        return { ...result, outcome: 'recorded' };
+    });
+    return { rsvps, results };
+}
+
+/**
+ * Record replies on the reminders whose sent invites they answer. `canAccess` limits which
+ * reminders a caller's replies may touch; replies to other events are reported as unknown.
+ */
+export async function recordRsvpReplies(
+    repository: ReminderRepository,
+    replies: RsvpReply[],
+    options: { canAccess?: (reminder: Reminder) => boolean; receivedAt?: Date } = {}
+): Promise<RsvpResult[]> {
+    const reminders = await repository.list();
+    const results: RsvpResult[] = [];
+    for (const reply of replies) {
+        // Imported events carry a UID as well, but only reminders that sent an invite get replies
+        const index = reminders.findIndex(reminder => reminder.calendarUid === reply.uid
+            && reminder.calendarSequence !== undefined
+            && (!options.canAccess || options.canAccess(reminder)));
+        if (index === -1) {
+            results.push(...reply.attendees.map(attendee => ({
+                uid: reply.uid, email: attendee.email, response: attendee.response, outcome: 'unknown-event' as const
+            })));
+            continue;
+        }
+
+        const applied = applyRsvpReply(reminders[index], reply, options.receivedAt);
+        results.push(...applied.results);
+        if (applied.results.some(result => result.outcome === 'recorded')) {
+            reminders[index] = await repository.update(reminders[index].id, { rsvps: applied.rsvps }) || reminders[index];
+        }
+    }
+    return results;
+}
+
+// --- Attendee status ---
+
+/**
+ * Everyone a reminder's invite went to, with their latest answer ('needs-action' until they reply),
+ * followed by the people they delegated to
+ */
+export function attendeeStatuses(reminder: Pick<Reminder, 'email' | 'attendees' | 'rsvps'>): AttendeeStatus[] {
+    const rsvps = reminder.rsvps || [];
+    const statusOf = (attendee: InviteAttendee, delegatedFrom?: string): AttendeeStatus => {
+        const own = rsvps.filter(rsvp => rsvp.email.toLowerCase() === attendee.email.toLowerCase());
+        const series = own.find(rsvp => !rsvp.occurrence);
+        const occurrences = own
+            .filter(rsvp => rsvp.occurrence)
+            .sort((a, b) => a.occurrence!.localeCompare(b.occurrence!))
+            .map(rsvp => ({ occurrence: rsvp.occurrence!, response: rsvp.response, respondedAt: rsvp.respondedAt }));
+        return {
+            ...attendee,
+            response: series?.response || 'needs-action',
+            ...(series ? { respondedAt: series.respondedAt } : {}),
+            ...(series?.delegatedTo ? { delegatedTo: series.delegatedTo } : {}),
+            ...(delegatedFrom ? { delegatedFrom } : {}),
+            ...(series?.comment ? { comment: series.comment } : {}),
+            ...(occurrences.length > 0 ? { occurrences } : {})
+        };
+    };
+
+    const statuses = inviteRecipients(reminder).map(attendee => statusOf(attendee));
+    for (const status of [...statuses]) {
+        const delegate = status.delegatedTo;
+        if (delegate && !statuses.some(other => other.email.toLowerCase() === delegate.toLowerCase())) {
+            statuses.push(statusOf({ email: delegate, role: status.role }, status.email));
+        }
+    }
+    return statuses;
+}
+
+/**
+ * How many attendees gave each answer, e.g. { accepted: 2, declined: 1, 'needs-action': 1 }
+ */
+export function summarizeResponses(statuses: AttendeeStatus[]): Partial<Record<AttendeeResponse, number>> {
+    const summary: Partial<Record<AttendeeResponse, number>> = {};
+    for (const response of ATTENDEE_RESPONSES) {
+        const count = statuses.filter(status => status.response === response).length;
+        if (count > 0) {
+            summary[response] = count;
+        }
+    }
+    return summary;
+}
+
+/**
+ * The responses still valid after the invite's recipients changed to `attendees`
+ * (answers of removed people and of those they delegated to are dropped)
+ */
+export function keptResponses(rsvps: AttendeeRsvp[] | undefined, attendees: InviteAttendee[]): AttendeeRsvp[] | undefined {
+    const kept = new Set(attendees.map(attendee => attendee.email.toLowerCase()));
+    for (const rsvp of rsvps || []) {
+        if (rsvp.delegatedTo && kept.has(rsvp.email.toLowerCase())) {
+            kept.add(rsvp.delegatedTo.toLowerCase());
+        }
+    }
+    const remaining = (rsvps || []).filter(rsvp => kept.has(rsvp.email.toLowerCase()));
+    return remaining.length > 0 ? remaining : undefined;
+}
@@ -0,0 +1,172 @@
+// schedule-conflicts.ts
+// 🚦 SCHEDULING CONFLICTS
+//
+// Keeps "dentist at 3 PM" from being booked on top of "team meeting at 3 PM":
+// - a reminder is busy from its due time for its duration: the event's duration, else the one
+//   suggested for its task (duration-suggestions.ts); repeating reminders at every occurrence
+// - a new reminder overlapping any of its owner's open reminders is a conflict (repeating ones
+//   are checked CONFLICT_HORIZON_DAYS ahead)
+// - free slots are the next gaps of a given length inside the owner's working hours
+//   (working-calendar.ts), skipping weekends and holidays
+// - all-day reminders (birthdays, "conference Nov 4-6") book no time slot and never conflict
+
+import { Reminder } from './reminder-store';
+import { occurrencesInWindow } from './reminder-query';
+import { WorkingCalendar, isWorkingDay } from './working-calendar';
+import { formatInZone, fromZonedWall, toZonedWall } from './timezone';
+
+export interface BusyInterval {
+    id: string;
+    task: string;
+    start: Date;
+    end: Date;
+}
+
+export interface ScheduleConflict {
+    id: string; // the reminder already booked
+    task: string;
+    start: string;
+    end: string;
+}
+
+export interface FreeSlot {
+    start: string;
+    end: string; // start plus the requested length
+    freeUntil: string; // end of the free window the slot opens
+}
+
+export interface FreeSlotSearch {
+    from: Date;
+    to: Date;
+    minutes: number;
+    calendar: WorkingCalendar;
+    timeZone: string; // zone the working hours are read in
+    count: number;
+}
+
+// Repeating reminders are checked for conflicts over this many days ahead
+export const CONFLICT_HORIZON_DAYS = 60;
+// Free slots are searched this many days ahead unless the caller gives a window
+export const DEFAULT_FREE_SLOT_SEARCH_DAYS = 14;
+export const MAX_FREE_SLOT_SEARCH_DAYS = 90;
+export const MAX_FREE_SLOTS = 20;
+
+// Slots start on the quarter hour
+const SLOT_STEP_MS = 15 * 60 * 1000;
+const MAX_OCCURRENCES = 500;
+const MINUTE_MS = 60 * 1000;
+
+type Schedule = Pick<Reminder, 'dueAt' | 'recurrence' | 'seriesStartAt' | 'timeZone' | 'allDayStart'>;
+
+/**
+ * Start times a new reminder would occupy: its due time, or its occurrences within the horizon
+ */
+export function plannedOccurrences(schedule: Schedule, now: Date = new Date()): Date[] {
+    if (schedule.allDayStart) {
+        return [];
+    }
+    if (!schedule.recurrence) {
+        return [new Date(schedule.dueAt)];
+    }
+    const horizon = new Date(now.getTime() + CONFLICT_HORIZON_DAYS * 24 * 60 * MINUTE_MS);
+    return occurrencesInWindow(schedule, now, horizon, MAX_OCCURRENCES);
+}
+
+/**
+ * Busy time between `from` and `to`, sorted by start. Completed and all-day reminders are free time.
+ *
+ * @param durationOf - minutes each reminder lasts
+ */
+export function busyIntervals(reminders: Reminder[], from: Date, to: Date, durationOf: (reminder: Reminder) => number): BusyInterval[] {
+    const busy: BusyInterval[] = [];
+    for (const reminder of reminders) {
+        if (reminder.status === 'completed' || reminder.allDayStart) {
+            continue;
+        }
+        const length = durationOf(reminder) * MINUTE_MS;
+        // An occurrence that started before `from` may still be running
+        for (const start of occurrencesInWindow(reminder, new Date(from.getTime() - length), to, MAX_OCCURRENCES)) {
+            const end = new Date(start.getTime() + length);
+            if (start < to && end > from) {
+                busy.push({ id: reminder.id, task: reminder.task, start, end });
+            }
+        }
+    }
+    return busy.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Booked intervals overlapping any of `starts` lasting `minutes` (touching ends do not overlap)
+ */
+export function findConflicts(starts: Date[], minutes: number, busy: BusyInterval[]): ScheduleConflict[] {
+    const conflicts = new Map<string, ScheduleConflict>();
+    for (const start of starts) {
+        const end = new Date(start.getTime() + minutes * MINUTE_MS);
+        for (const interval of busy.filter(interval => interval.start < end && start < interval.end)) {
+            conflicts.set(`${interval.id}|${interval.start.toISOString()}`, {
+                id: interval.id,
+                task: interval.task,
+                start: interval.start.toISOString(),
+                end: interval.end.toISOString()
+            });
+        }
+    }
+    return [...conflicts.values()];
+}
+
+/**
+ * "overlaps "Team meeting" (Tuesday, October 20, 2026 at 3:00 PM UTC)" and friends, for messages
+ */
+export function describeConflicts(conflicts: ScheduleConflict[], timeZone: string): string {
+    const shown = conflicts.slice(0, 3).map(conflict => `"${conflict.task}" (${formatInZone(new Date(conflict.start), timeZone)})`);
+    const more = conflicts.length > shown.length ? ` and ${conflicts.length - shown.length} more` : '';
+    return `overlaps ${shown.join(', ')}${more}`;
+}
+
+/**
+ * The next free windows of `minutes` inside working hours, one slot per window
+ */
+export function findFreeSlots(busy: BusyInterval[], { from, to, minutes, calendar, timeZone, count }: FreeSlotSearch): FreeSlot[] {
+    const slots: FreeSlot[] = [];
+    const length = minutes * MINUTE_MS;
+    const roundUp = (time: number) => Math.ceil(time / SLOT_STEP_MS) * SLOT_STEP_MS;
+    const offer = (start: number, freeUntil: number) => {
+        if (freeUntil - start >= length) {
+            slots.push({
+                start: new Date(start).toISOString(),
+                end: new Date(start + length).toISOString(),
+                freeUntil: new Date(freeUntil).toISOString()
+            });
+        }
+    };
+
+    const firstDay = toZonedWall(from, timeZone);
+    firstDay.setUTCHours(0, 0, 0, 0);
+    for (let day = firstDay; slots.length < count; day = new Date(day.getTime() + 24 * 60 * MINUTE_MS)) {
+        const dayStart = fromZonedWall(new Date(day.getTime() + calendar.workHours.start * MINUTE_MS), timeZone);
+        if (dayStart >= to) {
+            break;
+        }
+        if (!isWorkingDay(day, calendar)) {
+            continue;
+        }
+        const dayEnd = fromZonedWall(new Date(day.getTime() + calendar.workHours.end * MINUTE_MS), timeZone);
+        const windowEnd = Math.min(dayEnd.getTime(), to.getTime());
+
+        let cursor = roundUp(Math.max(dayStart.getTime(), from.getTime()));
+        for (const interval of busy) {
+            if (interval.end.getTime() <= cursor) {
+                continue;
+            }
+            if (interval.start.getTime() >= windowEnd || slots.length >= count) {
+                break;
+            }
+            offer(cursor, interval.start.getTime());
+            cursor = Math.max(cursor, roundUp(interval.end.getTime()));
+        }
+        if (slots.length < count) {
+            offer(cursor, windowEnd);
+        }
+    }
+    return slots;
+}
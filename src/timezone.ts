@@ -0,0 +1,256 @@
+// timezone.ts
+// 🌍 TIME ZONE HELPERS
+//
+// Reminders are stored as UTC instants, but "tomorrow at 9 AM" means 9 AM on
+// the caller's wall clock. These helpers convert wall-clock times in an IANA
+// zone ("Europe/Berlin") to instants and back, using the ICU data built into
+// Node (no time zone library needed).
+//
+// Date arithmetic on wall-clock times uses "wall dates": Date objects whose
+// UTC fields hold the wall clock of the zone. They never hit DST gaps, so
+// setUTCDate()/setUTCHours() behave like calendar arithmetic. Convert with
+// toZonedWall() on the way in and fromZonedWall() on the way out.
+//
+// Which zone applies: the request's timeZone, else the user's preference,
+// else REMINDER_DEFAULT_TIMEZONE, else the server's own zone.
+
+export interface WallClockTime {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+    second?: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatterCache.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit'
+        });
+        formatterCache.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+/**
+ * Whether the runtime knows this IANA zone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        formatterFor(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Wall-clock time of an instant in a zone
+ */
+export function wallClockInZone(instant: Date, timeZone: string): WallClockTime {
+    const parts: Record<string, number> = {};
+    for (const part of formatterFor(timeZone).formatToParts(instant)) {
+        if (part.type !== 'literal') {
+            parts[part.type] = parseInt(part.value);
+        }
+    }
+    return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+}
+
+/**
+ * Offset of a zone from UTC at an instant, in minutes (Berlin in summer → 120)
+ */
+export function zoneOffsetMinutes(instant: Date, timeZone: string): number {
+    const wall = wallClockInZone(instant, timeZone);
+    const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second || 0);
+    return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60_000);
+}
+
+/**
+ * Instant at which the wall clock in `timeZone` shows the given time.
+ * Times skipped by a DST jump move forward by the jump (2:30 on a spring-forward night in
+ * New York → 3:30 EDT); times repeated when clocks fall back resolve to the first of the two,
+ * as RFC 5545 reads DTSTART in such gaps and overlaps.
+ */
+export function zonedTimeToInstant(wall: WallClockTime, timeZone: string): Date {
+    const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second || 0);
+    // The offsets in force before and after any DST change near this wall time
+    const offsetBefore = zoneOffsetMinutes(new Date(asUtc - HALF_DAY_MS), timeZone);
+    const offsetAfter = zoneOffsetMinutes(new Date(asUtc + HALF_DAY_MS), timeZone);
+    const matches = [offsetBefore, offsetAfter]
+        .map(offset => asUtc - offset * 60_000)
+        .filter(instant => sameWallClock(wallClockInZone(new Date(instant), timeZone), wall))
+        .sort((a, b) => a - b);
+    // No match: the time was skipped, so it is read with the offset from before the jump
+    return new Date(matches.length > 0 ? matches[0] : asUtc - offsetBefore * 60_000);
+}
+
+const HALF_DAY_MS = 12 * 60 * 60 * 1000;
+
+function sameWallClock(a: WallClockTime, b: WallClockTime): boolean {
+    return a.year === b.year && a.month === b.month && a.day === b.day
+        && a.hour === b.hour && a.minute === b.minute && (a.second || 0) === (b.second || 0);
+}
+
+/**
+ * Default zone when neither the request nor the user specifies one
+ */
+export function serverTimeZone(): string {
+    const configured = process.env.REMINDER_DEFAULT_TIMEZONE;
+    if (configured && isValidTimeZone(configured)) {
+        return configured;
+    }
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Raised for unknown IANA zone names (mapped to HTTP 400)
+ */
+export class TimeZoneError extends Error {
+    constructor(timeZone: string) {
+        super(`Unknown time zone '${timeZone}'. Use an IANA name such as 'Europe/Berlin' or 'America/New_York'`);
+        this.name = 'TimeZoneError';
+    }
+}
+
+/**
+ * Pick the first zone that is set, in priority order (request, user preference, ...),
+ * falling back to the server default. An explicitly requested but unknown zone is an error.
+ */
+export function resolveTimeZone(...candidates: (string | undefined | null)[]): string {
+    for (const candidate of candidates) {
+        if (!candidate) {
+            continue;
+        }
+        if (!isValidTimeZone(candidate)) {
+            throw new TimeZoneError(candidate);
+        }
+        return candidate;
+    }
+    return serverTimeZone();
+}
+
+/**
+ * Wall date (UTC fields = wall clock in the zone) for an instant
+ */
+export function toZonedWall(instant: Date, timeZone: string): Date {
+    const wall = wallClockInZone(instant, timeZone);
+    return new Date(Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second || 0, instant.getUTCMilliseconds()));
+}
+
+/**
+ * Instant for a wall date produced by toZonedWall()
+ */
+export function fromZonedWall(wallDate: Date, timeZone: string): Date {
+    const instant = zonedTimeToInstant({
+        year: wallDate.getUTCFullYear(),
+        month: wallDate.getUTCMonth() + 1,
+        day: wallDate.getUTCDate(),
+        hour: wallDate.getUTCHours(),
+        minute: wallDate.getUTCMinutes(),
+        second: wallDate.getUTCSeconds()
+    }, timeZone);
+    return new Date(instant.getTime() + wallDate.getUTCMilliseconds());
+}
+
+/**
+ * Human-readable time in a zone, e.g. "Tuesday, November 3, 2026 at 9:00 AM CET"
+ */
+export function formatInZone(
+    instant: Date,
+    timeZone: string,
+    options: Intl.DateTimeFormatOptions = { dateStyle: 'full', timeStyle: 'short' },
+    dateLocale = 'en-US'
+): string {
+    const formatted = instant.toLocaleString(dateLocale, { ...options, timeZone });
+    if (!options.timeStyle) {
+        return formatted;
+    }
+    const zoneName = new Intl.DateTimeFormat(dateLocale, { timeZone, timeZoneName: 'short' })
+        .formatToParts(instant)
+        .find(part => part.type === 'timeZoneName')?.value;
+    return zoneName ? `${formatted} ${zoneName}` : formatted;
+}
+
+/**
+ * VTIMEZONE component for a zone, derived from the DST transitions of `year`.
+ * Calendar clients need it to expand recurring events that use TZID start times.
+ */
+export function buildVTimezone(timeZone: string, year: number): string {
+    const transitions = findTransitions(timeZone, year);
+    const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+
+    if (transitions.length === 0) {
+        const offset = formatOffset(zoneOffsetMinutes(new Date(Date.UTC(year, 0, 1)), timeZone));
+        lines.push('BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD');
+    }
+
+    for (const transition of transitions) {
+        const kind = transition.to > transition.from ? 'DAYLIGHT' : 'STANDARD';
+        // Observance start is the wall time just before the change, in the old offset
+        const wall = new Date(transition.at.getTime() + transition.from * 60_000);
+        const pad = (value: number) => String(value).padStart(2, '0');
+        const weekday = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'][wall.getUTCDay()];
+        const daysInMonth = new Date(Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth() + 1, 0)).getUTCDate();
+        const ordinal = wall.getUTCDate() + 7 > daysInMonth ? -1 : Math.ceil(wall.getUTCDate() / 7);
+
+        lines.push(
+            `BEGIN:${kind}`,
+            `DTSTART:1970${pad(wall.getUTCMonth() + 1)}${pad(wall.getUTCDate())}T${pad(wall.getUTCHours())}${pad(wall.getUTCMinutes())}00`,
+            `RRULE:FREQ=YEARLY;BYMONTH=${wall.getUTCMonth() + 1};BYDAY=${ordinal}${weekday}`,
+            `TZOFFSETFROM:${formatOffset(transition.from)}`,
+            `TZOFFSETTO:${formatOffset(transition.to)}`,
+            `END:${kind}`
+        );
+    }
+
+    lines.push('END:VTIMEZONE');
+    return lines.join('\r\n');
+}
+
+function findTransitions(timeZone: string, year: number): { at: Date; from: number; to: number }[] {
+    const transitions: { at: Date; from: number; to: number }[] = [];
+    const hour = 60 * 60 * 1000;
+    let time = Date.UTC(year, 0, 1);
+    const end = Date.UTC(year + 1, 0, 1);
+    let previous = zoneOffsetMinutes(new Date(time), timeZone);
+
+    // Scan day by day, then binary-search the minute of each change
+    while (time < end) {
+        const next = time + 24 * hour;
+        const offset = zoneOffsetMinutes(new Date(next), timeZone);
+        if (offset !== previous) {
+            let low = time;
+            let high = next;
+            while (high - low > 60_000) {
+                const middle = low + Math.floor((high - low) / 120_000) * 60_000;
+                if (zoneOffsetMinutes(new Date(middle), timeZone) === previous) {
+                    low = middle;
+                } else {
+                    high = middle;
+                }
+            }
+            transitions.push({ at: new Date(high), from: previous, to: offset });
+            previous = offset;
+        }
+        time = next;
+    }
+    return transitions;
+}
+
+function formatOffset(minutes: number): string {
+    const sign = minutes < 0 ? '-' : '+';
+    const absolute = Math.abs(minutes);
+    return `${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}${String(absolute % 60).padStart(2, '0')}`;
+}
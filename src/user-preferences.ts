@@ -0,0 +1,225 @@
+// user-preferences.ts
+// ⚙️ USER PREFERENCES
+//
+// Per-user settings that apply to every reminder a user creates, keyed by the
+// userId from auth.ts. Like reminders, preferences live either in memory or in
+// a JSON file (REMINDER_PREFERENCES_PATH, default data/preferences.json).
+//
+// Settings:
+// - timeZone: IANA zone used to read time phrases and render times for this user
+// - locale: language of this user's time phrases and reminder emails (see locales/)
+// - workWeek / workingHours: the user's working days and hours for business-day phrases
+//   and reminders kept to working days (see working-calendar.ts)
+// - organizerName / organizerEmail: organizer shown on this user's calendar invites (see attendees.ts)
+// - alarms: default alerts of this user's reminders and invites (see reminder-alarms.ts)
+// - calendarFeedVersion: set by reset_calendar_feed, not by update_preferences (see reminder-links.ts)
+
+import fs from 'fs';
+import path from 'path';
+import { isValidEmail } from './attendees';
+import { AlarmError, parseAlarms, validateAlarmPlan } from './reminder-alarms';
+import { ReminderAlarm } from './reminder-store';
+import { LocaleError, validateLocale } from './locales';
+import { isValidTimeZone, TimeZoneError } from './timezone';
+import { WorkingCalendarError, formatWorkingHours, parseWorkWeek, parseWorkingHours } from './working-calendar';
+
+export interface UserPreferences {
+    timeZone?: string;
+    locale?: string;
+    workWeek?: string[]; // RRULE day codes, e.g. ['MO', 'TU', 'WE', 'TH', 'FR']
+    workingHours?: string; // "09:00-17:00"
+    organizerName?: string;
+    organizerEmail?: string;
+    alarms?: ReminderAlarm[]; // relative alarms only; [] means none
+    calendarFeedVersion?: number; // bumped by reset_calendar_feed to revoke the user's feed URLs
+    updatedAt?: string;
+}
+
+/**
+ * Raised for invalid preference values (mapped to HTTP 400)
+ */
+export class PreferenceError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PreferenceError';
+    }
+}
+
+export interface UserPreferencesRepository {
+    get(userId: string): Promise<UserPreferences>;
+    update(userId: string, changes: Partial<UserPreferences>): Promise<UserPreferences>;
+}
+
+/**
+ * Validate loosely-typed tool arguments into preference changes.
+ * An empty string clears a setting.
+ */
+export function parsePreferenceChanges(params: Record<string, any>): Partial<UserPreferences> {
+    const changes: Partial<UserPreferences> = {};
+
+    if (params.timeZone !== undefined) {
+        const timeZone = String(params.timeZone).trim();
+        if (timeZone && !isValidTimeZone(timeZone)) {
+            throw new PreferenceError(new TimeZoneError(timeZone).message);
+        }
+        changes.timeZone = timeZone || undefined;
+    }
+
+    if (params.locale !== undefined) {
+        const locale = String(params.locale).trim();
+        try {
+            changes.locale = locale ? validateLocale(locale) : undefined;
+        } catch (error) {
+            throw new PreferenceError(error instanceof LocaleError ? error.message : String(error));
+        }
+    }
+
+    try {
+        if (params.workWeek !== undefined) {
+            const empty = Array.isArray(params.workWeek) ? params.workWeek.length === 0 : !String(params.workWeek).trim();
+            changes.workWeek = empty ? undefined : parseWorkWeek(params.workWeek);
+        }
+        if (params.workingHours !== undefined) {
+            const hours = String(params.workingHours).trim();
+            changes.workingHours = hours ? formatWorkingHours(parseWorkingHours(hours)) : undefined;
+        }
+    } catch (error) {
+        throw new PreferenceError(error instanceof WorkingCalendarError ? error.message : String(error));
+    }
+
+    if (params.organizerName !== undefined) {
+        const name = String(params.organizerName).trim();
+        if (/[\r\n"<>]/.test(name)) {
+            throw new PreferenceError('organizerName must not contain quotes, angle brackets or line breaks');
+        }
+        changes.organizerName = name || undefined;
+    }
+
+    if (params.organizerEmail !== undefined) {
+        const email = String(params.organizerEmail).trim();
+        if (email && !isValidEmail(email)) {
+            throw new PreferenceError(`Invalid organizerEmail '${email}'`);
+        }
+        changes.organizerEmail = email || undefined;
+    }
+
+    if (params.alarms !== undefined) {
+        try {
+            const cleared = params.alarms === null || (typeof params.alarms === 'string' && !params.alarms.trim());
+            changes.alarms = cleared ? undefined : validateAlarmPlan(parseAlarms(params.alarms), { defaults: true });
+        } catch (error) {
+            throw new PreferenceError(error instanceof AlarmError ? error.message : String(error));
+        }
+    }
+
+    if (Object.keys(changes).length === 0) {
+        throw new PreferenceError('No preferences to update. Supported: timeZone, locale, workWeek, workingHours, organizerName, organizerEmail, alarms');
+    }
+    return changes;
+}
+
+/**
+ * Keeps preferences in process memory. Data is lost on restart.
+ */
+export class InMemoryUserPreferencesRepository implements UserPreferencesRepository {
+    private preferences: Map<string, UserPreferences>;
+
+    constructor(initial: Record<string, UserPreferences> = {}) {
+        this.preferences = new Map(Object.entries(initial).map(([userId, prefs]) => [userId, structuredClone(prefs)]));
+    }
+
+    async get(userId: string): Promise<UserPreferences> {
+        return structuredClone(this.preferences.get(userId) || {});
+    }
+
+    async update(userId: string, changes: Partial<UserPreferences>): Promise<UserPreferences> {
+        const updated: UserPreferences = { ...(this.preferences.get(userId) || {}), ...structuredClone(changes), updatedAt: new Date().toISOString() };
+        for (const key of Object.keys(updated) as (keyof UserPreferences)[]) {
+            if (updated[key] === undefined) {
+                delete updated[key];
+            }
+        }
+        this.preferences.set(userId, updated);
+        return structuredClone(updated);
+    }
+
+    toJSON(): Record<string, UserPreferences> {
+        return Object.fromEntries(this.preferences);
+    }
+}
+
+/**
+ * Persists preferences to a JSON file ({ "userId": { ...preferences } }),
+ * written through a temp file + rename like the reminder store.
+ */
+export class FileUserPreferencesRepository implements UserPreferencesRepository {
+    private filePath: string;
+    private memory: InMemoryUserPreferencesRepository | null = null;
+    private loading: Promise<InMemoryUserPreferencesRepository> | null = null;
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(filePath: string) {
+        this.filePath = path.resolve(filePath);
+    }
+
+    async get(userId: string): Promise<UserPreferences> {
+        return (await this.load()).get(userId);
+    }
+
+    async update(userId: string, changes: Partial<UserPreferences>): Promise<UserPreferences> {
+        const updated = await (await this.load()).update(userId, changes);
+        await this.persist();
+        return updated;
+    }
+
+    /**
+     * Read the file once; calls made while that read is in flight share it
+     */
+    private load(): Promise<InMemoryUserPreferencesRepository> {
+        if (!this.loading) {
+            this.loading = this.read().catch(error => {
+                this.loading = null;
+                throw error;
+            });
+        }
+        return this.loading;
+    }
+
+    private async read(): Promise<InMemoryUserPreferencesRepository> {
+        let stored: Record<string, UserPreferences> = {};
+        try {
+            stored = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw new Error(`Failed to load preferences ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        }
+
+        this.memory = new InMemoryUserPreferencesRepository(stored);
+        return this.memory;
+    }
+
+    private persist(): Promise<void> {
+        const write = async () => {
+            const tempPath = `${this.filePath}.tmp`;
+            await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+            await fs.promises.writeFile(tempPath, JSON.stringify(this.memory ? this.memory.toJSON() : {}, null, 2), 'utf8');
+            await fs.promises.rename(tempPath, this.filePath);
+        };
+
+        this.writeQueue = this.writeQueue.then(write, write);
+        return this.writeQueue;
+    }
+}
+
+/**
+ * Pick the preferences store to match the reminder store (REMINDER_STORE=memory keeps both in memory)
+ */
+export function createUserPreferencesRepository(): UserPreferencesRepository {
+    if (process.env.REMINDER_STORE === 'memory') {
+        return new InMemoryUserPreferencesRepository();
+    }
+    const filePath = process.env.REMINDER_PREFERENCES_PATH || path.join('data', 'preferences.json');
+    console.log(`⚙️  Using preferences file at ${path.resolve(filePath)}`);
+    return new FileUserPreferencesRepository(filePath);
+}
@@ -0,0 +1,255 @@
+// working-calendar.ts
+// 🏢 WORKING CALENDAR
+//
+// Which days and hours count as working time, for phrases like "next business day",
+// "in 3 working days", "2 working days before Nov 20" or "end of business day", and
+// for reminders that must not land on a weekend or holiday.
+// - work week and working hours: per user (user-preferences.ts), Monday–Friday 9:00–17:00 by default
+// - holidays: a shared file (REMINDER_HOLIDAYS_PATH, default data/holidays.json), either
+//   JSON ({ "holidays": [{ "date": "2026-12-25", "name": "Christmas Day" }] }) or an .ics
+//   calendar with one all-day event per holiday; re-read whenever it changes
+//
+// Days are wall dates (UTC fields = the calendar date), as in calendar-utils.ts.
+
+import fs from 'fs';
+import path from 'path';
+import { findComponents, getProperty, getText, parseIcs } from './ics-parser';
+import { fromZonedWall, toZonedWall } from './timezone';
+
+export interface Holiday {
+    date: string; // YYYY-MM-DD
+    name?: string;
+}
+
+export interface WorkingCalendar {
+    workDays: number[];                            // 0 = Sunday … 6 = Saturday
+    workHours: { start: number; end: number };     // minutes after midnight
+    holidays: Holiday[];
+}
+
+/**
+ * Raised for invalid work weeks, working hours or holiday files (mapped to HTTP 400)
+ */
+export class WorkingCalendarError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WorkingCalendarError';
+    }
+}
+
+export const WORK_DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export const DEFAULT_WORKING_CALENDAR: WorkingCalendar = {
+    workDays: [1, 2, 3, 4, 5],
+    workHours: { start: 9 * 60, end: 17 * 60 },
+    holidays: []
+};
+
+// A working day is always found within this many days (holidays cannot fill a whole year)
+const MAX_SEARCH_DAYS = 366;
+
+const DAY_NAMES: Record<string, number> = {
+    su: 0, sun: 0, sunday: 0,
+    mo: 1, mon: 1, monday: 1,
+    tu: 2, tue: 2, tues: 2, tuesday: 2,
+    we: 3, wed: 3, wednesday: 3,
+    th: 4, thu: 4, thur: 4, thurs: 4, thursday: 4,
+    fr: 5, fri: 5, friday: 5,
+    sa: 6, sat: 6, saturday: 6
+};
+
+const dateKey = (day: Date) => day.toISOString().slice(0, 10);
+const addDays = (day: Date, days: number) => new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate() + days));
+
+/**
+ * Parse a work week: "mon-fri", "MO,TU,WE,TH", ["sunday", "thursday"] → sorted RRULE day codes
+ */
+export function parseWorkWeek(value: unknown): string[] {
+    const parts = (Array.isArray(value) ? value.map(String) : String(value ?? '').split(/[,\s]+/))
+        .map(part => part.trim().toLowerCase())
+        .filter(Boolean);
+    const days = new Set<number>();
+    for (const part of parts) {
+        const range = part.split('-');
+        const [from, to] = [DAY_NAMES[range[0]], DAY_NAMES[range[range.length - 1]]];
+        if (range.length > 2 || from === undefined || to === undefined) {
+            throw new WorkingCalendarError(`Unknown work day '${part}'. Use day names or ranges like "mon-fri"`);
+        }
+        for (let day = from; ; day = (day + 1) % 7) {
+            days.add(day);
+            if (day === to) break;
+        }
+    }
+    if (days.size === 0) {
+        throw new WorkingCalendarError('The work week needs at least one day');
+    }
+    return [...days].sort().map(day => WORK_DAY_CODES[day]);
+}
+
+/**
+ * Parse working hours "09:00-17:30" (or "9-17") into minutes after midnight
+ */
+export function parseWorkingHours(value: unknown): { start: number; end: number } {
+    const match = String(value ?? '').trim().match(/^(\d{1,2})(?::(\d{2}))?\s*-\s*(\d{1,2})(?::(\d{2}))?$/);
+    const toMinutes = (hour: string, minute?: string) => parseInt(hour) * 60 + parseInt(minute || '0');
+    const hours = match ? { start: toMinutes(match[1], match[2]), end: toMinutes(match[3], match[4]) } : null;
+    if (!hours || hours.start >= hours.end || hours.end > 24 * 60 || parseInt(match![2] || '0') > 59 || parseInt(match![4] || '0') > 59) {
+        throw new WorkingCalendarError(`Invalid working hours '${value}'. Use a range like "09:00-17:00"`);
+    }
+    return hours;
+}
+
+export function formatWorkingHours(hours: { start: number; end: number }): string {
+    const format = (minutes: number) => `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+    return `${format(hours.start)}-${format(hours.end)}`;
+}
+
+/**
+ * The calendar for a user: their work week and hours (defaults where unset) plus the shared holidays
+ */
+export function buildWorkingCalendar(settings: { workWeek?: string[]; workingHours?: string }, holidays: Holiday[] = []): WorkingCalendar {
+    return {
+        workDays: settings.workWeek ? settings.workWeek.map(code => WORK_DAY_CODES.indexOf(code)) : DEFAULT_WORKING_CALENDAR.workDays,
+        workHours: settings.workingHours ? parseWorkingHours(settings.workingHours) : DEFAULT_WORKING_CALENDAR.workHours,
+        holidays
+    };
+}
+
+export function holidayOn(day: Date, calendar: WorkingCalendar): Holiday | undefined {
+    const key = dateKey(day);
+    return calendar.holidays.find(holiday => holiday.date === key);
+}
+
+export function isWorkingDay(day: Date, calendar: WorkingCalendar): boolean {
+    return calendar.workDays.includes(day.getUTCDay()) && !holidayOn(day, calendar);
+}
+
+/**
+ * First working day on or after `day`
+ */
+export function nextWorkingDay(day: Date, calendar: WorkingCalendar): Date {
+    for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+        const candidate = addDays(day, offset);
+        if (isWorkingDay(candidate, calendar)) {
+            return candidate;
+        }
+    }
+    throw new WorkingCalendarError('No working day within a year; check the work week and holidays');
+}
+
+/**
+ * Move `days` working days forward (or back, when negative) from `day`.
+ * Counting starts from the next/previous day, so 1 from a Friday is the following Monday.
+ */
+export function addWorkingDays(day: Date, days: number, calendar: WorkingCalendar): Date {
+    const step = days < 0 ? -1 : 1;
+    let remaining = Math.abs(days);
+    let current = day;
+    for (let searched = 0; remaining > 0; searched++) {
+        if (searched > MAX_SEARCH_DAYS * Math.max(1, Math.abs(days))) {
+            throw new WorkingCalendarError('No working day within a year; check the work week and holidays');
+        }
+        current = addDays(current, step);
+        if (isWorkingDay(current, calendar)) {
+            remaining--;
+        }
+    }
+    return current;
+}
+
+/**
+ * Keep the wall-clock time of an instant but move it off weekends and holidays
+ */
+export function rollToWorkingDay(instant: Date, timeZone: string, calendar: WorkingCalendar): Date {
+    const wall = toZonedWall(instant, timeZone);
+    const day = new Date(Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate()));
+    const workingDay = nextWorkingDay(day, calendar);
+    if (workingDay.getTime() === day.getTime()) {
+        return instant;
+    }
+    wall.setUTCFullYear(workingDay.getUTCFullYear(), workingDay.getUTCMonth(), workingDay.getUTCDate());
+    return fromZonedWall(wall, timeZone);
+}
+
+/**
+ * Read a holiday list: JSON ({ "holidays": [...] } or a bare array) or iCalendar text
+ */
+export function parseHolidays(text: string, format: 'json' | 'ics'): Holiday[] {
+    if (format === 'ics') {
+        const holidays: Holiday[] = [];
+        for (const event of findComponents(parseIcs(text), 'VEVENT')) {
+            const start = getProperty(event, 'DTSTART')?.value.match(/^(\d{4})(\d{2})(\d{2})/);
+            if (!start) {
+                continue;
+            }
+            const first = new Date(Date.UTC(parseInt(start[1]), parseInt(start[2]) - 1, parseInt(start[3])));
+            // DTEND of an all-day event is exclusive: a two-day holiday ends on the third day
+            const end = getProperty(event, 'DTEND')?.value.match(/^(\d{4})(\d{2})(\d{2})/);
+            const last = end ? addDays(new Date(Date.UTC(parseInt(end[1]), parseInt(end[2]) - 1, parseInt(end[3]))), -1) : first;
+            const name = getText(event, 'SUMMARY');
+            for (let day = first; day <= last || day.getTime() === first.getTime(); day = addDays(day, 1)) {
+                holidays.push({ date: dateKey(day), ...(name ? { name } : {}) });
+            }
+        }
+        return holidays;
+    }
+
+    const raw = JSON.parse(text);
+    const list = Array.isArray(raw) ? raw : raw?.holidays;
+    if (!Array.isArray(list)) {
+        throw new WorkingCalendarError('Expected an array of holidays or an object with a "holidays" array');
+    }
+    return list.map((entry: any, index: number) => {
+        const date = typeof entry === 'string' ? entry : entry?.date;
+        if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+            throw new WorkingCalendarError(`holidays[${index}].date must be a YYYY-MM-DD date`);
+        }
+        return { date, ...(typeof entry?.name === 'string' ? { name: entry.name } : {}) };
+    });
+}
+
+/**
+ * Reads the holiday file, re-reading it when it changes on disk.
+ * A missing file means no holidays.
+ */
+export class HolidayFile {
+    private filePath: string;
+    private cached: { mtimeMs: number; holidays: Holiday[] } | null = null;
+
+    constructor(filePath: string) {
+        this.filePath = path.resolve(filePath);
+    }
+
+    async load(): Promise<Holiday[]> {
+        let stat: fs.Stats;
+        try {
+            stat = await fs.promises.stat(this.filePath);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+
+        if (this.cached && this.cached.mtimeMs === stat.mtimeMs) {
+            return this.cached.holidays;
+        }
+
+        let holidays: Holiday[];
+        try {
+            const format = this.filePath.toLowerCase().endsWith('.ics') ? 'ics' : 'json';
+            holidays = parseHolidays(await fs.promises.readFile(this.filePath, 'utf8'), format);
+        } catch (error) {
+            throw new Error(`Failed to load holidays ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+        this.cached = { mtimeMs: stat.mtimeMs, holidays };
+        return holidays;
+    }
+}
+
+/**
+ * Holiday file from REMINDER_HOLIDAYS_PATH (default data/holidays.json)
+ */
+export function createHolidayFile(): HolidayFile {
+    return new HolidayFile(process.env.REMINDER_HOLIDAYS_PATH || path.join('data', 'holidays.json'));
+}
@@ -0,0 +1,139 @@
+// caldav-sync.test.ts
+// 🧪 CALDAV SYNC
+//
+// The client talks to a CalDAV server on localhost that keeps resources and ETags in memory
+// and, like a real one, answers a PUT over a version it no longer has with 412.
+
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { CalDavClient, CalDavConfig, CalDavSync } from '../src/caldav-sync';
+import { InMemoryReminderRepository, Reminder } from '../src/reminder-store';
+
+const resources = new Map<string, { body: string; etag: string }>();
+let collectionTag = 'ctag-1';
+let version = 0;
+let listing: string | undefined; // multistatus to answer the next Depth: 1 PROPFIND with
+let afterListing: (() => void) | undefined; // runs once the next listing went out
+
+const multistatus = (responses: string) =>
+    `<?xml version="1.0" encoding="utf-8"?>\n<D:multistatus xmlns:D="DAV:" xmlns:CS="http://calendarserver.org/ns/">${responses}</D:multistatus>`;
+const etagResponse = (path: string, etag: string) =>
+    `<D:response><D:href>${encodeURI(path)}</D:href><D:propstat><D:prop><D:getetag>${etag.replace(/"/g, '&quot;')}</D:getetag><D:resourcetype/></D:prop><D:status>HTTP/1.1 200 OK</D:status></D:propstat></D:response>`;
+
+const server = http.createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => body += chunk);
+    request.on('end', () => {
+        const path = decodeURIComponent(new URL(request.url!, 'http://localhost').pathname);
+        const resource = resources.get(path);
+        const send = (status: number, text = '', headers: Record<string, string> = {}) => {
+            response.writeHead(status, headers);
+            response.end(text);
+        };
+
+        if (request.method === 'PROPFIND' && path === '/cal/' && request.headers.depth === '0') {
+            return send(207, multistatus(`<D:response><D:href>/cal/</D:href><D:propstat><D:prop><CS:getctag>${collectionTag}</CS:getctag></D:prop><D:status>HTTP/1.1 200 OK</D:status></D:propstat></D:response>`));
+        }
+        if (request.method === 'PROPFIND' && path === '/cal/') {
+            send(207, listing || multistatus([...resources].map(([href, { etag }]) => etagResponse(href, etag)).join('')));
+            listing = undefined;
+            afterListing?.();
+            afterListing = undefined;
+            return;
+        }
+        if (request.method === 'PROPFIND') {
+            return resource ? send(207, multistatus(etagResponse(path, resource.etag))) : send(404);
+        }
+        if (request.method === 'GET') {
+            return resource ? send(200, resource.body, { ETag: resource.etag }) : send(404);
+        }
+        if (request.method === 'PUT') {
+            const ifMatch = request.headers['if-match'];
+            if ((request.headers['if-none-match'] === '*' && resource) || (ifMatch && ifMatch !== '*' && ifMatch !== resource?.etag)) {
+                return send(412);
+            }
+            resources.set(path, { body, etag: `"${++version}"` });
+            collectionTag = `ctag-${version}`;
+            return send(resource ? 204 : 201); // no ETag header: the client asks for it
+        }
+        if (request.method === 'DELETE') {
+            resources.delete(path);
+            return send(204);
+        }
+        send(405);
+    });
+});
+
+const config = async (): Promise<CalDavConfig> => {
+    if (!server.listening) {
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    }
+    const { port } = server.address() as AddressInfo;
+    return { collectionUrl: `http://127.0.0.1:${port}/cal/`, ownerId: 'alice', intervalMs: 300_000 };
+};
+
+after(() => server.close());
+
+const PASSPORT: Reminder = {
+    id: 'passport', ownerId: 'alice', time: 'tomorrow at 9am', task: 'Renew passport',
+    createdAt: '2026-10-19T14:00:00.000Z', updatedAt: '2026-10-19T14:00:00.000Z',
+    dueAt: '2026-10-20T13:00:00.000Z', timeZone: 'America/New_York', status: 'pending'
+};
+
+test('reads ETags from multistatus listings, skipping the collection, sub-collections and failed properties', async () => {
+    const client = new CalDavClient(await config());
+    listing = multistatus([
+        '<D:response><D:href>/cal/</D:href><D:propstat><D:prop><D:resourcetype><D:collection/><C:calendar xmlns:C="urn:ietf:params:xml:ns:caldav"/></D:resourcetype><D:getetag>"collection"</D:getetag></D:prop><D:status>HTTP/1.1 200 OK</D:status></D:propstat></D:response>',
+        '<D:response><D:href>/cal/team%20lunch.ics</D:href><D:propstat><D:prop><D:getetag>&quot;a&amp;b&quot;</D:getetag></D:prop><D:status>HTTP/1.1 200 OK</D:status></D:propstat>'
+            + '<D:propstat><D:prop><D:resourcetype/></D:prop><D:status>HTTP/1.1 404 Not Found</D:status></D:propstat></D:response>',
+        '<D:response><D:href>http://127.0.0.1/cal/archive/</D:href><D:propstat><D:prop><D:getetag>"archive"</D:getetag><D:resourcetype><D:collection/></D:resourcetype></D:prop><D:status>HTTP/1.1 200 OK</D:status></D:propstat></D:response>',
+        '<D:response><D:href>/cal/failed.ics</D:href><D:propstat><D:prop><D:getetag>"lost"</D:getetag></D:prop><D:status>HTTP/1.1 404 Not Found</D:status></D:propstat></D:response>'
+    ].join('\n'));
+    assert.deepEqual([...await client.etags()], [['/cal/team lunch.ics', '"a&b"']]);
+    assert.equal(await client.collectionTag(), collectionTag);
+});
+
+test('writes resources only over the version it knows', async () => {
+    const client = new CalDavClient(await config());
+    const href = client.hrefFor('reminder 1');
+    assert.equal(href, '/cal/reminder 1.ics');
+
+    const created = await client.put(href, 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n', null);
+    assert.equal(created?.etag, resources.get(href)?.etag);
+    assert.equal(await client.put(href, 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n', null), null);
+    assert.equal(await client.put(href, 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n', '"stale"'), null);
+    assert.ok(await client.put(href, 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n', created!.etag!));
+    await client.delete(href);
+});
+
+test('a push that loses the ETag race is settled by the next sync, server side winning', async () => {
+    const settings = await config();
+    const repository = new InMemoryReminderRepository([PASSPORT]);
+    const sync = new CalDavSync(repository, new CalDavClient(settings), settings);
+
+    assert.equal((await sync.sync()).pushed, 1);
+    const synced = (await repository.get('passport'))!;
+    assert.equal(synced.caldavHref, '/cal/passport.ics');
+    assert.equal(synced.caldavEtag, resources.get('/cal/passport.ics')?.etag);
+
+    // Edited here, and on the server right after this sync listed the collection
+    await repository.update('passport', { task: 'Renew passport and visa' });
+    afterListing = () => {
+        const body = resources.get('/cal/passport.ics')!.body
+            .replace(/^SUMMARY:.*$/m, 'SUMMARY:Renew passport online')
+            .replace(/^LAST-MODIFIED:.*\r\n/m, '');
+        resources.set('/cal/passport.ics', { body, etag: '"remote"' });
+        collectionTag = 'ctag-remote';
+    };
+    assert.deepEqual(await sync.sync(), { pushed: 0, pulled: 0, deletedHere: 0, deletedThere: 0, conflicts: 0 });
+    assert.equal((await repository.get('passport'))!.caldavEtag, synced.caldavEtag);
+
+    // The server item has no LAST-MODIFIED, so the server wins the conflict
+    assert.deepEqual(await sync.sync(), { pushed: 0, pulled: 1, deletedHere: 0, deletedThere: 0, conflicts: 1 });
+    const settled = (await repository.get('passport'))!;
+    assert.equal(settled.task, 'Renew passport online');
+    assert.equal(settled.caldavEtag, '"remote"');
+    assert.deepEqual(await sync.sync(), { pushed: 0, pulled: 0, deletedHere: 0, deletedThere: 0, conflicts: 0 });
+});
@@ -0,0 +1,91 @@
+// calendar-utils.test.ts
+// 🧪 TIME PHRASE GRAMMAR
+//
+// Phrases are read against a fixed "now": Monday 2026-10-19, 10:00 in New York (14:00 UTC).
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { clarifyTimeExpression, matchTimeExpression, parseTimeExpression, resolveTimeExpression } from '../src/calendar-utils';
+import { DEFAULT_WORKING_CALENDAR, WorkingCalendar } from '../src/working-calendar';
+
+const NOW = new Date('2026-10-19T14:00:00Z');
+const ZONE = 'America/New_York';
+
+const parse = (phrase: string) => parseTimeExpression(phrase, NOW, ZONE).toISOString();
+const match = (phrase: string) => matchTimeExpression(phrase, NOW, ZONE);
+const clarify = (phrase: string) => clarifyTimeExpression(phrase, resolveTimeExpression(phrase, NOW, ZONE), ZONE);
+
+test('reads dates, clock times and offsets', () => {
+    assert.equal(parse('tomorrow at 2:30 pm'), '2026-10-20T18:30:00.000Z');
+    assert.equal(parse('next tuesday at 14:30'), '2026-10-20T18:30:00.000Z');
+    assert.equal(parse('nov 3rd 2026'), '2026-11-03T14:00:00.000Z');
+    assert.equal(parse('11/3'), '2026-11-03T14:00:00.000Z');
+    assert.equal(parse('2026-11-03 09:00'), '2026-11-03T14:00:00.000Z');
+    assert.equal(parse('the 15th'), '2026-11-15T14:00:00.000Z');
+    assert.equal(parse('in 2 hours and 30 minutes'), '2026-10-19T16:30:00.000Z');
+    assert.equal(parse('8 tonight'), '2026-10-20T00:00:00.000Z');
+});
+
+test('names the rules that matched', () => {
+    assert.deepEqual(match('tomorrow at 2:30 pm')?.rules, ['relative-day', 'clock-12h']);
+    assert.equal(match('whenever'), null);
+});
+
+test('reads ranges of days as all-day spans', () => {
+    assert.deepEqual(match('nov 4-6')?.allDay, { firstDay: '2026-11-04', lastDay: '2026-11-06' });
+    assert.deepEqual(match('4th-6th of nov')?.allDay, { firstDay: '2026-11-04', lastDay: '2026-11-06' });
+});
+
+test('rejects hours, minutes and days that do not exist', () => {
+    for (const phrase of ['13pm', '9:75 am', "25 o'clock", 'feb 30', 'nov 31', '11/31', '2026-02-30', '2026-11-03 25:00']) {
+        assert.equal(match(phrase), null, phrase);
+    }
+    assert.equal(match('tomorrow at 13pm')?.unparsed, '13pm');
+    assert.equal(match('nov 30-31')?.allDay, undefined);
+});
+
+test('acts on clear phrases without asking', () => {
+    for (const phrase of ['tomorrow at 3pm', 'in 20 minutes', 'today', 'nov 4-6']) {
+        assert.equal(clarify(phrase), null, phrase);
+    }
+});
+
+test('asks which reading of an ambiguous phrase was meant', () => {
+    const clarification = clarify('tomorrow at 7');
+    assert.equal(clarification?.reason, 'ambiguous');
+    assert.deepEqual(clarification?.options.map(option => option.time), ['tomorrow at 7 am', 'tomorrow at 7 pm']);
+});
+
+test('asks when words about the time were not understood', () => {
+    for (const phrase of ['yesterday at 3pm', 'tomorrow at 25:00', 'tomorrow at 13pm']) {
+        assert.equal(clarify(phrase)?.reason, 'partially-understood', phrase);
+    }
+    assert.equal(clarify('whenever')?.reason, 'unrecognized');
+});
+
+test('asks when the time has already passed', () => {
+    for (const phrase of ['today at 8am', '2026-01-05', '2026-10-19T13:00:00Z']) {
+        const result = resolveTimeExpression(phrase, NOW, ZONE);
+        assert.equal(result.past, true, phrase);
+        assert.equal(clarify(phrase)?.reason, 'past', phrase);
+    }
+});
+
+test('counts business days from today or from the named date, starting at the working hours', () => {
+    assert.equal(parse('next business day'), '2026-10-20T13:00:00.000Z');
+    assert.equal(parse('in 2 business days'), '2026-10-21T13:00:00.000Z');
+    assert.equal(parse('3 working days from now'), '2026-10-22T13:00:00.000Z');
+    assert.equal(parse('2 working days before nov 20'), '2026-11-18T14:00:00.000Z');
+    assert.equal(parse('in 2 business days at 4pm'), '2026-10-21T20:00:00.000Z');
+});
+
+test('skips holidays and uses the caller\'s working hours', () => {
+    const calendar: WorkingCalendar = { ...DEFAULT_WORKING_CALENDAR, workHours: { start: 8 * 60, end: 16 * 60 }, holidays: [{ date: '2026-10-20' }] };
+    assert.equal(parseTimeExpression('next business day', NOW, ZONE, undefined, calendar).toISOString(), '2026-10-21T12:00:00.000Z');
+});
+
+test('asks for the date a business-day offset counts from when none is named', () => {
+    const clarification = clarify('two working days before the deadline');
+    assert.equal(clarification?.reason, 'missing-date');
+    assert.match(clarification!.question, /Two working days before which date\?/);
+});
@@ -0,0 +1,59 @@
+// recurrence.test.ts
+// 🧪 RECURRING REMINDERS
+//
+// Series are expanded in New York, across the end of daylight saving time on 2026-11-01.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RecurrenceRule, formatRRule, occurrencesBetween, parseRRule, parseRecurrenceExpression, resolveReminderSchedule } from '../src/recurrence';
+
+const ZONE = 'America/New_York';
+const FRIDAY_9AM = new Date('2026-10-30T13:00:00Z');
+
+const expand = (rule: RecurrenceRule, start: Date, to: string) =>
+    occurrencesBetween(rule, start, start, new Date(to), 10, ZONE).map(date => date.toISOString());
+
+test('parses and formats RRULE values', () => {
+    assert.deepEqual(parseRRule('RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4'), { frequency: 'WEEKLY', byDay: ['MO', 'WE'], count: 4 });
+    assert.equal(formatRRule(parseRRule('FREQ=MONTHLY;BYDAY=-1FR')), 'FREQ=MONTHLY;BYDAY=-1FR');
+});
+
+test('reads recurrences written in English', () => {
+    assert.deepEqual(parseRecurrenceExpression('every weekday', ZONE), { frequency: 'WEEKLY', byDay: ['MO', 'TU', 'WE', 'TH', 'FR'] });
+    assert.deepEqual(parseRecurrenceExpression('every 2 weeks on monday', ZONE), { frequency: 'WEEKLY', interval: 2, byDay: ['MO'] });
+    assert.deepEqual(parseRecurrenceExpression('last friday of every month', ZONE), { frequency: 'MONTHLY', byDay: ['-1FR'] });
+    assert.equal(parseRecurrenceExpression('tomorrow at 3pm', ZONE), null);
+});
+
+test('keeps the wall-clock time across a DST change', () => {
+    assert.deepEqual(expand(parseRRule('FREQ=WEEKLY;BYDAY=FR'), FRIDAY_9AM, '2026-11-14T00:00:00Z'), [
+        '2026-10-30T13:00:00.000Z',
+        '2026-11-06T14:00:00.000Z',
+        '2026-11-13T14:00:00.000Z'
+    ]);
+});
+
+test('skips months without the day, like RFC 5545', () => {
+    const january31 = new Date('2026-01-31T14:00:00Z');
+    assert.deepEqual(expand(parseRRule('FREQ=MONTHLY;BYMONTHDAY=31'), january31, '2026-06-01T00:00:00Z'), [
+        '2026-01-31T14:00:00.000Z',
+        '2026-03-31T13:00:00.000Z',
+        '2026-05-31T13:00:00.000Z'
+    ]);
+});
+
+test('honours COUNT and exception dates', () => {
+    assert.equal(expand(parseRRule('FREQ=DAILY;COUNT=3'), FRIDAY_9AM, '2027-01-01T00:00:00Z').length, 3);
+    assert.deepEqual(expand({ frequency: 'DAILY', exceptions: ['2026-10-31'] }, FRIDAY_9AM, '2026-11-02T23:00:00Z'), [
+        '2026-10-30T13:00:00.000Z',
+        '2026-11-01T14:00:00.000Z',
+        '2026-11-02T14:00:00.000Z'
+    ]);
+});
+
+test('schedules the first upcoming occurrence of an embedded recurrence', () => {
+    const schedule = resolveReminderSchedule('every weekday at 9am', undefined, [], new Date('2026-10-19T14:00:00Z'), ZONE);
+    assert.equal(schedule.dueAt.toISOString(), '2026-10-20T13:00:00.000Z');
+    assert.equal(schedule.timeText, 'at 9am');
+    assert.equal(schedule.recurrence?.frequency, 'WEEKLY');
+});
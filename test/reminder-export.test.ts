@@ -0,0 +1,69 @@
+// reminder-export.test.ts
+// 🧪 REMINDER EXPORT
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ExportError, ExportOptions, exportReminders, parseExportFormat } from '../src/reminder-export';
+import { Reminder } from '../src/reminder-store';
+import { de } from '../src/locales';
+
+const REMINDERS: Reminder[] = [
+    {
+        id: 'r1', ownerId: 'alice', time: 'tomorrow at 3pm', task: 'Call "Dr. Who", re: teeth',
+        createdAt: '2026-10-19T14:00:00.000Z', dueAt: '2026-10-20T19:00:00.000Z', timeZone: 'America/New_York',
+        status: 'pending', tags: ['health'], priority: 'high'
+    },
+    {
+        id: 'r2', ownerId: 'alice', time: 'nov 4-6', task: 'Conference',
+        createdAt: '2026-10-19T14:00:00.000Z', dueAt: '2026-11-04T14:00:00.000Z', timeZone: 'America/New_York',
+        status: 'pending', allDayStart: '2026-11-04', allDayEnd: '2026-11-06'
+    }
+];
+const OPTIONS: ExportOptions = { timeZone: 'America/New_York', title: 'Reminders', now: new Date('2026-10-19T14:00:00Z') };
+
+test('reads format names and their aliases', () => {
+    assert.equal(parseExportFormat('Markdown'), 'md');
+    assert.equal(parseExportFormat('ical'), 'ics');
+    assert.equal(parseExportFormat(undefined), 'md');
+    assert.throws(() => parseExportFormat('pdf'), ExportError);
+});
+
+test('writes CSV with quoted cells and defused formulas', async () => {
+    const formula: Reminder = { ...REMINDERS[1], id: 'r3', task: '=HYPERLINK("http://evil")' };
+    const exported = await exportReminders([...REMINDERS, formula], 'csv', OPTIONS);
+    const [header, first, second, third] = exported.content.trim().split('\n');
+    assert.equal(exported.filename, 'reminders-2026-10-19.csv');
+    assert.match(header, /^id,task,status,due,dueAt,/);
+    assert.match(first, /^r1,"Call ""Dr\. Who"", re: teeth",pending,2026-10-20 15:00,/);
+    assert.match(second, /^r2,Conference,pending,2026-11-04,2026-11-04T14:00:00\.000Z,2026-11-06,/);
+    assert.match(third, /^r3,"'=HYPERLINK\(""http:\/\/evil""\)",/);
+});
+
+test('writes JSON with wall times in the export zone', async () => {
+    const exported = JSON.parse((await exportReminders(REMINDERS, 'json', OPTIONS)).content);
+    assert.equal(exported.count, 2);
+    assert.equal(exported.reminders[0].due, '2026-10-20 15:00');
+    assert.deepEqual(exported.reminders[1].allDay, { firstDay: '2026-11-04', lastDay: '2026-11-06' });
+});
+
+test('writes a Markdown agenda by day, in the export language', async () => {
+    const agenda = (await exportReminders(REMINDERS, 'md', OPTIONS)).content;
+    assert.match(agenda, /^# Reminders\n\n_Oct 19, 2026, 10:00 AM · America\/New_York · 2 reminders_\n/);
+    assert.match(agenda, /## Tuesday, October 20, 2026\n\n- \[ \] \*\*3:00 PM\*\* Call "Dr\. Who", re: teeth · Priority: high · \\#health/);
+    assert.equal(agenda.match(/\*\*All day\*\* Conference/g)?.length, 3);
+
+    const german = (await exportReminders(REMINDERS.slice(0, 1), 'md', { ...OPTIONS, locale: de })).content;
+    assert.match(german, /· 1 Erinnerung_/);
+    assert.match(german, /\*\*15:00\*\*/);
+});
+
+test('writes iCalendar and jCal with one event per reminder', async () => {
+    const ics = (await exportReminders(REMINDERS, 'ics', OPTIONS)).content;
+    assert.equal(ics.match(/BEGIN:VEVENT/g)?.length, 2);
+    assert.match(ics, /DTSTART:20261020T190000Z/);
+    assert.match(ics, /DTSTART;VALUE=DATE:20261104/);
+
+    const [name, , components] = JSON.parse((await exportReminders(REMINDERS, 'jcal', OPTIONS)).content);
+    assert.equal(name, 'vcalendar');
+    assert.equal(components.filter(([component]: [string]) => component === 'vevent').length, 2);
+});
@@ -0,0 +1,52 @@
+// reminder-links.test.ts
+// 🧪 SIGNED REMINDER ACTION LINKS AND FEED TOKENS
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildCalendarFeedUrl, buildReminderActionLinks, verifyCalendarFeedToken, verifyReminderActionLink } from '../src/reminder-links';
+
+process.env.REMINDER_LINK_SECRET = 'test-secret';
+process.env.PUBLIC_BASE_URL = 'https://reminders.example.com/';
+
+const NOW = new Date('2026-10-19T14:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The parameters the /reminders/:id/:action route hands to verifyReminderActionLink
+function linkParams(url: string) {
+    const parsed = new URL(url);
+    const [, , id, action] = parsed.pathname.split('/');
+    return { id: decodeURIComponent(id), action, ...Object.fromEntries(parsed.searchParams) };
+}
+
+test('builds snooze and done links for the reminder', () => {
+    const links = buildReminderActionLinks('reminder_1', NOW);
+    assert.deepEqual(links.map(link => link.action), ['snooze', 'snooze', 'snooze', 'done']);
+    assert.ok(links.every(link => link.url.startsWith('https://reminders.example.com/reminders/reminder_1/')));
+});
+
+test('accepts its own links until they expire', () => {
+    for (const link of buildReminderActionLinks('reminder_1', NOW)) {
+        assert.equal(verifyReminderActionLink(linkParams(link.url), NOW), null);
+    }
+    const done = linkParams(buildReminderActionLinks('reminder_1', NOW)[3].url);
+    assert.equal(verifyReminderActionLink(done, new Date(NOW.getTime() + 31 * DAY_MS)), 'This link has expired.');
+});
+
+test('rejects links whose id, action, snooze or expiry was changed', () => {
+    const snooze = linkParams(buildReminderActionLinks('reminder_1', NOW)[0].url);
+    assert.equal(verifyReminderActionLink({ ...snooze, id: 'reminder_2' }, NOW), 'This link is invalid.');
+    assert.equal(verifyReminderActionLink({ ...snooze, action: 'done' }, NOW), 'This link is invalid.');
+    assert.equal(verifyReminderActionLink({ ...snooze, snooze: '1 year' }, NOW), 'This link is invalid.');
+    assert.equal(verifyReminderActionLink({ ...snooze, expires: String(NOW.getTime() + 365 * DAY_MS) }, NOW), 'This link is invalid.');
+    assert.equal(verifyReminderActionLink({ ...snooze, action: 'delete' }, NOW), "Unknown action 'delete'");
+});
+
+test('signs feed URLs per user and revokes them with a new version', () => {
+    const token = new URL(buildCalendarFeedUrl('alice', { tags: 'work' })).searchParams.get('token')!;
+    assert.equal(verifyCalendarFeedToken('alice', token), true);
+    assert.equal(verifyCalendarFeedToken('bob', token), false);
+    assert.equal(verifyCalendarFeedToken('alice', token, 1), false);
+
+    const rotated = new URL(buildCalendarFeedUrl('alice', {}, 1)).searchParams.get('token')!;
+    assert.equal(verifyCalendarFeedToken('alice', rotated, 1), true);
+});
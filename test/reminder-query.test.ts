@@ -0,0 +1,71 @@
+// reminder-query.test.ts
+// 🧪 REMINDER QUERIES
+//
+// Queries are read in New York on Monday 2026-10-19 at 10 AM; clocks fall back on Sunday Nov 1.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReminderQueryError, parseReminderQuery, queryReminders } from '../src/reminder-query';
+import { Reminder } from '../src/reminder-store';
+
+const ZONE = 'America/New_York';
+const NOW = new Date('2026-10-19T14:00:00Z');
+
+const reminder = (id: string, dueAt: string, fields: Partial<Reminder> = {}): Reminder => ({
+    id, ownerId: 'alice', time: '', task: id, createdAt: '2026-10-01T00:00:00.000Z', dueAt, timeZone: ZONE, status: 'pending', ...fields
+});
+
+const REMINDERS = [
+    reminder('monday-night', '2026-10-20T03:30:00.000Z'), // 11:30 PM Monday
+    reminder('tuesday-midnight', '2026-10-20T04:00:00.000Z'),
+    reminder('call-late', '2026-10-20T20:00:00.000Z', { task: 'Call', priority: 'high' }),
+    reminder('call-early', '2026-10-20T15:00:00.000Z', { task: 'call', priority: 'high' }),
+    reminder('wednesday-midnight', '2026-10-21T04:00:00.000Z')
+];
+
+const query = (params: Record<string, any>, reminders: Reminder[] = REMINDERS) =>
+    queryReminders(reminders, parseReminderQuery(params, NOW, ZONE)).reminders.map(reminder => reminder.id);
+
+test('reads dueOn as the whole day in the caller zone', () => {
+    const tomorrow = parseReminderQuery({ dueOn: 'tomorrow' }, NOW, ZONE);
+    assert.equal(tomorrow.from?.toISOString(), '2026-10-20T04:00:00.000Z');
+    assert.equal(tomorrow.to?.toISOString(), '2026-10-21T03:59:59.999Z');
+
+    // The day clocks fall back has 25 hours
+    const fallBack = parseReminderQuery({ dueOn: '2026-11-01' }, NOW, ZONE);
+    assert.equal(fallBack.from?.toISOString(), '2026-11-01T04:00:00.000Z');
+    assert.equal(fallBack.to?.toISOString(), '2026-11-02T04:59:59.999Z');
+
+    assert.deepEqual(query({ dueOn: 'tomorrow' }), ['tuesday-midnight', 'call-early', 'call-late']);
+});
+
+test('rejects a window that ends before it starts', () => {
+    assert.throws(() => parseReminderQuery({ from: '2026-10-21', to: '2026-10-20' }, NOW, ZONE), ReminderQueryError);
+    assert.throws(() => parseReminderQuery({ dueOn: 'tomorrow', to: 'today at 9am' }, NOW, ZONE), /'from' must be before 'to'/);
+});
+
+test('matches repeating and all-day reminders by any day in the window', () => {
+    const weekly = reminder('weekly', '2026-10-20T13:00:00.000Z', {
+        recurrence: { frequency: 'WEEKLY', byDay: ['TU', 'FR'] }, seriesStartAt: '2026-10-16T13:00:00.000Z'
+    });
+    const trip = reminder('trip', '2026-10-19T04:00:00.000Z', { allDayStart: '2026-10-19', allDayEnd: '2026-10-21' });
+    assert.deepEqual(query({ dueOn: '2026-10-23' }, [weekly, trip]), ['weekly']);
+    assert.deepEqual(query({ dueOn: '2026-10-22' }, [weekly, trip]), []);
+    assert.deepEqual(query({ dueOn: '2026-10-21' }, [weekly, trip]), ['trip']);
+});
+
+test('breaks sort ties by the soonest due time, whatever the order', () => {
+    assert.deepEqual(query({ sortBy: 'task' }).slice(0, 2), ['call-early', 'call-late']);
+    assert.deepEqual(query({ sortBy: 'priority', order: 'desc' }).slice(0, 2), ['call-early', 'call-late']);
+    assert.throws(() => parseReminderQuery({ sortBy: 'email' }, NOW, ZONE), ReminderQueryError);
+});
+
+test('pages with limit and offset and counts every match', () => {
+    const page = queryReminders(REMINDERS, parseReminderQuery({ limit: '2', offset: '1' }, NOW, ZONE));
+    assert.equal(page.total, 5);
+    assert.deepEqual(page.reminders.map(reminder => reminder.id), ['tuesday-midnight', 'call-early']);
+
+    assert.equal(parseReminderQuery({ limit: 1000 }, NOW, ZONE).limit, 200);
+    assert.throws(() => parseReminderQuery({ limit: 0 }, NOW, ZONE), ReminderQueryError);
+    assert.throws(() => parseReminderQuery({ offset: -1 }, NOW, ZONE), ReminderQueryError);
+});
@@ -0,0 +1,101 @@
+// rsvp-replies.test.ts
+// 🧪 RSVP REPLIES
+//
+// Replies answer the invite for a reminder on Tuesday 2026-10-20 that went to Bob and Dana.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RsvpReply, attendeeStatuses, parseRsvpReplies, recordRsvpReplies } from '../src/rsvp-replies';
+import { InMemoryReminderRepository, Reminder } from '../src/reminder-store';
+
+const UID = 'reminder-1@reminders.example.com';
+
+const MEETING: Reminder = {
+    id: 'meeting', ownerId: 'alice', time: 'tomorrow at 3pm', task: 'Budget review',
+    createdAt: '2026-10-19T14:00:00.000Z', dueAt: '2026-10-20T19:00:00.000Z', timeZone: 'America/New_York', status: 'pending',
+    email: 'bob@example.com',
+    attendees: [{ email: 'bob@example.com', role: 'required' }, { email: 'dana@example.com', role: 'optional' }],
+    calendarUid: UID, calendarSequence: 1, rsvpSequence: 1
+};
+
+// An iMIP reply as a calendar app sends it
+const replyIcs = (attendees: string[], { sequence = 1, stamp = '20261019T150000Z', method = 'REPLY', uid = UID } = {}) => [
+    'BEGIN:VCALENDAR', 'VERSION:2.0', `METHOD:${method}`,
+    'BEGIN:VEVENT', `UID:${uid}`, `SEQUENCE:${sequence}`, `DTSTAMP:${stamp}`, ...attendees, 'END:VEVENT',
+    'END:VCALENDAR', ''
+].join('\r\n');
+
+const record = async (repository: InMemoryReminderRepository, ics: string) =>
+    (await recordRsvpReplies(repository, parseRsvpReplies(ics))).map(result => [result.email, result.outcome]);
+
+test('reads the attendees, sequence and stamp of METHOD:REPLY calendars only', () => {
+    const replies = parseRsvpReplies(replyIcs([
+        'ATTENDEE;PARTSTAT=DELEGATED;DELEGATED-TO="mailto:carol@example.com":mailto:bob@example.com',
+        'ATTENDEE;PARTSTAT=MAYBE:mailto:dana@example.com'
+    ], { sequence: 2 }));
+    assert.deepEqual(replies, [{
+        uid: UID, sequence: 2, stamp: new Date('2026-10-19T15:00:00Z'), occurrence: undefined,
+        attendees: [{ email: 'bob@example.com', response: 'delegated', delegatedTo: 'carol@example.com' }]
+    }] satisfies RsvpReply[]);
+
+    assert.deepEqual(parseRsvpReplies(replyIcs(['ATTENDEE;PARTSTAT=ACCEPTED:mailto:bob@example.com'], { method: 'REQUEST' })), []);
+});
+
+test('records answers of invited attendees to sent invites only', async () => {
+    const imported: Reminder = { ...MEETING, id: 'imported', calendarUid: 'imported@example.com', calendarSequence: undefined };
+    const repository = new InMemoryReminderRepository([MEETING, imported]);
+
+    assert.deepEqual(await record(repository, replyIcs([
+        'ATTENDEE;PARTSTAT=ACCEPTED:mailto:BOB@example.com',
+        'ATTENDEE;PARTSTAT=ACCEPTED:mailto:mallory@example.com'
+    ])), [['BOB@example.com', 'recorded'], ['mallory@example.com', 'unknown-attendee']]);
+    assert.deepEqual(await record(repository, replyIcs(['ATTENDEE;PARTSTAT=ACCEPTED:mailto:bob@example.com'], { uid: imported.calendarUid })),
+        [['bob@example.com', 'unknown-event']]);
+
+    const statuses = attendeeStatuses((await repository.get('meeting'))!);
+    assert.deepEqual(statuses.map(status => [status.email, status.response]), [
+        ['bob@example.com', 'accepted'], ['dana@example.com', 'needs-action']
+    ]);
+});
+
+test('ignores replies to an invite sent before the event moved', async () => {
+    const repository = new InMemoryReminderRepository([{ ...MEETING, calendarSequence: 2, rsvpSequence: 2 }]);
+    const accepted = ['ATTENDEE;PARTSTAT=ACCEPTED:mailto:bob@example.com'];
+
+    assert.deepEqual(await record(repository, replyIcs(accepted, { sequence: 1 })), [['bob@example.com', 'stale']]);
+    assert.equal((await repository.get('meeting'))!.rsvps, undefined);
+    assert.deepEqual(await record(repository, replyIcs(accepted, { sequence: 2 })), [['bob@example.com', 'recorded']]);
+});
+
+test('keeps the latest answer by DTSTAMP, whatever order replies arrive in', async () => {
+    const repository = new InMemoryReminderRepository([MEETING]);
+    const declined = ['ATTENDEE;PARTSTAT=DECLINED:mailto:dana@example.com'];
+    const accepted = ['ATTENDEE;PARTSTAT=ACCEPTED:mailto:dana@example.com'];
+
+    assert.deepEqual(await record(repository, replyIcs(declined, { stamp: '20261019T160000Z' })), [['dana@example.com', 'recorded']]);
+    assert.deepEqual(await record(repository, replyIcs(accepted, { stamp: '20261019T150000Z' })), [['dana@example.com', 'stale']]);
+    assert.deepEqual(await record(repository, replyIcs(declined, { stamp: '20261019T160000Z' })), [['dana@example.com', 'unchanged']]);
+    assert.deepEqual(await record(repository, replyIcs(accepted, { stamp: '20261019T170000Z' })), [['dana@example.com', 'recorded']]);
+
+    assert.deepEqual((await repository.get('meeting'))!.rsvps, [
+        { email: 'dana@example.com', response: 'accepted', respondedAt: '2026-10-19T17:00:00.000Z' }
+    ]);
+});
+
+test('accepts answers from the person an attendee delegated to', async () => {
+    const repository = new InMemoryReminderRepository([MEETING]);
+    const carolAccepts = replyIcs(['ATTENDEE;PARTSTAT=ACCEPTED:mailto:carol@example.com'], { stamp: '20261019T170000Z' });
+
+    assert.deepEqual(await record(repository, carolAccepts), [['carol@example.com', 'unknown-attendee']]);
+    assert.deepEqual(await record(repository, replyIcs([
+        'ATTENDEE;PARTSTAT=DELEGATED;DELEGATED-TO="mailto:carol@example.com":mailto:bob@example.com'
+    ])), [['bob@example.com', 'recorded']]);
+    assert.deepEqual(await record(repository, carolAccepts), [['carol@example.com', 'recorded']]);
+
+    const statuses = attendeeStatuses((await repository.get('meeting'))!);
+    assert.deepEqual(statuses.map(status => [status.email, status.response, status.delegatedTo || status.delegatedFrom]), [
+        ['bob@example.com', 'delegated', 'carol@example.com'],
+        ['dana@example.com', 'needs-action', undefined],
+        ['carol@example.com', 'accepted', 'bob@example.com']
+    ]);
+});
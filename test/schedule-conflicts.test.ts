@@ -0,0 +1,73 @@
+// schedule-conflicts.test.ts
+// 🧪 SCHEDULING CONFLICTS
+//
+// Reminders are booked in New York around Friday 2026-10-30; clocks fall back on Sunday Nov 1.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { busyIntervals, findConflicts, findFreeSlots } from '../src/schedule-conflicts';
+import { Reminder } from '../src/reminder-store';
+import { DEFAULT_WORKING_CALENDAR } from '../src/working-calendar';
+
+const ZONE = 'America/New_York';
+
+const reminder = (id: string, dueAt: string, fields: Partial<Reminder> = {}): Reminder => ({
+    id, ownerId: 'alice', time: '', task: id, createdAt: '2026-10-01T00:00:00.000Z', dueAt, timeZone: ZONE, status: 'pending', ...fields
+});
+
+const MEETING = reminder('meeting', '2026-10-30T14:00:00.000Z', { durationMinutes: 60 }); // 10-11 AM
+const STANDUP = reminder('standup', '2026-10-30T13:00:00.000Z', { recurrence: { frequency: 'DAILY' }, seriesStartAt: '2026-10-19T13:00:00.000Z' }); // 9 AM daily
+const DONE = reminder('done', '2026-10-30T16:00:00.000Z', { status: 'completed' });
+const BIRTHDAY = reminder('birthday', '2026-10-30T13:00:00.000Z', { allDayStart: '2026-10-30', allDayEnd: '2026-10-30' });
+
+const minutesOf = (reminder: Reminder) => reminder.durationMinutes || 30;
+const busyOn = (reminders: Reminder[], from: string, to: string) => busyIntervals(reminders, new Date(from), new Date(to), minutesOf);
+
+test('books open timed reminders, including occurrences still running at the window start', () => {
+    const busy = busyOn([MEETING, STANDUP, DONE, BIRTHDAY], '2026-10-30T13:10:00Z', '2026-10-31T00:00:00Z');
+    assert.deepEqual(busy.map(interval => [interval.id, interval.start.toISOString(), interval.end.toISOString()]), [
+        ['standup', '2026-10-30T13:00:00.000Z', '2026-10-30T13:30:00.000Z'],
+        ['meeting', '2026-10-30T14:00:00.000Z', '2026-10-30T15:00:00.000Z']
+    ]);
+});
+
+test('back-to-back events that only touch do not conflict', () => {
+    const busy = busyOn([MEETING], '2026-10-30T00:00:00Z', '2026-10-31T00:00:00Z');
+    assert.deepEqual(findConflicts([new Date('2026-10-30T15:00:00Z')], 30, busy), []);
+    assert.deepEqual(findConflicts([new Date('2026-10-30T13:30:00Z')], 30, busy), []);
+    assert.deepEqual(findConflicts([new Date('2026-10-30T14:30:00Z')], 60, busy).map(conflict => conflict.id), ['meeting']);
+});
+
+test('an occurrence of a repeating reminder conflicts', () => {
+    const busy = busyOn([STANDUP], '2026-10-30T00:00:00Z', '2026-11-03T00:00:00Z');
+    assert.deepEqual(findConflicts([new Date('2026-10-30T13:15:00Z')], 30, busy), [
+        { id: 'standup', task: 'standup', start: '2026-10-30T13:00:00.000Z', end: '2026-10-30T13:30:00.000Z' }
+    ]);
+    // Each occurrence is its own conflict: a daily 9:15 AM reminder hits 9 AM Friday, Saturday and Sunday (EST from Nov 1)
+    const starts = ['2026-10-30T13:15:00Z', '2026-10-31T13:15:00Z', '2026-11-01T14:15:00Z'].map(start => new Date(start));
+    assert.deepEqual(findConflicts(starts, 30, busy).map(conflict => conflict.start), [
+        '2026-10-30T13:00:00.000Z', '2026-10-31T13:00:00.000Z', '2026-11-01T14:00:00.000Z'
+    ]);
+});
+
+test('free slots start on the quarter hour inside working hours', () => {
+    const slots = findFreeSlots([], {
+        from: new Date('2026-10-30T14:05:00Z'), to: new Date('2026-10-31T00:00:00Z'),
+        minutes: 30, calendar: DEFAULT_WORKING_CALENDAR, timeZone: ZONE, count: 1
+    });
+    assert.deepEqual(slots, [{ start: '2026-10-30T14:15:00.000Z', end: '2026-10-30T14:45:00.000Z', freeUntil: '2026-10-30T21:00:00.000Z' }]);
+});
+
+test('free slots go around busy time and skip weekends and holidays', () => {
+    const calendar = { ...DEFAULT_WORKING_CALENDAR, holidays: [{ date: '2026-11-02' }] };
+    const from = '2026-10-30T14:05:00Z';
+    const to = '2026-11-10T00:00:00Z';
+    const slots = findFreeSlots(busyOn([MEETING], from, to), {
+        from: new Date(from), to: new Date(to), minutes: 60, calendar, timeZone: ZONE, count: 2
+    });
+    // After Friday's meeting, the next working day is Tuesday; 9 AM is now EST
+    assert.deepEqual(slots, [
+        { start: '2026-10-30T15:00:00.000Z', end: '2026-10-30T16:00:00.000Z', freeUntil: '2026-10-30T21:00:00.000Z' },
+        { start: '2026-11-03T14:00:00.000Z', end: '2026-11-03T15:00:00.000Z', freeUntil: '2026-11-03T22:00:00.000Z' }
+    ]);
+});
@@ -0,0 +1,48 @@
+// timezone.test.ts
+// 🧪 TIME ZONES
+//
+// 2026 DST changes: New York springs forward on Mar 8 and falls back on Nov 1,
+// Berlin on Mar 29 and Oct 25.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TimeZoneError, buildVTimezone, resolveTimeZone, wallClockInZone, zoneOffsetMinutes, zonedTimeToInstant } from '../src/timezone';
+import { parseTimeExpression } from '../src/calendar-utils';
+
+const instant = (year: number, month: number, day: number, hour: number, minute: number, timeZone: string) =>
+    zonedTimeToInstant({ year, month, day, hour, minute }, timeZone).toISOString();
+
+test('converts wall-clock times to instants with the offset in force', () => {
+    assert.equal(instant(2026, 7, 1, 9, 0, 'America/New_York'), '2026-07-01T13:00:00.000Z');
+    assert.equal(instant(2026, 12, 1, 9, 0, 'America/New_York'), '2026-12-01T14:00:00.000Z');
+    assert.equal(zoneOffsetMinutes(new Date('2026-07-01T12:00:00Z'), 'Europe/Berlin'), 120);
+    assert.deepEqual(wallClockInZone(new Date('2026-07-01T13:00:00Z'), 'America/New_York'), { year: 2026, month: 7, day: 1, hour: 9, minute: 0, second: 0 });
+});
+
+test('moves times skipped by spring forward ahead by the jump', () => {
+    assert.equal(instant(2026, 3, 8, 2, 30, 'America/New_York'), '2026-03-08T07:30:00.000Z');
+    assert.equal(instant(2026, 3, 29, 2, 30, 'Europe/Berlin'), '2026-03-29T01:30:00.000Z');
+});
+
+test('reads times repeated by fall back as the first of the two', () => {
+    assert.equal(instant(2026, 11, 1, 1, 30, 'America/New_York'), '2026-11-01T05:30:00.000Z');
+    assert.equal(instant(2026, 10, 25, 2, 30, 'Europe/Berlin'), '2026-10-25T00:30:00.000Z');
+});
+
+test('reads time phrases on the wall clock of the given zone', () => {
+    const now = new Date('2026-10-19T14:00:00Z');
+    assert.equal(parseTimeExpression('tomorrow at 9am', now, 'Europe/Berlin').toISOString(), '2026-10-20T07:00:00.000Z');
+    assert.equal(parseTimeExpression('tomorrow at 9am', now, 'America/New_York').toISOString(), '2026-10-20T13:00:00.000Z');
+});
+
+test('rejects unknown zones and falls back to the server zone', () => {
+    assert.throws(() => resolveTimeZone('Mars/Olympus'), TimeZoneError);
+    assert.equal(resolveTimeZone(undefined, 'Europe/Berlin'), 'Europe/Berlin');
+});
+
+test('writes both DST rules into a VTIMEZONE', () => {
+    const vtimezone = buildVTimezone('Europe/Berlin', 2026);
+    assert.match(vtimezone, /TZID:Europe\/Berlin/);
+    assert.match(vtimezone, /BEGIN:DAYLIGHT[\s\S]*TZOFFSETTO:\+0200/);
+    assert.match(vtimezone, /BEGIN:STANDARD[\s\S]*TZOFFSETTO:\+0100/);
+});